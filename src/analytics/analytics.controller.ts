@@ -0,0 +1,30 @@
+import { Body, Controller, HttpCode, Post } from '@nestjs/common';
+import { AnalyticsService } from './analytics.service';
+import type { TalentPoolReport } from './analytics.service';
+import { TalentPoolDto } from './dto';
+
+@Controller('analytics')
+export class AnalyticsController {
+  constructor(private readonly analyticsService: AnalyticsService) {}
+
+  /**
+   * Tamanho e distribuição do mercado de talentos para os critérios
+   * (senioridade, local, área, empresas, certificações e atualização)
+   * POST /analytics/talent-pool
+   *
+   * Body:
+   * {
+   *   "criteria": {
+   *     "roleTitles": ["engenheiro de dados"],
+   *     "seniorities": ["ESPECIALISTA"],
+   *     "locations": ["Curitiba"]
+   *   },
+   *   "top": 10
+   * }
+   */
+  @Post('talent-pool')
+  @HttpCode(200)
+  async talentPool(@Body() dto: TalentPoolDto): Promise<TalentPoolReport> {
+    return this.analyticsService.talentPool(dto.criteria, { top: dto.top });
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { AnalyticsController } from './analytics.controller';
+import { AnalyticsService } from './analytics.service';
+import { NaturalQueryModule } from '../natural-query/natural-query.module';
+
+@Module({
+  imports: [NaturalQueryModule],
+  controllers: [AnalyticsController],
+  providers: [AnalyticsService],
+  exports: [AnalyticsService],
+})
+export class AnalyticsModule {}
@@ -0,0 +1,79 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { AnalyticsService } from './analytics.service';
+import { CriteriaCompilerService } from '../natural-query/criteria-compiler.service';
+import { SqlGuardService } from '../natural-query/sql-guard.service';
+import { ClickHouseService } from '../clickhouse/clickhouse.service';
+
+describe('AnalyticsService', () => {
+  let service: AnalyticsService;
+  const query = jest.fn();
+
+  beforeEach(async () => {
+    query.mockReset();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AnalyticsService,
+        CriteriaCompilerService,
+        SqlGuardService,
+        { provide: ClickHouseService, useValue: { query } },
+        { provide: ConfigService, useValue: new ConfigService({}) },
+      ],
+    }).compile();
+
+    service = module.get<AnalyticsService>(AnalyticsService);
+  });
+
+  it('should aggregate the search filter with GROUP BY queries', async () => {
+    query.mockImplementation(({ query: sql }: { query: string }) => {
+      if (sql.startsWith('SELECT count() AS total')) {
+        return Promise.resolve([{ total: '40' }]);
+      }
+      if (sql.includes('seniority AS value')) {
+        return Promise.resolve([
+          { value: 'ESPECIALISTA', total: '30' },
+          { value: 'ANALISTA', total: '10' },
+        ]);
+      }
+      if (sql.includes('multiIf')) {
+        return Promise.resolve([
+          { value: 'até 30 dias', total: '25' },
+          { value: 'sem data', total: '15' },
+        ]);
+      }
+      return Promise.resolve([]);
+    });
+
+    const report = await service.talentPool(
+      { roleTitles: ['data engineer'], cities: ['Curitiba'] },
+      { top: 5 },
+    );
+
+    expect(query).toHaveBeenCalledTimes(9);
+    const calls = query.mock.calls as [
+      { query: string; params: Record<string, unknown> },
+    ][];
+    for (const [call] of calls) {
+      expect(call.query).toContain('city IN {');
+      expect(Object.values(call.params)).toContainEqual(['CURITIBA']);
+    }
+    expect(calls.map(([call]) => call.query).join('\n')).toContain(
+      'uniqExact(profile_id) AS total',
+    );
+    expect(report.total).toBe(40);
+    expect(report.seniorities).toEqual([
+      { value: 'ESPECIALISTA', count: 30, share: 0.75 },
+      { value: 'ANALISTA', count: 10, share: 0.25 },
+    ]);
+    expect(report.freshness.map((b) => [b.value, b.count])).toEqual([
+      ['até 30 dias', 25],
+      ['31 a 90 dias', 0],
+      ['91 a 180 dias', 0],
+      ['181 a 365 dias', 0],
+      ['mais de 1 ano', 0],
+      ['sem data', 15],
+    ]);
+    expect(report.description).toContain('CURITIBA');
+  });
+});
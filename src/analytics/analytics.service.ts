@@ -0,0 +1,220 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ClickHouseService } from '../clickhouse/clickhouse.service';
+import { SqlGuardService } from '../natural-query/sql-guard.service';
+import {
+  CompiledFilter,
+  CriteriaCompilerService,
+  SearchCriteria,
+} from '../natural-query/criteria-compiler.service';
+
+// Valores por distribuição (top N)
+export const DEFAULT_TOP_VALUES = 10;
+
+// Faixas de atualização do perfil (updated_at), da mais recente para a mais antiga
+export const FRESHNESS_BUCKETS = [
+  { label: 'até 30 dias', maxDays: 30 },
+  { label: '31 a 90 dias', maxDays: 90 },
+  { label: '91 a 180 dias', maxDays: 180 },
+  { label: '181 a 365 dias', maxDays: 365 },
+  { label: 'mais de 1 ano', maxDays: null },
+] as const;
+
+const UNDATED_LABEL = 'sem data';
+
+// Nomes das certificações, aceitando JSON (objetos ou strings) e texto
+// separado por vírgula, ponto e vírgula ou quebra de linha
+const CERTIFICATION_NAMES = `if(
+  isValidJSON(certifications) AND JSONType(certifications) = 'Array',
+  arrayMap(
+    c -> if(
+      JSONType(c) = 'Object',
+      coalesce(nullIf(JSONExtractString(c, 'name'), ''), JSONExtractString(c, 'title')),
+      JSONExtractString(c)
+    ),
+    JSONExtractArrayRaw(certifications)
+  ),
+  splitByRegexp('[\\\\n;,]', certifications)
+)`;
+
+export interface TalentPoolBucket {
+  value: string;
+  count: number;
+  /** Fração do total de perfis (0 a 1) */
+  share: number;
+}
+
+export interface TalentPoolReport {
+  criteria: SearchCriteria;
+  /** Critérios em texto, como exibidos na busca */
+  description: string;
+  total: number;
+  seniorities: TalentPoolBucket[];
+  states: TalentPoolBucket[];
+  cities: TalentPoolBucket[];
+  macroareas: TalentPoolBucket[];
+  areas: TalentPoolBucket[];
+  companies: TalentPoolBucket[];
+  certifications: TalentPoolBucket[];
+  /** Perfis por tempo desde a última atualização, na ordem de FRESHNESS_BUCKETS */
+  freshness: TalentPoolBucket[];
+  generatedAt: string;
+}
+
+export interface TalentPoolOptions {
+  /** Valores por distribuição (padrão: DEFAULT_TOP_VALUES) */
+  top?: number;
+}
+
+interface BucketRow {
+  value: string;
+  total: string | number;
+}
+
+/**
+ * Mapeamento de mercado: quantos perfis atendem aos critérios e como se
+ * distribuem por senioridade, local, área, empresa, certificação e
+ * atualização. As agregações usam o mesmo filtro da busca
+ * (CriteriaCompilerService.compileFilter), sem SQL escrita pelo modelo.
+ */
+@Injectable()
+export class AnalyticsService {
+  private readonly logger = new Logger(AnalyticsService.name);
+
+  constructor(
+    private readonly clickhouseService: ClickHouseService,
+    private readonly sqlGuard: SqlGuardService,
+    private readonly criteriaCompiler: CriteriaCompilerService,
+  ) {}
+
+  async talentPool(
+    rawCriteria: SearchCriteria,
+    options: TalentPoolOptions = {},
+  ): Promise<TalentPoolReport> {
+    const criteria = this.criteriaCompiler.normalize(rawCriteria);
+    const filter = this.criteriaCompiler.compileFilter(criteria);
+    const top = options.top || DEFAULT_TOP_VALUES;
+
+    this.logger.log(`Mapeamento de mercado: ${JSON.stringify(criteria)}`);
+
+    const [
+      total,
+      seniorities,
+      states,
+      cities,
+      macroareas,
+      areas,
+      companies,
+      certifications,
+      freshness,
+    ] = await Promise.all([
+      this.count(filter),
+      this.distribution(filter, 'seniority', top),
+      this.distribution(filter, 'state', top),
+      this.distribution(filter, 'city', top),
+      this.distribution(filter, 'macroarea', top),
+      this.distribution(filter, 'area', top),
+      this.distribution(filter, 'current_company', top),
+      this.distribution(
+        filter,
+        `trimBoth(arrayJoin(${CERTIFICATION_NAMES}))`,
+        top,
+        {
+          distinctProfiles: true,
+        },
+      ),
+      this.freshness(filter),
+    ]);
+
+    const withShare = (rows: BucketRow[]): TalentPoolBucket[] =>
+      rows.map((row) => {
+        const count = Number(row.total) || 0;
+        return {
+          value: row.value,
+          count,
+          share: total > 0 ? Math.round((count / total) * 10000) / 10000 : 0,
+        };
+      });
+
+    return {
+      criteria,
+      description: this.criteriaCompiler.describe(criteria),
+      total,
+      seniorities: withShare(seniorities),
+      states: withShare(states),
+      cities: withShare(cities),
+      macroareas: withShare(macroareas),
+      areas: withShare(areas),
+      companies: withShare(companies),
+      certifications: withShare(certifications),
+      freshness: withShare(freshness),
+      generatedAt: new Date().toISOString(),
+    };
+  }
+
+  private async count(filter: CompiledFilter): Promise<number> {
+    const [row] = await this.run<{ total: string | number }>(
+      `SELECT count() AS total FROM ${filter.from} ${filter.where}`,
+      filter,
+      1,
+    );
+    return Number(row?.total) || 0;
+  }
+
+  /**
+   * Top valores de uma expressão, ignorando vazios. Com distinctProfiles,
+   * conta perfis distintos (expressões com arrayJoin repetem o perfil).
+   */
+  private distribution(
+    filter: CompiledFilter,
+    expression: string,
+    top: number,
+    { distinctProfiles = false } = {},
+  ): Promise<BucketRow[]> {
+    const total = distinctProfiles ? 'uniqExact(profile_id)' : 'count()';
+    return this.run<BucketRow>(
+      `SELECT ${expression} AS value, ${total} AS total
+       FROM ${filter.from} ${filter.where}
+       GROUP BY value
+       HAVING value != ''
+       ORDER BY total DESC, value ASC
+       LIMIT ${top}`,
+      filter,
+      top,
+    );
+  }
+
+  private async freshness(filter: CompiledFilter): Promise<BucketRow[]> {
+    const age = `dateDiff('day', toDateOrNull(substring(updated_at, 1, 10)), today())`;
+    const branches = FRESHNESS_BUCKETS.filter((b) => b.maxDays !== null).map(
+      (b) => `${age} <= ${b.maxDays}, '${b.label}'`,
+    );
+    const labels = [...FRESHNESS_BUCKETS.map((b) => b.label), UNDATED_LABEL];
+    const oldest = labels[labels.length - 2];
+
+    const rows = await this.run<BucketRow>(
+      `SELECT multiIf(${age} IS NULL, '${UNDATED_LABEL}', ${branches.join(', ')}, '${oldest}') AS value,
+              count() AS total
+       FROM ${filter.from} ${filter.where}
+       GROUP BY value`,
+      filter,
+      labels.length,
+    );
+
+    return labels.map((label) => ({
+      value: label,
+      total: rows.find((row) => row.value === label)?.total ?? 0,
+    }));
+  }
+
+  private run<T>(
+    query: string,
+    filter: CompiledFilter,
+    maxRows: number,
+  ): Promise<T[]> {
+    return this.clickhouseService.query<T>({
+      query,
+      params: filter.params,
+      settings: this.sqlGuard.getReadonlySettings(maxRows),
+    });
+  }
+}
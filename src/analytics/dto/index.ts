@@ -0,0 +1 @@
+export * from './talent-pool.dto';
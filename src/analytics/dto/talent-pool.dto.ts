@@ -0,0 +1,23 @@
+import {
+  IsDefined,
+  IsInt,
+  IsOptional,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { SearchCriteriaDto } from '../../natural-query/dto/search-criteria.dto';
+
+export class TalentPoolDto {
+  @IsDefined()
+  @ValidateNested()
+  @Type(() => SearchCriteriaDto)
+  criteria: SearchCriteriaDto;
+
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  @IsOptional()
+  top?: number;
+}
@@ -0,0 +1,3 @@
+export * from './analytics.module';
+export * from './analytics.service';
+export * from './analytics.controller';
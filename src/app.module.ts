@@ -4,8 +4,19 @@ import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { ClickHouseModule } from './clickhouse/clickhouse.module';
 import { OpenAIModule } from './openai/openai.module';
+import { LlmModule } from './llm/llm.module';
 import { NaturalQueryModule } from './natural-query/natural-query.module';
 import { JobsModule } from './jobs/jobs.module';
+import { ExportsModule } from './exports/exports.module';
+import { ProfilesModule } from './profiles/profiles.module';
+import { MatchingModule } from './matching/matching.module';
+import { OntologyModule } from './ontology/ontology.module';
+import { LocationsModule } from './locations/locations.module';
+import { CompaniesModule } from './companies/companies.module';
+import { AnalyticsModule } from './analytics/analytics.module';
+import { CacheModule } from './cache/cache.module';
+import { UsageModule } from './usage/usage.module';
+import { AuditModule } from './audit/audit.module';
 
 @Module({
   imports: [
@@ -15,8 +26,19 @@ import { JobsModule } from './jobs/jobs.module';
     }),
     ClickHouseModule,
     OpenAIModule,
+    LlmModule,
     NaturalQueryModule,
     JobsModule,
+    ExportsModule,
+    ProfilesModule,
+    MatchingModule,
+    OntologyModule,
+    LocationsModule,
+    CompaniesModule,
+    AnalyticsModule,
+    CacheModule,
+    UsageModule,
+    AuditModule,
   ],
   controllers: [AppController],
   providers: [AppService],
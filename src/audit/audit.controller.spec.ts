@@ -0,0 +1,48 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ForbiddenException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AuditController } from './audit.controller';
+import { AuditService } from './audit.service';
+
+describe('AuditController', () => {
+  const search = jest.fn();
+
+  const createController = async (config: Record<string, string>) => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [AuditController],
+      providers: [
+        { provide: AuditService, useValue: { search } },
+        { provide: ConfigService, useValue: new ConfigService(config) },
+      ],
+    }).compile();
+    return module.get<AuditController>(AuditController);
+  };
+
+  beforeEach(() => {
+    search.mockReset().mockResolvedValue([]);
+  });
+
+  it('should refuse every request when no admin token is configured', async () => {
+    const controller = await createController({});
+
+    await expect(controller.search({}, undefined)).rejects.toThrow(
+      ForbiddenException,
+    );
+    await expect(controller.search({}, 'qualquer')).rejects.toThrow(
+      'Auditoria desabilitada: defina AUDIT_ADMIN_TOKEN',
+    );
+    expect(search).not.toHaveBeenCalled();
+  });
+
+  it('should require the configured admin token', async () => {
+    const controller = await createController({ AUDIT_ADMIN_TOKEN: 'segredo' });
+
+    await expect(controller.search({}, 'errado')).rejects.toThrow(
+      'Token de administração inválido',
+    );
+    await expect(
+      controller.search({ userId: 'ana' }, 'segredo'),
+    ).resolves.toEqual([]);
+    expect(search).toHaveBeenCalledWith({ userId: 'ana' });
+  });
+});
@@ -0,0 +1,44 @@
+import {
+  Controller,
+  ForbiddenException,
+  Get,
+  Headers,
+  Query,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AuditService } from './audit.service';
+import type { AuditLogEntry } from './audit.service';
+import { AuditQueryDto } from './dto';
+
+@Controller('audit')
+export class AuditController {
+  constructor(
+    private readonly auditService: AuditService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Trilha de auditoria das buscas, exportações e envios ao ClickUp (mais
+   * recentes primeiro, até 100 por padrão).
+   * Exige o header X-Admin-Token igual a AUDIT_ADMIN_TOKEN; sem o token
+   * configurado a rota fica fechada (a trilha contém dados pessoais).
+   * GET /audit?userId=ana&from=2026-10-01&to=2026-10-31
+   * GET /audit?profileId=abc123&operation=export
+   */
+  @Get()
+  async search(
+    @Query() dto: AuditQueryDto,
+    @Headers('x-admin-token') adminToken: string | undefined,
+  ): Promise<AuditLogEntry[]> {
+    const expected = this.configService.get<string>('AUDIT_ADMIN_TOKEN');
+    if (!expected) {
+      throw new ForbiddenException(
+        'Auditoria desabilitada: defina AUDIT_ADMIN_TOKEN',
+      );
+    }
+    if (adminToken !== expected) {
+      throw new ForbiddenException('Token de administração inválido');
+    }
+    return this.auditService.search(dto);
+  }
+}
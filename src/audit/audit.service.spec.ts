@@ -0,0 +1,123 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { AuditService } from './audit.service';
+import { ClickHouseService } from '../clickhouse/clickhouse.service';
+
+describe('AuditService', () => {
+  let service: AuditService;
+  const query = jest.fn();
+  const insert = jest.fn();
+
+  beforeEach(async () => {
+    query.mockReset();
+    insert.mockReset().mockResolvedValue(undefined);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuditService,
+        { provide: ClickHouseService, useValue: { query, insert } },
+      ],
+    }).compile();
+
+    service = module.get<AuditService>(AuditService);
+  });
+
+  it('should append the operation with the request user and route', async () => {
+    await service.record(
+      {
+        operation: 'clickup',
+        input: 'tech leads em Curitiba',
+        sql: 'SELECT profile_id FROM linkedin.people LIMIT 2000',
+        params: { p1: ['x'] },
+        rowCount: 2,
+        profileIds: ['a', 'b'],
+        destination: 'clickup:123',
+      },
+      {
+        endpoint: 'POST /query/export-clickup',
+        userId: 'ana',
+        sessionId: 's1',
+      },
+    );
+
+    const [[table, [row]]] = insert.mock.calls as [
+      [string, Record<string, unknown>[]],
+    ];
+    expect(table).toBe('search_audit_log');
+    expect(row).toMatchObject({
+      user_id: 'ana',
+      endpoint: 'POST /query/export-clickup',
+      session_id: 's1',
+      job_id: '',
+      operation: 'clickup',
+      params: '{"p1":["x"]}',
+      criteria: '',
+      row_count: 2,
+      total_rows: null,
+      profile_ids: ['a', 'b'],
+      destination: 'clickup:123',
+      status: 'ok',
+    });
+  });
+
+  it('should not fail the search when the audit insert fails', async () => {
+    insert.mockRejectedValue(new Error('ClickHouse indisponível'));
+
+    await expect(
+      service.record({
+        operation: 'explain',
+        input: 'x',
+        sql: 'SELECT 1',
+        rowCount: 0,
+        profileIds: [],
+        destination: 'response',
+      }),
+    ).resolves.toBeUndefined();
+  });
+
+  it('should filter by user, period and profile', async () => {
+    query.mockResolvedValue([
+      {
+        id: 'e1',
+        created_at: '2026-10-19 10:00:00.000',
+        user_id: 'ana',
+        endpoint: 'POST /query/chat',
+        session_id: '',
+        job_id: '',
+        operation: 'chat',
+        input: 'backend',
+        sql: 'SELECT 1',
+        params: '',
+        criteria: '{"roleTitles":["backend"]}',
+        row_count: 7,
+        total_rows: '40',
+        profile_ids: ['abc'],
+        destination: 'response',
+        status: 'ok',
+        error: '',
+      },
+    ]);
+
+    const entries = await service.search({
+      userId: 'ana',
+      from: '2026-10-01',
+      to: '2026-10-31',
+      profileId: 'abc',
+    });
+
+    const [[{ query: sql, params }]] = query.mock.calls as [
+      [{ query: string; params: Record<string, unknown> }],
+    ];
+    expect(sql).toContain(
+      'WHERE user_id = {userId:String} AND toDate(created_at) >= {from:Date} AND toDate(created_at) <= {to:Date} AND has(profile_ids, {profileId:String})',
+    );
+    expect(params).toMatchObject({ profileId: 'abc', limit: 100 });
+    expect(entries[0]).toMatchObject({
+      userId: 'ana',
+      sessionId: null,
+      criteria: { roleTitles: ['backend'] },
+      params: undefined,
+      totalRows: 40,
+      error: undefined,
+    });
+  });
+});
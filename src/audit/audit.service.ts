@@ -0,0 +1,223 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { ClickHouseService } from '../clickhouse/clickhouse.service';
+import type { SearchCriteria } from '../natural-query/criteria-compiler.service';
+import { RequestContext, getRequestContext } from '../usage/request-context';
+
+export const AUDIT_TABLE = 'search_audit_log';
+
+export const AUDIT_OPERATIONS = [
+  'chat',
+  'run_criteria',
+  'page',
+  'query',
+  'explain',
+  'export',
+  'clickup',
+] as const;
+
+export type AuditOperation = (typeof AUDIT_OPERATIONS)[number];
+
+/**
+ * Uma operação de busca: o que foi pedido, a SQL executada e quais perfis
+ * saíram dela (exibidos, exportados ou enviados ao ClickUp)
+ */
+export interface AuditEntry {
+  operation: AuditOperation;
+  /** Pedido em linguagem natural (ou a descrição dos critérios) */
+  input: string;
+  sql: string;
+  params?: Record<string, unknown>;
+  criteria?: SearchCriteria;
+  /** Linhas devolvidas ou exportadas */
+  rowCount: number;
+  /** Total de candidatos que atendem à busca, quando contado */
+  totalRows?: number;
+  profileIds: string[];
+  /** response, download:<formato>, file:<exportação> ou clickup:<lista> */
+  destination: string;
+  error?: string;
+}
+
+export interface AuditLogEntry extends AuditEntry {
+  id: string;
+  createdAt: string;
+  userId: string | null;
+  endpoint: string;
+  sessionId: string | null;
+  jobId: string | null;
+  status: 'ok' | 'error';
+}
+
+export interface AuditFilters {
+  userId?: string;
+  /** YYYY-MM-DD */
+  from?: string;
+  /** YYYY-MM-DD, inclusive */
+  to?: string;
+  /** Operações que exibiram ou exportaram o perfil */
+  profileId?: string;
+  operation?: AuditOperation;
+  limit?: number;
+}
+
+interface AuditRow {
+  id: string;
+  created_at: string;
+  user_id: string;
+  endpoint: string;
+  session_id: string;
+  job_id: string;
+  operation: AuditOperation;
+  input: string;
+  sql: string;
+  params: string;
+  criteria: string;
+  row_count: number;
+  total_rows: string | number;
+  profile_ids: string[];
+  destination: string;
+  status: 'ok' | 'error';
+  error: string;
+}
+
+/**
+ * Trilha de auditoria das buscas (disputas com clientes e LGPD): quem
+ * buscou o quê e para onde foram os perfis. A tabela só recebe inserções;
+ * a aplicação nunca altera nem remove entradas.
+ */
+@Injectable()
+export class AuditService implements OnModuleInit {
+  private readonly logger = new Logger(AuditService.name);
+
+  constructor(private readonly clickhouseService: ClickHouseService) {}
+
+  async onModuleInit() {
+    try {
+      await this.clickhouseService.command(`
+        CREATE TABLE IF NOT EXISTS ${AUDIT_TABLE} (
+          id UUID,
+          created_at DateTime64(3) DEFAULT now64(3),
+          user_id String,
+          endpoint String,
+          session_id String,
+          job_id String,
+          operation LowCardinality(String),
+          input String,
+          sql String,
+          params String,
+          criteria String,
+          row_count UInt32,
+          total_rows Nullable(UInt64),
+          profile_ids Array(String),
+          destination String,
+          status LowCardinality(String),
+          error String,
+          INDEX profile_ids_idx profile_ids TYPE bloom_filter GRANULARITY 4
+        )
+        ENGINE = MergeTree
+        PARTITION BY toYYYYMM(created_at)
+        ORDER BY (created_at, user_id)
+      `);
+    } catch (error) {
+      this.logger.error(`Erro ao criar tabela de auditoria: ${error}`);
+    }
+  }
+
+  /**
+   * Grava a operação com o usuário e a rota da requisição. Uma falha ao
+   * gravar é logada como erro, mas não interrompe a busca.
+   */
+  async record(
+    entry: AuditEntry,
+    context: RequestContext | undefined = getRequestContext(),
+  ): Promise<void> {
+    try {
+      await this.clickhouseService.insert(AUDIT_TABLE, [
+        {
+          id: randomUUID(),
+          user_id: context?.userId || '',
+          endpoint: context?.endpoint || '',
+          session_id: context?.sessionId || '',
+          job_id: context?.jobId || '',
+          operation: entry.operation,
+          input: entry.input,
+          sql: entry.sql,
+          params: entry.params ? JSON.stringify(entry.params) : '',
+          criteria: entry.criteria ? JSON.stringify(entry.criteria) : '',
+          row_count: entry.rowCount,
+          total_rows: entry.totalRows ?? null,
+          profile_ids: entry.profileIds,
+          destination: entry.destination,
+          status: entry.error ? 'error' : 'ok',
+          error: entry.error || '',
+        },
+      ]);
+    } catch (error) {
+      this.logger.error(
+        `Erro ao gravar auditoria (${entry.operation}, usuário ${context?.userId || '-'}): ${error}`,
+      );
+    }
+  }
+
+  /**
+   * Entradas mais recentes primeiro, filtradas por usuário, período,
+   * operação e perfil
+   */
+  async search(filters: AuditFilters): Promise<AuditLogEntry[]> {
+    const conditions = [
+      filters.userId && 'user_id = {userId:String}',
+      filters.from && 'toDate(created_at) >= {from:Date}',
+      filters.to && 'toDate(created_at) <= {to:Date}',
+      filters.profileId && 'has(profile_ids, {profileId:String})',
+      filters.operation && 'operation = {operation:String}',
+    ].filter(Boolean);
+
+    const rows = await this.clickhouseService.query<AuditRow>({
+      query: `
+        SELECT *
+        FROM ${AUDIT_TABLE}
+        ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+        ORDER BY created_at DESC
+        LIMIT {limit:UInt32}
+      `,
+      params: { ...filters, limit: filters.limit || 100 },
+    });
+    return rows.map(toLogEntry);
+  }
+}
+
+/**
+ * IDs dos perfis nas linhas de resultado (ignora linhas sem profile_id)
+ */
+export function profileIdsOf(rows: unknown[]): string[] {
+  return rows
+    .map((row) => (row as { profile_id?: unknown } | null)?.profile_id)
+    .filter((id): id is string => typeof id === 'string' && id !== '');
+}
+
+function toLogEntry(row: AuditRow): AuditLogEntry {
+  return {
+    id: row.id,
+    createdAt: row.created_at,
+    userId: row.user_id || null,
+    endpoint: row.endpoint,
+    sessionId: row.session_id || null,
+    jobId: row.job_id || null,
+    operation: row.operation,
+    input: row.input,
+    sql: row.sql,
+    params: row.params
+      ? (JSON.parse(row.params) as Record<string, unknown>)
+      : undefined,
+    criteria: row.criteria
+      ? (JSON.parse(row.criteria) as SearchCriteria)
+      : undefined,
+    rowCount: Number(row.row_count),
+    totalRows: row.total_rows === null ? undefined : Number(row.total_rows),
+    profileIds: row.profile_ids,
+    destination: row.destination,
+    status: row.status,
+    error: row.error || undefined,
+  };
+}
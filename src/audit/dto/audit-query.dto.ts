@@ -0,0 +1,49 @@
+import {
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  Min,
+} from 'class-validator';
+import { AUDIT_OPERATIONS } from '../audit.service';
+
+export class AuditQueryDto {
+  @IsString()
+  @IsOptional()
+  userId?: string;
+
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, {
+    message: 'from deve estar no formato YYYY-MM-DD',
+  })
+  @IsOptional()
+  from?: string;
+
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, {
+    message: 'to deve estar no formato YYYY-MM-DD',
+  })
+  @IsOptional()
+  to?: string;
+
+  @IsString()
+  @IsOptional()
+  profileId?: string;
+
+  @IsIn(AUDIT_OPERATIONS)
+  @IsOptional()
+  operation?:
+    | 'chat'
+    | 'run_criteria'
+    | 'page'
+    | 'query'
+    | 'explain'
+    | 'export'
+    | 'clickup';
+
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  @IsOptional()
+  limit?: number;
+}
@@ -0,0 +1,15 @@
+export const CACHE_STORE = 'CACHE_STORE';
+
+/**
+ * Armazenamento do cache de planos e resultados. A implementação é
+ * escolhida por CACHE_BACKEND (memória do processo ou servidor compatível
+ * com Redis). Valores são texto (JSON serializado pelo CacheService).
+ */
+export interface CacheStore {
+  /** Identifica o backend nas estatísticas ("memory", "redis") */
+  readonly name: string;
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, ttlSeconds: number): Promise<void>;
+  /** Remove as chaves com o prefixo e retorna quantas foram removidas */
+  deleteByPrefix(prefix: string): Promise<number>;
+}
@@ -0,0 +1,44 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { CacheController } from './cache.controller';
+import { CacheService } from './cache.service';
+
+describe('CacheController', () => {
+  const invalidate = jest.fn();
+
+  const createController = async (config: Record<string, string>) => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [CacheController],
+      providers: [
+        { provide: CacheService, useValue: { invalidate } },
+        { provide: ConfigService, useValue: new ConfigService(config) },
+      ],
+    }).compile();
+    return module.get<CacheController>(CacheController);
+  };
+
+  beforeEach(() => {
+    invalidate.mockReset().mockResolvedValue(3);
+  });
+
+  it('should refuse invalidation when no admin token is configured', async () => {
+    const controller = await createController({});
+
+    await expect(controller.invalidate({}, undefined)).rejects.toThrow(
+      'Invalidação do cache desabilitada: defina CACHE_ADMIN_TOKEN',
+    );
+    expect(invalidate).not.toHaveBeenCalled();
+  });
+
+  it('should require the configured admin token', async () => {
+    const controller = await createController({ CACHE_ADMIN_TOKEN: 'segredo' });
+
+    await expect(controller.invalidate({}, 'errado')).rejects.toThrow(
+      'Token de administração inválido',
+    );
+    await expect(
+      controller.invalidate({ namespace: 'results' }, 'segredo'),
+    ).resolves.toEqual({ removed: 3 });
+    expect(invalidate).toHaveBeenCalledWith('results');
+  });
+});
@@ -0,0 +1,60 @@
+import {
+  Body,
+  Controller,
+  ForbiddenException,
+  Get,
+  Headers,
+  HttpCode,
+  Post,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CacheService } from './cache.service';
+import type { CacheStats } from './cache.service';
+import { InvalidateCacheDto } from './dto';
+
+@Controller('cache')
+export class CacheController {
+  constructor(
+    private readonly cacheService: CacheService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Backend, TTLs e acertos/falhas do cache desde o início do processo
+   * GET /cache/stats
+   */
+  @Get('stats')
+  stats(): CacheStats {
+    return this.cacheService.stats();
+  }
+
+  /**
+   * Remove as entradas de um namespace (plans ou results) ou de todos.
+   * Exige o header X-Admin-Token igual a CACHE_ADMIN_TOKEN; sem o token
+   * configurado a rota fica fechada.
+   * POST /cache/invalidate
+   *
+   * Body:
+   * {
+   *   "namespace": "results"
+   * }
+   */
+  @Post('invalidate')
+  @HttpCode(200)
+  async invalidate(
+    @Body() dto: InvalidateCacheDto,
+    @Headers('x-admin-token') adminToken: string | undefined,
+  ): Promise<{ removed: number }> {
+    const expected = this.configService.get<string>('CACHE_ADMIN_TOKEN');
+    if (!expected) {
+      throw new ForbiddenException(
+        'Invalidação do cache desabilitada: defina CACHE_ADMIN_TOKEN',
+      );
+    }
+    if (adminToken !== expected) {
+      throw new ForbiddenException('Token de administração inválido');
+    }
+    const removed = await this.cacheService.invalidate(dto.namespace);
+    return { removed };
+  }
+}
@@ -0,0 +1,38 @@
+import { Module, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CACHE_STORE, CacheStore } from './cache-store';
+import { MemoryCacheStore } from './memory-cache-store';
+import { RedisCacheStore } from './redis-cache-store';
+import { CacheService } from './cache.service';
+import { CacheController } from './cache.controller';
+
+@Module({
+  controllers: [CacheController],
+  providers: [
+    {
+      provide: CACHE_STORE,
+      useFactory: (configService: ConfigService): CacheStore => {
+        const backend = configService.get<string>('CACHE_BACKEND') || 'memory';
+        const redisUrl = configService.get<string>('CACHE_REDIS_URL');
+        const store =
+          backend === 'redis' && redisUrl
+            ? new RedisCacheStore(
+                new URL(redisUrl),
+                Number(
+                  configService.get<string>('CACHE_REDIS_TIMEOUT_MS') || 500,
+                ),
+              )
+            : new MemoryCacheStore(
+                Number(configService.get<string>('CACHE_MAX_ENTRIES') || 1000),
+              );
+
+        new Logger('CacheModule').log(`Cache em ${store.name}`);
+        return store;
+      },
+      inject: [ConfigService],
+    },
+    CacheService,
+  ],
+  exports: [CacheService],
+})
+export class CacheModule {}
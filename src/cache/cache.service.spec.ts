@@ -0,0 +1,75 @@
+import { ConfigService } from '@nestjs/config';
+import { CacheService, normalizeSql } from './cache.service';
+import { MemoryCacheStore } from './memory-cache-store';
+
+describe('CacheService', () => {
+  const load = jest.fn();
+
+  function createService(config: Record<string, string> = {}): CacheService {
+    return new CacheService(new MemoryCacheStore(2), new ConfigService(config));
+  }
+
+  beforeEach(() => {
+    load.mockReset();
+    load.mockResolvedValue({ rows: [1, 2] });
+  });
+
+  it('should cache by key content regardless of property order', async () => {
+    const cache = createService();
+
+    const first = await cache.wrap(
+      'results',
+      { sql: 'a', params: { x: 1, y: 2 } },
+      load,
+    );
+    const second = await cache.wrap(
+      'results',
+      { params: { y: 2, x: 1 }, sql: 'a' },
+      load,
+    );
+
+    expect(first).toEqual({ value: { rows: [1, 2] }, status: 'miss' });
+    expect(second).toEqual({ value: { rows: [1, 2] }, status: 'hit' });
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(cache.stats().namespaces.results).toMatchObject({
+      hits: 1,
+      misses: 1,
+    });
+  });
+
+  it('should respect TTL 0, value size and entry bounds', async () => {
+    const cache = createService({
+      CACHE_PLAN_TTL_SECONDS: '0',
+      CACHE_MAX_VALUE_BYTES: '50',
+    });
+
+    await cache.wrap('plans', 'a', load);
+    expect((await cache.wrap('plans', 'a', load)).status).toBe('skipped');
+
+    load.mockResolvedValue('x'.repeat(100));
+    await cache.wrap('results', 'big', load);
+    expect((await cache.wrap('results', 'big', load)).status).toBe('miss');
+
+    load.mockResolvedValue('ok');
+    for (const key of ['k1', 'k2', 'k3'])
+      await cache.wrap('results', key, load);
+    expect((await cache.wrap('results', 'k1', load)).status).toBe('miss');
+    expect((await cache.wrap('results', 'k3', load)).status).toBe('hit');
+  });
+
+  it('should invalidate a single namespace', async () => {
+    const cache = createService();
+    await cache.wrap('plans', 'a', load);
+    await cache.wrap('results', 'a', load);
+
+    expect(await cache.invalidate('plans')).toBe(1);
+    expect((await cache.wrap('plans', 'a', load)).status).toBe('miss');
+    expect((await cache.wrap('results', 'a', load)).status).toBe('hit');
+  });
+
+  it('should collapse whitespace outside string literals', () => {
+    expect(normalizeSql("SELECT  *\n FROM t WHERE a = 'x  y' ;")).toBe(
+      "SELECT * FROM t WHERE a = 'x  y'",
+    );
+  });
+});
@@ -0,0 +1,187 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import { CACHE_STORE } from './cache-store';
+import type { CacheStore } from './cache-store';
+
+export const CACHE_NAMESPACES = ['plans', 'results'] as const;
+
+/**
+ * plans: respostas do modelo (critérios e SQL planejados);
+ * results: linhas retornadas pelo ClickHouse
+ */
+export type CacheNamespace = (typeof CACHE_NAMESPACES)[number];
+
+/** skipped: cache desligado para o namespace (TTL 0) */
+export type CacheStatus = 'hit' | 'miss' | 'skipped';
+
+export interface CacheLookup<T> {
+  value: T;
+  status: CacheStatus;
+}
+
+export interface CacheStats {
+  backend: string;
+  maxValueBytes: number;
+  namespaces: Record<
+    CacheNamespace,
+    { ttlSeconds: number; hits: number; misses: number }
+  >;
+}
+
+const KEY_PREFIX = 'atrai:cache:';
+
+const DEFAULT_TTL_SECONDS: Record<CacheNamespace, number> = {
+  plans: 3600,
+  results: 300,
+};
+const DEFAULT_MAX_VALUE_BYTES = 1024 * 1024;
+
+/**
+ * Cache de planos do modelo e de resultados do ClickHouse. As chaves são o
+ * hash do conteúdo normalizado (prompt, critérios, SQL e parâmetros), então
+ * recrutadores diferentes que fazem a mesma busca compartilham as entradas.
+ * Falhas do backend nunca interrompem a busca: viram cache miss.
+ */
+@Injectable()
+export class CacheService {
+  private readonly logger = new Logger(CacheService.name);
+  private readonly ttls: Record<CacheNamespace, number>;
+  private readonly maxValueBytes: number;
+  private readonly counters = {
+    plans: { hits: 0, misses: 0 },
+    results: { hits: 0, misses: 0 },
+  };
+
+  constructor(
+    @Inject(CACHE_STORE) private readonly store: CacheStore,
+    configService: ConfigService,
+  ) {
+    this.ttls = {
+      plans: Number(
+        configService.get<string>('CACHE_PLAN_TTL_SECONDS') ||
+          DEFAULT_TTL_SECONDS.plans,
+      ),
+      results: Number(
+        configService.get<string>('CACHE_RESULT_TTL_SECONDS') ||
+          DEFAULT_TTL_SECONDS.results,
+      ),
+    };
+    this.maxValueBytes = Number(
+      configService.get<string>('CACHE_MAX_VALUE_BYTES') ||
+        DEFAULT_MAX_VALUE_BYTES,
+    );
+  }
+
+  /**
+   * Retorna o valor em cache para a chave ou executa load e guarda o
+   * resultado. Erros de load não são guardados.
+   */
+  async wrap<T>(
+    namespace: CacheNamespace,
+    keyParts: unknown,
+    load: () => Promise<T>,
+  ): Promise<CacheLookup<T>> {
+    const ttl = this.ttls[namespace];
+    if (ttl <= 0) return { value: await load(), status: 'skipped' };
+
+    const key = this.key(namespace, keyParts);
+    const cached = await this.read(key);
+    if (cached !== null) {
+      this.counters[namespace].hits++;
+      return { value: JSON.parse(cached) as T, status: 'hit' };
+    }
+
+    const value = await load();
+    this.counters[namespace].misses++;
+    await this.write(key, value, ttl);
+    return { value, status: 'miss' };
+  }
+
+  /**
+   * Remove as entradas do namespace (ou de todos). Retorna quantas saíram.
+   */
+  async invalidate(namespace?: CacheNamespace): Promise<number> {
+    const removed = await this.store.deleteByPrefix(
+      namespace ? `${KEY_PREFIX}${namespace}:` : KEY_PREFIX,
+    );
+    this.logger.log(
+      `Cache invalidado (${namespace || 'todos'}): ${removed} entradas`,
+    );
+    return removed;
+  }
+
+  stats(): CacheStats {
+    return {
+      backend: this.store.name,
+      maxValueBytes: this.maxValueBytes,
+      namespaces: {
+        plans: { ttlSeconds: this.ttls.plans, ...this.counters.plans },
+        results: { ttlSeconds: this.ttls.results, ...this.counters.results },
+      },
+    };
+  }
+
+  private key(namespace: CacheNamespace, keyParts: unknown): string {
+    const hash = createHash('sha256')
+      .update(stableJson(keyParts))
+      .digest('hex');
+    return `${KEY_PREFIX}${namespace}:${hash}`;
+  }
+
+  private async read(key: string): Promise<string | null> {
+    try {
+      return await this.store.get(key);
+    } catch (error) {
+      this.logger.warn(`Erro ao ler do cache: ${error}`);
+      return null;
+    }
+  }
+
+  private async write(key: string, value: unknown, ttl: number): Promise<void> {
+    const serialized = JSON.stringify(value);
+    if (Buffer.byteLength(serialized) > this.maxValueBytes) {
+      this.logger.debug(`Valor grande demais para o cache: ${key}`);
+      return;
+    }
+    try {
+      await this.store.set(key, serialized, ttl);
+    } catch (error) {
+      this.logger.warn(`Erro ao gravar no cache: ${error}`);
+    }
+  }
+}
+
+/**
+ * Texto do prompt para a chave do cache: sem diferenças de caixa e de espaços
+ */
+export function normalizePrompt(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/**
+ * SQL para a chave do cache: espaços colapsados fora de literais de texto
+ */
+export function normalizeSql(sql: string): string {
+  return sql
+    .split(/('(?:[^'\\]|\\.)*')/)
+    .map((part, i) => (i % 2 === 1 ? part : part.replace(/\s+/g, ' ')))
+    .join('')
+    .replace(/;\s*$/, '')
+    .trim();
+}
+
+/**
+ * JSON com as chaves dos objetos em ordem, para que a mesma entrada gere
+ * sempre a mesma chave
+ */
+function stableJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
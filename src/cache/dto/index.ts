@@ -0,0 +1 @@
+export * from './invalidate-cache.dto';
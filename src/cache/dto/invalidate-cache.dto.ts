@@ -0,0 +1,8 @@
+import { IsIn, IsOptional } from 'class-validator';
+import { CACHE_NAMESPACES } from '../cache.service';
+
+export class InvalidateCacheDto {
+  @IsIn(CACHE_NAMESPACES)
+  @IsOptional()
+  namespace?: 'plans' | 'results';
+}
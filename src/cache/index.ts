@@ -0,0 +1,6 @@
+export * from './cache.module';
+export * from './cache.service';
+export * from './cache.controller';
+export * from './cache-store';
+export * from './memory-cache-store';
+export * from './redis-cache-store';
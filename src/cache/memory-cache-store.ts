@@ -0,0 +1,50 @@
+import { CacheStore } from './cache-store';
+
+interface MemoryEntry {
+  value: string;
+  expiresAt: number;
+}
+
+/**
+ * Cache no processo, com expiração por entrada e descarte das menos usadas
+ * recentemente (LRU) acima de maxEntries
+ */
+export class MemoryCacheStore implements CacheStore {
+  readonly name = 'memory';
+  // Map mantém a ordem de inserção: a primeira chave é a menos usada
+  private readonly entries = new Map<string, MemoryEntry>();
+
+  constructor(private readonly maxEntries: number) {}
+
+  get(key: string): Promise<string | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return Promise.resolve(null);
+
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) return Promise.resolve(null);
+    this.entries.set(key, entry);
+    return Promise.resolve(entry.value);
+  }
+
+  set(key: string, value: string, ttlSeconds: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) break;
+      this.entries.delete(oldest);
+    }
+    return Promise.resolve();
+  }
+
+  deleteByPrefix(prefix: string): Promise<number> {
+    let removed = 0;
+    for (const key of Array.from(this.entries.keys())) {
+      if (key.startsWith(prefix)) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    return Promise.resolve(removed);
+  }
+}
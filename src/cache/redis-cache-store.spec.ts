@@ -0,0 +1,57 @@
+import { Server, Socket, createServer } from 'net';
+import { AddressInfo } from 'net';
+import { RedisCacheStore, parseReply } from './redis-cache-store';
+
+describe('parseReply', () => {
+  it('should parse RESP replies and wait for incomplete ones', () => {
+    const scan = Buffer.from('*2\r\n$1\r\n0\r\n*2\r\n$3\r\nk:1\r\n$-1\r\n');
+    expect(parseReply(scan, 0)).toEqual({
+      reply: ['0', ['k:1', null]],
+      end: scan.length,
+    });
+    expect(parseReply(Buffer.from('$5\r\nol'), 0)).toBeNull();
+    expect(parseReply(Buffer.from(':3\r\n+OK\r\n'), 4)).toEqual({
+      reply: 'OK',
+      end: 9,
+    });
+    expect(parseReply(Buffer.from('-ERR wrong\r\n'), 0)?.reply).toEqual(
+      new Error('ERR wrong'),
+    );
+  });
+});
+
+describe('RedisCacheStore', () => {
+  let server: Server;
+  let replies: boolean;
+  const sockets: Socket[] = [];
+
+  beforeEach(async () => {
+    replies = false;
+    // Servidor que aceita a conexão e só responde quando replies = true
+    server = createServer((socket) => {
+      sockets.push(socket);
+      socket.on('data', () => {
+        if (replies) socket.write('$-1\r\n');
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+  });
+
+  afterEach(async () => {
+    sockets.forEach((socket) => socket.destroy());
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should fail a command that gets no reply and reconnect afterwards', async () => {
+    const { port } = server.address() as AddressInfo;
+    const store = new RedisCacheStore(new URL(`redis://localhost:${port}`), 50);
+
+    await expect(store.get('k')).rejects.toThrow(
+      'Redis não respondeu em 50 ms',
+    );
+
+    replies = true;
+    await expect(store.get('k')).resolves.toBeNull();
+    expect(sockets).toHaveLength(2);
+  });
+});
@@ -0,0 +1,221 @@
+import { Logger } from '@nestjs/common';
+import { Socket, createConnection } from 'net';
+import { CacheStore } from './cache-store';
+
+type RedisReply = string | number | null | Error | RedisReply[];
+
+interface PendingReply {
+  resolve: (reply: RedisReply) => void;
+  reject: (error: Error) => void;
+}
+
+// Chaves por iteração do SCAN na invalidação
+const SCAN_COUNT = '500';
+
+const DEFAULT_TIMEOUT_MS = 500;
+
+/**
+ * Cache em servidor compatível com Redis (Redis, Valkey, KeyDB, Dragonfly),
+ * falando o protocolo RESP direto pelo socket. A conexão é aberta no primeiro
+ * comando e refeita depois de uma queda. Comando sem resposta em timeoutMs
+ * (inclusive a conexão) derruba a conexão e falha, e o cache segue como miss.
+ * URL: redis://[:senha@]host[:porta][/db]
+ */
+export class RedisCacheStore implements CacheStore {
+  readonly name = 'redis';
+  private readonly logger = new Logger(RedisCacheStore.name);
+  private socket: Socket | null = null;
+  private buffer = Buffer.alloc(0);
+  private pending: PendingReply[] = [];
+
+  constructor(
+    private readonly url: URL,
+    private readonly timeoutMs: number = DEFAULT_TIMEOUT_MS,
+  ) {}
+
+  async get(key: string): Promise<string | null> {
+    const reply = await this.command('GET', key);
+    return typeof reply === 'string' ? reply : null;
+  }
+
+  async set(key: string, value: string, ttlSeconds: number): Promise<void> {
+    await this.command('SET', key, value, 'EX', String(ttlSeconds));
+  }
+
+  async deleteByPrefix(prefix: string): Promise<number> {
+    const pattern = `${prefix.replace(/[*?[\]\\]/g, '\\$&')}*`;
+    let cursor = '0';
+    let removed = 0;
+
+    do {
+      const reply = await this.command(
+        'SCAN',
+        cursor,
+        'MATCH',
+        pattern,
+        'COUNT',
+        SCAN_COUNT,
+      );
+      const [next, keys] = Array.isArray(reply) ? reply : [];
+      if (typeof next !== 'string' || !Array.isArray(keys)) {
+        throw new Error('Resposta inesperada do SCAN');
+      }
+      cursor = next;
+      if (keys.length > 0) {
+        removed += Number(await this.command('DEL', ...(keys as string[])));
+      }
+    } while (cursor !== '0');
+
+    return removed;
+  }
+
+  private command(...args: string[]): Promise<RedisReply> {
+    const socket = this.socket || this.connect();
+    return new Promise<RedisReply>((resolve, reject) => {
+      // As respostas chegam na ordem dos comandos: sem a resposta deste, a
+      // fila não tem mais como ser casada, então a conexão é refeita
+      const timer = setTimeout(
+        () =>
+          this.disconnect(
+            new Error(`Redis não respondeu em ${this.timeoutMs} ms`),
+          ),
+        this.timeoutMs,
+      );
+      timer.unref();
+      this.pending.push({
+        resolve: (reply) => {
+          clearTimeout(timer);
+          if (reply instanceof Error) reject(reply);
+          else resolve(reply);
+        },
+        reject: (error) => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      });
+      socket.write(encodeCommand(args));
+    });
+  }
+
+  private connect(): Socket {
+    const socket = createConnection({
+      host: this.url.hostname || 'localhost',
+      port: Number(this.url.port) || 6379,
+    });
+    socket.setNoDelay(true);
+    // Eventos de uma conexão já descartada não podem derrubar a nova
+    socket.on('data', (chunk) => {
+      if (this.socket === socket) this.onData(chunk);
+    });
+    socket.on('error', (error) => {
+      if (this.socket === socket) this.disconnect(error);
+    });
+    socket.on('close', () => {
+      if (this.socket === socket) {
+        this.disconnect(new Error('Conexão com o Redis encerrada'));
+      }
+    });
+    this.socket = socket;
+    this.buffer = Buffer.alloc(0);
+
+    // Enviados antes de qualquer comando, na mesma fila de respostas
+    const password = decodeURIComponent(this.url.password);
+    if (password) {
+      const username = decodeURIComponent(this.url.username);
+      this.handshake(
+        username ? ['AUTH', username, password] : ['AUTH', password],
+      );
+    }
+    const db = this.url.pathname.replace('/', '');
+    if (db && db !== '0') this.handshake(['SELECT', db]);
+
+    return socket;
+  }
+
+  private handshake(args: string[]): void {
+    this.pending.push({
+      resolve: (reply) => {
+        if (reply instanceof Error) this.disconnect(reply);
+      },
+      reject: () => undefined,
+    });
+    this.socket?.write(encodeCommand(args));
+  }
+
+  private onData(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    try {
+      let parsed = parseReply(this.buffer, 0);
+      while (parsed) {
+        this.buffer = this.buffer.subarray(parsed.end);
+        this.pending.shift()?.resolve(parsed.reply);
+        parsed = parseReply(this.buffer, 0);
+      }
+    } catch (error) {
+      this.disconnect(error as Error);
+    }
+  }
+
+  private disconnect(error: Error): void {
+    if (!this.socket) return;
+    this.logger.warn(`Redis indisponível: ${error.message}`);
+    this.socket.destroy();
+    this.socket = null;
+    const pending = this.pending;
+    this.pending = [];
+    pending.forEach((reply) => reply.reject(error));
+  }
+}
+
+function encodeCommand(args: string[]): string {
+  return `*${args.length}\r\n${args
+    .map((arg) => `$${Buffer.byteLength(arg)}\r\n${arg}\r\n`)
+    .join('')}`;
+}
+
+/**
+ * Lê uma resposta RESP a partir de start. Retorna null se a resposta ainda
+ * não chegou inteira.
+ */
+export function parseReply(
+  buffer: Buffer,
+  start: number,
+): { reply: RedisReply; end: number } | null {
+  const lineEnd = buffer.indexOf('\r\n', start);
+  if (lineEnd === -1) return null;
+  const line = buffer.toString('utf8', start + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (String.fromCharCode(buffer[start])) {
+    case '+':
+      return { reply: line, end: next };
+    case '-':
+      return { reply: new Error(line), end: next };
+    case ':':
+      return { reply: Number(line), end: next };
+    case '$': {
+      const length = Number(line);
+      if (length < 0) return { reply: null, end: next };
+      if (buffer.length < next + length + 2) return null;
+      return {
+        reply: buffer.toString('utf8', next, next + length),
+        end: next + length + 2,
+      };
+    }
+    case '*': {
+      const count = Number(line);
+      if (count < 0) return { reply: null, end: next };
+      const items: RedisReply[] = [];
+      let end = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, end);
+        if (!item) return null;
+        items.push(item.reply);
+        end = item.end;
+      }
+      return { reply: items, end };
+    }
+    default:
+      throw new Error(`Resposta inválida do Redis: ${line}`);
+  }
+}
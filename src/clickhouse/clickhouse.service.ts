@@ -1,6 +1,20 @@
 import { Injectable, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { createClient, ClickHouseClient } from '@clickhouse/client';
+import {
+  createClient,
+  ClickHouseClient,
+  ClickHouseSettings,
+} from '@clickhouse/client';
+
+export interface ClickHouseQuery {
+  /** SQL com placeholders no formato {nome:Tipo} */
+  query: string;
+  /** Valores dos placeholders, enviados separadamente (nunca interpolados na SQL) */
+  params?: Record<string, unknown>;
+  settings?: ClickHouseSettings;
+  abortSignal?: AbortSignal;
+  queryId?: string;
+}
 
 @Injectable()
 export class ClickHouseService implements OnModuleInit, OnModuleDestroy {
@@ -21,18 +35,60 @@ export class ClickHouseService implements OnModuleInit, OnModuleDestroy {
     await this.client.close();
   }
 
-  async query<T>(sql: string): Promise<T[]> {
+  async query<T>(options: ClickHouseQuery): Promise<T[]> {
     const result = await this.client.query({
-      query: sql,
+      query: options.query,
       format: 'JSONEachRow',
+      query_params: options.params,
+      clickhouse_settings: options.settings,
+      abort_signal: options.abortSignal,
+      query_id: options.queryId,
     });
     return result.json();
   }
 
+  /**
+   * Executa a query e entrega as linhas conforme chegam do ClickHouse,
+   * sem carregar todo o resultado em memória
+   */
+  async *stream<T>(options: ClickHouseQuery): AsyncGenerator<T> {
+    const result = await this.client.query({
+      query: options.query,
+      format: 'JSONEachRow',
+      query_params: options.params,
+      clickhouse_settings: options.settings,
+      abort_signal: options.abortSignal,
+      query_id: options.queryId,
+    });
+
+    for await (const rows of result.stream()) {
+      for (const row of rows) {
+        yield row.json<T>();
+      }
+    }
+  }
+
+  /**
+   * Executa instruções sem retorno de linhas (DDL da aplicação)
+   */
+  async command(sql: string): Promise<void> {
+    await this.client.command({ query: sql });
+  }
+
+  async insert<T>(table: string, rows: T[]): Promise<void> {
+    if (rows.length === 0) return;
+    await this.client.insert({
+      table,
+      values: rows,
+      format: 'JSONEachRow',
+    });
+  }
+
   async getTableSchema(tableName: string): Promise<string> {
     const result = await this.client.query({
-      query: `DESCRIBE TABLE ${tableName}`,
+      query: 'DESCRIBE TABLE {table:Identifier}',
       format: 'JSONEachRow',
+      query_params: { table: tableName },
     });
     const columns = await result.json<{ name: string; type: string }>();
     return columns.map((col) => `${col.name} (${col.type})`).join(', ');
@@ -0,0 +1,78 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+} from '@nestjs/common';
+import { CompaniesService } from './companies.service';
+import type { CompanyDetails } from './companies.service';
+import { CompanyHistoryService } from './company-history.service';
+import { CompanyNameResolverService } from './company-name-resolver.service';
+import type { Company } from './companies';
+import type { CompanyNameResolution } from './company-names';
+import {
+  RefreshCompanyHistoryDto,
+  ResolveCompanyNameDto,
+  SearchCompaniesDto,
+} from './dto';
+
+@Controller('companies')
+export class CompaniesController {
+  constructor(
+    private readonly companiesService: CompaniesService,
+    private readonly companyHistoryService: CompanyHistoryService,
+    private readonly companyNameResolver: CompanyNameResolverService,
+  ) {}
+
+  /**
+   * Busca empresas por nome, grupo, setor, porte e estado da sede
+   * GET /companies/search?industry=financial services&minEmployees=200&maxEmployees=1000
+   * GET /companies/search?group=big four
+   */
+  @Get('search')
+  async search(@Query() dto: SearchCompaniesDto): Promise<Company[]> {
+    return this.companiesService.search(dto);
+  }
+
+  /**
+   * Variações do nome da empresa em current_company, agrupadas por
+   * similaridade e pelos IDs da empresa
+   * GET /companies/resolve?name=Itaú
+   */
+  @Get('resolve')
+  async resolve(
+    @Query() dto: ResolveCompanyNameDto,
+  ): Promise<CompanyNameResolution> {
+    return this.companyNameResolver.resolve(dto.name);
+  }
+
+  /**
+   * Recalcula as empresas anteriores de cada perfil (filtros "ex-empresa")
+   * POST /companies/history/refresh
+   *
+   * Body:
+   * {
+   *   "updatedSince": "2024-06-01"
+   * }
+   */
+  @Post('history/refresh')
+  @HttpCode(200)
+  async refreshHistory(
+    @Body() dto: RefreshCompanyHistoryDto,
+  ): Promise<{ processed: number }> {
+    const processed = await this.companyHistoryService.refresh(dto);
+    return { processed };
+  }
+
+  /**
+   * Dados da empresa e quantos perfis a têm como empresa atual
+   * GET /companies/:id
+   */
+  @Get(':id')
+  async getCompany(@Param('id') id: string): Promise<CompanyDetails> {
+    return this.companiesService.getCompany(id);
+  }
+}
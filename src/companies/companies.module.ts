@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { CompaniesController } from './companies.controller';
+import { CompaniesService } from './companies.service';
+import { CompanyHistoryService } from './company-history.service';
+import { CompanyNameResolverService } from './company-name-resolver.service';
+import { SqlGuardService } from '../natural-query/sql-guard.service';
+
+// Não importa NaturalQueryModule: ele depende deste módulo para resolver
+// nomes de empresa na busca
+@Module({
+  controllers: [CompaniesController],
+  providers: [
+    CompaniesService,
+    CompanyHistoryService,
+    CompanyNameResolverService,
+    SqlGuardService,
+  ],
+  exports: [
+    CompaniesService,
+    CompanyHistoryService,
+    CompanyNameResolverService,
+  ],
+})
+export class CompaniesModule {}
@@ -0,0 +1,85 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CompaniesService } from './companies.service';
+import { SqlGuardService } from '../natural-query/sql-guard.service';
+import { ClickHouseService } from '../clickhouse/clickhouse.service';
+
+describe('CompaniesService', () => {
+  let service: CompaniesService;
+  const query = jest.fn();
+
+  beforeEach(async () => {
+    query.mockReset();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CompaniesService,
+        SqlGuardService,
+        { provide: ClickHouseService, useValue: { query } },
+        { provide: ConfigService, useValue: new ConfigService({}) },
+      ],
+    }).compile();
+
+    service = module.get<CompaniesService>(CompaniesService);
+  });
+
+  it('should filter by group, industry and size with bound parameters', async () => {
+    query.mockResolvedValueOnce([
+      {
+        company_id: '42',
+        name: 'KPMG',
+        industry: 'Accounting',
+        employee_count: '5000',
+        hq_city: '',
+      },
+    ]);
+
+    const companies = await service.search({
+      group: 'Big 4',
+      industry: 'accounting',
+      minEmployees: 200,
+    });
+
+    const [{ query: sql, params }] = query.mock.calls[0] as [
+      { query: string; params: Record<string, unknown> },
+    ];
+    expect(sql).toContain('lowerUTF8(name) IN {groupNames:Array(String)}');
+    expect(sql).toContain('employee_count >= {minEmployees:UInt32}');
+    expect(sql).not.toContain('maxEmployees');
+    expect(params).toMatchObject({
+      groupNames: expect.arrayContaining(['kpmg', 'deloitte']) as string[],
+      industry: '%accounting%',
+      minEmployees: 200,
+      limit: 20,
+    });
+    expect(companies).toEqual([
+      expect.objectContaining({
+        id: '42',
+        name: 'KPMG',
+        employeeCount: 5000,
+        hqCity: null,
+      }),
+    ]);
+  });
+
+  it('should return the company with its current employees', async () => {
+    query.mockResolvedValueOnce([
+      { company_id: 7, name: 'Nubank', current_employees: '1200' },
+    ]);
+
+    await expect(service.getCompany('7')).resolves.toMatchObject({
+      id: '7',
+      name: 'Nubank',
+      currentEmployees: 1200,
+    });
+  });
+
+  it('should throw for unknown or invalid ids', async () => {
+    query.mockResolvedValueOnce([]);
+
+    await expect(service.getCompany('7')).rejects.toThrow(NotFoundException);
+    await expect(service.getCompany('abc')).rejects.toThrow(NotFoundException);
+    expect(query).toHaveBeenCalledTimes(1);
+  });
+});
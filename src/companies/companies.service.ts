@@ -0,0 +1,119 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ClickHouseService } from '../clickhouse/clickhouse.service';
+import { SqlGuardService } from '../natural-query/sql-guard.service';
+import {
+  COMPANIES_TABLE,
+  COMPANY_COLUMNS,
+  COMPANY_GROUPS,
+  Company,
+  toCompany,
+  toCompanyGroup,
+} from './companies';
+
+const DEFAULT_SEARCH_LIMIT = 20;
+
+export interface CompanySearchOptions {
+  /** Parte do nome ou public id ("nubank") */
+  q?: string;
+  /** Grupo conhecido ("big four", "mbb", "big tech") */
+  group?: string;
+  industry?: string;
+  minEmployees?: number;
+  maxEmployees?: number;
+  /** Estado da sede, em MAIÚSCULAS sem acento */
+  hqState?: string;
+  limit?: number;
+}
+
+export interface CompanyDetails extends Company {
+  /** Perfis de linkedin.people com esta empresa como atual */
+  currentEmployees: number;
+}
+
+@Injectable()
+export class CompaniesService {
+  private readonly logger = new Logger(CompaniesService.name);
+
+  constructor(
+    private readonly clickhouseService: ClickHouseService,
+    private readonly sqlGuard: SqlGuardService,
+  ) {}
+
+  /**
+   * Empresas por nome, grupo, setor, porte e sede, das maiores para as menores
+   */
+  async search(options: CompanySearchOptions): Promise<Company[]> {
+    const limit = options.limit || DEFAULT_SEARCH_LIMIT;
+    const conditions: string[] = [];
+    const params: Record<string, unknown> = { limit };
+
+    if (options.q?.trim()) {
+      conditions.push(
+        '(name ILIKE {q:String} OR company_public_id ILIKE {q:String})',
+      );
+      params.q = `%${options.q.trim().replace(/[\\%_]/g, '\\$&')}%`;
+    }
+    if (options.group) {
+      const group = toCompanyGroup(options.group);
+      conditions.push('lowerUTF8(name) IN {groupNames:Array(String)}');
+      params.groupNames = group ? COMPANY_GROUPS[group] : [];
+    }
+    if (options.industry?.trim()) {
+      conditions.push('industry ILIKE {industry:String}');
+      params.industry = `%${options.industry.trim().replace(/[\\%_]/g, '\\$&')}%`;
+    }
+    if (options.minEmployees !== undefined) {
+      conditions.push('employee_count >= {minEmployees:UInt32}');
+      params.minEmployees = options.minEmployees;
+    }
+    if (options.maxEmployees !== undefined) {
+      conditions.push('employee_count <= {maxEmployees:UInt32}');
+      params.maxEmployees = options.maxEmployees;
+    }
+    if (options.hqState?.trim()) {
+      conditions.push('hq_state = {hqState:String}');
+      params.hqState = options.hqState.trim().toUpperCase();
+    }
+
+    const rows = await this.clickhouseService.query<Record<string, unknown>>({
+      query: `SELECT ${COMPANY_COLUMNS.join(', ')}
+              FROM ${COMPANIES_TABLE}
+              ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+              ORDER BY employee_count DESC, name ASC
+              LIMIT {limit:UInt32}`,
+      params,
+      settings: this.sqlGuard.getReadonlySettings(limit),
+    });
+
+    this.logger.log(
+      `Busca de empresas: ${rows.length} resultados (${JSON.stringify(options)})`,
+    );
+    return rows.map(toCompany);
+  }
+
+  async getCompany(id: string): Promise<CompanyDetails> {
+    if (!/^\d+$/.test(id)) {
+      throw new NotFoundException(`Empresa não encontrada: ${id}`);
+    }
+
+    const [row] = await this.clickhouseService.query<Record<string, unknown>>({
+      query: `SELECT ${COMPANY_COLUMNS.join(', ')},
+                (SELECT count() FROM linkedin.people
+                 WHERE current_company_id = {id:Int64}) AS current_employees
+              FROM ${COMPANIES_TABLE}
+              WHERE company_id = {id:Int64}
+              LIMIT 1`,
+      params: { id },
+      settings: this.sqlGuard.getReadonlySettings(1),
+    });
+
+    if (!row) {
+      throw new NotFoundException(`Empresa não encontrada: ${id}`);
+    }
+
+    return {
+      ...toCompany(row),
+      currentEmployees: Number(row.current_employees) || 0,
+    };
+  }
+}
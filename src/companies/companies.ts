@@ -0,0 +1,125 @@
+/**
+ * Tabela de empresas do LinkedIn (mesma origem de linkedin.people).
+ * current_company_id de linkedin.people referencia company_id.
+ */
+export const COMPANIES_TABLE = 'linkedin.companies';
+
+// Tabela da aplicação com as empresas anteriores de cada perfil, por ID
+export const COMPANY_HISTORY_TABLE = 'people_company_history';
+
+export const COMPANY_COLUMNS = [
+  'company_id',
+  'company_public_id',
+  'name',
+  'industry',
+  'employee_count',
+  'hq_city',
+  'hq_state',
+  'hq_country',
+  'website',
+  'linkedin_url',
+  'logo_url',
+];
+
+/**
+ * Grupos de empresas citados pelos recrutadores ("ex-Big Four"), pelos
+ * nomes como aparecem em linkedin.companies (minúsculas)
+ */
+export const COMPANY_GROUPS: Record<string, string[]> = {
+  'big four': [
+    'deloitte',
+    'pwc',
+    'pricewaterhousecoopers',
+    'ey',
+    'ernst & young',
+    'kpmg',
+  ],
+  mbb: [
+    'mckinsey & company',
+    'boston consulting group (bcg)',
+    'bain & company',
+  ],
+  'big tech': [
+    'google',
+    'microsoft',
+    'amazon',
+    'amazon web services (aws)',
+    'meta',
+    'apple',
+    'netflix',
+  ],
+  'bancos tradicionais': [
+    'itaú unibanco',
+    'bradesco',
+    'santander brasil',
+    'banco do brasil',
+    'caixa',
+    'btg pactual',
+  ],
+};
+
+const GROUP_ALIASES = new Map<string, string>([
+  ['big 4', 'big four'],
+  ['big four', 'big four'],
+  ['mbb', 'mbb'],
+  ['big tech', 'big tech'],
+  ['big techs', 'big tech'],
+  ['faang', 'big tech'],
+  ['bancoes', 'bancos tradicionais'],
+  ['grandes bancos', 'bancos tradicionais'],
+  ['bancos tradicionais', 'bancos tradicionais'],
+]);
+
+export interface Company {
+  id: string;
+  publicId: string | null;
+  name: string;
+  industry: string | null;
+  employeeCount: number | null;
+  hqCity: string | null;
+  hqState: string | null;
+  hqCountry: string | null;
+  website: string | null;
+  linkedinUrl: string | null;
+  logoUrl: string | null;
+}
+
+/**
+ * Nome do grupo ("Big 4" → "big four") ou null se não é um grupo conhecido
+ */
+export function toCompanyGroup(value: string): string | null {
+  const key = value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/^ex\s*-?\s*/, '')
+    .trim();
+  return GROUP_ALIASES.get(key) ?? null;
+}
+
+export function toCompany(row: Record<string, unknown>): Company {
+  const text = (value: unknown) =>
+    typeof value === 'string' && value.trim() ? value.trim() : null;
+  // UInt32/Int64 podem chegar como número ou string no JSON
+  const number = (value: unknown) =>
+    value !== null && value !== undefined && Number.isFinite(Number(value))
+      ? Number(value)
+      : null;
+
+  return {
+    id:
+      typeof row.company_id === 'number'
+        ? String(row.company_id)
+        : text(row.company_id) || '',
+    publicId: text(row.company_public_id),
+    name: text(row.name) || '',
+    industry: text(row.industry),
+    employeeCount: number(row.employee_count),
+    hqCity: text(row.hq_city),
+    hqState: text(row.hq_state),
+    hqCountry: text(row.hq_country),
+    website: text(row.website),
+    linkedinUrl: text(row.linkedin_url),
+    logoUrl: text(row.logo_url),
+  };
+}
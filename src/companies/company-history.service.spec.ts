@@ -0,0 +1,64 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { CompanyHistoryService } from './company-history.service';
+import { SqlGuardService } from '../natural-query/sql-guard.service';
+import { ClickHouseService } from '../clickhouse/clickhouse.service';
+
+describe('CompanyHistoryService', () => {
+  let service: CompanyHistoryService;
+  const query = jest.fn();
+  const insert = jest.fn();
+
+  beforeEach(async () => {
+    query.mockReset();
+    insert.mockReset();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CompanyHistoryService,
+        SqlGuardService,
+        { provide: ClickHouseService, useValue: { query, insert } },
+        { provide: ConfigService, useValue: new ConfigService({}) },
+      ],
+    }).compile();
+
+    service = module.get<CompanyHistoryService>(CompanyHistoryService);
+  });
+
+  it('should store past companies resolved by id', async () => {
+    query
+      .mockResolvedValueOnce([
+        {
+          profile_id: 'a',
+          current_company_id: '3',
+          experience: JSON.stringify([
+            { company: 'Nubank', title: 'Tech Lead', start_date: '2022-01' },
+            {
+              company: 'KPMG',
+              title: 'Auditor',
+              start_date: '2018-01',
+              end_date: '2021-12',
+            },
+            {
+              company: 'Padaria do Zé',
+              title: 'Caixa',
+              start_date: '2015-01',
+              end_date: '2017-12',
+            },
+          ]),
+        },
+      ])
+      .mockResolvedValueOnce([{ key: 'kpmg', company_id: '42' }]);
+
+    const processed = await service.refresh({ batchSize: 100 });
+
+    expect(processed).toBe(1);
+    const [, [resolveNames]] = query.mock.calls as [unknown, [unknown]];
+    expect(resolveNames).toMatchObject({
+      params: { names: ['kpmg', 'padaria do zé'] },
+    });
+    expect(insert).toHaveBeenCalledWith('people_company_history', [
+      { profile_id: 'a', past_company_ids: ['42'] },
+    ]);
+  });
+});
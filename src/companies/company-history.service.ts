@@ -0,0 +1,132 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ClickHouseService } from '../clickhouse/clickhouse.service';
+import { SqlGuardService } from '../natural-query/sql-guard.service';
+import { parseExperience } from '../profiles/profile-parser';
+import type { RefreshMetricsOptions } from '../profiles/experience-metrics.service';
+import { COMPANIES_TABLE, COMPANY_HISTORY_TABLE } from './companies';
+
+const DEFAULT_BATCH_SIZE = 1000;
+
+/**
+ * Mantém a tabela com as empresas anteriores de cada perfil, por
+ * company_id, usada nos filtros "ex-empresa" da busca. Os nomes do
+ * histórico (experience) são resolvidos pelo nome exato em linkedin.companies.
+ */
+@Injectable()
+export class CompanyHistoryService implements OnModuleInit {
+  private readonly logger = new Logger(CompanyHistoryService.name);
+
+  constructor(
+    private readonly clickhouseService: ClickHouseService,
+    private readonly sqlGuard: SqlGuardService,
+  ) {}
+
+  async onModuleInit() {
+    try {
+      await this.clickhouseService.command(`
+        CREATE TABLE IF NOT EXISTS ${COMPANY_HISTORY_TABLE} (
+          profile_id String,
+          past_company_ids Array(Int64),
+          computed_at DateTime DEFAULT now()
+        )
+        ENGINE = ReplacingMergeTree(computed_at)
+        ORDER BY profile_id
+      `);
+    } catch (error) {
+      this.logger.error(
+        `Erro ao criar tabela de histórico de empresas: ${error}`,
+      );
+    }
+  }
+
+  /**
+   * Recalcula o histórico a partir de linkedin.people.experience, em lotes
+   * ordenados por profile_id. Retorna a quantidade de perfis processados.
+   */
+  async refresh(options: RefreshMetricsOptions = {}): Promise<number> {
+    const batchSize = options.batchSize || DEFAULT_BATCH_SIZE;
+    let after = '';
+    let processed = 0;
+
+    this.logger.log(
+      `Recalculando histórico de empresas${options.updatedSince ? ` (desde ${options.updatedSince})` : ''}`,
+    );
+
+    for (;;) {
+      const rows = await this.clickhouseService.query<{
+        profile_id: string;
+        current_company_id: string | number | null;
+        experience: string;
+      }>({
+        query: `SELECT profile_id, current_company_id, experience
+                FROM linkedin.people
+                WHERE profile_id > {after:String}
+                  ${options.updatedSince ? 'AND updated_at >= {updatedSince:String}' : ''}
+                ORDER BY profile_id ASC
+                LIMIT {batchSize:UInt32}`,
+        params: { after, batchSize, updatedSince: options.updatedSince },
+        settings: this.sqlGuard.getReadonlySettings(batchSize),
+      });
+      if (rows.length === 0) break;
+
+      const pastCompanies = rows.map((row) =>
+        parseExperience(row.experience).flatMap((entry) =>
+          !entry.current && entry.company ? [toCompanyKey(entry.company)] : [],
+        ),
+      );
+      const ids = await this.resolveCompanyIds(pastCompanies.flat());
+
+      await this.clickhouseService.insert(
+        COMPANY_HISTORY_TABLE,
+        rows.map((row, i) => {
+          const current = String(row.current_company_id ?? '');
+          const pastIds = pastCompanies[i]
+            .map((name) => ids.get(name))
+            .filter((id): id is string => !!id && id !== current);
+          return {
+            profile_id: row.profile_id,
+            past_company_ids: Array.from(new Set(pastIds)),
+          };
+        }),
+      );
+
+      processed += rows.length;
+      after = rows[rows.length - 1].profile_id;
+      this.logger.debug(`Histórico de empresas: ${processed} perfis`);
+
+      if (rows.length < batchSize) break;
+    }
+
+    this.logger.log(`Histórico de empresas recalculado: ${processed} perfis`);
+    return processed;
+  }
+
+  /**
+   * company_id de cada nome (em minúsculas). Com nomes repetidos em
+   * linkedin.companies, fica a empresa com mais funcionários.
+   */
+  private async resolveCompanyIds(
+    names: string[],
+  ): Promise<Map<string, string>> {
+    const unique = Array.from(new Set(names));
+    if (unique.length === 0) return new Map();
+
+    const rows = await this.clickhouseService.query<{
+      key: string;
+      company_id: string;
+    }>({
+      query: `SELECT lowerUTF8(name) AS key,
+                     toString(argMax(company_id, employee_count)) AS company_id
+              FROM ${COMPANIES_TABLE}
+              WHERE lowerUTF8(name) IN {names:Array(String)}
+              GROUP BY key`,
+      params: { names: unique },
+      settings: this.sqlGuard.getReadonlySettings(unique.length),
+    });
+    return new Map(rows.map((row) => [row.key, row.company_id]));
+  }
+}
+
+function toCompanyKey(name: string): string {
+  return name.trim().toLowerCase();
+}
@@ -0,0 +1,131 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { ClickHouseService } from '../clickhouse/clickhouse.service';
+import { SqlGuardService } from '../natural-query/sql-guard.service';
+import type { CompanyVariants } from '../natural-query/criteria-compiler.service';
+import {
+  CompanyNameResolution,
+  CompanyNameRow,
+  clusterCompanyNames,
+  companyNameKey,
+} from './company-names';
+
+// Nomes distintos avaliados por busca (os com mais perfis)
+const MAX_CANDIDATES = 500;
+// Variações usadas no filtro da busca
+const MAX_SEARCH_VARIANTS = 20;
+// Pré-filtro no ClickHouse, mais largo que o limite de clusterCompanyNames
+const CANDIDATE_DISTANCE = 0.6;
+
+interface NameRow {
+  name: string;
+  company_id: string | null;
+  public_id: string | null;
+  people: string | number;
+}
+
+/**
+ * Resolve um nome de empresa para todas as suas variações em
+ * current_company: candidatos por ngramDistance/substring no ClickHouse,
+ * completados pelos perfis com os mesmos current_company_id e
+ * current_company_public_id e agrupados em clusterCompanyNames
+ */
+@Injectable()
+export class CompanyNameResolverService {
+  private readonly logger = new Logger(CompanyNameResolverService.name);
+
+  constructor(
+    private readonly clickhouseService: ClickHouseService,
+    private readonly sqlGuard: SqlGuardService,
+  ) {}
+
+  async resolve(name: string): Promise<CompanyNameResolution> {
+    if (!companyNameKey(name)) {
+      throw new BadRequestException('Informe o nome da empresa (name)');
+    }
+
+    const candidates = await this.fetchNames(
+      `current_company ILIKE {like:String}
+       OR ngramDistanceCaseInsensitiveUTF8(current_company, {name:String}) <= {maxDistance:Float32}`,
+      {
+        like: `%${name.trim().replace(/[\\%_]/g, '\\$&')}%`,
+        name: name.trim(),
+        maxDistance: CANDIDATE_DISTANCE,
+      },
+    );
+    let resolution = clusterCompanyNames(name, candidates);
+
+    // Nomes muito diferentes do buscado, mas com os mesmos IDs
+    if (resolution.companyIds.length || resolution.publicIds.length) {
+      const linked = await this.fetchNames(
+        `toString(current_company_id) IN {ids:Array(String)}
+         OR current_company_public_id IN {publicIds:Array(String)}`,
+        { ids: resolution.companyIds, publicIds: resolution.publicIds },
+      );
+      resolution = clusterCompanyNames(
+        name,
+        uniqueRows([...candidates, ...linked]),
+      );
+    }
+
+    this.logger.log(
+      `Empresa "${name}": ${resolution.variants.length} variações, ${resolution.people} perfis`,
+    );
+    return resolution;
+  }
+
+  /**
+   * Variações de cada empresa citada nos critérios, no formato usado pelo
+   * compilador. Empresas sem nenhuma variação encontrada ficam de fora.
+   */
+  async resolveForSearch(names: string[]): Promise<CompanyVariants[]> {
+    const resolutions = await Promise.all(
+      names.filter((n) => companyNameKey(n)).map((n) => this.resolve(n)),
+    );
+    return resolutions
+      .filter((r) => r.variants.length > 0)
+      .map((r) => ({
+        name: r.name,
+        variants: r.variants.slice(0, MAX_SEARCH_VARIANTS).map((v) => v.name),
+        companyIds: r.companyIds,
+        publicIds: r.publicIds,
+      }));
+  }
+
+  private async fetchNames(
+    where: string,
+    params: Record<string, unknown>,
+  ): Promise<CompanyNameRow[]> {
+    const rows = await this.clickhouseService.query<NameRow>({
+      query: `SELECT current_company AS name,
+                     toString(current_company_id) AS company_id,
+                     current_company_public_id AS public_id,
+                     count() AS people
+              FROM linkedin.people
+              WHERE current_company != '' AND (${where})
+              GROUP BY name, company_id, public_id
+              ORDER BY people DESC
+              LIMIT ${MAX_CANDIDATES}`,
+      params,
+      settings: this.sqlGuard.getReadonlySettings(MAX_CANDIDATES),
+    });
+
+    return rows.map((row) => ({
+      name: row.name,
+      // Perfis sem empresa vinculada vêm com ID 0 ou vazio
+      companyId:
+        row.company_id && row.company_id !== '0' ? row.company_id : null,
+      publicId: row.public_id || null,
+      people: Number(row.people) || 0,
+    }));
+  }
+}
+
+function uniqueRows(rows: CompanyNameRow[]): CompanyNameRow[] {
+  const seen = new Set<string>();
+  return rows.filter((row) => {
+    const key = `${row.name}|${row.companyId}|${row.publicId}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
@@ -0,0 +1,40 @@
+import {
+  clusterCompanyNames,
+  companyNameKey,
+  trigramDistance,
+} from './company-names';
+
+describe('company-names', () => {
+  it('should ignore accents, punctuation and legal suffixes in the key', () => {
+    expect(companyNameKey('Itaú Unibanco S.A.')).toBe('itau unibanco');
+    expect(companyNameKey('ACME Ltda.')).toBe('acme');
+    expect(companyNameKey('S.A.')).toBe('sa');
+    expect(trigramDistance('itau', 'itau')).toBe(0);
+    expect(trigramDistance('itau', 'nubank')).toBe(1);
+  });
+
+  it('should group variants by name similarity and shared ids', () => {
+    const resolution = clusterCompanyNames('Itaú', [
+      { name: 'Itaú Unibanco', companyId: '1353', publicId: null, people: 40 },
+      { name: 'ITAU', companyId: null, publicId: null, people: 12 },
+      {
+        name: 'Banco Itaú BBA',
+        companyId: null,
+        publicId: 'itau-bba',
+        people: 3,
+      },
+      { name: 'IU S.A.', companyId: '1353', publicId: null, people: 2 },
+      { name: 'Itautec', companyId: '77', publicId: null, people: 5 },
+    ]);
+
+    expect(resolution.variants.map((v) => v.name)).toEqual([
+      'Itaú Unibanco',
+      'ITAU',
+      'Banco Itaú BBA',
+      'IU S.A.',
+    ]);
+    expect(resolution.companyIds).toEqual(['1353']);
+    expect(resolution.publicIds).toEqual(['itau-bba']);
+    expect(resolution.people).toBe(57);
+  });
+});
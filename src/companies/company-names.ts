@@ -0,0 +1,157 @@
+/**
+ * Agrupamento das variações de nome de empresa escritas à mão em
+ * linkedin.people.current_company ("Itaú", "Itau Unibanco", "ITAÚ BBA")
+ */
+
+export interface CompanyNameRow {
+  /** Valor de current_company */
+  name: string;
+  companyId: string | null;
+  publicId: string | null;
+  /** Perfis com esse nome (e IDs) como empresa atual */
+  people: number;
+}
+
+export interface CompanyNameVariant extends CompanyNameRow {
+  /** Distância de trigramas até o nome buscado (0 = igual) */
+  distance: number;
+}
+
+export interface CompanyNameResolution {
+  name: string;
+  variants: CompanyNameVariant[];
+  companyIds: string[];
+  publicIds: string[];
+  /** Total de perfis nas variações */
+  people: number;
+}
+
+// Distância máxima para uma variação ser considerada a mesma empresa
+export const MAX_NAME_DISTANCE = 0.35;
+
+// Sufixos societários ignorados na comparação
+const IGNORED_SUFFIXES = new Set([
+  'sa',
+  'ltda',
+  'ltd',
+  'inc',
+  'llc',
+  'eireli',
+  'me',
+  'corp',
+]);
+
+/**
+ * Chave de comparação: minúsculas, sem acento, sem pontuação e sem
+ * sufixos societários ("Itaú Unibanco S.A." → "itau unibanco")
+ */
+export function companyNameKey(name: string): string {
+  const words = name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\bs\/?\.?a\b\.?/g, 'sa')
+    .replace(/[^a-z0-9&]+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter(Boolean);
+
+  while (words.length > 1 && IGNORED_SUFFIXES.has(words[words.length - 1])) {
+    words.pop();
+  }
+  return words.join(' ');
+}
+
+/**
+ * 1 - coeficiente de Dice entre os trigramas das duas chaves
+ */
+export function trigramDistance(a: string, b: string): number {
+  const gramsA = trigrams(a);
+  const gramsB = trigrams(b);
+  if (gramsA.size === 0 || gramsB.size === 0) return 1;
+
+  let shared = 0;
+  for (const gram of gramsA) {
+    if (gramsB.has(gram)) shared++;
+  }
+  return 1 - (2 * shared) / (gramsA.size + gramsB.size);
+}
+
+/**
+ * Variações da empresa buscada. Um nome é variação quando contém o nome
+ * buscado como palavra inteira ou está a até MAX_NAME_DISTANCE dele; nomes
+ * que compartilham current_company_id ou public id com uma variação (ou a
+ * mesma chave) entram no mesmo grupo.
+ */
+export function clusterCompanyNames(
+  name: string,
+  rows: CompanyNameRow[],
+): CompanyNameResolution {
+  const target = companyNameKey(name);
+  const variants = rows.map((row) => ({
+    ...row,
+    key: companyNameKey(row.name),
+    distance: trigramDistance(companyNameKey(row.name), target),
+  }));
+
+  // Union-find pelos identificadores compartilhados
+  const parent = variants.map((_, i) => i);
+  const find = (i: number): number =>
+    parent[i] === i ? i : (parent[i] = find(parent[i]));
+  const firstByLink = new Map<string, number>();
+  variants.forEach((variant, i) => {
+    const links = [
+      `key:${variant.key}`,
+      variant.companyId ? `id:${variant.companyId}` : null,
+      variant.publicId ? `public:${variant.publicId}` : null,
+    ];
+    for (const link of links) {
+      if (!link) continue;
+      const first = firstByLink.get(link);
+      if (first === undefined) firstByLink.set(link, i);
+      else parent[find(i)] = find(first);
+    }
+  });
+
+  const matchedGroups = new Set(
+    variants
+      .map((variant, i) => ({ variant, i }))
+      .filter(
+        ({ variant }) =>
+          ` ${variant.key} `.includes(` ${target} `) ||
+          variant.distance <= MAX_NAME_DISTANCE,
+      )
+      .map(({ i }) => find(i)),
+  );
+  const matched = variants
+    .filter((_, i) => matchedGroups.has(find(i)))
+    .sort((a, b) => b.people - a.people || a.name.localeCompare(b.name))
+    .map((v) => ({
+      name: v.name,
+      companyId: v.companyId,
+      publicId: v.publicId,
+      people: v.people,
+      distance: Math.round(v.distance * 100) / 100,
+    }));
+
+  return {
+    name,
+    variants: matched,
+    companyIds: uniqueValues(matched.map((v) => v.companyId)),
+    publicIds: uniqueValues(matched.map((v) => v.publicId)),
+    people: matched.reduce((total, v) => total + v.people, 0),
+  };
+}
+
+function trigrams(key: string): Set<string> {
+  const padded = ` ${key} `;
+  const grams = new Set<string>();
+  for (let i = 0; i + 3 <= padded.length; i++) {
+    grams.add(padded.slice(i, i + 3));
+  }
+  return grams;
+}
+
+function uniqueValues(values: (string | null)[]): string[] {
+  return Array.from(new Set(values.filter((v): v is string => !!v)));
+}
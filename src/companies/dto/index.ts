@@ -0,0 +1,3 @@
+export * from './search-companies.dto';
+export * from './refresh-company-history.dto';
+export * from './resolve-company-name.dto';
@@ -0,0 +1,15 @@
+import { IsInt, IsOptional, Matches, Max, Min } from 'class-validator';
+
+export class RefreshCompanyHistoryDto {
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, {
+    message: 'updatedSince deve estar no formato YYYY-MM-DD',
+  })
+  @IsOptional()
+  updatedSince?: string;
+
+  @IsInt()
+  @Min(100)
+  @Max(10000)
+  @IsOptional()
+  batchSize?: number;
+}
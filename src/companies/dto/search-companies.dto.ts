@@ -0,0 +1,46 @@
+import {
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export class SearchCompaniesDto {
+  @IsString()
+  @MaxLength(200)
+  @IsOptional()
+  q?: string;
+
+  @IsString()
+  @MaxLength(50)
+  @IsOptional()
+  group?: string;
+
+  @IsString()
+  @MaxLength(100)
+  @IsOptional()
+  industry?: string;
+
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  minEmployees?: number;
+
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  maxEmployees?: number;
+
+  @IsString()
+  @MaxLength(50)
+  @IsOptional()
+  hqState?: string;
+
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  limit?: number;
+}
@@ -0,0 +1,7 @@
+export * from './companies.module';
+export * from './companies.service';
+export * from './company-history.service';
+export * from './company-name-resolver.service';
+export * from './companies.controller';
+export * from './companies';
+export * from './company-names';
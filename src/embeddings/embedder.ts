@@ -0,0 +1,21 @@
+export const EMBEDDER = 'EMBEDDER';
+
+/**
+ * Gera os vetores usados na busca por similaridade. A implementação é
+ * escolhida por EMBEDDINGS_PROVIDER (OpenAI ou hashing local, determinístico).
+ */
+export interface Embedder {
+  /** Identifica o espaço vetorial: vetores de modelos diferentes não se comparam */
+  readonly model: string;
+  readonly dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Vetores de uma chamada ao provedor, com os tokens cobrados
+ */
+export interface EmbeddingBatch {
+  vectors: number[][];
+  /** Ausente quando o provedor não informa os tokens */
+  promptTokens?: number;
+}
@@ -0,0 +1,47 @@
+import { Module, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import OpenAI from 'openai';
+import { OPENAI_CLIENT } from '../openai/openai.module';
+import { EMBEDDER, Embedder } from './embedder';
+import { HashingEmbedder } from './hashing-embedder';
+import { OpenAIEmbedder } from './openai-embedder';
+import { UsageModule } from '../usage/usage.module';
+import { UsageService } from '../usage/usage.service';
+import { MeteredEmbedder } from '../usage/metered-embedder';
+
+@Module({
+  imports: [UsageModule],
+  providers: [
+    {
+      provide: EMBEDDER,
+      useFactory: (
+        configService: ConfigService,
+        openai: OpenAI,
+        usageService: UsageService,
+      ): Embedder => {
+        const provider =
+          configService.get<string>('EMBEDDINGS_PROVIDER') || 'openai';
+        // Chamadas à OpenAI passam pela contabilização de uso e pelo orçamento
+        const embedder =
+          provider === 'hashing'
+            ? new HashingEmbedder()
+            : new MeteredEmbedder(
+                new OpenAIEmbedder(
+                  openai,
+                  configService.get<string>('OPENAI_EMBEDDING_MODEL') ||
+                    'text-embedding-3-small',
+                ),
+                usageService,
+              );
+
+        new Logger('EmbeddingsModule').log(
+          `Embeddings com o modelo ${embedder.model}`,
+        );
+        return embedder;
+      },
+      inject: [ConfigService, OPENAI_CLIENT, UsageService],
+    },
+  ],
+  exports: [EMBEDDER],
+})
+export class EmbeddingsModule {}
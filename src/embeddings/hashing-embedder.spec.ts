@@ -0,0 +1,34 @@
+import { HashingEmbedder } from './hashing-embedder';
+
+function cosine(a: number[], b: number[]): number {
+  return a.reduce((sum, value, i) => sum + value * b[i], 0);
+}
+
+describe('HashingEmbedder', () => {
+  const embedder = new HashingEmbedder(128);
+
+  it('should produce deterministic unit vectors', async () => {
+    const [first] = await embedder.embed(['Engenheira de Dados | Spark']);
+    const [second] = await embedder.embed(['engenheira de dados spark']);
+
+    expect(embedder.model).toBe('hashing-128');
+    expect(first).toHaveLength(128);
+    expect(cosine(first, first)).toBeCloseTo(1);
+    expect(first).toEqual(second);
+  });
+
+  it('should place profiles with shared terms closer together', async () => {
+    const [seed, close, far] = await embedder.embed([
+      'desenvolvedor backend node.js kafka',
+      'desenvolvedora backend node.js postgresql',
+      'gerente comercial varejo',
+    ]);
+
+    expect(cosine(seed, close)).toBeGreaterThan(cosine(seed, far));
+  });
+
+  it('should return a zero vector for text without words', async () => {
+    const [vector] = await embedder.embed(['-']);
+    expect(vector.every((value) => value === 0)).toBe(true);
+  });
+});
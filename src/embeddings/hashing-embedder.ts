@@ -0,0 +1,53 @@
+import { Embedder } from './embedder';
+
+const DEFAULT_DIMENSIONS = 256;
+
+/**
+ * Embedder local por feature hashing de palavras e bigramas. Não entende
+ * sinônimos, mas é determinístico e não depende de rede (testes e
+ * ambientes sem chave da OpenAI).
+ */
+export class HashingEmbedder implements Embedder {
+  readonly model: string;
+
+  constructor(readonly dimensions: number = DEFAULT_DIMENSIONS) {
+    this.model = `hashing-${dimensions}`;
+  }
+
+  embed(texts: string[]): Promise<number[][]> {
+    return Promise.resolve(texts.map((text) => this.vectorize(text)));
+  }
+
+  private vectorize(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const words = text
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .split(/[^a-z0-9+#.]+/)
+      .map((word) => word.replace(/^\.+|\.+$/g, ''))
+      .filter((word) => word.length >= 2);
+
+    const features = [
+      ...words,
+      ...words.slice(1).map((word, i) => `${words[i]} ${word}`),
+    ];
+    for (const feature of features) {
+      const hash = fnv1a(feature);
+      // O bit mais alto define o sinal e reduz o efeito das colisões
+      vector[hash % this.dimensions] += hash & 0x80000000 ? -1 : 1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm > 0 ? vector.map((v) => v / norm) : vector;
+  }
+}
+
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,4 @@
+export * from './embeddings.module';
+export * from './embedder';
+export * from './hashing-embedder';
+export * from './openai-embedder';
@@ -0,0 +1,43 @@
+import OpenAI from 'openai';
+import { EmbeddingBatch, Embedder } from './embedder';
+
+// Dimensões padrão dos modelos de embedding da OpenAI
+const MODEL_DIMENSIONS: Record<string, number> = {
+  'text-embedding-3-small': 1536,
+  'text-embedding-3-large': 3072,
+  'text-embedding-ada-002': 1536,
+};
+
+export class OpenAIEmbedder implements Embedder {
+  readonly dimensions: number;
+
+  constructor(
+    private readonly openai: OpenAI,
+    readonly model: string,
+  ) {
+    this.dimensions = MODEL_DIMENSIONS[model] ?? 1536;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return (await this.embedBatch(texts)).vectors;
+  }
+
+  /**
+   * Vetores e tokens cobrados (usados na contabilização de uso)
+   */
+  async embedBatch(texts: string[]): Promise<EmbeddingBatch> {
+    if (texts.length === 0) return { vectors: [] };
+
+    const response = await this.openai.embeddings.create({
+      model: this.model,
+      input: texts,
+    });
+
+    return {
+      vectors: response.data
+        .sort((a, b) => a.index - b.index)
+        .map((item) => item.embedding),
+      promptTokens: response.usage?.prompt_tokens,
+    };
+  }
+}
@@ -0,0 +1,41 @@
+import {
+  IsArray,
+  IsIn,
+  IsOptional,
+  IsString,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ProfileFeedbackDto } from '../../natural-query/dto/query.dto';
+import { SearchCriteriaDto } from '../../natural-query/dto/search-criteria.dto';
+import { EXPORT_FORMATS } from '../formatters';
+
+export class CreateExportDto {
+  @IsString()
+  @IsOptional()
+  sessionId?: string;
+
+  @ValidateNested()
+  @Type(() => SearchCriteriaDto)
+  @IsOptional()
+  criteria?: SearchCriteriaDto;
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ProfileFeedbackDto)
+  @IsOptional()
+  profileFeedback?: ProfileFeedbackDto[];
+
+  @IsIn(EXPORT_FORMATS)
+  @IsOptional()
+  format?: 'csv' | 'xlsx' | 'jsonl';
+
+  @IsIn([';', ',', '\t'])
+  @IsOptional()
+  delimiter?: ';' | ',' | '\t';
+
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  columns?: string[];
+}
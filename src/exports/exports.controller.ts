@@ -0,0 +1,121 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Body,
+  Param,
+  Headers,
+  HttpCode,
+  Res,
+} from '@nestjs/common';
+import type { Response } from 'express';
+import { ExportsService } from './exports.service';
+import type { ExportJob } from './exports.service';
+import { CreateExportDto } from './dto/export.dto';
+import { EXPORT_FILE_TYPES } from './formatters';
+
+@Controller('exports')
+export class ExportsController {
+  constructor(private readonly exportsService: ExportsService) {}
+
+  /**
+   * Exporta os candidatos direto na resposta, linha a linha
+   * (até o teto síncrono do workspace; acima disso use POST /exports)
+   * POST /exports/stream
+   *
+   * Headers: X-Workspace-Id (opcional)
+   * Body:
+   * {
+   *   "sessionId": "uuid da sessão",
+   *   "format": "xlsx",
+   *   "columns": ["full_name", "current_company", "profile_url", "feedback", "reason"]
+   * }
+   * ou
+   * {
+   *   "criteria": { "roleTitles": ["tech lead"], "cities": ["CURITIBA"] },
+   *   "profileFeedback": [...],
+   *   "format": "csv",
+   *   "delimiter": ","
+   * }
+   *
+   * Formatos: csv (UTF-8 com BOM, padrão ";"), xlsx e jsonl
+   */
+  @Post('stream')
+  async streamExport(
+    @Body() dto: CreateExportDto,
+    @Headers('x-workspace-id') workspaceId: string | undefined,
+    @Res() res: Response,
+  ): Promise<void> {
+    const request = await this.exportsService.resolveRequest(dto);
+    const { syncMaxRows } = this.exportsService.getLimits(workspaceId);
+    const fileType = EXPORT_FILE_TYPES[request.format];
+
+    res.status(200);
+    res.setHeader('Content-Type', fileType.contentType);
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="candidatos.${fileType.extension}"`,
+    );
+
+    // Interrompe a query se o cliente desconectar
+    const abort = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) abort.abort();
+    });
+
+    try {
+      await this.exportsService.streamExport(request, res, {
+        maxRows: syncMaxRows,
+        destination: `download:${request.format}`,
+        signal: abort.signal,
+      });
+      res.end();
+    } catch (error) {
+      // Os headers já foram enviados: só resta interromper a resposta
+      res.destroy(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  /**
+   * Cria uma exportação em background (até o teto do workspace)
+   * POST /exports
+   *
+   * Headers: X-Workspace-Id (opcional)
+   * Body: igual ao /exports/stream
+   */
+  @Post()
+  @HttpCode(202)
+  async createJob(
+    @Body() dto: CreateExportDto,
+    @Headers('x-workspace-id') workspaceId: string | undefined,
+  ): Promise<ExportJob> {
+    const request = await this.exportsService.resolveRequest(dto);
+    return this.exportsService.createJob(request, workspaceId);
+  }
+
+  /**
+   * Status da exportação (downloadUrl disponível quando concluída)
+   * GET /exports/:id
+   */
+  @Get(':id')
+  getJob(
+    @Param('id') id: string,
+    @Headers('x-workspace-id') workspaceId: string | undefined,
+  ): ExportJob {
+    return this.exportsService.getJob(id, workspaceId);
+  }
+
+  /**
+   * Download do arquivo de uma exportação concluída
+   * GET /exports/:id/download
+   */
+  @Get(':id/download')
+  download(
+    @Param('id') id: string,
+    @Headers('x-workspace-id') workspaceId: string | undefined,
+    @Res() res: Response,
+  ): void {
+    const file = this.exportsService.getJobFile(id, workspaceId);
+    res.download(file.path, file.filename);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { ExportsController } from './exports.controller';
+import { ExportsService } from './exports.service';
+import { NaturalQueryModule } from '../natural-query/natural-query.module';
+import { AuditModule } from '../audit/audit.module';
+
+@Module({
+  imports: [NaturalQueryModule, AuditModule],
+  controllers: [ExportsController],
+  providers: [ExportsService],
+  exports: [ExportsService],
+})
+export class ExportsModule {}
@@ -0,0 +1,222 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { existsSync } from 'fs';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PassThrough, Writable } from 'stream';
+import { ExportsService } from './exports.service';
+import {
+  ClickHouseService,
+  ClickHouseQuery,
+} from '../clickhouse/clickhouse.service';
+import { SqlGuardService } from '../natural-query/sql-guard.service';
+import { CriteriaCompilerService } from '../natural-query/criteria-compiler.service';
+import { SearchSessionsService } from '../natural-query/search-sessions.service';
+import { AuditService } from '../audit/audit.service';
+
+async function* asyncRows(rows: Record<string, unknown>[]) {
+  for (const row of rows) {
+    yield await Promise.resolve(row);
+  }
+}
+
+describe('ExportsService', () => {
+  let service: ExportsService;
+  const stream = jest.fn<
+    AsyncGenerator<Record<string, unknown>>,
+    [ClickHouseQuery]
+  >();
+  const query = jest.fn();
+  const record = jest.fn();
+  let exportDir: string;
+
+  beforeAll(async () => {
+    exportDir = await mkdtemp(join(tmpdir(), 'exports-spec-'));
+  });
+
+  afterAll(async () => {
+    await rm(exportDir, { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    stream.mockReset();
+    query.mockReset();
+    record.mockReset();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ExportsService,
+        SqlGuardService,
+        CriteriaCompilerService,
+        { provide: ClickHouseService, useValue: { stream, query } },
+        { provide: SearchSessionsService, useValue: {} },
+        { provide: AuditService, useValue: { record } },
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({
+            EXPORT_MAX_ROWS: '100000',
+            EXPORT_WORKSPACE_LIMITS: '{"acme":{"maxRows":500000}}',
+            EXPORT_DIR: exportDir,
+            EXPORT_TTL_SECONDS: '60',
+          }),
+        },
+      ],
+    }).compile();
+
+    service = module.get<ExportsService>(ExportsService);
+  });
+
+  it('should apply workspace overrides on top of the default limits', () => {
+    expect(service.getLimits('acme')).toEqual({
+      maxRows: 500000,
+      syncMaxRows: 2000,
+      maxConcurrentJobs: 2,
+    });
+    expect(service.getLimits().maxRows).toBe(100000);
+  });
+
+  it('should stream rows with feedback columns and the export cap', async () => {
+    stream.mockReturnValue(
+      asyncRows([
+        { profile_id: 'abc', full_name: 'Ana; Souza', city: 'CURITIBA' },
+        { profile_id: 'def', full_name: 'Bruno "Dev"' },
+      ]),
+    );
+    const output = new PassThrough();
+    const chunks: string[] = [];
+    output.on('data', (chunk: Buffer) => chunks.push(chunk.toString()));
+
+    const exported = await service.streamExport(
+      {
+        criteria: { roleTitles: ['backend'] },
+        excludeProfileIds: ['xyz'],
+        feedback: [
+          {
+            profileId: 'def',
+            profileName: 'Bruno',
+            interesting: true,
+            reason: 'boa experiência',
+          },
+        ],
+        format: 'csv',
+        formatOptions: {},
+      },
+      output,
+      { maxRows: 50000, destination: 'download:csv' },
+    );
+
+    const lines = chunks.join('').trimEnd().split('\n');
+    expect(exported).toBe(2);
+    expect(lines[0]).toMatch(/^\uFEFFID;Nome;Headline;/);
+    expect(lines[1]).toMatch(/^abc;"Ana; Souza";/);
+    expect(lines[2]).toMatch(/^def;"Bruno ""Dev""";/);
+    expect(lines[2]).toMatch(/;Interessante;boa experiência$/);
+
+    const [query] = stream.mock.calls[0];
+    expect(query.query).toContain('LIMIT 50000');
+    expect(query.params).toMatchObject({ p1: ['xyz'] });
+    expect(query.settings).toMatchObject({
+      readonly: '2',
+      max_result_rows: '50000',
+      max_execution_time: 600,
+    });
+    expect(record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        operation: 'export',
+        sql: query.query,
+        rowCount: 2,
+        profileIds: ['abc', 'def'],
+        destination: 'download:csv',
+      }),
+    );
+  });
+
+  it('should record the aborted export when the client disconnects', async () => {
+    stream.mockReturnValue(
+      asyncRows([{ profile_id: 'abc' }, { profile_id: 'def' }]),
+    );
+    const output = new Writable({ highWaterMark: 1, write: () => undefined });
+    output.destroy();
+
+    await expect(
+      service.streamExport(
+        {
+          criteria: { roleTitles: ['backend'] },
+          excludeProfileIds: [],
+          feedback: [],
+          format: 'csv',
+          formatOptions: {},
+        },
+        output,
+        { maxRows: 100, destination: 'download:csv' },
+      ),
+    ).rejects.toThrow('O destino da exportação foi fechado antes do fim');
+
+    expect(record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        rowCount: 0,
+        profileIds: [],
+        error: 'O destino da exportação foi fechado antes do fim',
+      }),
+    );
+  });
+
+  it('should count pending exports in the concurrency limit', async () => {
+    let countRows: (rows: unknown[]) => void = () => undefined;
+    query
+      .mockReturnValueOnce(new Promise((resolve) => (countRows = resolve)))
+      .mockRejectedValueOnce(new Error('ClickHouse indisponível'))
+      .mockResolvedValue([{ total: 0 }]);
+    stream.mockImplementation(() => asyncRows([]));
+    const request = {
+      criteria: { roleTitles: ['backend'] },
+      excludeProfileIds: [],
+      feedback: [],
+      format: 'csv' as const,
+      formatOptions: {},
+    };
+
+    const first = service.createJob(request);
+    await expect(service.createJob(request)).rejects.toThrow(
+      'ClickHouse indisponível',
+    );
+    // A contagem que falhou libera a vaga; a primeira ainda ocupa uma
+    const second = service.createJob(request);
+    await expect(service.createJob(request)).rejects.toThrow(
+      'Limite de 2 exportações simultâneas atingido',
+    );
+
+    countRows([{ total: 1 }]);
+    await Promise.all([first, second]);
+  });
+
+  it('should remove expired exports and their files', async () => {
+    query.mockResolvedValue([{ total: 1 }]);
+    stream.mockReturnValue(asyncRows([{ profile_id: 'abc' }]));
+    const orphan = join(exportDir, 'anterior.csv');
+    await writeFile(orphan, 'profile_id\n');
+
+    const job = await service.createJob({
+      criteria: { roleTitles: ['backend'] },
+      excludeProfileIds: [],
+      feedback: [],
+      format: 'csv',
+      formatOptions: {},
+    });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    const { path } = service.getJobFile(job.id);
+    expect(existsSync(path)).toBe(true);
+
+    // Dentro do prazo a exportação continua disponível
+    await service.removeExpired(Date.now() + 30000);
+    expect(service.getJob(job.id).status).toBe('completed');
+    expect(existsSync(orphan)).toBe(true);
+
+    await service.removeExpired(Date.now() + 61000);
+    expect(() => service.getJob(job.id)).toThrow(NotFoundException);
+    expect(existsSync(path)).toBe(false);
+    expect(existsSync(orphan)).toBe(false);
+  });
+});
@@ -0,0 +1,455 @@
+import {
+  BadRequestException,
+  ConflictException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { createWriteStream } from 'fs';
+import { mkdir, readdir, stat, unlink } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Writable } from 'stream';
+import { finished } from 'stream/promises';
+import { ClickHouseService } from '../clickhouse/clickhouse.service';
+import { SqlGuardService } from '../natural-query/sql-guard.service';
+import {
+  CriteriaCompilerService,
+  SearchCriteria,
+} from '../natural-query/criteria-compiler.service';
+import { SearchSessionsService } from '../natural-query/search-sessions.service';
+import { ProfileFeedbackDto } from '../natural-query/dto/query.dto';
+import { AuditService } from '../audit/audit.service';
+import { CreateExportDto } from './dto/export.dto';
+import {
+  EXPORT_FILE_TYPES,
+  ExportFormat,
+  ExportFormatOptions,
+  createExportFormatter,
+  selectColumns,
+  withFeedback,
+} from './formatters';
+
+export const DEFAULT_WORKSPACE = 'default';
+
+export type ExportJobStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export interface ExportJob {
+  id: string;
+  workspaceId: string;
+  format: ExportFormat;
+  status: ExportJobStatus;
+  /** Candidatos que serão exportados (já limitado pelo teto do workspace) */
+  totalRows: number;
+  exportedRows: number;
+  /** true quando a busca tem mais candidatos do que o teto permite exportar */
+  truncated: boolean;
+  createdAt: string;
+  finishedAt?: string;
+  error?: string;
+  downloadUrl?: string;
+}
+
+export interface ExportLimits {
+  /** Máximo de linhas por exportação em background */
+  maxRows: number;
+  /** Máximo de linhas na exportação enviada direto na resposta */
+  syncMaxRows: number;
+  /** Exportações em background simultâneas por workspace */
+  maxConcurrentJobs: number;
+}
+
+/**
+ * O que exportar (critérios, perfis excluídos, avaliações) e em qual formato
+ */
+export interface ExportRequest {
+  criteria: SearchCriteria;
+  excludeProfileIds: string[];
+  /** Avaliações do recrutador, exportadas nas colunas de feedback e motivo */
+  feedback: ProfileFeedbackDto[];
+  format: ExportFormat;
+  formatOptions: ExportFormatOptions;
+}
+
+/** Intervalo máximo entre duas limpezas de exportações expiradas */
+const CLEANUP_INTERVAL_MS = 10 * 60 * 1000;
+
+@Injectable()
+export class ExportsService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(ExportsService.name);
+  private readonly jobs = new Map<string, ExportJob>();
+  private readonly defaultLimits: ExportLimits;
+  private readonly workspaceLimits: Record<string, Partial<ExportLimits>>;
+  private readonly exportDir: string;
+  private readonly maxExecutionTime: number;
+  private readonly ttlMs: number;
+  private cleanupTimer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly clickhouseService: ClickHouseService,
+    private readonly configService: ConfigService,
+    private readonly sqlGuard: SqlGuardService,
+    private readonly criteriaCompiler: CriteriaCompilerService,
+    private readonly searchSessionsService: SearchSessionsService,
+    private readonly auditService: AuditService,
+  ) {
+    this.defaultLimits = {
+      maxRows: Number(
+        this.configService.get<string>('EXPORT_MAX_ROWS') || 100000,
+      ),
+      syncMaxRows: Number(
+        this.configService.get<string>('EXPORT_SYNC_MAX_ROWS') || 2000,
+      ),
+      maxConcurrentJobs: Number(
+        this.configService.get<string>('EXPORT_MAX_CONCURRENT_JOBS') || 2,
+      ),
+    };
+    this.workspaceLimits = this.parseWorkspaceLimits(
+      this.configService.get<string>('EXPORT_WORKSPACE_LIMITS'),
+    );
+    this.exportDir =
+      this.configService.get<string>('EXPORT_DIR') ||
+      join(tmpdir(), 'atrai-exports');
+    this.maxExecutionTime = Number(
+      this.configService.get<string>('EXPORT_MAX_EXECUTION_TIME') || 600,
+    );
+    this.ttlMs =
+      Number(this.configService.get<string>('EXPORT_TTL_SECONDS') || 3600) *
+      1000;
+  }
+
+  onModuleInit() {
+    this.cleanupTimer = setInterval(
+      () => void this.removeExpired(),
+      Math.min(this.ttlMs, CLEANUP_INTERVAL_MS),
+    );
+    this.cleanupTimer.unref();
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.cleanupTimer);
+  }
+
+  /**
+   * Tetos de exportação do workspace (padrão + sobrescritas de EXPORT_WORKSPACE_LIMITS)
+   */
+  getLimits(workspaceId: string = DEFAULT_WORKSPACE): ExportLimits {
+    return { ...this.defaultLimits, ...this.workspaceLimits[workspaceId] };
+  }
+
+  /**
+   * Define o que exportar: critérios da sessão (ou enviados no body),
+   * sem os perfis marcados como não interessantes
+   */
+  async resolveRequest(dto: CreateExportDto): Promise<ExportRequest> {
+    let criteria: SearchCriteria;
+    let feedback = dto.profileFeedback || [];
+
+    if (dto.sessionId) {
+      const session = await this.searchSessionsService.get(dto.sessionId);
+      if (!session.criteria) {
+        throw new BadRequestException(
+          'A sessão ainda não possui critérios de busca para exportar',
+        );
+      }
+      criteria = session.criteria;
+      feedback = [...session.feedback, ...feedback];
+    } else if (dto.criteria) {
+      criteria = this.criteriaCompiler.normalize(dto.criteria);
+    } else {
+      throw new BadRequestException('Informe sessionId ou criteria');
+    }
+
+    return {
+      criteria,
+      excludeProfileIds: feedback
+        .filter((f) => !f.interesting)
+        .map((f) => f.profileId),
+      feedback,
+      format: dto.format || 'csv',
+      formatOptions: {
+        columns: selectColumns(dto.columns),
+        delimiter: dto.delimiter,
+      },
+    };
+  }
+
+  /**
+   * Escreve o arquivo no destino conforme as linhas chegam do ClickHouse,
+   * respeitando o backpressure. Retorna a quantidade de linhas exportadas.
+   * A exportação (inclusive a interrompida) é registrada na auditoria.
+   */
+  async streamExport(
+    request: ExportRequest,
+    output: Writable,
+    options: {
+      maxRows: number;
+      /** Destino na auditoria: download:<formato> ou file:<exportação> */
+      destination: string;
+      signal?: AbortSignal;
+      onRow?: (exportedRows: number) => void;
+    },
+  ): Promise<number> {
+    const compiled = this.criteriaCompiler.compile(request.criteria, {
+      limit: options.maxRows,
+      excludeProfileIds: request.excludeProfileIds,
+    });
+    const feedbackByProfile = new Map(
+      request.feedback.map((f) => [f.profileId, f]),
+    );
+
+    this.logger.log(
+      `Exportando via stream (${request.format}): ${compiled.sql}`,
+    );
+
+    const rows = this.clickhouseService.stream<Record<string, unknown>>({
+      query: compiled.sql,
+      params: compiled.params,
+      settings: this.getExportSettings(options.maxRows),
+      abortSignal: options.signal,
+    });
+
+    const formatter = createExportFormatter(
+      request.format,
+      output,
+      request.formatOptions,
+    );
+    let exportedRows = 0;
+    const profileIds: string[] = [];
+    const audit = (error?: string) =>
+      this.auditService.record({
+        operation: 'export',
+        input: this.criteriaCompiler.describe(request.criteria),
+        sql: compiled.sql,
+        params: compiled.params,
+        criteria: request.criteria,
+        rowCount: exportedRows,
+        profileIds,
+        destination: options.destination,
+        error,
+      });
+
+    try {
+      for await (const row of rows) {
+        await formatter.write(
+          withFeedback(row, feedbackByProfile.get(row.profile_id as string)),
+        );
+        exportedRows++;
+        if (typeof row.profile_id === 'string') profileIds.push(row.profile_id);
+        options.onRow?.(exportedRows);
+      }
+      await formatter.end();
+    } catch (error) {
+      await audit(error instanceof Error ? error.message : String(error));
+      throw error;
+    }
+    await audit();
+
+    return exportedRows;
+  }
+
+  /**
+   * Cria uma exportação em background, gravada em arquivo
+   */
+  async createJob(
+    request: ExportRequest,
+    workspaceId: string = DEFAULT_WORKSPACE,
+  ): Promise<ExportJob> {
+    const limits = this.getLimits(workspaceId);
+    const running = Array.from(this.jobs.values()).filter(
+      (job) =>
+        job.workspaceId === workspaceId &&
+        (job.status === 'pending' || job.status === 'running'),
+    );
+    if (running.length >= limits.maxConcurrentJobs) {
+      throw new HttpException(
+        `Limite de ${limits.maxConcurrentJobs} exportações simultâneas atingido`,
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+
+    // Registra antes da contagem para que pedidos simultâneos já contem
+    // esta exportação no limite do workspace
+    const id = randomUUID();
+    const job: ExportJob = {
+      id,
+      workspaceId,
+      format: request.format,
+      status: 'pending',
+      totalRows: 0,
+      exportedRows: 0,
+      truncated: false,
+      createdAt: new Date().toISOString(),
+    };
+    this.jobs.set(id, job);
+
+    try {
+      const available = await this.count(request);
+      job.totalRows = Math.min(available, limits.maxRows);
+      job.truncated = available > limits.maxRows;
+    } catch (error) {
+      this.jobs.delete(id);
+      throw error;
+    }
+
+    this.logger.log(
+      `Exportação ${id} criada (${job.totalRows} candidatos, workspace ${workspaceId})`,
+    );
+    void this.runJob(job, request, limits.maxRows);
+
+    return this.toView(job);
+  }
+
+  getJob(id: string, workspaceId: string = DEFAULT_WORKSPACE): ExportJob {
+    return this.toView(this.findJob(id, workspaceId));
+  }
+
+  /**
+   * Arquivo de uma exportação concluída
+   */
+  getJobFile(
+    id: string,
+    workspaceId: string = DEFAULT_WORKSPACE,
+  ): { path: string; filename: string } {
+    const job = this.findJob(id, workspaceId);
+    if (job.status !== 'completed') {
+      throw new ConflictException(
+        `A exportação ainda não está disponível (status: ${job.status})`,
+      );
+    }
+    return {
+      path: this.filePath(job),
+      filename: `candidatos.${EXPORT_FILE_TYPES[job.format].extension}`,
+    };
+  }
+
+  private async runJob(
+    job: ExportJob,
+    request: ExportRequest,
+    maxRows: number,
+  ): Promise<void> {
+    job.status = 'running';
+    try {
+      await mkdir(this.exportDir, { recursive: true });
+      const file = createWriteStream(this.filePath(job));
+      try {
+        await this.streamExport(request, file, {
+          maxRows,
+          destination: `file:${job.id}`,
+          onRow: (exportedRows) => (job.exportedRows = exportedRows),
+        });
+      } finally {
+        file.end();
+        await finished(file);
+      }
+
+      job.status = 'completed';
+      this.logger.log(
+        `Exportação ${job.id} concluída: ${job.exportedRows} candidatos`,
+      );
+    } catch (error) {
+      job.status = 'failed';
+      job.error = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Erro na exportação ${job.id}: ${job.error}`);
+      await unlink(this.filePath(job)).catch(() => undefined);
+    } finally {
+      job.finishedAt = new Date().toISOString();
+    }
+  }
+
+  /**
+   * Remove as exportações finalizadas há mais de EXPORT_TTL_SECONDS e seus
+   * arquivos, inclusive os que sobraram de execuções anteriores do serviço
+   */
+  async removeExpired(now: number = Date.now()): Promise<void> {
+    const expiresBefore = now - this.ttlMs;
+    const active = new Set<string>();
+
+    for (const job of this.jobs.values()) {
+      if (!job.finishedAt) {
+        active.add(this.filePath(job));
+      } else if (Date.parse(job.finishedAt) < expiresBefore) {
+        this.jobs.delete(job.id);
+        await unlink(this.filePath(job)).catch(() => undefined);
+        this.logger.log(`Exportação ${job.id} expirada e removida`);
+      }
+    }
+
+    const files = await readdir(this.exportDir).catch(() => [] as string[]);
+    for (const name of files) {
+      const path = join(this.exportDir, name);
+      if (active.has(path)) continue;
+      const info = await stat(path).catch(() => undefined);
+      if (info?.isFile() && info.mtimeMs < expiresBefore) {
+        await unlink(path).catch(() => undefined);
+      }
+    }
+  }
+
+  private async count(request: ExportRequest): Promise<number> {
+    const compiled = this.criteriaCompiler.compile(request.criteria, {
+      limit: 1,
+      excludeProfileIds: request.excludeProfileIds,
+    });
+    const [result] = await this.clickhouseService.query<{ total: number }>({
+      query: compiled.countSql,
+      params: compiled.params,
+      settings: this.getExportSettings(1),
+    });
+    return Number(result?.total || 0);
+  }
+
+  /**
+   * Mesmas restrições de leitura do guard, com tempo maior para exportações
+   */
+  private getExportSettings(maxRows: number) {
+    return {
+      ...this.sqlGuard.getReadonlySettings(maxRows),
+      max_execution_time: this.maxExecutionTime,
+    };
+  }
+
+  private findJob(id: string, workspaceId: string): ExportJob {
+    const job = this.jobs.get(id);
+    if (!job || job.workspaceId !== workspaceId) {
+      throw new NotFoundException(`Exportação não encontrada: ${id}`);
+    }
+    return job;
+  }
+
+  private toView(job: ExportJob): ExportJob {
+    return {
+      ...job,
+      downloadUrl:
+        job.status === 'completed' ? `/exports/${job.id}/download` : undefined,
+    };
+  }
+
+  private filePath(job: ExportJob): string {
+    return join(
+      this.exportDir,
+      `${job.id}.${EXPORT_FILE_TYPES[job.format].extension}`,
+    );
+  }
+
+  /**
+   * EXPORT_WORKSPACE_LIMITS={"acme":{"maxRows":500000,"syncMaxRows":5000}}
+   */
+  private parseWorkspaceLimits(
+    raw?: string,
+  ): Record<string, Partial<ExportLimits>> {
+    if (!raw) return {};
+    try {
+      return JSON.parse(raw) as Record<string, Partial<ExportLimits>>;
+    } catch (error) {
+      this.logger.warn(`EXPORT_WORKSPACE_LIMITS inválido: ${error}`);
+      return {};
+    }
+  }
+}
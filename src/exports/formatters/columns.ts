@@ -0,0 +1,81 @@
+import { BadRequestException } from '@nestjs/common';
+
+export type ExportRecord = Record<string, unknown>;
+
+export type ExportColumnType = 'string' | 'number' | 'date' | 'url';
+
+export interface ExportColumn {
+  key: string;
+  header: string;
+  type: ExportColumnType;
+  /** Largura da coluna no XLSX */
+  width: number;
+  /** Converte o valor bruto para exibição */
+  format?: (value: unknown) => unknown;
+}
+
+export type ProfileFeedbackValue = 'interesting' | 'not_interesting';
+
+const FEEDBACK_LABELS: Record<ProfileFeedbackValue, string> = {
+  interesting: 'Interessante',
+  not_interesting: 'Não Interessante',
+};
+
+/**
+ * Colunas de candidatos em todas as exportações (CSV, XLSX, JSONL e ClickUp),
+ * sempre nesta ordem
+ */
+export const CANDIDATE_EXPORT_COLUMNS: ExportColumn[] = [
+  { key: 'profile_id', header: 'ID', type: 'string', width: 24 },
+  { key: 'full_name', header: 'Nome', type: 'string', width: 30 },
+  { key: 'headline', header: 'Headline', type: 'string', width: 50 },
+  { key: 'current_job_title', header: 'Cargo', type: 'string', width: 30 },
+  { key: 'current_company', header: 'Empresa', type: 'string', width: 30 },
+  { key: 'seniority', header: 'Senioridade', type: 'string', width: 20 },
+  { key: 'area', header: 'Área', type: 'string', width: 20 },
+  { key: 'city', header: 'Cidade', type: 'string', width: 20 },
+  { key: 'state', header: 'Estado', type: 'string', width: 10 },
+  { key: 'profile_url', header: 'LinkedIn', type: 'url', width: 45 },
+  {
+    key: 'feedback',
+    header: 'Avaliação',
+    type: 'string',
+    width: 18,
+    format: (value) =>
+      FEEDBACK_LABELS[value as ProfileFeedbackValue] ?? value ?? '',
+  },
+  { key: 'reason', header: 'Motivo', type: 'string', width: 40 },
+];
+
+/**
+ * Seleciona colunas pela chave, mantendo a ordem padrão das exportações
+ */
+export function selectColumns(
+  keys?: string[],
+  columns: ExportColumn[] = CANDIDATE_EXPORT_COLUMNS,
+): ExportColumn[] {
+  if (!keys || keys.length === 0) return columns;
+
+  const unknown = keys.filter((key) => !columns.some((c) => c.key === key));
+  if (unknown.length > 0) {
+    throw new BadRequestException(
+      `Colunas de exportação desconhecidas: ${unknown.join(', ')}`,
+    );
+  }
+  return columns.filter((column) => keys.includes(column.key));
+}
+
+/**
+ * Adiciona a avaliação do recrutador (feedback e motivo) à linha do candidato
+ */
+export function withFeedback(
+  row: ExportRecord,
+  feedback?: { interesting: boolean; reason?: string },
+): ExportRecord {
+  if (!feedback) return row;
+  return {
+    ...row,
+    feedback: feedback.interesting ? 'interesting' : 'not_interesting',
+    reason: feedback.reason,
+  };
+}
@@ -0,0 +1,46 @@
+export type CsvDelimiter = ';' | ',' | '\t';
+
+// Padrão compatível com Excel em pt-BR
+export const DEFAULT_CSV_DELIMITER: CsvDelimiter = ';';
+
+// Faz o Excel abrir o arquivo como UTF-8 (acentos corretos)
+export const UTF8_BOM = '\uFEFF';
+
+// Caracteres que fazem Excel/Sheets interpretar a célula como fórmula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Neutraliza textos que seriam executados como fórmula na planilha
+ * (ex.: um headline "=HYPERLINK(...)"), prefixando com apóstrofo.
+ * Números negativos continuam números.
+ */
+export function escapeFormula(text: string): string {
+  if (!FORMULA_PREFIX.test(text)) return text;
+  if (text.trim() !== '' && Number.isFinite(Number(text))) return text;
+  return `'${text}`;
+}
+
+export function toCsvValue(
+  value: unknown,
+  delimiter: CsvDelimiter = DEFAULT_CSV_DELIMITER,
+): string {
+  if (value === null || value === undefined) return '';
+  const text =
+    typeof value === 'object' ? JSON.stringify(value) : String(value as string);
+  const strValue = (
+    typeof value === 'string' ? escapeFormula(text) : text
+  ).replace(/"/g, '""');
+  return strValue.includes(delimiter) ||
+    strValue.includes('"') ||
+    strValue.includes('\n') ||
+    strValue.includes('\r')
+    ? `"${strValue}"`
+    : strValue;
+}
+
+export function toCsvLine(
+  values: unknown[],
+  delimiter: CsvDelimiter = DEFAULT_CSV_DELIMITER,
+): string {
+  return values.map((value) => toCsvValue(value, delimiter)).join(delimiter);
+}
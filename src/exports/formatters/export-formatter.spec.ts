@@ -0,0 +1,115 @@
+import ExcelJS from 'exceljs';
+import { Readable, Writable } from 'stream';
+import {
+  ExportOutputClosedError,
+  createExportFormatter,
+  formatRecords,
+} from './export-formatter';
+import { selectColumns } from './columns';
+
+describe('formatRecords', () => {
+  const records = [
+    {
+      profile_id: 'abc',
+      full_name: 'João, Silva',
+      profile_url: 'https://linkedin.com/in/joao',
+      feedback: 'not_interesting',
+      reason: 'muito junior',
+    },
+  ];
+
+  it('should write UTF-8 BOM CSV with the selected delimiter', async () => {
+    const content = await formatRecords('csv', records, {
+      columns: selectColumns(['full_name', 'profile_url', 'feedback']),
+      delimiter: ',',
+    });
+
+    expect(content.toString('utf8')).toBe(
+      '\uFEFFNome,LinkedIn,Avaliação\n' +
+        '"João, Silva",https://linkedin.com/in/joao,Não Interessante\n',
+    );
+  });
+
+  it('should write one JSON object per line with every column', async () => {
+    const content = await formatRecords('jsonl', records);
+    const [line] = content.toString('utf8').trim().split('\n');
+
+    expect(JSON.parse(line)).toMatchObject({
+      profile_id: 'abc',
+      full_name: 'João, Silva',
+      headline: null,
+      feedback: 'Não Interessante',
+      reason: 'muito junior',
+    });
+  });
+
+  it('should write XLSX with hyperlinked profile URLs', async () => {
+    const content = await formatRecords('xlsx', records, {
+      columns: selectColumns(['full_name', 'profile_url']),
+    });
+
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.read(Readable.from(content));
+    const sheet = workbook.getWorksheet('Candidatos');
+
+    expect(sheet?.getCell('A1').value).toBe('Nome');
+    expect(sheet?.getCell('B1').value).toBe('LinkedIn');
+    expect(sheet?.getCell('A2').value).toBe('João, Silva');
+    expect(sheet?.getCell('B2').value).toEqual({
+      text: 'https://linkedin.com/in/joao',
+      hyperlink: 'https://linkedin.com/in/joao',
+    });
+  });
+
+  it('should escape cells that would run as spreadsheet formulas', async () => {
+    const unsafe = [
+      {
+        full_name: '=HYPERLINK("http://x","clique")',
+        headline: '+55 41 9999',
+        city: '@SUM(A1)',
+        current_company: '-1+1',
+        state: '-2',
+      },
+    ];
+    const columns = selectColumns([
+      'full_name',
+      'headline',
+      'city',
+      'current_company',
+      'state',
+    ]);
+
+    const csv = await formatRecords('csv', unsafe, { columns });
+    expect(csv.toString('utf8').split('\n')[1]).toBe(
+      `"'=HYPERLINK(""http://x"",""clique"")";'+55 41 9999;'-1+1;'@SUM(A1);-2`,
+    );
+
+    const xlsx = await formatRecords('xlsx', unsafe, { columns });
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.read(Readable.from(xlsx));
+    const row = workbook.getWorksheet('Candidatos')?.getRow(2);
+    expect(row?.getCell(1).value).toBe(`'=HYPERLINK("http://x","clique")`);
+    expect(row?.getCell(3).value).toBe(`'-1+1`);
+    expect(row?.getCell(5).value).toBe('-2');
+  });
+
+  it('should stop waiting for drain when the output is destroyed', async () => {
+    // Nunca confirma a escrita: o destino fica cheio até ser destruído
+    const output = new Writable({ highWaterMark: 1, write: () => undefined });
+    const formatter = createExportFormatter('csv', output);
+
+    const pending = formatter.write(records[0]);
+    output.destroy();
+
+    await expect(pending).rejects.toThrow(ExportOutputClosedError);
+    await expect(formatter.write(records[0])).rejects.toThrow(
+      ExportOutputClosedError,
+    );
+  });
+
+  it('should reject unknown columns', () => {
+    expect(() => selectColumns(['full_name', 'salary'])).toThrow(
+      'Colunas de exportação desconhecidas: salary',
+    );
+  });
+});
@@ -0,0 +1,270 @@
+import ExcelJS from 'exceljs';
+import { PassThrough, Writable } from 'stream';
+import { finished } from 'stream/promises';
+import {
+  CANDIDATE_EXPORT_COLUMNS,
+  ExportColumn,
+  ExportRecord,
+} from './columns';
+import {
+  CsvDelimiter,
+  DEFAULT_CSV_DELIMITER,
+  UTF8_BOM,
+  escapeFormula,
+  toCsvLine,
+} from './csv';
+
+export const EXPORT_FORMATS = ['csv', 'xlsx', 'jsonl'] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const EXPORT_FILE_TYPES: Record<
+  ExportFormat,
+  { contentType: string; extension: string }
+> = {
+  csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+  xlsx: {
+    contentType:
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    extension: 'xlsx',
+  },
+  jsonl: {
+    contentType: 'application/x-ndjson; charset=utf-8',
+    extension: 'jsonl',
+  },
+};
+
+export interface ExportFormatOptions {
+  columns?: ExportColumn[];
+  /** Apenas CSV */
+  delimiter?: CsvDelimiter;
+}
+
+/**
+ * Escreve registros de candidatos em um destino, linha a linha
+ */
+export interface ExportFormatter {
+  write(record: ExportRecord): Promise<void>;
+  /** Finaliza o arquivo (no XLSX o destino também é encerrado) */
+  end(): Promise<void>;
+}
+
+export function createExportFormatter(
+  format: ExportFormat,
+  output: Writable,
+  options: ExportFormatOptions = {},
+): ExportFormatter {
+  const columns = options.columns || CANDIDATE_EXPORT_COLUMNS;
+
+  switch (format) {
+    case 'csv':
+      return new CsvFormatter(
+        output,
+        columns,
+        options.delimiter || DEFAULT_CSV_DELIMITER,
+      );
+    case 'jsonl':
+      return new JsonLinesFormatter(output, columns);
+    case 'xlsx':
+      return new XlsxFormatter(output, columns);
+  }
+}
+
+/**
+ * Gera o arquivo completo em memória (para anexos, ex: ClickUp)
+ */
+export async function formatRecords(
+  format: ExportFormat,
+  records: ExportRecord[],
+  options: ExportFormatOptions = {},
+): Promise<Buffer> {
+  const output = new PassThrough();
+  const chunks: Buffer[] = [];
+  output.on('data', (chunk: Buffer) => chunks.push(chunk));
+
+  const formatter = createExportFormatter(format, output, options);
+  for (const record of records) {
+    await formatter.write(record);
+  }
+  await formatter.end();
+
+  output.end();
+  await finished(output);
+  return Buffer.concat(chunks);
+}
+
+function cellValue(column: ExportColumn, record: ExportRecord): unknown {
+  const value = record[column.key];
+  return column.format ? column.format(value) : value;
+}
+
+/**
+ * Destino fechado antes do fim da exportação (ex.: cliente desconectou)
+ */
+export class ExportOutputClosedError extends Error {
+  constructor() {
+    super('O destino da exportação foi fechado antes do fim');
+  }
+}
+
+function assertWritable(output: Writable): void {
+  if (output.destroyed || output.writableEnded) {
+    throw new ExportOutputClosedError();
+  }
+}
+
+async function writeText(output: Writable, text: string): Promise<void> {
+  assertWritable(output);
+  if (!output.write(text)) {
+    await waitForDrain(output);
+  }
+}
+
+/**
+ * Espera o destino esvaziar. Se ele for fechado antes, 'drain' nunca chega:
+ * rejeita para quem exporta interromper a query
+ */
+function waitForDrain(output: Writable): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const settle = (error?: Error) => {
+      output.off('drain', onDrain);
+      output.off('close', onClose);
+      output.off('error', settle);
+      if (error) reject(error);
+      else resolve();
+    };
+    const onDrain = () => settle();
+    const onClose = () => settle(new ExportOutputClosedError());
+    output.on('drain', onDrain);
+    output.on('close', onClose);
+    output.on('error', settle);
+  });
+}
+
+class CsvFormatter implements ExportFormatter {
+  private started = false;
+
+  constructor(
+    private readonly output: Writable,
+    private readonly columns: ExportColumn[],
+    private readonly delimiter: CsvDelimiter,
+  ) {}
+
+  async write(record: ExportRecord): Promise<void> {
+    await this.writeHeader();
+    await writeText(
+      this.output,
+      `${toCsvLine(
+        this.columns.map((column) => cellValue(column, record)),
+        this.delimiter,
+      )}\n`,
+    );
+  }
+
+  async end(): Promise<void> {
+    await this.writeHeader();
+  }
+
+  private async writeHeader(): Promise<void> {
+    if (this.started) return;
+    this.started = true;
+    const header = toCsvLine(
+      this.columns.map((column) => column.header),
+      this.delimiter,
+    );
+    await writeText(this.output, `${UTF8_BOM}${header}\n`);
+  }
+}
+
+/**
+ * Um objeto JSON por linha, com as chaves originais das colunas
+ */
+class JsonLinesFormatter implements ExportFormatter {
+  constructor(
+    private readonly output: Writable,
+    private readonly columns: ExportColumn[],
+  ) {}
+
+  async write(record: ExportRecord): Promise<void> {
+    const line: ExportRecord = {};
+    for (const column of this.columns) {
+      line[column.key] = cellValue(column, record) ?? null;
+    }
+    await writeText(this.output, `${JSON.stringify(line)}\n`);
+  }
+
+  async end(): Promise<void> {
+    // Nada a finalizar: cada linha já é um JSON completo
+  }
+}
+
+/**
+ * Planilha gerada em stream: colunas tipadas e LinkedIn como hyperlink
+ */
+class XlsxFormatter implements ExportFormatter {
+  private readonly workbook: ExcelJS.stream.xlsx.WorkbookWriter;
+  private readonly sheet: ExcelJS.Worksheet;
+
+  constructor(
+    private readonly output: Writable,
+    private readonly columns: ExportColumn[],
+  ) {
+    this.workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+      stream: output,
+      useStyles: true,
+    });
+    this.sheet = this.workbook.addWorksheet('Candidatos', {
+      views: [{ state: 'frozen', ySplit: 1 }],
+    });
+    this.sheet.columns = columns.map((column) => ({
+      header: column.header,
+      key: column.key,
+      width: column.width,
+      style: column.type === 'date' ? { numFmt: 'dd/mm/yyyy' } : undefined,
+    }));
+    this.sheet.getRow(1).font = { bold: true };
+  }
+
+  async write(record: ExportRecord): Promise<void> {
+    assertWritable(this.output);
+    const row = this.sheet.addRow(
+      this.columns.map((column) =>
+        this.toCell(column, cellValue(column, record)),
+      ),
+    );
+    row.commit();
+    // O ExcelJS escreve no destino sem esperar: segura as próximas linhas
+    // enquanto o buffer do destino está cheio
+    if (this.output.writableNeedDrain) {
+      await waitForDrain(this.output);
+    }
+  }
+
+  async end(): Promise<void> {
+    this.sheet.commit();
+    await this.workbook.commit();
+  }
+
+  private toCell(column: ExportColumn, value: unknown): ExcelJS.CellValue {
+    if (value === null || value === undefined || value === '') return null;
+
+    switch (column.type) {
+      case 'number': {
+        const number = Number(value);
+        return Number.isFinite(number) ? number : null;
+      }
+      case 'date': {
+        const date = new Date(value as string);
+        return Number.isNaN(date.getTime()) ? null : date;
+      }
+      case 'url': {
+        const url = String(value as string);
+        return { text: url, hyperlink: url };
+      }
+      default:
+        return typeof value === 'object'
+          ? JSON.stringify(value)
+          : escapeFormula(String(value as string));
+    }
+  }
+}
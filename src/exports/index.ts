@@ -0,0 +1,4 @@
+export * from './exports.module';
+export * from './exports.service';
+export * from './exports.controller';
+export * from './formatters';
@@ -1,6 +1,11 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { CreateJobDto } from './dto/job.dto';
+import {
+  ExportColumn,
+  ExportRecord,
+  formatRecords,
+} from '../exports/formatters';
 
 export interface ClickUpTask {
   id: string;
@@ -147,6 +152,7 @@ ${candidate.notes ? `**Notas do Recrutador:**\n${candidate.notes}` : ''}
       generalInfo.push(
         `- **Formato:** ${jobData.workFormat}${jobData.hybridDays ? ` (${jobData.hybridDays})` : ''}`,
       );
+    if (jobData.location) generalInfo.push(`- **Local:** ${jobData.location}`);
     if (jobData.contractType)
       generalInfo.push(`- **Contrato:** ${jobData.contractType}`);
     if (jobData.salary) generalInfo.push(`- **Salário:** ${jobData.salary}`);
@@ -230,14 +236,7 @@ ${candidate.notes ? `**Notas do Recrutador:**\n${candidate.notes}` : ''}
    */
   async createCandidatesTask(
     listId: string,
-    candidates: Array<{
-      name: string;
-      profileUrl: string;
-      headline: string;
-      currentCompany?: string;
-      feedback?: 'interesting' | 'not_interesting';
-      reason?: string;
-    }>,
+    candidates: ExportRecord[],
     jobTitle: string,
   ): Promise<ClickUpTask> {
     this.logger.log(`Criando task com ${candidates.length} candidatos`);
@@ -321,42 +320,21 @@ ${candidate.notes ? `**Notas do Recrutador:**\n${candidate.notes}` : ''}
   }
 
   /**
-   * Cria task com candidatos e anexa CSV
+   * Cria task com candidatos e anexa CSV (mesmas colunas das demais exportações)
    */
   async createCandidatesTaskWithCsv(
     listId: string,
-    candidates: Array<{
-      name: string;
-      profileUrl: string;
-      headline: string;
-      currentCompany?: string;
-      feedback?: 'interesting' | 'not_interesting';
-      reason?: string;
-    }>,
+    candidates: ExportRecord[],
     jobTitle: string,
+    columns?: ExportColumn[],
   ): Promise<{ task: ClickUpTask; attachmentUrl?: string }> {
     // Cria a task primeiro
     const task = await this.createCandidatesTask(listId, candidates, jobTitle);
 
     // Gera o CSV
-    const csvHeader = 'Nome,LinkedIn,Headline,Empresa,Avaliação,Motivo';
-    const csvRows = candidates.map((c) => {
-      const feedback =
-        c.feedback === 'interesting'
-          ? 'Interessante'
-          : c.feedback === 'not_interesting'
-            ? 'Não Interessante'
-            : '';
-      return [
-        `"${(c.name || '').replace(/"/g, '""')}"`,
-        `"${(c.profileUrl || '').replace(/"/g, '""')}"`,
-        `"${(c.headline || '').replace(/"/g, '""')}"`,
-        `"${(c.currentCompany || '').replace(/"/g, '""')}"`,
-        `"${feedback}"`,
-        `"${(c.reason || '').replace(/"/g, '""')}"`,
-      ].join(',');
-    });
-    const csvContent = [csvHeader, ...csvRows].join('\n');
+    const csvContent = (
+      await formatRecords('csv', candidates, { columns, delimiter: ',' })
+    ).toString('utf8');
 
     // Faz upload do CSV
     const filename = `candidatos_${jobTitle.replace(/[^a-zA-Z0-9]/g, '_')}_${new Date().toISOString().split('T')[0]}.csv`;
@@ -3,6 +3,8 @@ import {
   IsNotEmpty,
   IsOptional,
   IsArray,
+  IsBoolean,
+  IsObject,
   ValidateIf,
 } from 'class-validator';
 import { Transform } from 'class-transformer';
@@ -99,6 +101,10 @@ export class CreateJobDto {
   @IsOptional()
   hybridDays?: string;
 
+  @IsString()
+  @IsOptional()
+  location?: string;
+
   @IsString()
   @IsOptional()
   salary?: string;
@@ -117,6 +123,26 @@ export class CreateJobDto {
   additionalNotes?: string;
 }
 
+/**
+ * Resposta do modelo a cada mensagem da criação de vaga por conversa
+ */
+export class JobIntakeReplyDto {
+  @IsString()
+  @IsNotEmpty()
+  assistantMessage: string;
+
+  // Validado campo a campo contra CreateJobDto (ver JOB_INTAKE_OUTPUT)
+  @IsObject()
+  extractedData: Partial<CreateJobDto>;
+
+  @IsBoolean()
+  isComplete: boolean;
+
+  @IsString()
+  @IsOptional()
+  nextQuestion?: string;
+}
+
 export class JobConversationMessageDto {
   @IsString()
   @IsNotEmpty()
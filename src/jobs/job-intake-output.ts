@@ -0,0 +1,81 @@
+import { plainToInstance } from 'class-transformer';
+import { validateSync } from 'class-validator';
+import {
+  JsonSchema,
+  ObjectSchema,
+  StructuredOutput,
+  formatValidationErrors,
+} from '../llm/structured-output';
+import { CreateJobDto, JobIntakeReplyDto } from './dto/job.dto';
+
+const text = (description: string): JsonSchema => ({
+  type: 'string',
+  description,
+});
+
+const list = (description: string): JsonSchema => ({
+  type: 'array',
+  description,
+  items: { type: 'string' },
+});
+
+const JOB_DATA_SCHEMA: ObjectSchema<CreateJobDto> = {
+  type: 'object',
+  description: 'Campos extraídos desta mensagem',
+  properties: {
+    title: text('Nome da vaga'),
+    area: text('Área (Tecnologia, Produto, Vendas, CS, Marketing...)'),
+    seniority: text('Junior, Pleno ou Sênior'),
+    openingReason: text('Substituição, Aumento de time ou Novo projeto'),
+    challenges: text('Principais desafios'),
+    reportsTo: text('Para quem reporta'),
+    influenceOver: text('Quem a vaga influencia'),
+    responsibilities: list('Principais responsabilidades'),
+    first3MonthsDeliverables: text('Entregas dos primeiros 3 meses'),
+    criticalRoutines: text('Rotinas críticas'),
+    technicalSkills: list('Conhecimentos técnicos'),
+    behavioralSkills: list('Competências comportamentais'),
+    preferredExperience: text('Experiência diferencial'),
+    metricsAndKPIs: text('Métricas e KPIs'),
+    workFormat: text('Presencial, Híbrido ou Remoto'),
+    hybridDays: text('Dias presenciais (se híbrido)'),
+    location: text('Cidade e estado da vaga'),
+    salary: text('Faixa salarial'),
+    benefits: text('Benefícios'),
+    contractType: text('CLT, PJ ou Estágio'),
+    additionalNotes: text('Observações'),
+  },
+  required: [],
+  additionalProperties: false,
+};
+
+export const JOB_INTAKE_OUTPUT: StructuredOutput<JobIntakeReplyDto> = {
+  name: 'job_intake',
+  description: 'Próxima pergunta da criação de vaga e campos extraídos',
+  type: JobIntakeReplyDto,
+  schema: {
+    type: 'object',
+    properties: {
+      assistantMessage: text(
+        'Pergunta agrupada ou resumo para confirmação (sem Markdown)',
+      ),
+      extractedData: JOB_DATA_SCHEMA,
+      isComplete: {
+        type: 'boolean',
+        description:
+          'true apenas se os 6 campos obrigatórios estão preenchidos',
+      },
+      nextQuestion: text('Qual grupo de perguntas falta'),
+    },
+    required: ['assistantMessage', 'extractedData', 'isComplete'],
+    additionalProperties: false,
+  },
+  // Os campos obrigatórios da vaga podem chegar em mensagens diferentes
+  check: (reply) =>
+    formatValidationErrors(
+      validateSync(plainToInstance(CreateJobDto, reply.extractedData), {
+        skipMissingProperties: true,
+      }),
+      'extractedData',
+    ),
+};
@@ -1,14 +1,38 @@
-import { Injectable, Inject, Logger } from '@nestjs/common';
+import {
+  Injectable,
+  Inject,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import OpenAI from 'openai';
-import { OPENAI_CLIENT } from '../openai/openai.module';
+import { randomUUID } from 'crypto';
+import { plainToInstance } from 'class-transformer';
+import { LLM_SERVICE } from '../llm/llm.service';
+import type { LlmMessage, LlmService } from '../llm/llm.service';
+import { completeStructured } from '../llm/structured-output';
+import { ClickHouseService } from '../clickhouse/clickhouse.service';
 import { ClickUpService } from './clickup.service';
+import { selectColumns } from '../exports/formatters';
+import { JOB_INTAKE_OUTPUT } from './job-intake-output';
 import {
   CreateJobDto,
   JobConversationMessageDto,
   CandidateDto,
 } from './dto/job.dto';
 
+const JOBS_TABLE = 'jobs';
+
+/**
+ * Vaga criada, guardada para o ranqueamento de candidatos
+ */
+export interface StoredJob {
+  id: string;
+  createdAt: string;
+  job: CreateJobDto;
+  clickUpListId?: string;
+}
+
 export interface JobConversationResult {
   assistantMessage: string;
   currentJobData: Partial<CreateJobDto>;
@@ -17,6 +41,7 @@ export interface JobConversationResult {
 }
 
 export interface JobCreationResult {
+  id: string;
   job: CreateJobDto;
   clickUpListId?: string;
   clickUpListUrl?: string;
@@ -37,22 +62,51 @@ export interface ExportCandidatesResult {
 }
 
 @Injectable()
-export class JobsService {
+export class JobsService implements OnModuleInit {
   private readonly logger = new Logger(JobsService.name);
 
   constructor(
-    @Inject(OPENAI_CLIENT) private readonly openai: OpenAI,
+    @Inject(LLM_SERVICE) private readonly llm: LlmService,
     private readonly clickUpService: ClickUpService,
     private readonly configService: ConfigService,
+    private readonly clickhouseService: ClickHouseService,
   ) {}
 
+  async onModuleInit() {
+    try {
+      await this.clickhouseService.command(`
+        CREATE TABLE IF NOT EXISTS ${JOBS_TABLE} (
+          id String,
+          version UInt64,
+          data String,
+          updated_at DateTime DEFAULT now()
+        )
+        ENGINE = ReplacingMergeTree(version)
+        ORDER BY id
+      `);
+    } catch (error) {
+      this.logger.error(`Erro ao criar tabela de vagas: ${error}`);
+    }
+  }
+
+  async getJob(id: string): Promise<StoredJob> {
+    const rows = await this.clickhouseService.query<{ data: string }>({
+      query: `SELECT data FROM ${JOBS_TABLE} FINAL WHERE id = {id:String} LIMIT 1`,
+      params: { id },
+    });
+
+    if (rows.length === 0) {
+      throw new NotFoundException(`Vaga não encontrada: ${id}`);
+    }
+
+    return JSON.parse(rows[0].data) as StoredJob;
+  }
+
   async processJobConversation(
     message: string,
     conversationHistory: JobConversationMessageDto[],
     currentJobData: Partial<CreateJobDto>,
   ): Promise<JobConversationResult> {
-    const model = this.configService.get<string>('OPENAI_MODEL') || 'gpt-4o';
-
     const systemPrompt = `Você é um assistente de RH que coleta informações para criar vagas de forma RÁPIDA e EFICIENTE.
 
 COLETE AS INFORMAÇÕES EM APENAS 4 PERGUNTAS AGRUPADAS:
@@ -75,6 +129,7 @@ PERGUNTA 3 - Requisitos:
 
 PERGUNTA 4 - Logística e Remuneração:
 - workFormat: Presencial, Híbrido ou Remoto (se híbrido, quantos dias)
+- location: Cidade e estado da vaga (se presencial ou híbrido)
 - salary: Faixa salarial
 - benefits: Benefícios (opcional)
 - contractType: CLT, PJ ou Estágio
@@ -99,9 +154,7 @@ Responda em JSON:
   "nextQuestion": "qual grupo de perguntas falta"
 }`;
 
-    const messages: OpenAI.ChatCompletionMessageParam[] = [
-      { role: 'system', content: systemPrompt },
-    ];
+    const messages: LlmMessage[] = [{ role: 'system', content: systemPrompt }];
 
     for (const msg of conversationHistory) {
       messages.push({
@@ -112,45 +165,22 @@ Responda em JSON:
 
     messages.push({ role: 'user', content: message });
 
-    const response = await this.openai.chat.completions.create({
-      model,
-      messages,
-    });
-
-    const content = response.choices[0]?.message?.content?.trim();
-
-    if (!content) {
-      throw new Error('OpenAI não retornou uma resposta válida');
-    }
-
-    let parsed: {
-      assistantMessage: string;
-      extractedData: Partial<CreateJobDto>;
-      isComplete: boolean;
-      nextQuestion: string;
-    };
-
-    try {
-      parsed = JSON.parse(content);
-    } catch (e) {
-      const jsonMatch = content.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        parsed = JSON.parse(jsonMatch[0]);
-      } else {
-        // Se não conseguir parsear, retorna a mensagem como está
-        return {
-          assistantMessage: content,
-          currentJobData,
-          isComplete: false,
-          missingFields: this.getMissingFields(currentJobData),
-        };
-      }
+    // Sem resposta válida depois dos reparos, lança StructuredOutputError
+    const { value: parsed, attempts } = await completeStructured(
+      this.llm,
+      { task: 'job_intake', messages },
+      JOB_INTAKE_OUTPUT,
+    );
+    if (attempts > 1) {
+      this.logger.warn(
+        `Resposta da criação de vaga corrigida após ${attempts} tentativas`,
+      );
     }
 
-    // Merge dados extraídos
+    // Merge dados extraídos (com as conversões de CreateJobDto)
     const updatedJobData = {
       ...currentJobData,
-      ...parsed.extractedData,
+      ...plainToInstance(CreateJobDto, parsed.extractedData),
     };
 
     const missingFields = this.getMissingFields(updatedJobData);
@@ -161,7 +191,7 @@ Responda em JSON:
     this.logger.log(`Dados atualizados: ${JSON.stringify(updatedJobData)}`);
     this.logger.log(`Campos faltando: ${JSON.stringify(missingFields)}`);
     this.logger.log(
-      `OpenAI isComplete: ${parsed.isComplete}, missingFields.length: ${missingFields.length}`,
+      `Modelo isComplete: ${parsed.isComplete}, missingFields.length: ${missingFields.length}`,
     );
 
     // Se não há mais campos faltando, força isComplete = true
@@ -178,6 +208,16 @@ Responda em JSON:
   async createJob(jobData: CreateJobDto): Promise<JobCreationResult> {
     this.logger.log(`Criando vaga: ${jobData.title}`);
 
+    // Guarda a vaga antes do ClickUp: se o banco falhar, nada foi criado fora
+    // e a requisição pode ser repetida sem deixar listas órfãs
+    const stored: StoredJob = {
+      id: randomUUID(),
+      createdAt: new Date().toISOString(),
+      job: jobData,
+    };
+    const version = Date.now();
+    await this.saveJob(stored, version);
+
     let clickUpListId: string | undefined;
     let clickUpListUrl: string | undefined;
     let clickUpTaskId: string | undefined;
@@ -213,6 +253,17 @@ Responda em JSON:
           clickUpError = error instanceof Error ? error.message : String(error);
           this.logger.error(`Erro ao criar lista no ClickUp: ${clickUpError}`);
         }
+
+        if (clickUpListId) {
+          try {
+            await this.saveJob({ ...stored, clickUpListId }, version + 1);
+          } catch (error) {
+            const message =
+              error instanceof Error ? error.message : String(error);
+            clickUpError = `Lista ${clickUpListId} criada, mas não vinculada à vaga: ${message}`;
+            this.logger.error(`Erro ao vincular lista à vaga: ${message}`);
+          }
+        }
       } else {
         clickUpError = 'CLICKUP_FOLDER_ID não configurado';
       }
@@ -224,6 +275,7 @@ Responda em JSON:
     const searchQuery = this.generateSearchQuery(jobData);
 
     return {
+      id: stored.id,
       job: jobData,
       clickUpListId,
       clickUpListUrl,
@@ -235,6 +287,16 @@ Responda em JSON:
     };
   }
 
+  /**
+   * Grava a vaga para o ranqueamento de candidatos (POST /jobs/:id/match);
+   * a versão maior substitui a anterior
+   */
+  private async saveJob(stored: StoredJob, version: number): Promise<void> {
+    await this.clickhouseService.insert(JOBS_TABLE, [
+      { id: stored.id, version, data: JSON.stringify(stored) },
+    ]);
+  }
+
   private getMissingFields(jobData: Partial<CreateJobDto>): string[] {
     // Campos mínimos obrigatórios para criar a vaga
     const requiredFields = [
@@ -298,14 +360,22 @@ Responda em JSON:
       const result = await this.clickUpService.createCandidatesTaskWithCsv(
         clickUpListId,
         candidates.map((c) => ({
-          name: c.name,
-          profileUrl: c.profileUrl,
+          full_name: c.name,
+          profile_url: c.profileUrl,
           headline: c.headline || '',
-          currentCompany: c.currentCompany,
+          current_company: c.currentCompany,
           feedback: c.feedback,
           reason: c.reason,
         })),
         jobTitle,
+        selectColumns([
+          'full_name',
+          'headline',
+          'current_company',
+          'profile_url',
+          'feedback',
+          'reason',
+        ]),
       );
 
       return {
@@ -0,0 +1,92 @@
+import {
+  LlmRequest,
+  LlmResponse,
+  LlmService,
+  LlmTask,
+  LlmToolRequest,
+  parseJsonContent,
+} from './llm.service';
+
+interface FakeLlmScript {
+  content?: string;
+  chunks?: string[];
+  toolCalls?: LlmResponse['toolCalls'];
+  usage?: LlmResponse['usage'];
+}
+
+/**
+ * Resposta roteirizada: texto, trechos do stream (chunks), tool calls,
+ * um erro a lançar ou uma função do pedido
+ */
+export type FakeLlmReply =
+  | string
+  | Error
+  | FakeLlmScript
+  | ((request: LlmRequest | LlmToolRequest) => string);
+
+/**
+ * LlmService para testes: devolve as respostas roteirizadas em ordem e
+ * guarda os pedidos recebidos
+ */
+export class FakeLlmService implements LlmService {
+  readonly provider = 'fake';
+  readonly requests: (LlmRequest | LlmToolRequest)[] = [];
+  private script: FakeLlmReply[] = [];
+
+  constructor(private readonly models: Partial<Record<LlmTask, string>> = {}) {}
+
+  reply(...replies: FakeLlmReply[]): this {
+    this.script.push(...replies);
+    return this;
+  }
+
+  reset(): void {
+    this.script = [];
+    this.requests.length = 0;
+  }
+
+  modelFor(task: LlmTask): string {
+    return this.models[task] || `fake-${task}`;
+  }
+
+  chat(request: LlmRequest): Promise<LlmResponse> {
+    return Promise.resolve().then(() => this.respond(request, request.onDelta));
+  }
+
+  async json<T>(request: LlmRequest): Promise<T> {
+    const { content } = await this.chat({ ...request, responseFormat: 'json' });
+    return parseJsonContent<T>(content);
+  }
+
+  callTools(request: LlmToolRequest): Promise<LlmResponse> {
+    return Promise.resolve().then(() => this.respond(request));
+  }
+
+  private respond(
+    request: LlmRequest | LlmToolRequest,
+    onDelta?: (delta: string) => void,
+  ): LlmResponse {
+    this.requests.push(request);
+    const reply = this.script.shift();
+    if (reply === undefined) {
+      throw new Error(`Sem resposta roteirizada para ${request.task}`);
+    }
+    if (reply instanceof Error) throw reply;
+
+    const scripted: FakeLlmScript =
+      typeof reply === 'function'
+        ? { content: reply(request) }
+        : typeof reply === 'string'
+          ? { content: reply }
+          : reply;
+    const chunks = scripted.chunks || [scripted.content || ''];
+    if (onDelta) chunks.filter(Boolean).forEach((chunk) => onDelta(chunk));
+
+    return {
+      content: chunks.join('').trim(),
+      toolCalls: scripted.toolCalls || [],
+      model: request.model || this.modelFor(request.task),
+      usage: scripted.usage,
+    };
+  }
+}
@@ -0,0 +1,5 @@
+export * from './llm.module';
+export * from './llm.service';
+export * from './openai-llm.service';
+export * from './fake-llm.service';
+export * from './structured-output';
@@ -0,0 +1,79 @@
+import { Module, Global, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import OpenAI, { AzureOpenAI } from 'openai';
+import { LLM_SERVICE, LLM_TASKS, LlmService, LlmTask } from './llm.service';
+import { OpenAILlmService } from './openai-llm.service';
+import { UsageModule } from '../usage/usage.module';
+import { UsageService } from '../usage/usage.service';
+import { MeteredLlmService } from '../usage/metered-llm.service';
+
+@Global()
+@Module({
+  imports: [UsageModule],
+  providers: [
+    {
+      provide: LLM_SERVICE,
+      useFactory: (
+        configService: ConfigService,
+        usageService: UsageService,
+      ): LlmService => {
+        const provider = configService.get<string>('LLM_PROVIDER') || 'openai';
+        const defaultModel =
+          (provider === 'azure'
+            ? configService.get<string>('AZURE_OPENAI_DEPLOYMENT')
+            : undefined) ||
+          configService.get<string>('OPENAI_MODEL') ||
+          'gpt-4o';
+        const models = Object.fromEntries(
+          LLM_TASKS.map((task) => [
+            task,
+            configService.get<string>(`LLM_MODEL_${task.toUpperCase()}`) ||
+              defaultModel,
+          ]),
+        ) as Record<LlmTask, string>;
+
+        let client: OpenAI;
+        if (provider === 'azure') {
+          client = new AzureOpenAI({
+            endpoint: configService.get<string>('AZURE_OPENAI_ENDPOINT'),
+            apiKey: configService.get<string>('AZURE_OPENAI_API_KEY'),
+            apiVersion:
+              configService.get<string>('AZURE_OPENAI_API_VERSION') ||
+              '2024-10-21',
+          });
+        } else if (provider === 'local') {
+          client = new OpenAI({
+            baseURL: configService.get<string>('LLM_BASE_URL'),
+            // Servidores locais costumam ignorar a chave, mas o client exige uma
+            apiKey: configService.get<string>('LLM_API_KEY') || 'local',
+          });
+        } else {
+          client = new OpenAI({
+            apiKey: configService.get<string>('OPENAI_API_KEY'),
+          });
+        }
+
+        // Servidores locais nem sempre aceitam response_format
+        const flag = (name: string) => {
+          const value = configService.get<string>(name);
+          return value ? value === 'true' : provider !== 'local';
+        };
+        const llm = new OpenAILlmService(client, {
+          provider,
+          models,
+          jsonMode: flag('LLM_JSON_MODE'),
+          structuredOutputs: flag('LLM_STRUCTURED_OUTPUTS'),
+        });
+
+        new Logger('LlmModule').log(
+          `LLM ${provider}: ${LLM_TASKS.map((task) => `${task}=${models[task]}`).join(', ')}`,
+        );
+        // Toda chamada passa pela contabilização de uso e pelo orçamento
+        return new MeteredLlmService(llm, usageService);
+      },
+      inject: [ConfigService, UsageService],
+    },
+  ],
+  exports: [LLM_SERVICE],
+})
+export class LlmModule {}
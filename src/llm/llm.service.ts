@@ -0,0 +1,111 @@
+export const LLM_SERVICE = 'LLM_SERVICE';
+
+/**
+ * Tarefas com modelo configurável (LLM_MODEL_<TAREFA>), para usar um modelo
+ * barato onde basta (resumos) e um forte onde importa (SQL)
+ */
+export const LLM_TASKS = [
+  'job_intake',
+  'sql_planning',
+  'summarization',
+  'feedback_analysis',
+] as const;
+
+export type LlmTask = (typeof LLM_TASKS)[number];
+
+export interface LlmToolCall {
+  id: string;
+  name: string;
+  /** Argumentos em JSON, como gerados pelo modelo */
+  arguments: string;
+}
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  /** Mensagens "tool": chamada respondida */
+  toolCallId?: string;
+  /** Mensagens "assistant": chamadas de ferramenta feitas pelo modelo */
+  toolCalls?: LlmToolCall[];
+}
+
+/**
+ * JSON Schema que a resposta deve seguir (ver completeStructured)
+ */
+export interface LlmResponseSchema {
+  name: string;
+  description: string;
+  schema: Record<string, unknown>;
+}
+
+export interface LlmRequest {
+  task: LlmTask;
+  messages: LlmMessage[];
+  /** json: pede ao provedor uma resposta em JSON válido (JSON mode) */
+  responseFormat?: 'text' | 'json';
+  responseSchema?: LlmResponseSchema;
+  maxTokens?: number;
+  /** Substitui o modelo da tarefa (ex.: rebaixamento por orçamento) */
+  model?: string;
+  /** Recebe os trechos da resposta conforme são gerados (modo stream) */
+  onDelta?: (delta: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface LlmTool {
+  name: string;
+  description: string;
+  /** JSON Schema dos argumentos */
+  parameters: Record<string, unknown>;
+}
+
+export interface LlmToolRequest extends Omit<LlmRequest, 'onDelta'> {
+  tools: LlmTool[];
+  /** required: o modelo precisa chamar alguma ferramenta */
+  toolChoice?: 'auto' | 'required';
+}
+
+export interface LlmUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface LlmResponse {
+  /** Texto da resposta, sem espaços nas pontas (vazio se só houve tool calls) */
+  content: string;
+  toolCalls: LlmToolCall[];
+  /** Modelo usado, conforme a tarefa */
+  model: string;
+  /** Tokens cobrados, quando o provedor informa */
+  usage?: LlmUsage;
+}
+
+/**
+ * Acesso aos modelos de linguagem, independente do provedor (OpenAI, Azure
+ * OpenAI ou servidor local compatível). O provedor é escolhido por
+ * LLM_PROVIDER e o modelo de cada tarefa por LLM_MODEL_<TAREFA>.
+ */
+export interface LlmService {
+  /** Identifica o provedor nos logs ("openai", "azure", "local") */
+  readonly provider: string;
+  modelFor(task: LlmTask): string;
+  chat(request: LlmRequest): Promise<LlmResponse>;
+  /** Chat em JSON mode, já interpretado */
+  json<T>(request: LlmRequest): Promise<T>;
+  callTools(request: LlmToolRequest): Promise<LlmResponse>;
+}
+
+/**
+ * Interpreta uma resposta JSON do modelo (tolerando texto ou markdown ao redor)
+ */
+export function parseJsonContent<T>(content: string): T {
+  try {
+    return JSON.parse(content) as T;
+  } catch {
+    const jsonMatch = content.match(/\{[\s\S]*\}/);
+    if (jsonMatch) {
+      return JSON.parse(jsonMatch[0]) as T;
+    }
+    throw new Error(`Não foi possível parsear resposta do modelo: ${content}`);
+  }
+}
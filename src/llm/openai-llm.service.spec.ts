@@ -0,0 +1,162 @@
+import OpenAI from 'openai';
+import { OpenAILlmService } from './openai-llm.service';
+
+describe('OpenAILlmService', () => {
+  const create = jest.fn();
+  const client = { chat: { completions: { create } } } as unknown as OpenAI;
+  const models = {
+    job_intake: 'gpt-4o',
+    sql_planning: 'gpt-4o',
+    summarization: 'gpt-4o-mini',
+    feedback_analysis: 'gpt-4o-mini',
+  };
+
+  beforeEach(() => create.mockReset());
+
+  it('should route each task to its model and use JSON mode when supported', async () => {
+    create.mockResolvedValue({
+      choices: [{ message: { content: ' {"ok":true} ' } }],
+    });
+    const llm = new OpenAILlmService(client, {
+      provider: 'openai',
+      models,
+      jsonMode: true,
+      structuredOutputs: true,
+    });
+
+    const parsed = await llm.json<{ ok: boolean }>({
+      task: 'summarization',
+      messages: [{ role: 'user', content: 'resuma em JSON' }],
+      maxTokens: 300,
+    });
+    const local = new OpenAILlmService(client, {
+      provider: 'local',
+      models,
+      jsonMode: false,
+      structuredOutputs: false,
+    });
+    await local.chat({
+      task: 'sql_planning',
+      messages: [{ role: 'user', content: 'x' }],
+      responseFormat: 'json',
+    });
+
+    expect(parsed).toEqual({ ok: true });
+    const [[first], [second]] = create.mock.calls as [[object], [object]];
+    expect(first).toEqual({
+      model: 'gpt-4o-mini',
+      messages: [{ role: 'user', content: 'resuma em JSON' }],
+      max_tokens: 300,
+      response_format: { type: 'json_object' },
+    });
+    expect(second).not.toHaveProperty('response_format');
+  });
+
+  it('should send the response schema natively or in the prompt', async () => {
+    create.mockResolvedValue({ choices: [{ message: { content: '{}' } }] });
+    const responseSchema = {
+      name: 'sql_plan',
+      description: 'Query SQL',
+      schema: { type: 'object', properties: { sql: { type: 'string' } } },
+    };
+    const request = {
+      task: 'sql_planning' as const,
+      messages: [{ role: 'user' as const, content: 'x' }],
+      responseFormat: 'json' as const,
+      responseSchema,
+    };
+
+    await new OpenAILlmService(client, {
+      provider: 'openai',
+      models,
+      jsonMode: true,
+      structuredOutputs: true,
+    }).chat(request);
+    await new OpenAILlmService(client, {
+      provider: 'local',
+      models,
+      jsonMode: true,
+      structuredOutputs: false,
+    }).chat(request);
+
+    const [[native], [prompted]] = create.mock.calls as [
+      [{ response_format: object; messages: object[] }],
+      [{ response_format: object; messages: { content: string }[] }],
+    ];
+    expect(native.response_format).toEqual({
+      type: 'json_schema',
+      json_schema: { ...responseSchema, strict: false },
+    });
+    expect(native.messages).toHaveLength(1);
+    expect(prompted.response_format).toEqual({ type: 'json_object' });
+    expect(prompted.messages[1].content).toContain(
+      JSON.stringify(responseSchema.schema),
+    );
+  });
+
+  it('should send tools and return the function calls', async () => {
+    create.mockResolvedValue({
+      choices: [
+        {
+          message: {
+            content: null,
+            tool_calls: [
+              {
+                id: 'call_1',
+                type: 'function',
+                function: { name: 'search', arguments: '{"q":"sre"}' },
+              },
+            ],
+          },
+        },
+      ],
+    });
+    const llm = new OpenAILlmService(client, {
+      provider: 'openai',
+      models,
+      jsonMode: true,
+      structuredOutputs: true,
+    });
+
+    const response = await llm.callTools({
+      task: 'job_intake',
+      messages: [
+        { role: 'user', content: 'busque' },
+        {
+          role: 'assistant',
+          content: '',
+          toolCalls: [{ id: 'call_0', name: 'search', arguments: '{}' }],
+        },
+        { role: 'tool', content: '[]', toolCallId: 'call_0' },
+      ],
+      tools: [
+        {
+          name: 'search',
+          description: 'Busca perfis',
+          parameters: { type: 'object', properties: {} },
+        },
+      ],
+      toolChoice: 'required',
+    });
+
+    expect(response).toEqual({
+      content: '',
+      toolCalls: [{ id: 'call_1', name: 'search', arguments: '{"q":"sre"}' }],
+      model: 'gpt-4o',
+    });
+    const [[request]] = create.mock.calls as [
+      [{ tool_choice: string; messages: object[] }],
+    ];
+    expect(request.tool_choice).toBe('required');
+    expect(request.messages[1]).toMatchObject({
+      role: 'assistant',
+      content: null,
+      tool_calls: [{ id: 'call_0', type: 'function' }],
+    });
+    expect(request.messages[2]).toEqual({
+      role: 'tool',
+      content: '[]',
+      tool_call_id: 'call_0',
+    });
+  });
+});
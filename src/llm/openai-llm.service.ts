@@ -0,0 +1,204 @@
+import OpenAI from 'openai';
+import {
+  LlmMessage,
+  LlmRequest,
+  LlmResponse,
+  LlmResponseSchema,
+  LlmService,
+  LlmTask,
+  LlmToolCall,
+  LlmToolRequest,
+  LlmUsage,
+  parseJsonContent,
+} from './llm.service';
+
+export interface OpenAILlmOptions {
+  provider: string;
+  models: Record<LlmTask, string>;
+  /** Envia response_format json_object (nem todo servidor local aceita) */
+  jsonMode: boolean;
+  /**
+   * Envia responseSchema como response_format json_schema. Sem suporte, o
+   * schema vai no prompt.
+   */
+  structuredOutputs: boolean;
+}
+
+/**
+ * LlmService sobre a API de chat completions: atende OpenAI, Azure OpenAI
+ * (o modelo é o nome do deployment) e servidores locais compatíveis
+ * (vLLM, Ollama, LM Studio), mudando só o client
+ */
+export class OpenAILlmService implements LlmService {
+  readonly provider: string;
+
+  constructor(
+    private readonly client: OpenAI,
+    private readonly options: OpenAILlmOptions,
+  ) {
+    this.provider = options.provider;
+  }
+
+  modelFor(task: LlmTask): string {
+    return this.options.models[task];
+  }
+
+  async chat(request: LlmRequest): Promise<LlmResponse> {
+    const model = request.model || this.modelFor(request.task);
+    const schema = request.responseSchema;
+    const nativeSchema = !!schema && this.options.structuredOutputs;
+    const messages =
+      schema && !nativeSchema
+        ? [...request.messages, schemaMessage(schema)]
+        : request.messages;
+    const body = {
+      model,
+      messages: messages.map(toOpenAIMessage),
+      ...(request.maxTokens ? { max_tokens: request.maxTokens } : {}),
+      ...this.responseFormat(request),
+    };
+
+    if (!request.onDelta) {
+      const response = await this.client.chat.completions.create(body, {
+        signal: request.signal,
+      });
+      return toResponse(response, model);
+    }
+
+    let content = '';
+    let usage: LlmUsage | undefined;
+    const stream = await this.client.chat.completions.create(
+      {
+        ...body,
+        stream: true,
+        // O último trecho traz os tokens (servidores locais nem sempre aceitam)
+        ...(this.provider !== 'local'
+          ? { stream_options: { include_usage: true } }
+          : {}),
+      },
+      { signal: request.signal },
+    );
+    for await (const chunk of stream) {
+      if (chunk.usage) usage = toUsage(chunk.usage);
+      const delta = chunk.choices[0]?.delta?.content || '';
+      if (!delta) continue;
+      content += delta;
+      request.onDelta(delta);
+    }
+    return { content: content.trim(), toolCalls: [], model, usage };
+  }
+
+  private responseFormat(
+    request: LlmRequest,
+  ): Pick<OpenAI.ChatCompletionCreateParams, 'response_format'> {
+    const schema = request.responseSchema;
+    if (schema && this.options.structuredOutputs) {
+      return {
+        response_format: {
+          type: 'json_schema',
+          json_schema: {
+            name: schema.name,
+            description: schema.description,
+            schema: schema.schema,
+            // Campos opcionais não cabem no modo strict; a validação é nossa
+            strict: false,
+          },
+        },
+      };
+    }
+    if (request.responseFormat === 'json' && this.options.jsonMode) {
+      return { response_format: { type: 'json_object' } };
+    }
+    return {};
+  }
+
+  async json<T>(request: LlmRequest): Promise<T> {
+    const { content } = await this.chat({ ...request, responseFormat: 'json' });
+    return parseJsonContent<T>(content);
+  }
+
+  async callTools(request: LlmToolRequest): Promise<LlmResponse> {
+    const model = request.model || this.modelFor(request.task);
+    const response = await this.client.chat.completions.create(
+      {
+        model,
+        messages: request.messages.map(toOpenAIMessage),
+        tools: request.tools.map((tool) => ({
+          type: 'function' as const,
+          function: {
+            name: tool.name,
+            description: tool.description,
+            parameters: tool.parameters,
+          },
+        })),
+        tool_choice: request.toolChoice || 'auto',
+        ...(request.maxTokens ? { max_tokens: request.maxTokens } : {}),
+      },
+      { signal: request.signal },
+    );
+    return toResponse(response, model);
+  }
+}
+
+function toOpenAIMessage(
+  message: LlmMessage,
+): OpenAI.ChatCompletionMessageParam {
+  if (message.role === 'tool') {
+    return {
+      role: 'tool',
+      content: message.content,
+      tool_call_id: message.toolCallId || '',
+    };
+  }
+  if (message.role === 'assistant' && message.toolCalls?.length) {
+    return {
+      role: 'assistant',
+      content: message.content || null,
+      tool_calls: message.toolCalls.map((call) => ({
+        id: call.id,
+        type: 'function' as const,
+        function: { name: call.name, arguments: call.arguments },
+      })),
+    };
+  }
+  return { role: message.role, content: message.content };
+}
+
+function schemaMessage(schema: LlmResponseSchema): LlmMessage {
+  return {
+    role: 'system',
+    content: `Responda apenas com um JSON que siga este JSON Schema (${schema.description}):\n${JSON.stringify(schema.schema)}`,
+  };
+}
+
+function toUsage(usage: OpenAI.CompletionUsage): LlmUsage {
+  return {
+    promptTokens: usage.prompt_tokens,
+    completionTokens: usage.completion_tokens,
+  };
+}
+
+function toResponse(
+  response: OpenAI.ChatCompletion,
+  model: string,
+): LlmResponse {
+  const message = response.choices[0]?.message;
+  const toolCalls: LlmToolCall[] = (message?.tool_calls || []).flatMap(
+    (call) =>
+      call.type === 'function'
+        ? [
+            {
+              id: call.id,
+              name: call.function.name,
+              arguments: call.function.arguments,
+            },
+          ]
+        : [],
+  );
+  return {
+    content: message?.content?.trim() || '',
+    toolCalls,
+    model,
+    usage: response.usage ? toUsage(response.usage) : undefined,
+  };
+}
@@ -0,0 +1,115 @@
+import { IsInt, IsString, Min } from 'class-validator';
+import { FakeLlmService } from './fake-llm.service';
+import {
+  StructuredOutput,
+  StructuredOutputError,
+  completeStructured,
+  parseStructured,
+} from './structured-output';
+
+class AnswerDto {
+  @IsString()
+  label: string;
+
+  @IsInt()
+  @Min(0)
+  total: number;
+}
+
+const ANSWER_OUTPUT: StructuredOutput<AnswerDto> = {
+  name: 'answer',
+  description: 'Rótulo e total',
+  type: AnswerDto,
+  schema: {
+    type: 'object',
+    properties: {
+      label: { type: 'string' },
+      total: { type: 'integer', minimum: 0 },
+    },
+    required: ['label', 'total'],
+    additionalProperties: false,
+  },
+  check: (value) => (value.label === 'x' ? ['label: não pode ser x'] : []),
+};
+
+describe('structured output', () => {
+  const llm = new FakeLlmService();
+  const request = {
+    task: 'summarization' as const,
+    messages: [{ role: 'user' as const, content: 'conte' }],
+  };
+
+  beforeEach(() => llm.reset());
+
+  it('should send the schema and return the first valid reply', async () => {
+    llm.reply('```json\n{"label":"perfis","total":3}\n```');
+
+    const result = await completeStructured(llm, request, ANSWER_OUTPUT);
+
+    expect(result).toEqual({
+      value: { label: 'perfis', total: 3 },
+      attempts: 1,
+    });
+    expect(llm.requests[0]).toMatchObject({
+      responseFormat: 'json',
+      responseSchema: { name: 'answer', description: 'Rótulo e total' },
+    });
+  });
+
+  it('should repair invalid replies with the validation errors', async () => {
+    const deltas: string[] = [];
+    llm.reply(
+      { chunks: ['{"label":"perfis",', '"total":-1}'] },
+      '{"label":"perfis","total":2}',
+    );
+
+    const result = await completeStructured(
+      llm,
+      { ...request, onDelta: (delta) => deltas.push(delta) },
+      ANSWER_OUTPUT,
+    );
+
+    expect(result.attempts).toBe(2);
+    expect(result.value.total).toBe(2);
+    // Só a primeira tentativa é transmitida
+    expect(deltas.join('')).toBe('{"label":"perfis","total":-1}');
+    const repair = llm.requests[1].messages;
+    expect(repair.slice(-2)).toEqual([
+      { role: 'assistant', content: '{"label":"perfis","total":-1}' },
+      {
+        role: 'user',
+        content: expect.stringContaining(
+          '- total: total must not be less than 0',
+        ) as string,
+      },
+    ]);
+  });
+
+  it('should give up after the maximum number of repairs', async () => {
+    llm.reply('não sei', '{"label":"x","total":1}');
+
+    const error = await completeStructured(
+      llm,
+      request,
+      ANSWER_OUTPUT,
+      1,
+    ).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(StructuredOutputError);
+    expect((error as StructuredOutputError).errors).toEqual([
+      'label: não pode ser x',
+    ]);
+    expect(llm.requests).toHaveLength(2);
+  });
+
+  it('should describe each invalid field', () => {
+    expect(parseStructured(ANSWER_OUTPUT, '[1, 2]').errors).toEqual([
+      'a resposta deve ser um objeto JSON',
+    ]);
+    expect(parseStructured(ANSWER_OUTPUT, '{"label": 1}').errors).toEqual([
+      'label: label must be a string',
+      'total: total must not be less than 0',
+      'total: total must be an integer number',
+    ]);
+  });
+});
@@ -0,0 +1,151 @@
+import { BadGatewayException } from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { ValidationError, validateSync } from 'class-validator';
+import { parseJsonContent } from './llm.service';
+import type { LlmMessage, LlmRequest, LlmService } from './llm.service';
+
+// Novas tentativas depois de uma resposta inválida
+export const MAX_REPAIR_ATTEMPTS = 2;
+
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * JSON Schema de um objeto amarrado ao tipo TypeScript: cada propriedade de
+ * T precisa estar em properties (e nada além delas)
+ */
+export type ObjectSchema<T> = {
+  type: 'object';
+  description?: string;
+  properties: { [K in keyof Required<T>]: JsonSchema };
+  required: (keyof T & string)[];
+  additionalProperties?: boolean;
+};
+
+/**
+ * Formato de resposta do modelo: o schema enviado ao provedor
+ * (response_format json_schema) e a classe do class-validator que valida
+ * a resposta
+ */
+export interface StructuredOutput<T extends object> {
+  /** Nome do schema no provedor ([a-zA-Z0-9_-]) */
+  name: string;
+  description: string;
+  type: new () => T;
+  schema: ObjectSchema<T>;
+  /** Validações além das da classe; retorna as mensagens de erro */
+  check?: (value: T) => string[];
+}
+
+export interface StructuredResult<T> {
+  value: T;
+  /** Chamadas ao modelo até uma resposta válida (1 = sem reparo) */
+  attempts: number;
+}
+
+/**
+ * O modelo não produziu uma resposta válida mesmo depois dos reparos
+ */
+export class StructuredOutputError extends BadGatewayException {
+  constructor(
+    readonly output: string,
+    readonly errors: string[],
+  ) {
+    super(
+      `O modelo não retornou uma resposta válida (${output}): ${errors.join('; ')}`,
+    );
+  }
+}
+
+/**
+ * Pede ao modelo uma resposta no formato de output e a valida. Se a
+ * resposta for inválida, devolve os erros ao modelo e tenta de novo, até
+ * maxRepairs vezes. onDelta só recebe a primeira tentativa.
+ */
+export async function completeStructured<T extends object>(
+  llm: LlmService,
+  request: LlmRequest,
+  output: StructuredOutput<T>,
+  maxRepairs = MAX_REPAIR_ATTEMPTS,
+): Promise<StructuredResult<T>> {
+  let messages = request.messages;
+  let errors: string[] = [];
+
+  for (let attempt = 1; attempt <= maxRepairs + 1; attempt++) {
+    const { content } = await llm.chat({
+      ...request,
+      messages,
+      responseFormat: 'json',
+      responseSchema: {
+        name: output.name,
+        description: output.description,
+        schema: output.schema,
+      },
+      onDelta: attempt === 1 ? request.onDelta : undefined,
+    });
+
+    const result = parseStructured(output, content);
+    if (result.value) return { value: result.value, attempts: attempt };
+
+    errors = result.errors;
+    messages = [
+      ...messages,
+      { role: 'assistant', content },
+      repairMessage(errors),
+    ];
+  }
+
+  throw new StructuredOutputError(output.name, errors);
+}
+
+/**
+ * Interpreta e valida uma resposta do modelo
+ */
+export function parseStructured<T extends object>(
+  output: StructuredOutput<T>,
+  content: string,
+): { value?: T; errors: string[] } {
+  if (!content.trim()) return { errors: ['resposta vazia'] };
+
+  let parsed: unknown;
+  try {
+    parsed = parseJsonContent(content);
+  } catch {
+    return { errors: ['a resposta não é um JSON válido'] };
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return { errors: ['a resposta deve ser um objeto JSON'] };
+  }
+
+  const errors = formatValidationErrors(
+    validateSync(plainToInstance(output.type, parsed)),
+  );
+  // A classe transformada só serve para validar: o valor é o JSON do modelo
+  const value = parsed as T;
+  if (errors.length === 0) errors.push(...(output.check?.(value) || []));
+  return errors.length > 0 ? { errors } : { value, errors };
+}
+
+/**
+ * Erros do class-validator como "campo.aninhado: mensagem"
+ */
+export function formatValidationErrors(
+  errors: ValidationError[],
+  parent = '',
+): string[] {
+  return errors.flatMap((error) => {
+    const path = parent ? `${parent}.${error.property}` : error.property;
+    return [
+      ...Object.values(error.constraints || {}).map(
+        (message) => `${path}: ${message}`,
+      ),
+      ...formatValidationErrors(error.children || [], path),
+    ];
+  });
+}
+
+function repairMessage(errors: string[]): LlmMessage {
+  return {
+    role: 'user',
+    content: `Sua resposta não seguiu o formato esperado. Corrija os problemas abaixo e responda novamente apenas com o JSON completo:\n${errors.map((e) => `- ${e}`).join('\n')}`,
+  };
+}
@@ -0,0 +1,4 @@
+export * from './locations.module';
+export * from './location-resolver.service';
+export * from './locations.controller';
+export * from './location-data';
@@ -0,0 +1,366 @@
+/**
+ * Dados de localização no formato de linkedin.people (city e state em
+ * MAIÚSCULAS, sem acento e por extenso)
+ */
+
+export const BRAZILIAN_STATES: Record<string, string> = {
+  AC: 'ACRE',
+  AL: 'ALAGOAS',
+  AP: 'AMAPA',
+  AM: 'AMAZONAS',
+  BA: 'BAHIA',
+  CE: 'CEARA',
+  DF: 'DISTRITO FEDERAL',
+  ES: 'ESPIRITO SANTO',
+  GO: 'GOIAS',
+  MA: 'MARANHAO',
+  MT: 'MATO GROSSO',
+  MS: 'MATO GROSSO DO SUL',
+  MG: 'MINAS GERAIS',
+  PA: 'PARA',
+  PB: 'PARAIBA',
+  PR: 'PARANA',
+  PE: 'PERNAMBUCO',
+  PI: 'PIAUI',
+  RJ: 'RIO DE JANEIRO',
+  RN: 'RIO GRANDE DO NORTE',
+  RS: 'RIO GRANDE DO SUL',
+  RO: 'RONDONIA',
+  RR: 'RORAIMA',
+  SC: 'SANTA CATARINA',
+  SP: 'SAO PAULO',
+  SE: 'SERGIPE',
+  TO: 'TOCANTINS',
+};
+
+/**
+ * Estado das capitais e de cidades frequentes na base. Cidades das regiões
+ * metropolitanas também são reconhecidas.
+ */
+export const CITY_STATES: Record<string, string> = {
+  'RIO BRANCO': 'AC',
+  MACEIO: 'AL',
+  MACAPA: 'AP',
+  MANAUS: 'AM',
+  SALVADOR: 'BA',
+  FORTALEZA: 'CE',
+  BRASILIA: 'DF',
+  VITORIA: 'ES',
+  GOIANIA: 'GO',
+  'SAO LUIS': 'MA',
+  CUIABA: 'MT',
+  'CAMPO GRANDE': 'MS',
+  'BELO HORIZONTE': 'MG',
+  BELEM: 'PA',
+  'JOAO PESSOA': 'PB',
+  CURITIBA: 'PR',
+  RECIFE: 'PE',
+  TERESINA: 'PI',
+  'RIO DE JANEIRO': 'RJ',
+  NATAL: 'RN',
+  'PORTO ALEGRE': 'RS',
+  'PORTO VELHO': 'RO',
+  'BOA VISTA': 'RR',
+  FLORIANOPOLIS: 'SC',
+  'SAO PAULO': 'SP',
+  ARACAJU: 'SE',
+  PALMAS: 'TO',
+  'SAO JOSE DOS CAMPOS': 'SP',
+  'RIBEIRAO PRETO': 'SP',
+  SOROCABA: 'SP',
+  JUNDIAI: 'SP',
+  'SAO CARLOS': 'SP',
+  PIRACICABA: 'SP',
+  JOINVILLE: 'SC',
+  BLUMENAU: 'SC',
+  LONDRINA: 'PR',
+  MARINGA: 'PR',
+  'PONTA GROSSA': 'PR',
+  UBERLANDIA: 'MG',
+  'JUIZ DE FORA': 'MG',
+  'CAXIAS DO SUL': 'RS',
+  PELOTAS: 'RS',
+  PETROPOLIS: 'RJ',
+  'FEIRA DE SANTANA': 'BA',
+  'CAMPINA GRANDE': 'PB',
+};
+
+/**
+ * Apelidos e siglas de cidades usados pelos recrutadores
+ */
+export const CITY_NICKNAMES: Record<string, string> = {
+  floripa: 'FLORIANOPOLIS',
+  sampa: 'SAO PAULO',
+  'sao paulo capital': 'SAO PAULO',
+  'capital paulista': 'SAO PAULO',
+  rio: 'RIO DE JANEIRO',
+  'rio capital': 'RIO DE JANEIRO',
+  bh: 'BELO HORIZONTE',
+  beaga: 'BELO HORIZONTE',
+  poa: 'PORTO ALEGRE',
+  bsb: 'BRASILIA',
+  cwb: 'CURITIBA',
+  sjc: 'SAO JOSE DOS CAMPOS',
+  jp: 'JOAO PESSOA',
+};
+
+export interface MetroRegion {
+  name: string;
+  aliases: string[];
+  /** Sigla do estado */
+  state: string;
+  cities: string[];
+}
+
+export const METRO_REGIONS: MetroRegion[] = [
+  {
+    name: 'Grande São Paulo',
+    aliases: [
+      'grande sao paulo',
+      'grande sp',
+      'regiao metropolitana de sao paulo',
+      'rmsp',
+      'sp e regiao',
+      'sao paulo e regiao',
+    ],
+    state: 'SP',
+    cities: [
+      'SAO PAULO',
+      'GUARULHOS',
+      'OSASCO',
+      'SANTO ANDRE',
+      'SAO BERNARDO DO CAMPO',
+      'SAO CAETANO DO SUL',
+      'DIADEMA',
+      'MAUA',
+      'RIBEIRAO PIRES',
+      'MOGI DAS CRUZES',
+      'SUZANO',
+      'ITAQUAQUECETUBA',
+      'FERRAZ DE VASCONCELOS',
+      'POA',
+      'ARUJA',
+      'BARUERI',
+      'SANTANA DE PARNAIBA',
+      'CARAPICUIBA',
+      'JANDIRA',
+      'ITAPEVI',
+      'COTIA',
+      'TABOAO DA SERRA',
+      'EMBU DAS ARTES',
+      'ITAPECERICA DA SERRA',
+      'FRANCO DA ROCHA',
+      'CAIEIRAS',
+    ],
+  },
+  {
+    name: 'ABC Paulista',
+    aliases: ['abc', 'abc paulista', 'grande abc', 'regiao do abc'],
+    state: 'SP',
+    cities: [
+      'SANTO ANDRE',
+      'SAO BERNARDO DO CAMPO',
+      'SAO CAETANO DO SUL',
+      'DIADEMA',
+      'MAUA',
+      'RIBEIRAO PIRES',
+      'RIO GRANDE DA SERRA',
+    ],
+  },
+  {
+    name: 'Região de Campinas',
+    aliases: [
+      'grande campinas',
+      'regiao de campinas',
+      'regiao metropolitana de campinas',
+      'campinas e regiao',
+    ],
+    state: 'SP',
+    cities: [
+      'CAMPINAS',
+      'VALINHOS',
+      'VINHEDO',
+      'PAULINIA',
+      'SUMARE',
+      'HORTOLANDIA',
+      'INDAIATUBA',
+      'AMERICANA',
+      'JAGUARIUNA',
+      "SANTA BARBARA D'OESTE",
+      'NOVA ODESSA',
+    ],
+  },
+  {
+    name: 'Baixada Santista',
+    aliases: ['baixada santista', 'santos e regiao'],
+    state: 'SP',
+    cities: ['SANTOS', 'SAO VICENTE', 'GUARUJA', 'PRAIA GRANDE', 'CUBATAO'],
+  },
+  {
+    name: 'Grande Rio',
+    aliases: [
+      'grande rio',
+      'grande rio de janeiro',
+      'regiao metropolitana do rio de janeiro',
+      'rio e regiao',
+    ],
+    state: 'RJ',
+    cities: [
+      'RIO DE JANEIRO',
+      'NITEROI',
+      'SAO GONCALO',
+      'DUQUE DE CAXIAS',
+      'NOVA IGUACU',
+      'BELFORD ROXO',
+      'SAO JOAO DE MERITI',
+      'NILOPOLIS',
+      'MESQUITA',
+      'MARICA',
+      'ITABORAI',
+    ],
+  },
+  {
+    name: 'Grande Belo Horizonte',
+    aliases: [
+      'grande bh',
+      'grande belo horizonte',
+      'regiao metropolitana de belo horizonte',
+      'bh e regiao',
+    ],
+    state: 'MG',
+    cities: [
+      'BELO HORIZONTE',
+      'CONTAGEM',
+      'BETIM',
+      'NOVA LIMA',
+      'SANTA LUZIA',
+      'RIBEIRAO DAS NEVES',
+      'SABARA',
+      'LAGOA SANTA',
+      'IBIRITE',
+      'VESPASIANO',
+    ],
+  },
+  {
+    name: 'Grande Curitiba',
+    aliases: [
+      'grande curitiba',
+      'regiao metropolitana de curitiba',
+      'curitiba e regiao',
+    ],
+    state: 'PR',
+    cities: [
+      'CURITIBA',
+      'SAO JOSE DOS PINHAIS',
+      'COLOMBO',
+      'PINHAIS',
+      'ARAUCARIA',
+      'CAMPO LARGO',
+      'ALMIRANTE TAMANDARE',
+      'FAZENDA RIO GRANDE',
+    ],
+  },
+  {
+    name: 'Grande Porto Alegre',
+    aliases: [
+      'grande porto alegre',
+      'grande poa',
+      'regiao metropolitana de porto alegre',
+      'porto alegre e regiao',
+    ],
+    state: 'RS',
+    cities: [
+      'PORTO ALEGRE',
+      'CANOAS',
+      'GRAVATAI',
+      'VIAMAO',
+      'ALVORADA',
+      'CACHOEIRINHA',
+      'NOVO HAMBURGO',
+      'SAO LEOPOLDO',
+      'ESTEIO',
+      'SAPUCAIA DO SUL',
+    ],
+  },
+  {
+    name: 'Grande Florianópolis',
+    aliases: [
+      'grande florianopolis',
+      'grande floripa',
+      'florianopolis e regiao',
+      'floripa e regiao',
+    ],
+    state: 'SC',
+    cities: [
+      'FLORIANOPOLIS',
+      'SAO JOSE',
+      'PALHOCA',
+      'BIGUACU',
+      'SANTO AMARO DA IMPERATRIZ',
+    ],
+  },
+  {
+    name: 'Grande Recife',
+    aliases: ['grande recife', 'regiao metropolitana do recife'],
+    state: 'PE',
+    cities: [
+      'RECIFE',
+      'JABOATAO DOS GUARARAPES',
+      'OLINDA',
+      'PAULISTA',
+      'CAMARAGIBE',
+      'CABO DE SANTO AGOSTINHO',
+    ],
+  },
+  {
+    name: 'Grande Salvador',
+    aliases: ['grande salvador', 'regiao metropolitana de salvador'],
+    state: 'BA',
+    cities: [
+      'SALVADOR',
+      'LAURO DE FREITAS',
+      'CAMACARI',
+      'SIMOES FILHO',
+      'CANDEIAS',
+    ],
+  },
+  {
+    name: 'Grande Fortaleza',
+    aliases: ['grande fortaleza', 'regiao metropolitana de fortaleza'],
+    state: 'CE',
+    cities: ['FORTALEZA', 'CAUCAIA', 'MARACANAU', 'EUSEBIO', 'AQUIRAZ'],
+  },
+  {
+    name: 'Grande Goiânia',
+    aliases: ['grande goiania', 'regiao metropolitana de goiania'],
+    state: 'GO',
+    cities: ['GOIANIA', 'APARECIDA DE GOIANIA', 'TRINDADE', 'SENADOR CANEDO'],
+  },
+  {
+    name: 'Grande Vitória',
+    aliases: ['grande vitoria', 'regiao metropolitana de vitoria'],
+    state: 'ES',
+    cities: ['VITORIA', 'VILA VELHA', 'SERRA', 'CARIACICA', 'VIANA'],
+  },
+];
+
+/**
+ * Termos que significam "sem restrição de local" (vaga remota ou qualquer
+ * cidade)
+ */
+export const ANYWHERE_TERMS = [
+  'remoto',
+  'remota',
+  'remote',
+  '100 remoto',
+  'home office',
+  'anywhere',
+  'qualquer lugar',
+  'qualquer local',
+  'qualquer cidade',
+  'qualquer estado',
+  'todo o brasil',
+  'todo brasil',
+  'brasil',
+  'brazil',
+];
@@ -0,0 +1,74 @@
+import { LocationResolverService } from './location-resolver.service';
+
+describe('LocationResolverService', () => {
+  const resolver = new LocationResolverService();
+
+  it('should resolve cities with their state', () => {
+    expect(resolver.resolve('São Paulo')).toEqual({
+      input: 'São Paulo',
+      kind: 'city',
+      label: 'SAO PAULO (SP)',
+      cities: ['SAO PAULO'],
+      states: ['SAO PAULO'],
+    });
+    expect(resolver.resolve('Floripa')).toMatchObject({
+      cities: ['FLORIANOPOLIS'],
+      states: ['SANTA CATARINA'],
+    });
+    expect(resolver.resolve('Guarulhos').states).toEqual(['SAO PAULO']);
+  });
+
+  it('should read the state from "city - UF" inputs', () => {
+    expect(resolver.resolve('Curitiba - PR')).toMatchObject({
+      kind: 'city',
+      cities: ['CURITIBA'],
+      states: ['PARANA'],
+    });
+    expect(resolver.resolve('Chapecó, Santa Catarina')).toMatchObject({
+      cities: ['CHAPECO'],
+      states: ['SANTA CATARINA'],
+    });
+  });
+
+  it('should resolve state abbreviations and names', () => {
+    expect(resolver.resolve('SP')).toMatchObject({
+      kind: 'state',
+      cities: [],
+      states: ['SAO PAULO'],
+    });
+    expect(resolver.resolve('Paraná').states).toEqual(['PARANA']);
+    expect(resolver.resolve('estado do Rio de Janeiro')).toMatchObject({
+      kind: 'state',
+      states: ['RIO DE JANEIRO'],
+    });
+  });
+
+  it('should expand metropolitan regions', () => {
+    const region = resolver.resolve('Grande SP');
+
+    expect(region.kind).toBe('metro');
+    expect(region.label).toBe('Grande São Paulo (26 cidades)');
+    expect(region.cities).toEqual(
+      expect.arrayContaining(['SAO PAULO', 'GUARULHOS', 'OSASCO']),
+    );
+    expect(region.states).toEqual(['SAO PAULO']);
+  });
+
+  it('should recognize remote / any location', () => {
+    const { locations, anywhere } = resolver.resolveAll([
+      'Curitiba',
+      '100% remoto',
+    ]);
+
+    expect(anywhere).toBe(true);
+    expect(locations[1]).toMatchObject({ kind: 'anywhere', cities: [] });
+  });
+
+  it('should fall back to the classified text for unknown places', () => {
+    expect(resolver.resolve('Itajubá')).toMatchObject({
+      kind: 'unknown',
+      cities: ['ITAJUBA'],
+      states: [],
+    });
+  });
+});
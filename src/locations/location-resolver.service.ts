@@ -0,0 +1,196 @@
+import { Injectable } from '@nestjs/common';
+import {
+  ANYWHERE_TERMS,
+  BRAZILIAN_STATES,
+  CITY_NICKNAMES,
+  CITY_STATES,
+  METRO_REGIONS,
+  MetroRegion,
+} from './location-data';
+
+export type LocationKind = 'city' | 'state' | 'metro' | 'anywhere' | 'unknown';
+
+/**
+ * Local digitado pelo recrutador convertido para os valores de city/state
+ * de linkedin.people. Cidades sem estado conhecido filtram só por city;
+ * estados sem cidades filtram o estado inteiro.
+ */
+export interface ResolvedLocation {
+  input: string;
+  kind: LocationKind;
+  /** Descrição exibida ao recrutador ("FLORIANOPOLIS (SC)") */
+  label: string;
+  cities: string[];
+  states: string[];
+}
+
+const STATE_BY_NAME = new Map(
+  Object.entries(BRAZILIAN_STATES).map(([uf, name]) => [locationKey(name), uf]),
+);
+const METRO_BY_ALIAS = new Map<string, MetroRegion>(
+  METRO_REGIONS.flatMap((region) =>
+    region.aliases.map((alias) => [locationKey(alias), region] as const),
+  ),
+);
+// Chave normalizada → [cidade como na base, sigla do estado]
+const KNOWN_CITIES = new Map<string, [string, string]>(
+  [
+    ...METRO_REGIONS.flatMap((region) =>
+      region.cities.map((city) => [city, region.state]),
+    ),
+    ...Object.entries(CITY_STATES),
+  ].map(([city, uf]) => [locationKey(city), [city, uf]]),
+);
+const NICKNAMES = new Map(
+  Object.entries(CITY_NICKNAMES).map(([nickname, city]) => [
+    nickname,
+    locationKey(city),
+  ]),
+);
+const ANYWHERE = new Set(ANYWHERE_TERMS.map(locationKey));
+
+/**
+ * Resolve cidades, estados (sigla ou nome), apelidos ("Floripa", "BH") e
+ * regiões metropolitanas ("Grande SP") para os valores classificados
+ */
+@Injectable()
+export class LocationResolverService {
+  resolve(input: string): ResolvedLocation {
+    const key = locationKey(input).replace(/^(em|no|na|de|do|da) /, '');
+    if (!key) return this.unknown(input);
+
+    if (ANYWHERE.has(key)) {
+      return {
+        input,
+        kind: 'anywhere',
+        label: 'Qualquer local / remoto',
+        cities: [],
+        states: [],
+      };
+    }
+
+    const stateName = key.match(/^estado (?:de|do|da) (.+)$/)?.[1];
+    if (stateName) {
+      const uf = STATE_BY_NAME.get(stateName) ?? this.uf(stateName);
+      return uf ? this.state(input, uf) : this.unknown(input);
+    }
+
+    const region = METRO_BY_ALIAS.get(key);
+    if (region) {
+      return {
+        input,
+        kind: 'metro',
+        label: `${region.name} (${region.cities.length} cidades)`,
+        cities: region.cities,
+        states: [BRAZILIAN_STATES[region.state]],
+      };
+    }
+
+    const known = KNOWN_CITIES.get(NICKNAMES.get(key) ?? key);
+    if (known) return this.city(input, ...known);
+
+    const uf = this.uf(key);
+    if (uf) return this.state(input, uf);
+
+    // Estado por extenso, depois de "São Paulo" e "Rio de Janeiro" como cidade
+    const stateUf = STATE_BY_NAME.get(key);
+    if (stateUf) return this.state(input, stateUf);
+
+    // "Curitiba - PR", "Joinville, SC", "Londrina Paraná"
+    const withState = this.splitState(key);
+    if (withState) {
+      const city =
+        KNOWN_CITIES.get(withState.city)?.[0] ?? withState.city.toUpperCase();
+      return this.city(input, city, withState.uf);
+    }
+
+    return this.unknown(input);
+  }
+
+  /**
+   * Resolve vários locais. anywhere indica que algum deles libera qualquer
+   * local (ex: "Curitiba ou remoto"), e então não há filtro de local.
+   */
+  resolveAll(inputs: string[]): {
+    locations: ResolvedLocation[];
+    anywhere: boolean;
+  } {
+    const locations = inputs.map((input) => this.resolve(input));
+    return {
+      locations,
+      anywhere: locations.some((l) => l.kind === 'anywhere'),
+    };
+  }
+
+  private uf(key: string): string | undefined {
+    const uf = key.toUpperCase();
+    return uf.length === 2 && BRAZILIAN_STATES[uf] ? uf : undefined;
+  }
+
+  private splitState(key: string): { city: string; uf: string } | null {
+    const words = key.split(' ');
+    const uf = this.uf(words[words.length - 1]);
+    if (uf && words.length > 1) {
+      return { city: words.slice(0, -1).join(' '), uf };
+    }
+
+    for (const [name, stateUf] of STATE_BY_NAME) {
+      if (key.endsWith(` ${name}`)) {
+        return { city: key.slice(0, -name.length - 1), uf: stateUf };
+      }
+    }
+    return null;
+  }
+
+  private city(
+    input: string,
+    city: string,
+    uf: string | undefined,
+  ): ResolvedLocation {
+    return {
+      input,
+      kind: 'city',
+      label: uf ? `${city} (${uf})` : city,
+      cities: [city],
+      states: uf ? [BRAZILIAN_STATES[uf]] : [],
+    };
+  }
+
+  private state(input: string, uf: string): ResolvedLocation {
+    return {
+      input,
+      kind: 'state',
+      label: `${BRAZILIAN_STATES[uf]} (estado)`,
+      cities: [],
+      states: [BRAZILIAN_STATES[uf]],
+    };
+  }
+
+  // Sem correspondência: usa o texto como cidade, no formato da base
+  private unknown(input: string): ResolvedLocation {
+    const city = input
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .trim()
+      .toUpperCase();
+    return {
+      input,
+      kind: 'unknown',
+      label: city,
+      cities: city ? [city] : [],
+      states: [],
+    };
+  }
+}
+
+/**
+ * Minúsculas, sem acento e sem pontuação ("São Paulo/SP" → "sao paulo sp")
+ */
+function locationKey(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
@@ -0,0 +1,21 @@
+import { BadRequestException, Controller, Get, Query } from '@nestjs/common';
+import { LocationResolverService } from './location-resolver.service';
+import type { ResolvedLocation } from './location-resolver.service';
+
+@Controller('locations')
+export class LocationsController {
+  constructor(private readonly locationResolver: LocationResolverService) {}
+
+  /**
+   * Mostra como um local digitado é convertido para os filtros de
+   * cidade/estado da busca
+   * GET /locations/resolve?q=Grande SP
+   */
+  @Get('resolve')
+  resolve(@Query('q') q?: string): ResolvedLocation {
+    if (!q?.trim()) {
+      throw new BadRequestException('Informe o local (q)');
+    }
+    return this.locationResolver.resolve(q);
+  }
+}
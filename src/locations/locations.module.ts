@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { LocationResolverService } from './location-resolver.service';
+import { LocationsController } from './locations.controller';
+
+@Module({
+  controllers: [LocationsController],
+  providers: [LocationResolverService],
+  exports: [LocationResolverService],
+})
+export class LocationsModule {}
@@ -0,0 +1 @@
+export * from './job-match.dto';
@@ -0,0 +1,23 @@
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+
+export class JobMatchDto {
+  @IsArray()
+  @IsString({ each: true })
+  @ArrayMaxSize(500)
+  @IsOptional()
+  profileIds?: string[];
+
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  limit?: number;
+}
@@ -0,0 +1,4 @@
+export * from './matching.module';
+export * from './job-match.service';
+export * from './job-match.controller';
+export * from './job-match-scorer';
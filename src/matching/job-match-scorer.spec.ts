@@ -0,0 +1,134 @@
+import { CreateJobDto } from '../jobs/dto/job.dto';
+import {
+  jobRelevance,
+  jobToCriteria,
+  rankCandidates,
+  scoreCandidate,
+} from './job-match-scorer';
+
+const JOB: CreateJobDto = {
+  title: 'Tech Lead Backend',
+  area: 'Tecnologia',
+  seniority: 'Sênior',
+  workFormat: 'Híbrido',
+  location: 'Curitiba - PR',
+  technicalSkills: ['Node.js', 'PostgreSQL', 'Kubernetes', 'Kafka'],
+  behavioralSkills: ['Liderança'],
+  preferredExperience: 'Experiência em fintechs ou bancos',
+};
+
+describe('job match scorer', () => {
+  it('should score each criterion and weight the total', () => {
+    const match = scoreCandidate(JOB, {
+      full_name: 'Ana',
+      headline: 'Tech Lead | Node.js | Kafka',
+      experience: 'Nubank - fintech de pagamentos com PostgreSQL',
+      about_me: 'Liderança de times',
+      seniority: 'ESPECIALISTA',
+      area: 'DESENVOLVIMENTO',
+      macroarea: 'TECNOLOGIA, DADOS E PRODUTOS',
+      city: 'LONDRINA',
+      state: 'PARANA',
+    });
+
+    expect(match.breakdown.skills).toMatchObject({
+      score: 80,
+      matched: ['Node.js', 'PostgreSQL', 'Kafka', 'Liderança'],
+      missing: ['Kubernetes'],
+    });
+    expect(match.breakdown.seniority.score).toBe(100);
+    expect(match.breakdown.location.score).toBe(60);
+    expect(match.breakdown.industry).toMatchObject({
+      score: 100,
+      matched: ['Tecnologia', 'fintech'],
+    });
+    // 40 * 0.8 + 25 + 15 * 0.6 + 20
+    expect(match.score).toBe(86);
+  });
+
+  it('should match skills as whole words and accept ontology terms', () => {
+    const job = { ...JOB, technicalSkills: ['Java', 'Go', 'Kubernetes'] };
+    const candidate = {
+      headline: 'Dev JavaScript | Google | K8s',
+      experience: 'Java 17 e Go',
+    };
+
+    expect(scoreCandidate(job, candidate).breakdown.skills.matched).toEqual([
+      'Java',
+      'Go',
+    ]);
+    expect(
+      scoreCandidate(job, { headline: 'Dev JavaScript no Google' }).breakdown
+        .skills.missing,
+    ).toEqual(['Java', 'Go', 'Kubernetes', 'Liderança']);
+    expect(
+      scoreCandidate(job, candidate, (skill) =>
+        skill === 'Kubernetes' ? ['Kubernetes', 'K8s'] : [skill],
+      ).breakdown.skills.matched,
+    ).toEqual(['Java', 'Go', 'Kubernetes']);
+  });
+
+  it('should be neutral for missing job data and full for remote jobs', () => {
+    const match = scoreCandidate(
+      {
+        title: 'Analista',
+        area: '',
+        seniority: 'A combinar',
+        workFormat: 'Remoto',
+      },
+      { full_name: 'Bruno', seniority: 'OUTROS' },
+    );
+
+    expect(match.breakdown.skills.score).toBe(50);
+    expect(match.breakdown.seniority.score).toBe(50);
+    expect(match.breakdown.location.score).toBe(100);
+    expect(match.breakdown.industry.score).toBe(50);
+  });
+
+  it('should penalize distant seniorities', () => {
+    const junior = scoreCandidate(JOB, { seniority: 'ANALISTA' });
+    const manager = scoreCandidate(JOB, { seniority: 'GERENTE' });
+
+    expect(junior.breakdown.seniority).toMatchObject({
+      score: 50,
+      detail: 'ANALISTA abaixo da senioridade Sênior',
+    });
+    expect(manager.breakdown.seniority.score).toBe(0);
+  });
+
+  it('should rank by score and break ties by name', () => {
+    const ranked = rankCandidates(JOB, [
+      { full_name: 'Carla', headline: 'Java' },
+      { full_name: 'Bruno', headline: 'Node.js' },
+      { full_name: 'Ana', headline: 'Java' },
+    ]);
+
+    expect(ranked.map((c) => c.full_name)).toEqual(['Bruno', 'Ana', 'Carla']);
+  });
+
+  it('should search the pool by technical skills or by title', () => {
+    expect(jobToCriteria(JOB)).toEqual({
+      skills: JOB.technicalSkills,
+      skillsMatch: 'any',
+    });
+    expect(
+      jobToCriteria({ title: 'Designer', area: 'Produto', seniority: 'Pleno' }),
+    ).toEqual({
+      roleTitles: ['Designer'],
+    });
+  });
+
+  it('should order the pool by the job skills and seniority', () => {
+    expect(jobRelevance(JOB)).toEqual({
+      skills: JOB.technicalSkills,
+      seniorityRank: 2,
+    });
+    expect(
+      jobRelevance({
+        title: 'Designer',
+        area: 'Produto',
+        seniority: 'A combinar',
+      }),
+    ).toEqual({ skills: undefined, seniorityRank: undefined });
+  });
+});
@@ -0,0 +1,351 @@
+import type { CreateJobDto } from '../jobs/dto/job.dto';
+import {
+  RESULT_COLUMNS,
+  RelevanceOptions,
+  SENIORITY_RANKS,
+  SearchCriteria,
+  toClassifiedValue,
+  wholeWordsRegExp,
+} from '../natural-query/criteria-compiler.service';
+import { BRAZILIAN_STATES } from '../locations/location-data';
+
+/**
+ * Peso de cada critério na nota final (soma 100)
+ */
+export const MATCH_WEIGHTS = {
+  skills: 40,
+  seniority: 25,
+  location: 15,
+  industry: 20,
+} as const;
+
+// Colunas de texto usadas no cálculo (não são exibidas ao recrutador)
+export const MATCH_TEXT_COLUMNS = ['about_me', 'experience'];
+
+export const MATCH_COLUMNS = [...RESULT_COLUMNS, ...MATCH_TEXT_COLUMNS];
+
+export interface CriterionScore {
+  /** 0 a 100 */
+  score: number;
+  detail: string;
+}
+
+export interface MatchBreakdown {
+  skills: CriterionScore & { matched: string[]; missing: string[] };
+  seniority: CriterionScore;
+  location: CriterionScore;
+  industry: CriterionScore & { matched: string[] };
+}
+
+export interface JobMatch {
+  /** 0 a 100, ponderado por MATCH_WEIGHTS */
+  score: number;
+  breakdown: MatchBreakdown;
+}
+
+type CandidateRow = Record<string, unknown>;
+
+/**
+ * Textos que contam como a habilidade no perfil (ex: variações e siglas da
+ * ontologia via CriteriaCompilerService.skillTerms)
+ */
+export type SkillTerms = (skill: string) => string[];
+
+const ONLY_SKILL: SkillTerms = (skill) => [skill];
+
+// Senioridade escrita na vaga (texto livre) → posição em SENIORITY_RANKS
+const JOB_SENIORITY_PATTERNS: Array<[RegExp, number]> = [
+  [/estagi|trainee/, 0],
+  [/junior|\bjr\b|pleno|\bpl\b|analista/, 1],
+  [/senior|\bsr\b|especialista/, 2],
+  [/coordenador|supervisor|lider|lead/, 3],
+  [/gerente|manager|head/, 4],
+  [/diretor|director|c-level|\bcto\b|\bceo\b|\bcfo\b|\bvp\b/, 5],
+];
+
+// Sinônimos das áreas da vaga para as áreas classificadas
+const AREA_ALIASES: Record<string, string[]> = {
+  RH: ['RECURSOS HUMANOS'],
+  CS: ['ATENDIMENTO AO CLIENTE', 'SUPORTE'],
+  'CUSTOMER SUCCESS': ['ATENDIMENTO AO CLIENTE', 'SUPORTE'],
+  PRODUTO: ['PRODUTOS'],
+  ENGENHARIA: ['ENGENHARIA', 'DESENVOLVIMENTO'],
+};
+
+/**
+ * Nota de aderência do candidato à vaga, com o detalhe de cada critério
+ */
+export function scoreCandidate(
+  job: CreateJobDto,
+  candidate: CandidateRow,
+  skillTerms: SkillTerms = ONLY_SKILL,
+): JobMatch {
+  const breakdown: MatchBreakdown = {
+    skills: scoreSkills(job, candidate, skillTerms),
+    seniority: scoreSeniority(job, candidate),
+    location: scoreLocation(job, candidate),
+    industry: scoreIndustry(job, candidate),
+  };
+
+  const score = (
+    Object.keys(MATCH_WEIGHTS) as Array<keyof typeof MATCH_WEIGHTS>
+  ).reduce(
+    (total, key) => total + (MATCH_WEIGHTS[key] * breakdown[key].score) / 100,
+    0,
+  );
+
+  return { score: Math.round(score), breakdown };
+}
+
+/**
+ * Ordena os candidatos pela nota (maior primeiro; empate por nome)
+ */
+export function rankCandidates<T extends CandidateRow>(
+  job: CreateJobDto,
+  candidates: T[],
+  skillTerms: SkillTerms = ONLY_SKILL,
+): Array<T & { match: JobMatch }> {
+  return candidates
+    .map((candidate) => ({
+      ...candidate,
+      match: scoreCandidate(job, candidate, skillTerms),
+    }))
+    .sort(
+      (a, b) =>
+        b.match.score - a.match.score ||
+        text(a.full_name).localeCompare(text(b.full_name)),
+    );
+}
+
+/**
+ * Critérios amplos para buscar o conjunto de candidatos a ranquear:
+ * qualquer uma das habilidades técnicas ou, sem elas, o título da vaga
+ */
+export function jobToCriteria(job: CreateJobDto): SearchCriteria {
+  if (job.technicalSkills?.length) {
+    return { skills: job.technicalSkills, skillsMatch: 'any' };
+  }
+  return { roleTitles: [job.title] };
+}
+
+/**
+ * Ordenação do conjunto no banco pelos mesmos sinais da nota (habilidades
+ * técnicas e senioridade), para o LIMIT não cortar os melhores candidatos
+ */
+export function jobRelevance(job: CreateJobDto): RelevanceOptions {
+  return {
+    skills: job.technicalSkills,
+    seniorityRank: jobSeniorityRank(job),
+  };
+}
+
+/**
+ * Remove as colunas usadas apenas no cálculo antes de devolver a linha
+ */
+export function withoutMatchText<T extends CandidateRow>(row: T): T {
+  const result: CandidateRow = { ...row };
+  for (const column of MATCH_TEXT_COLUMNS) delete result[column];
+  return result as T;
+}
+
+function scoreSkills(
+  job: CreateJobDto,
+  candidate: CandidateRow,
+  skillTerms: SkillTerms,
+): MatchBreakdown['skills'] {
+  const technical = job.technicalSkills || [];
+  const behavioral = job.behavioralSkills || [];
+  if (technical.length === 0 && behavioral.length === 0) {
+    return {
+      score: 50,
+      detail: 'Vaga sem habilidades informadas',
+      matched: [],
+      missing: [],
+    };
+  }
+
+  const profileText = normalize(
+    [
+      candidate.headline,
+      candidate.current_job_title,
+      candidate.about_me,
+      candidate.experience,
+    ]
+      .map(text)
+      .join(' '),
+  );
+  // Palavra inteira: "Java" não conta em "JavaScript", nem "Go" em "Google"
+  const hits = (skills: string[]) =>
+    skills.filter((skill) =>
+      wholeWordsRegExp(skillTerms(skill).map(normalize)).test(profileText),
+    );
+
+  const technicalHits = hits(technical);
+  const behavioralHits = hits(behavioral);
+  const ratio = (found: string[], all: string[]) =>
+    all.length > 0 ? found.length / all.length : null;
+
+  // Habilidades técnicas pesam mais; comportamentais raramente aparecem no perfil
+  const technicalRatio = ratio(technicalHits, technical);
+  const behavioralRatio = ratio(behavioralHits, behavioral);
+  const score =
+    technicalRatio !== null && behavioralRatio !== null
+      ? technicalRatio * 0.8 + behavioralRatio * 0.2
+      : (technicalRatio ?? behavioralRatio ?? 0);
+
+  const matched = [...technicalHits, ...behavioralHits];
+  return {
+    score: Math.round(score * 100),
+    detail: `${matched.length} de ${technical.length + behavioral.length} habilidades encontradas no perfil`,
+    matched,
+    missing: [...technical, ...behavioral].filter((s) => !matched.includes(s)),
+  };
+}
+
+function scoreSeniority(
+  job: CreateJobDto,
+  candidate: CandidateRow,
+): CriterionScore {
+  const expected = jobSeniorityRank(job);
+  if (expected === undefined) {
+    return { score: 50, detail: 'Senioridade da vaga não reconhecida' };
+  }
+
+  const actual = SENIORITY_RANKS[text(candidate.seniority)];
+  if (actual === undefined) {
+    return { score: 25, detail: 'Senioridade do candidato não classificada' };
+  }
+
+  const distance = Math.abs(expected - actual);
+  if (distance === 0) {
+    return {
+      score: 100,
+      detail: `${text(candidate.seniority)} atende à senioridade ${job.seniority}`,
+    };
+  }
+  return {
+    score: distance === 1 ? 50 : 0,
+    detail: `${text(candidate.seniority)} ${actual > expected ? 'acima' : 'abaixo'} da senioridade ${job.seniority}`,
+  };
+}
+
+function jobSeniorityRank(job: CreateJobDto): number | undefined {
+  const jobSeniority = normalize(job.seniority || '');
+  return JOB_SENIORITY_PATTERNS.find(([pattern]) =>
+    pattern.test(jobSeniority),
+  )?.[1];
+}
+
+function scoreLocation(
+  job: CreateJobDto,
+  candidate: CandidateRow,
+): CriterionScore {
+  if (normalize(job.workFormat || '').includes('remot')) {
+    return { score: 100, detail: 'Vaga remota' };
+  }
+
+  const location = toClassifiedValue(job.location || '');
+  if (!location) {
+    return { score: 50, detail: 'Local da vaga não informado' };
+  }
+
+  const city = text(candidate.city);
+  const state = text(candidate.state);
+  if (city && location.includes(city)) {
+    return { score: 100, detail: `Candidato em ${city}` };
+  }
+
+  const states = new Set(
+    Array.from(
+      location.matchAll(/\b[A-Z]{2}\b/g),
+      ([uf]) => BRAZILIAN_STATES[uf],
+    ),
+  );
+  if (state && (location.includes(state) || states.has(state))) {
+    return { score: 60, detail: `Candidato no mesmo estado (${state})` };
+  }
+
+  return {
+    score: 0,
+    detail: `Candidato em ${city || state || 'local não informado'}`,
+  };
+}
+
+function scoreIndustry(
+  job: CreateJobDto,
+  candidate: CandidateRow,
+): MatchBreakdown['industry'] {
+  const parts: number[] = [];
+  const matched: string[] = [];
+
+  if (job.area) {
+    const area = toClassifiedValue(job.area);
+    const targets = AREA_ALIASES[area] || [area];
+    const candidateAreas = [candidate.area, candidate.macroarea].map(text);
+    const fits = targets.some((target) =>
+      candidateAreas.some((value) => value && value.includes(target)),
+    );
+    parts.push(fits ? 1 : 0);
+    if (fits) matched.push(job.area);
+  }
+
+  const terms = experienceTerms(job.preferredExperience);
+  if (terms.length > 0) {
+    const history = normalize(
+      [candidate.experience, candidate.current_company, candidate.headline]
+        .map(text)
+        .join(' '),
+    );
+    const found = terms.filter((term) => history.includes(term));
+    parts.push(found.length > 0 ? 1 : 0);
+    matched.push(...found);
+  }
+
+  if (parts.length === 0) {
+    return {
+      score: 50,
+      detail: 'Vaga sem área ou experiência preferida',
+      matched,
+    };
+  }
+
+  return {
+    score: Math.round((parts.reduce((a, b) => a + b, 0) / parts.length) * 100),
+    detail:
+      matched.length > 0
+        ? `Aderência em: ${matched.join(', ')}`
+        : 'Sem experiência na área ou no segmento da vaga',
+    matched,
+  };
+}
+
+/**
+ * "Experiência em fintechs ou bancos" → ["fintech", "banco"] (sem plural,
+ * para também encontrar "fintech" no histórico)
+ */
+function experienceTerms(preferredExperience?: string): string[] {
+  if (!preferredExperience) return [];
+  return normalize(preferredExperience)
+    .split(/[,;/]|\s+(?:e|ou)\s+/)
+    .map((term) =>
+      term
+        .trim()
+        .replace(
+          /^(?:experiencia|vivencia|atuacao|passagem)(?:\s+previa)?\s+(?:em|com|no|na|nos|nas)\s+/,
+          '',
+        )
+        .replace(/(\w{4,})s$/, '$1'),
+    )
+    .filter((term) => term.length >= 3);
+}
+
+function normalize(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+}
+
+function text(value: unknown): string {
+  return typeof value === 'string' ? value : '';
+}
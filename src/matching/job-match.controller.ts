@@ -0,0 +1,31 @@
+import { Controller, Post, Body, Param, HttpCode } from '@nestjs/common';
+import { JobMatchService } from './job-match.service';
+import type { JobMatchResult } from './job-match.service';
+import { JobMatchDto } from './dto';
+import { UsageScope } from '../usage/request-context';
+
+@Controller('jobs')
+@UsageScope('job')
+export class JobMatchController {
+  constructor(private readonly jobMatchService: JobMatchService) {}
+
+  /**
+   * Ranqueia candidatos pela aderência à vaga (nota de 0 a 100 com o detalhe
+   * de habilidades, senioridade, localização e segmento)
+   * POST /jobs/:id/match
+   *
+   * Body (opcional):
+   * {
+   *   "profileIds": ["abc123", "def456"],
+   *   "limit": 20
+   * }
+   */
+  @Post(':id/match')
+  @HttpCode(200)
+  async match(
+    @Param('id') id: string,
+    @Body() dto: JobMatchDto,
+  ): Promise<JobMatchResult> {
+    return this.jobMatchService.match(id, dto);
+  }
+}
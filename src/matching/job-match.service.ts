@@ -0,0 +1,93 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { JobsService } from '../jobs/jobs.service';
+import { QueryPlannerService } from '../natural-query/query-planner.service';
+import type { CreateJobDto } from '../jobs/dto/job.dto';
+import { CriteriaCompilerService } from '../natural-query/criteria-compiler.service';
+import {
+  JobMatch,
+  MATCH_COLUMNS,
+  jobRelevance,
+  jobToCriteria,
+  rankCandidates,
+  withoutMatchText,
+} from './job-match-scorer';
+
+// Quantos candidatos são avaliados quando a vaga não traz uma lista de perfis
+export const MATCH_POOL_SIZE = 300;
+const DEFAULT_MATCH_LIMIT = 20;
+
+export interface JobMatchOptions {
+  /** Avalia apenas estes perfis (ex: shortlist já montada) */
+  profileIds?: string[];
+  limit?: number;
+}
+
+export type MatchedCandidate = Record<string, unknown> & { match: JobMatch };
+
+export interface JobMatchResult {
+  jobId: string;
+  jobTitle: string;
+  evaluated: number;
+  candidates: MatchedCandidate[];
+}
+
+@Injectable()
+export class JobMatchService {
+  private readonly logger = new Logger(JobMatchService.name);
+
+  constructor(
+    private readonly jobsService: JobsService,
+    private readonly planner: QueryPlannerService,
+    private readonly criteriaCompiler: CriteriaCompilerService,
+  ) {}
+
+  /**
+   * Ranqueia candidatos pela aderência à vaga cadastrada
+   */
+  async match(
+    jobId: string,
+    options: JobMatchOptions = {},
+  ): Promise<JobMatchResult> {
+    const { job } = await this.jobsService.getJob(jobId);
+    const limit = options.limit ?? DEFAULT_MATCH_LIMIT;
+
+    const { data } = options.profileIds?.length
+      ? await this.planner.execute<Record<string, unknown>>(
+          `SELECT ${MATCH_COLUMNS.join(', ')}\nFROM linkedin.people\nWHERE profile_id IN {ids:Array(String)}\nLIMIT ${options.profileIds.length}`,
+          options.profileIds.length,
+          { params: { ids: options.profileIds } },
+        )
+      : await this.fetchPool(job);
+
+    const ranked = rankCandidates(job, data, (skill) =>
+      this.criteriaCompiler.skillTerms(skill),
+    );
+    this.logger.log(
+      `🎯 Vaga ${jobId}: ${ranked.length} candidatos avaliados, melhor nota ${ranked[0]?.match.score ?? '-'}`,
+    );
+
+    return {
+      jobId,
+      jobTitle: job.title,
+      evaluated: ranked.length,
+      candidates: ranked.slice(0, limit).map(withoutMatchText),
+    };
+  }
+
+  /**
+   * Candidatos com alguma aderência mínima à vaga (habilidades ou título),
+   * os mais aderentes primeiro
+   */
+  private fetchPool(job: CreateJobDto) {
+    const compiled = this.criteriaCompiler.compile(jobToCriteria(job), {
+      limit: MATCH_POOL_SIZE,
+      columns: MATCH_COLUMNS,
+      relevance: jobRelevance(job),
+    });
+    return this.planner.execute<Record<string, unknown>>(
+      compiled.sql,
+      MATCH_POOL_SIZE,
+      { params: compiled.params },
+    );
+  }
+}
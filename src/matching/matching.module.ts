@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { JobMatchController } from './job-match.controller';
+import { JobMatchService } from './job-match.service';
+import { JobsModule } from '../jobs/jobs.module';
+import { NaturalQueryModule } from '../natural-query/natural-query.module';
+
+@Module({
+  imports: [JobsModule, NaturalQueryModule],
+  controllers: [JobMatchController],
+  providers: [JobMatchService],
+  exports: [JobMatchService],
+})
+export class MatchingModule {}
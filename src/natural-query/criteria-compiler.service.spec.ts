@@ -0,0 +1,403 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  CriteriaCompilerService,
+  decodeCursor,
+  encodeCursor,
+} from './criteria-compiler.service';
+import { OntologyService } from '../ontology/ontology.service';
+import { LocationResolverService } from '../locations/location-resolver.service';
+import { ClickHouseService } from '../clickhouse/clickhouse.service';
+
+describe('CriteriaCompilerService', () => {
+  let compiler: CriteriaCompilerService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [CriteriaCompilerService],
+    }).compile();
+
+    compiler = module.get<CriteriaCompilerService>(CriteriaCompilerService);
+  });
+
+  describe('normalize', () => {
+    it('should uppercase and unaccent classified fields and drop unknown values', () => {
+      const criteria = compiler.normalize({
+        roleTitles: ['  tech lead ', '', 'tech lead'],
+        cities: ['São Paulo'],
+        seniorities: ['especialista', 'Senior'],
+        skills: 'python, aws',
+        exclusions: { companies: [], seniorities: ['gerente'] },
+        unknownField: ['x'],
+      });
+
+      expect(criteria).toEqual({
+        roleTitles: ['tech lead'],
+        skills: ['python', 'aws'],
+        seniorities: ['ESPECIALISTA'],
+        cities: ['SAO PAULO'],
+        exclusions: { seniorities: ['GERENTE'] },
+      });
+    });
+
+    it('should return empty criteria for invalid input', () => {
+      expect(compiler.normalize(null)).toEqual({});
+      expect(compiler.normalize('SELECT 1')).toEqual({});
+    });
+  });
+
+  describe('compile', () => {
+    it('should build deterministic page and count queries', () => {
+      const criteria = {
+        roleTitles: ['tech lead', 'líder técnico'],
+        cities: ['CURITIBA'],
+        seniorities: ['ESPECIALISTA'],
+      };
+
+      const first = compiler.compile(criteria, { limit: 7 });
+      const second = compiler.compile(criteria, { limit: 7 });
+
+      expect(first).toEqual(second);
+      expect(first.sql).toContain(
+        '(current_job_title ILIKE {p0:String} OR current_job_title ILIKE {p1:String})',
+      );
+      expect(first.sql).toContain('seniority IN {p2:Array(String)}');
+      expect(first.sql).toContain('city IN {p3:Array(String)}');
+      expect(first.params).toEqual({
+        p0: '%tech lead%',
+        p1: '%líder técnico%',
+        p2: ['ESPECIALISTA'],
+        p3: ['CURITIBA'],
+      });
+      expect(first.sql).toMatch(
+        /ORDER BY full_name ASC, profile_id ASC\nLIMIT 7$/,
+      );
+      expect(first.countSql).toMatch(/^SELECT count\(\) AS total/);
+      expect(first.countSql).not.toContain('LIMIT');
+    });
+
+    it('should expand titles and skills with the ontology', () => {
+      const withOntology = new CriteriaCompilerService(
+        new OntologyService({} as ClickHouseService),
+      );
+      const criteria = {
+        roleTitles: ['Sr. PM'],
+        skills: ['k8s', 'cobol'],
+        skillsMatch: 'all' as const,
+      };
+
+      const { sql, params } = withOntology.compile(criteria, { limit: 7 });
+
+      expect(sql).toContain(
+        '((current_job_title ILIKE {p0:String} OR current_job_title ILIKE {p1:String} OR current_job_title ILIKE {p2:String} OR match(current_job_title, {p3:String})) AND match(current_job_title, {p4:String}))',
+      );
+      expect(params).toMatchObject({
+        p0: '%product manager%',
+        p3: '(?i)(^|[^\\p{L}\\p{N}])(PM)([^\\p{L}\\p{N}]|$)',
+        p4: '(?i)(^|[^\\p{L}\\p{N}])(senior|sênior|sr)([^\\p{L}\\p{N}]|$)',
+        p5: '%kubernetes%',
+        p7: '%cobol%',
+      });
+      expect(sql).toContain('match(headline, {p6:String})');
+      expect(withOntology.expansions(criteria).map((e) => e.canonical)).toEqual(
+        ['product manager', 'kubernetes'],
+      );
+      expect(compiler.expansions(criteria)).toEqual([]);
+    });
+
+    it('should build location filters from the resolver', () => {
+      const withLocations = new CriteriaCompilerService(
+        undefined,
+        new LocationResolverService(),
+      );
+
+      const { sql, params } = withLocations.compile(
+        { locations: ['Floripa', 'SP'] },
+        { limit: 7 },
+      );
+
+      expect(sql).toContain(
+        '((city IN {p0:Array(String)} AND state IN {p1:Array(String)}) OR state IN {p2:Array(String)})',
+      );
+      expect(params).toEqual({
+        p0: ['FLORIANOPOLIS'],
+        p1: ['SANTA CATARINA'],
+        p2: ['SAO PAULO'],
+      });
+      expect(withLocations.describe({ locations: ['Grande BH'] })).toBe(
+        '• Local: Grande Belo Horizonte (10 cidades)',
+      );
+
+      const anywhere = withLocations.compile(
+        { roleTitles: ['sre'], locations: ['Recife', 'remoto'] },
+        { limit: 7 },
+      );
+      expect(anywhere.sql).not.toContain('city IN');
+    });
+
+    it('should resolve company filters by id', () => {
+      const criteria = compiler.normalize({
+        companyFilter: {
+          groups: ['ex-Big 4', 'unknown group'],
+          industries: ['fintech'],
+          maxEmployees: '1000',
+          period: 'past',
+        },
+      });
+
+      expect(criteria.companyFilter).toEqual({
+        groups: ['big four'],
+        industries: ['fintech'],
+        maxEmployees: 1000,
+        period: 'past',
+      });
+
+      const { sql, params } = compiler.compile(criteria, { limit: 7 });
+
+      expect(sql).toContain(
+        'profile_id IN (SELECT profile_id FROM people_company_history FINAL WHERE hasAny(past_company_ids, (SELECT groupArray(company_id) FROM linkedin.companies WHERE (lowerUTF8(name) IN {p0:Array(String)} OR company_public_id IN {p0:Array(String)}) AND industry ILIKE {p1:String} AND employee_count <= {p2:UInt32})))',
+      );
+      expect(params.p0).toContain('kpmg');
+      expect(compiler.describe(criteria)).toBe(
+        '• Empresas anteriores: big four, setor fintech, até 1000 funcionários',
+      );
+
+      const current = compiler.compile(
+        compiler.normalize({ companyFilter: { names: ['Nubank'] } }),
+        { limit: 7 },
+      );
+      expect(current.sql).toContain(
+        'current_company_id IN (SELECT company_id FROM linkedin.companies WHERE (lowerUTF8(name) IN {p0:Array(String)}',
+      );
+      expect(current.params.p0).toEqual(['nubank']);
+      expect(compiler.normalize({ companyFilter: { period: 'past' } })).toEqual(
+        {},
+      );
+    });
+
+    it('should match resolved company name variants and ids', () => {
+      const criteria = compiler.normalize({
+        companies: ['Itaú'],
+        companyVariants: [
+          {
+            name: 'Itaú',
+            variants: ['Itaú Unibanco', 'ITAU BBA'],
+            companyIds: ['1353', 'x'],
+            publicIds: ['itau'],
+          },
+          { name: 'Nubank', variants: ['Nu'], companyIds: [], publicIds: [] },
+        ],
+      });
+
+      expect(criteria.companyVariants).toEqual([
+        {
+          name: 'Itaú',
+          variants: ['Itaú Unibanco', 'ITAU BBA'],
+          companyIds: ['1353'],
+          publicIds: ['itau'],
+        },
+      ]);
+
+      const { sql, params } = compiler.compile(criteria, { limit: 7 });
+
+      expect(sql).toContain('current_company IN {p1:Array(String)}');
+      expect(sql).toContain('experience ILIKE {p3:String}');
+      expect(sql).toContain(
+        'toString(current_company_id) IN {p4:Array(String)}',
+      );
+      expect(sql).toContain('current_company_public_id IN {p5:Array(String)}');
+      expect(params.p2).toBe('%Itaú Unibanco%');
+      expect(compiler.describe(criteria)).toBe(
+        '• Empresas: Itaú (+2 variações)',
+      );
+    });
+
+    it('should combine skills with AND when skillsMatch is all', () => {
+      const { sql, params } = compiler.compile(
+        { skills: ['python', 'aws'], skillsMatch: 'all' },
+        { limit: 7 },
+      );
+
+      expect(sql).toContain('about_me ILIKE {p0:String}');
+      expect(sql).toMatch(/\{p0:String\}\) AND \(.*\{p1:String\}/);
+      expect(params).toEqual({ p0: '%python%', p1: '%aws%' });
+    });
+
+    it('should bind user values as parameters and escape LIKE wildcards', () => {
+      const { sql, countSql, params } = compiler.compile(
+        { companies: ["d'or 100%"] },
+        { limit: 7, excludeProfileIds: ["x') OR 1=1 --"] },
+      );
+
+      expect(sql).not.toContain("d'or");
+      expect(sql).not.toContain('OR 1=1');
+      expect(countSql).toContain('profile_id NOT IN {p1:Array(String)}');
+      expect(params).toEqual({
+        p0: "%d'or 100\\%%",
+        p1: ["x') OR 1=1 --"],
+      });
+    });
+
+    it('should exclude evaluated profiles and apply exclusions', () => {
+      const { sql, params } = compiler.compile(
+        {
+          roleTitles: ['backend'],
+          exclusions: { keywords: ['estágio'], seniorities: ['GERENTE'] },
+        },
+        { limit: 7, excludeProfileIds: ['abc', 'def'] },
+      );
+
+      expect(sql).toContain(
+        'NOT (headline ILIKE {p1:String} OR current_job_title ILIKE {p1:String})',
+      );
+      expect(sql).toContain('seniority NOT IN {p2:Array(String)}');
+      expect(sql).toContain('profile_id NOT IN {p3:Array(String)}');
+      expect(params).toMatchObject({
+        p1: '%estágio%',
+        p2: ['GERENTE'],
+        p3: ['abc', 'def'],
+      });
+    });
+
+    it('should continue after the cursor position with stable ordering', () => {
+      const after = decodeCursor(
+        encodeCursor({ full_name: 'Ana Souza', profile_id: 'xyz' }),
+      );
+      const { sql, params } = compiler.compile(
+        { roleTitles: ['backend'] },
+        { limit: 7, excludeProfileIds: ['abc'], after },
+      );
+
+      expect(sql).toContain(
+        '(full_name, profile_id) > ({p2:String}, {p3:String})',
+      );
+      expect(sql).toContain('ORDER BY full_name ASC, profile_id ASC');
+      expect(params).toMatchObject({ p2: 'Ana Souza', p3: 'xyz' });
+    });
+
+    it('should filter and sort by experience metrics stored in months', () => {
+      const criteria = compiler.normalize({
+        roleTitles: ['backend'],
+        minYearsOfExperience: '5',
+        minYearsInCurrentRole: 1.5,
+        maxJobChanges: 3.2,
+        sortBy: 'experience',
+      });
+      const after = decodeCursor(
+        encodeCursor({
+          full_name: 'Ana',
+          profile_id: 'xyz',
+          total_experience_months: 84,
+        }),
+      );
+
+      const { sql, countSql, params } = compiler.compile(criteria, {
+        limit: 7,
+        after,
+      });
+
+      expect(criteria).toMatchObject({
+        minYearsOfExperience: 5,
+        maxJobChanges: 3,
+        sortBy: 'experience',
+      });
+      expect(sql).toContain(
+        'LEFT JOIN (SELECT profile_id, toNullable(total_experience_months) AS total_experience_months, toNullable(current_role_months) AS current_role_months, toNullable(job_changes) AS job_changes FROM people_experience_metrics FINAL) AS metrics USING (profile_id)',
+      );
+      expect(sql).toContain('total_experience_months >= {p1:UInt32}');
+      expect(sql).toContain('current_role_months >= {p2:UInt32}');
+      expect(sql).toContain('job_changes <= {p3:UInt32}');
+      expect(sql).toContain(
+        '(total_experience_months < {p5:UInt32} OR (total_experience_months = {p5:UInt32} AND profile_id > {p4:String}) OR total_experience_months IS NULL)',
+      );
+      expect(sql).toContain(
+        'ORDER BY total_experience_months DESC NULLS LAST, profile_id ASC',
+      );
+      expect(countSql).toContain('LEFT JOIN');
+      expect(params).toMatchObject({ p1: 60, p2: 18, p3: 3, p5: 84 });
+      expect(compiler.describe(criteria)).toContain('• Experiência: 5+ anos');
+    });
+
+    it('should only join the metrics table when filtering or sorting by it', () => {
+      const plain = compiler.compile({ roleTitles: ['backend'] }, { limit: 7 });
+      const sorted = compiler.compile(
+        { roleTitles: ['backend'], sortBy: 'current_role' },
+        { limit: 7 },
+      );
+
+      expect(plain.sql).toContain(
+        'CAST(NULL AS Nullable(UInt32)) AS job_changes\nFROM linkedin.people\nWHERE',
+      );
+      expect(plain.countSql).not.toContain('JOIN');
+      expect(sorted.sql).toContain(
+        'job_changes\nFROM linkedin.people\nLEFT JOIN',
+      );
+      expect(sorted.countSql).not.toContain('JOIN');
+    });
+
+    it('should page through profiles without metrics after the sorted ones', () => {
+      const after = decodeCursor(
+        encodeCursor({ full_name: 'Ana', profile_id: 'xyz' }),
+      );
+      const { sql } = compiler.compile(
+        { roleTitles: ['backend'], sortBy: 'experience' },
+        { limit: 7, after },
+      );
+
+      expect(sql).toContain(
+        '(total_experience_months IS NULL AND profile_id > {p1:String})',
+      );
+    });
+
+    it('should order by relevance before the name when requested', () => {
+      const { sql, countSql, params } = compiler.compile(
+        { skills: ['Node', 'Kafka'], skillsMatch: 'any' },
+        {
+          limit: 300,
+          relevance: { skills: ['Node', 'Kafka'], seniorityRank: 2 },
+        },
+      );
+
+      expect(sql).toContain(
+        'ORDER BY ((headline ILIKE {p2:String} OR about_me ILIKE {p2:String} OR experience ILIKE {p2:String} OR current_job_title ILIKE {p2:String}) + (headline ILIKE {p3:String} OR about_me ILIKE {p3:String} OR experience ILIKE {p3:String} OR current_job_title ILIKE {p3:String})) DESC, multiIf(seniority IN {p4:Array(String)}, 2, seniority IN {p5:Array(String)}, 1, 0) DESC, full_name ASC, profile_id ASC',
+      );
+      expect(countSql).not.toContain('ORDER BY');
+      expect(params).toMatchObject({
+        p4: ['ESPECIALISTA'],
+        p5: ['ANALISTA', 'SUPERVISOR', 'COORDENADOR'],
+      });
+    });
+
+    it('should reject malformed cursors', () => {
+      expect(() => decodeCursor('not-a-cursor')).toThrow(
+        'Cursor de paginação inválido',
+      );
+    });
+
+    it('should omit WHERE for empty criteria', () => {
+      const { sql } = compiler.compile({}, { limit: 7 });
+
+      expect(sql).not.toContain('WHERE');
+    });
+  });
+
+  describe('relax', () => {
+    it('should keep only role titles and exclusions', () => {
+      expect(
+        compiler.relax({
+          roleTitles: ['tech lead'],
+          skills: ['python'],
+          cities: ['CURITIBA'],
+          education: ['USP'],
+          exclusions: { keywords: ['estágio'] },
+        }),
+      ).toEqual({
+        roleTitles: ['tech lead'],
+        exclusions: { keywords: ['estágio'] },
+      });
+    });
+
+    it('should return null when nothing can be relaxed', () => {
+      expect(compiler.relax({ roleTitles: ['tech lead'] })).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,1068 @@
+import { BadRequestException, Injectable, Optional } from '@nestjs/common';
+import { EXPERIENCE_METRICS_TABLE } from '../profiles/experience-metrics';
+import { OntologyService } from '../ontology/ontology.service';
+import type { TermExpansion } from '../ontology/ontology.service';
+import { SENIORITY_PREFIXES } from '../ontology/ontology-defaults';
+import type { OntologyKind } from '../ontology/ontology-defaults';
+import { LocationResolverService } from '../locations/location-resolver.service';
+import type { ResolvedLocation } from '../locations/location-resolver.service';
+import {
+  COMPANIES_TABLE,
+  COMPANY_GROUPS,
+  COMPANY_HISTORY_TABLE,
+  toCompanyGroup,
+} from '../companies/companies';
+
+export const SENIORITY_VALUES = [
+  'ESTAGIARIO / TRAINEE',
+  'ANALISTA',
+  'SUPERVISOR',
+  'COORDENADOR',
+  'ESPECIALISTA',
+  'GERENTE',
+  'C-SUITE / DIRETOR',
+  'OUTROS',
+];
+
+export const JUNIOR_SENIORITIES = ['ESTAGIARIO / TRAINEE', 'ANALISTA'];
+
+// Ordem hierárquica das senioridades classificadas (OUTROS não tem posição)
+export const SENIORITY_RANKS: Record<string, number> = {
+  'ESTAGIARIO / TRAINEE': 0,
+  ANALISTA: 1,
+  ESPECIALISTA: 2,
+  SUPERVISOR: 3,
+  COORDENADOR: 3,
+  GERENTE: 4,
+  'C-SUITE / DIRETOR': 5,
+};
+
+// Campos retornados em toda busca de candidatos
+export const RESULT_COLUMNS = [
+  'profile_id',
+  'full_name',
+  'headline',
+  'current_job_title',
+  'current_company',
+  'seniority',
+  'area',
+  'macroarea',
+  'city',
+  'state',
+  'profile_url',
+  'profile_image_url',
+];
+
+// Métricas calculadas do histórico profissional (tabela de métricas, via JOIN)
+export const EXPERIENCE_COLUMNS = [
+  'total_experience_months',
+  'current_role_months',
+  'job_changes',
+];
+
+/**
+ * Ordenações disponíveis: nome (padrão), mais experientes ou mais tempo na posição atual
+ */
+export const SORT_OPTIONS = ['name', 'experience', 'current_role'] as const;
+
+export type SortOption = (typeof SORT_OPTIONS)[number];
+
+export interface SearchExclusions {
+  keywords?: string[];
+  companies?: string[];
+  seniorities?: string[];
+  areas?: string[];
+  cities?: string[];
+  profileIds?: string[];
+}
+
+export const COMPANY_PERIODS = ['current', 'past', 'any'] as const;
+
+export type CompanyPeriod = (typeof COMPANY_PERIODS)[number];
+
+/**
+ * Empresas de linkedin.companies por nome, grupo, setor e porte, resolvidas
+ * por company_id (empresa atual e/ou histórico de empresas)
+ */
+export interface CompanyFilter {
+  /** Nomes exatos ou public ids ("Nubank", "nubank") */
+  names?: string[];
+  /** Grupos conhecidos (chaves de COMPANY_GROUPS: "big four", "mbb"...) */
+  groups?: string[];
+  /** Setores (industry), por substring */
+  industries?: string[];
+  minEmployees?: number;
+  maxEmployees?: number;
+  /** current (padrão): empresa atual; past: empresas anteriores; any: qualquer uma */
+  period?: CompanyPeriod;
+}
+
+/**
+ * Variações de uma empresa citada em companies (nomes escritos à mão em
+ * current_company e IDs), preenchidas pelo CompanyNameResolverService
+ */
+export interface CompanyVariants {
+  /** Nome como está em companies */
+  name: string;
+  variants: string[];
+  companyIds: string[];
+  publicIds: string[];
+}
+
+/**
+ * Critérios de busca estruturados emitidos pelo modelo (ou editados pelo recrutador).
+ * Todos os campos são opcionais; listas dentro de um campo são combinadas com OR
+ * e campos diferentes são combinados com AND.
+ */
+export interface SearchCriteria {
+  roleTitles?: string[];
+  skills?: string[];
+  skillsMatch?: 'any' | 'all';
+  seniorities?: string[];
+  areas?: string[];
+  cities?: string[];
+  states?: string[];
+  /**
+   * Locais como o recrutador escreveu ("Grande SP", "Floripa", "SC",
+   * "remoto"), convertidos em cidades/estados pelo LocationResolverService.
+   * Os locais são combinados com OR.
+   */
+  locations?: string[];
+  companies?: string[];
+  education?: string[];
+  certifications?: string[];
+  /** Anos de experiência profissional (sem contar períodos sobrepostos) */
+  minYearsOfExperience?: number;
+  maxYearsOfExperience?: number;
+  /** Anos na posição atual */
+  minYearsInCurrentRole?: number;
+  /** Máximo de trocas de empresa */
+  maxJobChanges?: number;
+  sortBy?: SortOption;
+  companyFilter?: CompanyFilter;
+  /** Preenchido pela aplicação (não pelo modelo) a partir de companies */
+  companyVariants?: CompanyVariants[];
+  exclusions?: SearchExclusions;
+}
+
+/**
+ * Posição do último candidato exibido, na ordenação estável (full_name, profile_id)
+ * ou pela métrica de experiência escolhida em sortBy
+ */
+export interface PageCursor {
+  fullName: string;
+  profileId: string;
+  experienceMonths?: number;
+  currentRoleMonths?: number;
+}
+
+export interface CompileOptions {
+  limit: number;
+  excludeProfileIds?: string[];
+  /** Retorna apenas candidatos depois desta posição (próxima página) */
+  after?: PageCursor;
+  /** Colunas de linkedin.people no SELECT (padrão: RESULT_COLUMNS) */
+  columns?: string[];
+  /**
+   * Ordena primeiro pela aderência (sem cursor), para que o LIMIT traga os
+   * candidatos mais relevantes em vez dos primeiros pelo nome
+   */
+  relevance?: RelevanceOptions;
+}
+
+export interface RelevanceOptions {
+  /** Quanto mais destas habilidades no perfil, antes o candidato aparece */
+  skills?: string[];
+  /** Posição esperada em SENIORITY_RANKS; a vizinha vem logo depois */
+  seniorityRank?: number;
+}
+
+export interface CompiledQuery {
+  sql: string;
+  countSql: string;
+  /** Valores dos placeholders {pN:Tipo}, compartilhados por sql e countSql */
+  params: Record<string, unknown>;
+}
+
+/**
+ * FROM/WHERE dos critérios, para agregações sobre os mesmos perfis da busca
+ */
+export interface CompiledFilter {
+  /** linkedin.people, com o JOIN das métricas quando elas filtram */
+  from: string;
+  /** "WHERE ..." ou vazio */
+  where: string;
+  params: Record<string, unknown>;
+}
+
+const SORT_COLUMNS: Record<SortOption, string | null> = {
+  name: null,
+  experience: 'total_experience_months',
+  current_role: 'current_role_months',
+};
+
+const LIST_FIELDS = [
+  'roleTitles',
+  'skills',
+  'seniorities',
+  'areas',
+  'cities',
+  'states',
+  'locations',
+  'companies',
+  'education',
+  'certifications',
+] as const;
+
+const NUMBER_FIELDS = [
+  'minYearsOfExperience',
+  'maxYearsOfExperience',
+  'minYearsInCurrentRole',
+  'maxJobChanges',
+] as const;
+
+// Nullable: no LEFT JOIN, perfil sem métricas fica NULL (e não 0), então não
+// passa nos filtros de mínimo/máximo e vai para o fim da ordenação
+const METRICS_JOIN = `\nLEFT JOIN (SELECT profile_id, ${EXPERIENCE_COLUMNS.map((c) => `toNullable(${c}) AS ${c}`).join(', ')} FROM ${EXPERIENCE_METRICS_TABLE} FINAL) AS metrics USING (profile_id)`;
+
+// Mesmas colunas quando a busca não precisa do JOIN
+const NULL_METRICS = EXPERIENCE_COLUMNS.map(
+  (c) => `CAST(NULL AS Nullable(UInt32)) AS ${c}`,
+);
+
+const SKILL_COLUMNS = [
+  'headline',
+  'about_me',
+  'experience',
+  'current_job_title',
+];
+
+@Injectable()
+export class CriteriaCompilerService {
+  constructor(
+    @Optional() private readonly ontology?: OntologyService,
+    @Optional() private readonly locationResolver?: LocationResolverService,
+  ) {}
+
+  /**
+   * Sanitiza os critérios vindos do modelo: remove valores vazios e
+   * desconhecidos e normaliza campos classificados (maiúsculas, sem acento).
+   */
+  normalize(raw: unknown): SearchCriteria {
+    const source = (raw && typeof raw === 'object' ? raw : {}) as Record<
+      string,
+      unknown
+    >;
+    const criteria: SearchCriteria = {};
+
+    for (const field of LIST_FIELDS) {
+      const values = this.toStringList(source[field]);
+      if (values.length > 0) criteria[field] = values;
+    }
+
+    if (criteria.seniorities) {
+      criteria.seniorities = this.filterSeniorities(criteria.seniorities);
+    }
+    for (const field of ['areas', 'cities', 'states'] as const) {
+      if (criteria[field]) {
+        criteria[field] = this.unique(criteria[field].map(toClassifiedValue));
+      }
+    }
+    if (source.skillsMatch === 'all' || source.skillsMatch === 'any') {
+      criteria.skillsMatch = source.skillsMatch;
+    }
+    for (const field of NUMBER_FIELDS) {
+      const value = toOptionalNumber(source[field]);
+      if (value !== undefined && value >= 0) {
+        criteria[field] = field === 'maxJobChanges' ? Math.round(value) : value;
+      }
+    }
+    if (
+      SORT_OPTIONS.includes(source.sortBy as SortOption) &&
+      source.sortBy !== 'name'
+    ) {
+      criteria.sortBy = source.sortBy as SortOption;
+    }
+
+    const rawExclusions = (source.exclusions || {}) as Record<string, unknown>;
+    const exclusions: SearchExclusions = {};
+    for (const field of [
+      'keywords',
+      'companies',
+      'seniorities',
+      'areas',
+      'cities',
+      'profileIds',
+    ] as const) {
+      const values = this.toStringList(rawExclusions[field]);
+      if (values.length > 0) exclusions[field] = values;
+    }
+    if (exclusions.seniorities) {
+      exclusions.seniorities = this.filterSeniorities(exclusions.seniorities);
+    }
+    for (const field of ['areas', 'cities'] as const) {
+      if (exclusions[field]) {
+        exclusions[field] = this.unique(
+          exclusions[field].map(toClassifiedValue),
+        );
+      }
+    }
+    if (Object.keys(exclusions).length > 0) criteria.exclusions = exclusions;
+
+    const companyFilter = this.normalizeCompanyFilter(source.companyFilter);
+    if (companyFilter) criteria.companyFilter = companyFilter;
+    const companyVariants = this.normalizeCompanyVariants(
+      source.companyVariants,
+      criteria.companies || [],
+    );
+    if (companyVariants.length > 0) criteria.companyVariants = companyVariants;
+
+    return this.dropEmpty(criteria);
+  }
+
+  /**
+   * Compila os critérios para a query paginada e a query de contagem.
+   * A mesma entrada gera sempre a mesma SQL.
+   */
+  compile(criteria: SearchCriteria, options: CompileOptions): CompiledQuery {
+    const params = new SqlParams();
+    const conditions = this.buildConditions(criteria, options, params);
+    const where =
+      conditions.length > 0 ? `\nWHERE ${conditions.join('\n  AND ')}` : '';
+    // A tabela de métricas só entra quando filtra ou ordena os candidatos;
+    // a contagem só precisa dela para filtrar
+    const sorted = SORT_COLUMNS[criteria.sortBy || 'name'] !== null;
+    const filtered = this.usesExperienceMetrics(criteria);
+    const joined = filtered || sorted;
+    const columns = [
+      ...(options.columns || RESULT_COLUMNS),
+      ...(joined ? EXPERIENCE_COLUMNS : NULL_METRICS),
+    ];
+
+    return {
+      sql: `SELECT ${columns.join(', ')}\nFROM linkedin.people${joined ? METRICS_JOIN : ''}${where}\nORDER BY ${this.orderBy(criteria, options.relevance, params)}\nLIMIT ${options.limit}`,
+      countSql: `SELECT count() AS total\nFROM linkedin.people${filtered ? METRICS_JOIN : ''}${where}`,
+      params: params.values,
+    };
+  }
+
+  /**
+   * Só o filtro dos critérios (sem colunas, ordenação e paginação), para
+   * queries de agregação sobre os mesmos perfis da busca
+   */
+  compileFilter(criteria: SearchCriteria): CompiledFilter {
+    const params = new SqlParams();
+    const conditions = this.buildConditions(criteria, { limit: 0 }, params);
+
+    return {
+      from: `linkedin.people${this.usesExperienceMetrics(criteria) ? METRICS_JOIN : ''}`,
+      where:
+        conditions.length > 0 ? `WHERE ${conditions.join('\n  AND ')}` : '',
+      params: params.values,
+    };
+  }
+
+  /**
+   * Versão mais ampla dos critérios para quando a busca não retorna nada:
+   * mantém o critério principal (cargo ou habilidades) e as exclusões.
+   * Retorna null se não há nada para relaxar.
+   */
+  relax(criteria: SearchCriteria): SearchCriteria | null {
+    const relaxed: SearchCriteria = this.dropEmpty({
+      roleTitles: criteria.roleTitles,
+      skills: criteria.roleTitles?.length ? undefined : criteria.skills,
+      skillsMatch: criteria.roleTitles?.length ? undefined : 'any',
+      sortBy: criteria.sortBy,
+      exclusions: criteria.exclusions,
+    });
+
+    return JSON.stringify(relaxed) === JSON.stringify(criteria)
+      ? null
+      : relaxed;
+  }
+
+  /**
+   * Cargos e habilidades que a ontologia expandiu (variações, siglas,
+   * senioridade), para informar ao recrutador o que foi buscado
+   */
+  expansions(criteria: SearchCriteria): TermExpansion[] {
+    const ontology = this.ontology;
+    if (!ontology) return [];
+    return [
+      ...(criteria.roleTitles || []).map((t) => ontology.expand('title', t)),
+      ...(criteria.skills || []).map((s) => ontology.expand('skill', s)),
+    ].filter(
+      (e): e is TermExpansion =>
+        !!e &&
+        (e.variants.length > 1 || e.abbreviations.length > 0 || !!e.seniority),
+    );
+  }
+
+  /**
+   * Textos que contam como a habilidade no perfil: o termo (ou as
+   * variações da ontologia) e as siglas
+   */
+  skillTerms(skill: string): string[] {
+    const expansion = this.ontology?.expand('skill', skill);
+    if (!expansion) return [skill];
+    return [...expansion.variants, ...expansion.abbreviations];
+  }
+
+  /**
+   * Resumo em bullet points exibido ao recrutador
+   */
+  describe(criteria: SearchCriteria): string {
+    const lines: string[] = [];
+    const add = (label: string, values?: string[]) => {
+      if (values && values.length > 0) {
+        lines.push(`• ${label}: ${values.join(', ')}`);
+      }
+    };
+
+    add('Cargo', criteria.roleTitles);
+    add(
+      criteria.skillsMatch === 'all'
+        ? 'Habilidades (todas)'
+        : 'Habilidades (qualquer uma)',
+      criteria.skills,
+    );
+    add('Senioridade', criteria.seniorities);
+    add('Área', criteria.areas);
+    add('Cidade', criteria.cities);
+    add('Estado', criteria.states);
+    add(
+      'Local',
+      criteria.locations?.map((l) => this.resolveLocation(l).label),
+    );
+    add(
+      'Empresas',
+      criteria.companies?.map((c) => {
+        const count = (
+          criteria.companyVariants?.find((v) => v.name === c)?.variants || []
+        ).filter((v) => v.toLowerCase() !== c.toLowerCase()).length;
+        if (count === 0) return c;
+        return `${c} (+${count} ${count === 1 ? 'variação' : 'variações'})`;
+      }),
+    );
+    if (criteria.companyFilter) {
+      const { period } = criteria.companyFilter;
+      add(
+        period === 'past'
+          ? 'Empresas anteriores'
+          : period === 'any'
+            ? 'Empresa atual ou anteriores'
+            : 'Empresa atual',
+        this.describeCompanyFilter(criteria.companyFilter),
+      );
+    }
+    add('Formação', criteria.education);
+    add('Certificações', criteria.certifications);
+    add(
+      'Experiência',
+      this.describeRange(
+        criteria.minYearsOfExperience,
+        criteria.maxYearsOfExperience,
+      ),
+    );
+    if (criteria.minYearsInCurrentRole !== undefined) {
+      add('Na posição atual', [`${criteria.minYearsInCurrentRole}+ anos`]);
+    }
+    if (criteria.maxJobChanges !== undefined) {
+      add('Trocas de empresa', [`até ${criteria.maxJobChanges}`]);
+    }
+    if (criteria.sortBy === 'experience') {
+      add('Ordenação', ['mais experientes primeiro']);
+    } else if (criteria.sortBy === 'current_role') {
+      add('Ordenação', ['mais tempo na posição atual primeiro']);
+    }
+    add('Excluir termos', criteria.exclusions?.keywords);
+    add('Excluir empresas', criteria.exclusions?.companies);
+    add('Excluir senioridades', criteria.exclusions?.seniorities);
+    add('Excluir áreas', criteria.exclusions?.areas);
+    add('Excluir cidades', criteria.exclusions?.cities);
+
+    return lines.length > 0 ? lines.join('\n') : '• Sem critérios definidos';
+  }
+
+  private buildConditions(
+    criteria: SearchCriteria,
+    options: CompileOptions,
+    params: SqlParams,
+  ): string[] {
+    const conditions: string[] = [];
+
+    if (criteria.roleTitles?.length) {
+      conditions.push(
+        this.anyOf(
+          criteria.roleTitles.map((t) =>
+            this.termCondition('title', t, ['current_job_title'], params),
+          ),
+        ),
+      );
+    }
+
+    if (criteria.skills?.length) {
+      const groups = criteria.skills.map((skill) =>
+        this.termCondition('skill', skill, SKILL_COLUMNS, params),
+      );
+      conditions.push(
+        criteria.skillsMatch === 'all'
+          ? groups.join(' AND ')
+          : this.anyOf(groups),
+      );
+    }
+
+    if (criteria.seniorities?.length) {
+      conditions.push(`seniority IN ${params.list(criteria.seniorities)}`);
+    }
+    if (criteria.areas?.length) {
+      conditions.push(`area IN ${params.list(criteria.areas)}`);
+    }
+    if (criteria.cities?.length) {
+      conditions.push(`city IN ${params.list(criteria.cities)}`);
+    }
+    if (criteria.states?.length) {
+      conditions.push(`state IN ${params.list(criteria.states)}`);
+    }
+    if (criteria.locations?.length) {
+      const locations = criteria.locations.map((l) => this.resolveLocation(l));
+      // "Curitiba ou remoto" libera qualquer local
+      if (!locations.some((l) => l.kind === 'anywhere')) {
+        conditions.push(
+          this.anyOf(locations.map((l) => this.locationCondition(l, params))),
+        );
+      }
+    }
+
+    if (criteria.companies?.length) {
+      conditions.push(
+        this.anyOf(
+          criteria.companies.flatMap((c) => {
+            const pattern = params.like(c);
+            return [
+              `current_company ILIKE ${pattern}`,
+              `experience ILIKE ${pattern}`,
+              ...this.companyVariantConditions(
+                criteria.companyVariants?.find((v) => v.name === c),
+                params,
+              ),
+            ];
+          }),
+        ),
+      );
+    }
+    if (criteria.companyFilter) {
+      conditions.push(this.companyCondition(criteria.companyFilter, params));
+    }
+    if (criteria.education?.length) {
+      conditions.push(
+        this.anyOf(
+          criteria.education.map((e) => `education ILIKE ${params.like(e)}`),
+        ),
+      );
+    }
+    if (criteria.certifications?.length) {
+      conditions.push(
+        this.anyOf(
+          criteria.certifications.map(
+            (c) => `certifications ILIKE ${params.like(c)}`,
+          ),
+        ),
+      );
+    }
+
+    // Métricas guardadas em meses; critérios em anos
+    if (criteria.minYearsOfExperience !== undefined) {
+      conditions.push(
+        `total_experience_months >= ${params.number(Math.round(criteria.minYearsOfExperience * 12))}`,
+      );
+    }
+    if (criteria.maxYearsOfExperience !== undefined) {
+      conditions.push(
+        `total_experience_months <= ${params.number(Math.round(criteria.maxYearsOfExperience * 12))}`,
+      );
+    }
+    if (criteria.minYearsInCurrentRole !== undefined) {
+      conditions.push(
+        `current_role_months >= ${params.number(Math.round(criteria.minYearsInCurrentRole * 12))}`,
+      );
+    }
+    if (criteria.maxJobChanges !== undefined) {
+      conditions.push(
+        `job_changes <= ${params.number(criteria.maxJobChanges)}`,
+      );
+    }
+
+    const exclusions = criteria.exclusions || {};
+    for (const keyword of exclusions.keywords || []) {
+      const pattern = params.like(keyword);
+      conditions.push(
+        `NOT (headline ILIKE ${pattern} OR current_job_title ILIKE ${pattern})`,
+      );
+    }
+    for (const company of exclusions.companies || []) {
+      conditions.push(`NOT (current_company ILIKE ${params.like(company)})`);
+    }
+    if (exclusions.seniorities?.length) {
+      conditions.push(
+        `seniority NOT IN ${params.list(exclusions.seniorities)}`,
+      );
+    }
+    if (exclusions.areas?.length) {
+      conditions.push(`area NOT IN ${params.list(exclusions.areas)}`);
+    }
+    if (exclusions.cities?.length) {
+      conditions.push(`city NOT IN ${params.list(exclusions.cities)}`);
+    }
+
+    const excludedIds = this.unique([
+      ...(exclusions.profileIds || []),
+      ...(options.excludeProfileIds || []),
+    ]);
+    if (excludedIds.length > 0) {
+      conditions.push(`profile_id NOT IN ${params.list(excludedIds)}`);
+    }
+
+    if (options.after) {
+      conditions.push(this.afterCursor(criteria, options.after, params));
+    }
+
+    return conditions;
+  }
+
+  private orderBy(
+    criteria: SearchCriteria,
+    relevance: RelevanceOptions | undefined,
+    params: SqlParams,
+  ): string {
+    const column = SORT_COLUMNS[criteria.sortBy || 'name'];
+    const order = column
+      ? `${column} DESC NULLS LAST, profile_id ASC`
+      : 'full_name ASC, profile_id ASC';
+    if (!relevance) return order;
+    return [...this.relevanceOrder(relevance, params), order].join(', ');
+  }
+
+  /**
+   * Expressões de aderência: quantidade de habilidades encontradas
+   * (mesma condição do filtro) e proximidade da senioridade esperada
+   */
+  private relevanceOrder(
+    relevance: RelevanceOptions,
+    params: SqlParams,
+  ): string[] {
+    const order: string[] = [];
+    if (relevance.skills?.length) {
+      // Cada condição vem entre parênteses (várias colunas) e vale 0 ou 1
+      const hits = relevance.skills.map((skill) =>
+        this.termCondition('skill', skill, SKILL_COLUMNS, params),
+      );
+      order.push(`(${hits.join(' + ')}) DESC`);
+    }
+
+    const expected = relevance.seniorityRank;
+    if (expected !== undefined) {
+      const atDistance = (distance: number) =>
+        Object.keys(SENIORITY_RANKS).filter(
+          (s) => Math.abs(SENIORITY_RANKS[s] - expected) === distance,
+        );
+      const exact = atDistance(0);
+      const near = atDistance(1);
+      const branches = [
+        ...(exact.length ? [`seniority IN ${params.list(exact)}`, '2'] : []),
+        ...(near.length ? [`seniority IN ${params.list(near)}`, '1'] : []),
+      ];
+      if (branches.length)
+        order.push(`multiIf(${branches.join(', ')}, 0) DESC`);
+    }
+    return order;
+  }
+
+  /**
+   * Candidatos depois do cursor, na mesma ordenação de orderBy. Cursor sem
+   * a métrica é de um perfil sem métricas: segue pelos NULL do fim.
+   */
+  private afterCursor(
+    criteria: SearchCriteria,
+    after: PageCursor,
+    params: SqlParams,
+  ): string {
+    const column = SORT_COLUMNS[criteria.sortBy || 'name'];
+    if (!column) {
+      return `(full_name, profile_id) > (${params.value(after.fullName)}, ${params.value(after.profileId)})`;
+    }
+
+    const value =
+      criteria.sortBy === 'experience'
+        ? after.experienceMonths
+        : after.currentRoleMonths;
+    const profileId = params.value(after.profileId);
+    if (value === undefined) {
+      return `(${column} IS NULL AND profile_id > ${profileId})`;
+    }
+    const position = params.number(value);
+    return `(${column} < ${position} OR (${column} = ${position} AND profile_id > ${profileId}) OR ${column} IS NULL)`;
+  }
+
+  private usesExperienceMetrics(criteria: SearchCriteria): boolean {
+    return NUMBER_FIELDS.some((field) => criteria[field] !== undefined);
+  }
+
+  private normalizeCompanyFilter(raw: unknown): CompanyFilter | undefined {
+    if (!raw || typeof raw !== 'object') return undefined;
+    const source = raw as Record<string, unknown>;
+    const filter: CompanyFilter = {
+      names: this.toStringList(source.names),
+      groups: this.unique(
+        this.toStringList(source.groups)
+          .map(toCompanyGroup)
+          .filter((g): g is string => g !== null),
+      ),
+      industries: this.toStringList(source.industries),
+    };
+    for (const field of ['minEmployees', 'maxEmployees'] as const) {
+      const value = toOptionalNumber(source[field]);
+      if (value !== undefined && value >= 0) filter[field] = Math.round(value);
+    }
+
+    const normalized = this.dropEmpty(filter);
+    // Sem empresa, grupo, setor ou porte não há o que filtrar
+    if (Object.keys(normalized).length === 0) return undefined;
+    if (
+      COMPANY_PERIODS.includes(source.period as CompanyPeriod) &&
+      source.period !== 'current'
+    ) {
+      normalized.period = source.period as CompanyPeriod;
+    }
+    return normalized;
+  }
+
+  /**
+   * Variações já resolvidas das empresas de companies. Variações de
+   * empresas que saíram de companies são descartadas.
+   */
+  private normalizeCompanyVariants(
+    raw: unknown,
+    companies: string[],
+  ): CompanyVariants[] {
+    if (!Array.isArray(raw)) return [];
+    return raw
+      .filter((v): v is Record<string, unknown> => !!v && typeof v === 'object')
+      .filter((v) => typeof v.name === 'string' && companies.includes(v.name))
+      .map((v) => ({
+        name: v.name as string,
+        variants: this.toStringList(v.variants),
+        companyIds: this.toStringList(v.companyIds).filter((id) =>
+          /^\d+$/.test(id),
+        ),
+        publicIds: this.toStringList(v.publicIds),
+      }));
+  }
+
+  /**
+   * Perfis de qualquer variação da empresa: nome exato em current_company
+   * (e no histórico) ou mesmo current_company_id / public id
+   */
+  private companyVariantConditions(
+    company: CompanyVariants | undefined,
+    params: SqlParams,
+  ): string[] {
+    if (!company) return [];
+    const conditions: string[] = [];
+    if (company.variants.length) {
+      conditions.push(`current_company IN ${params.list(company.variants)}`);
+      conditions.push(
+        ...company.variants
+          .filter((v) => v.toLowerCase() !== company.name.toLowerCase())
+          .map((v) => `experience ILIKE ${params.like(v)}`),
+      );
+    }
+    if (company.companyIds.length) {
+      conditions.push(
+        `toString(current_company_id) IN ${params.list(company.companyIds)}`,
+      );
+    }
+    if (company.publicIds.length) {
+      conditions.push(
+        `current_company_public_id IN ${params.list(company.publicIds)}`,
+      );
+    }
+    return conditions;
+  }
+
+  /**
+   * Subquery com os company_id que atendem ao filtro, aplicada à empresa
+   * atual (current_company_id) e/ou às anteriores (COMPANY_HISTORY_TABLE)
+   */
+  private companyCondition(filter: CompanyFilter, params: SqlParams): string {
+    const where: string[] = [];
+    const names = [
+      ...(filter.names || []).map((n) => n.toLowerCase()),
+      ...(filter.groups || []).flatMap((g) => COMPANY_GROUPS[g] || []),
+    ];
+    if (names.length > 0) {
+      const list = params.list(names);
+      where.push(
+        `(lowerUTF8(name) IN ${list} OR company_public_id IN ${list})`,
+      );
+    }
+    if (filter.industries?.length) {
+      where.push(
+        this.anyOf(
+          filter.industries.map((i) => `industry ILIKE ${params.like(i)}`),
+        ),
+      );
+    }
+    if (filter.minEmployees !== undefined) {
+      where.push(`employee_count >= ${params.number(filter.minEmployees)}`);
+    }
+    if (filter.maxEmployees !== undefined) {
+      where.push(`employee_count <= ${params.number(filter.maxEmployees)}`);
+    }
+
+    const companies = `FROM ${COMPANIES_TABLE} WHERE ${where.join(' AND ')}`;
+    const current = `current_company_id IN (SELECT company_id ${companies})`;
+    const past = `profile_id IN (SELECT profile_id FROM ${COMPANY_HISTORY_TABLE} FINAL WHERE hasAny(past_company_ids, (SELECT groupArray(company_id) ${companies})))`;
+
+    if (filter.period === 'past') return past;
+    if (filter.period === 'any') return `(${current} OR ${past})`;
+    return current;
+  }
+
+  private describeCompanyFilter(filter: CompanyFilter): string[] {
+    const values = [
+      ...(filter.names || []),
+      ...(filter.groups || []),
+      ...(filter.industries || []).map((i) => `setor ${i}`),
+    ];
+    const { minEmployees: min, maxEmployees: max } = filter;
+    if (min !== undefined && max !== undefined) {
+      values.push(`${min} a ${max} funcionários`);
+    } else if (min !== undefined) {
+      values.push(`${min}+ funcionários`);
+    } else if (max !== undefined) {
+      values.push(`até ${max} funcionários`);
+    }
+    return values;
+  }
+
+  private describeRange(min?: number, max?: number): string[] | undefined {
+    if (min !== undefined && max !== undefined) {
+      return [`${min} a ${max} anos`];
+    }
+    if (min !== undefined) return [`${min}+ anos`];
+    if (max !== undefined) return [`até ${max} anos`];
+    return undefined;
+  }
+
+  /**
+   * Condição de um cargo ou habilidade nas colunas: o termo por substring
+   * ou, se a ontologia o reconhece, qualquer variação por substring,
+   * siglas como palavra inteira e a senioridade do cargo como palavra inteira
+   */
+  private termCondition(
+    kind: OntologyKind,
+    term: string,
+    columns: string[],
+    params: SqlParams,
+  ): string {
+    const expansion = this.ontology?.expand(kind, term);
+    const variants = expansion?.variants || [term];
+
+    const parts = variants.flatMap((variant) => {
+      const pattern = params.like(variant);
+      return columns.map((col) => `${col} ILIKE ${pattern}`);
+    });
+    if (expansion?.abbreviations.length) {
+      const pattern = params.value(wholeWords(expansion.abbreviations));
+      parts.push(...columns.map((col) => `match(${col}, ${pattern})`));
+    }
+    if (!expansion?.seniority) return this.anyOf(parts);
+
+    const seniority = params.value(
+      wholeWords(SENIORITY_PREFIXES[expansion.seniority]),
+    );
+    const seniorityParts = columns.map((col) => `match(${col}, ${seniority})`);
+    return `(${this.anyOf(parts)} AND ${this.anyOf(seniorityParts)})`;
+  }
+
+  private resolveLocation(location: string): ResolvedLocation {
+    if (this.locationResolver) return this.locationResolver.resolve(location);
+    const city = toClassifiedValue(location);
+    return {
+      input: location,
+      kind: 'unknown',
+      label: city,
+      cities: [city],
+      states: [],
+    };
+  }
+
+  private locationCondition(
+    location: ResolvedLocation,
+    params: SqlParams,
+  ): string {
+    const parts: string[] = [];
+    if (location.cities.length) {
+      parts.push(`city IN ${params.list(location.cities)}`);
+    }
+    if (location.states.length) {
+      parts.push(`state IN ${params.list(location.states)}`);
+    }
+    return parts.length > 1 ? `(${parts.join(' AND ')})` : parts[0];
+  }
+
+  private anyOf(parts: string[]): string {
+    return parts.length === 1 ? parts[0] : `(${parts.join(' OR ')})`;
+  }
+
+  private toStringList(value: unknown): string[] {
+    const list = Array.isArray(value)
+      ? value
+      : typeof value === 'string'
+        ? value.split(',')
+        : [];
+
+    return this.unique(
+      list
+        .filter((v): v is string => typeof v === 'string')
+        .map((v) => v.trim())
+        .filter(Boolean),
+    );
+  }
+
+  private filterSeniorities(values: string[]): string[] {
+    return values
+      .map(toClassifiedValue)
+      .filter((v) => SENIORITY_VALUES.includes(v));
+  }
+
+  private unique(values: string[]): string[] {
+    return Array.from(new Set(values));
+  }
+
+  private dropEmpty<T extends object>(criteria: T): T {
+    const result: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(criteria)) {
+      if (value === undefined) continue;
+      if (Array.isArray(value) && value.length === 0) continue;
+      result[key] = value;
+    }
+    return result as T;
+  }
+}
+
+/**
+ * Valores classificados (cidade, estado, área, senioridade) estão
+ * em MAIÚSCULAS e sem acento no banco.
+ */
+export function toClassifiedValue(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .trim()
+    .toUpperCase();
+}
+
+/**
+ * Cursor opaco enviado ao frontend a partir do último candidato da página
+ */
+export function encodeCursor(row: {
+  full_name?: string;
+  profile_id?: string;
+  total_experience_months?: unknown;
+  current_role_months?: unknown;
+}): string {
+  const cursor: PageCursor = {
+    fullName: row.full_name || '',
+    profileId: row.profile_id || '',
+    experienceMonths: toOptionalNumber(row.total_experience_months),
+    currentRoleMonths: toOptionalNumber(row.current_role_months),
+  };
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): PageCursor {
+  try {
+    const parsed = JSON.parse(
+      Buffer.from(cursor, 'base64url').toString('utf8'),
+    ) as Partial<PageCursor>;
+    if (
+      typeof parsed.fullName === 'string' &&
+      typeof parsed.profileId === 'string'
+    ) {
+      return {
+        fullName: parsed.fullName,
+        profileId: parsed.profileId,
+        experienceMonths: toOptionalNumber(parsed.experienceMonths),
+        currentRoleMonths: toOptionalNumber(parsed.currentRoleMonths),
+      };
+    }
+  } catch {
+    // Tratado abaixo
+  }
+  throw new BadRequestException('Cursor de paginação inválido');
+}
+
+// UInt32 do ClickHouse pode chegar como número ou string no JSON
+function toOptionalNumber(value: unknown): number | undefined {
+  if (typeof value === 'string' ? !value.trim() : typeof value !== 'number') {
+    return undefined;
+  }
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+}
+
+/**
+ * Regex (re2) que encontra qualquer um dos termos como palavra inteira,
+ * sem diferenciar maiúsculas ("PM" não casa com "NPM")
+ */
+function wholeWords(terms: string[]): string {
+  return `(?i)${wholeWordsSource(terms)}`;
+}
+
+/**
+ * A mesma regra de wholeWords para textos já carregados (ex: nota de
+ * aderência calculada na aplicação)
+ */
+export function wholeWordsRegExp(terms: string[]): RegExp {
+  return new RegExp(wholeWordsSource(terms), 'iu');
+}
+
+function wholeWordsSource(terms: string[]): string {
+  const alternatives = terms.map((t) =>
+    t.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&'),
+  );
+  return `(^|[^\\p{L}\\p{N}])(${alternatives.join('|')})([^\\p{L}\\p{N}]|$)`;
+}
+
+/**
+ * Acumula os valores da query como parâmetros do ClickHouse ({pN:Tipo}),
+ * evitando qualquer interpolação de texto do usuário na SQL
+ */
+class SqlParams {
+  readonly values: Record<string, unknown> = {};
+  private count = 0;
+
+  like(term: string): string {
+    return this.add(`%${term.trim().replace(/[\\%_]/g, '\\$&')}%`, 'String');
+  }
+
+  list(values: string[]): string {
+    return this.add(values, 'Array(String)');
+  }
+
+  value(value: string): string {
+    return this.add(value, 'String');
+  }
+
+  number(value: number): string {
+    return this.add(value, 'UInt32');
+  }
+
+  private add(value: unknown, type: string): string {
+    const name = `p${this.count++}`;
+    this.values[name] = value;
+    return `{${name}:${type}}`;
+  }
+}
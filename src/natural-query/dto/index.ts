@@ -1 +1,4 @@
+export * from './planner-output.dto';
 export * from './query.dto';
+export * from './search-criteria.dto';
+export * from './search-session.dto';
@@ -0,0 +1,39 @@
+import {
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { SearchCriteriaDto } from './search-criteria.dto';
+
+/**
+ * Resposta do modelo no chat de busca (validada antes de compilar a SQL)
+ */
+export class SearchPlanDto {
+  @IsString()
+  @IsNotEmpty()
+  assistantMessage: string;
+
+  @IsString()
+  explanation: string;
+
+  @IsObject()
+  @ValidateNested()
+  @Type(() => SearchCriteriaDto)
+  criteria: SearchCriteriaDto;
+}
+
+/**
+ * Resposta do modelo nas queries avulsas e exportações
+ */
+export class SqlPlanDto {
+  @IsString()
+  @IsNotEmpty()
+  sql: string;
+
+  @IsString()
+  @IsOptional()
+  explanation?: string;
+}
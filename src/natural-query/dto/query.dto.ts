@@ -4,9 +4,13 @@ import {
   IsOptional,
   IsBoolean,
   IsArray,
+  IsDefined,
+  IsIn,
   ValidateNested,
 } from 'class-validator';
 import { Type } from 'class-transformer';
+import { SearchCriteriaDto } from './search-criteria.dto';
+import { EXPORT_FORMATS } from '../../exports/formatters';
 
 export class MessageDto {
   @IsString()
@@ -52,11 +56,34 @@ export class ConversationQueryDto {
   @IsOptional()
   profileFeedback?: ProfileFeedbackDto[];
 
+  @ValidateNested()
+  @Type(() => SearchCriteriaDto)
+  @IsOptional()
+  currentCriteria?: SearchCriteriaDto;
+
+  /** Vaga usada para ordenar os candidatos por aderência */
+  @IsString()
+  @IsOptional()
+  jobId?: string;
+
   @IsBoolean()
   @IsOptional()
   executeQuery?: boolean = true;
 }
 
+export class RunCriteriaDto {
+  @IsDefined()
+  @ValidateNested()
+  @Type(() => SearchCriteriaDto)
+  criteria: SearchCriteriaDto;
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ProfileFeedbackDto)
+  @IsOptional()
+  profileFeedback?: ProfileFeedbackDto[];
+}
+
 export class NaturalQueryDto {
   @IsString()
   @IsNotEmpty()
@@ -68,6 +95,10 @@ export class NaturalQueryDto {
 }
 
 export class ExportCsvDto {
+  @IsString()
+  @IsOptional()
+  sessionId?: string;
+
   @IsArray()
   @ValidateNested({ each: true })
   @Type(() => MessageDto)
@@ -79,6 +110,19 @@ export class ExportCsvDto {
   @Type(() => ProfileFeedbackDto)
   @IsOptional()
   profileFeedback?: ProfileFeedbackDto[];
+
+  @IsIn(EXPORT_FORMATS)
+  @IsOptional()
+  format?: 'csv' | 'xlsx' | 'jsonl';
+
+  @IsIn([';', ',', '\t'])
+  @IsOptional()
+  delimiter?: ';' | ',' | '\t';
+
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  columns?: string[];
 }
 
 export class ExportToClickUpDto {
@@ -90,6 +134,10 @@ export class ExportToClickUpDto {
   @IsNotEmpty()
   jobTitle: string;
 
+  @IsString()
+  @IsOptional()
+  sessionId?: string;
+
   @IsArray()
   @ValidateNested({ each: true })
   @Type(() => MessageDto)
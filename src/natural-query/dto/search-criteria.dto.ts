@@ -0,0 +1,196 @@
+import {
+  IsArray,
+  IsIn,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import {
+  COMPANY_PERIODS,
+  CompanyFilter,
+  CompanyVariants,
+  SENIORITY_VALUES,
+  SORT_OPTIONS,
+  SearchCriteria,
+  SearchExclusions,
+} from '../criteria-compiler.service';
+
+export class SearchExclusionsDto implements SearchExclusions {
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  keywords?: string[];
+
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  companies?: string[];
+
+  @IsArray()
+  @IsIn(SENIORITY_VALUES, { each: true })
+  @IsOptional()
+  seniorities?: string[];
+
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  areas?: string[];
+
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  cities?: string[];
+
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  profileIds?: string[];
+}
+
+export class CompanyFilterDto implements CompanyFilter {
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  names?: string[];
+
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  groups?: string[];
+
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  industries?: string[];
+
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  minEmployees?: number;
+
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  maxEmployees?: number;
+
+  @IsIn(COMPANY_PERIODS)
+  @IsOptional()
+  period?: 'current' | 'past' | 'any';
+}
+
+export class CompanyVariantsDto implements CompanyVariants {
+  @IsString()
+  name: string;
+
+  @IsArray()
+  @IsString({ each: true })
+  variants: string[];
+
+  @IsArray()
+  @IsString({ each: true })
+  companyIds: string[];
+
+  @IsArray()
+  @IsString({ each: true })
+  publicIds: string[];
+}
+
+export class SearchCriteriaDto implements SearchCriteria {
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  roleTitles?: string[];
+
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  skills?: string[];
+
+  @IsIn(['any', 'all'])
+  @IsOptional()
+  skillsMatch?: 'any' | 'all';
+
+  @IsArray()
+  @IsIn(SENIORITY_VALUES, { each: true })
+  @IsOptional()
+  seniorities?: string[];
+
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  areas?: string[];
+
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  cities?: string[];
+
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  states?: string[];
+
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  locations?: string[];
+
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  companies?: string[];
+
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  education?: string[];
+
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  certifications?: string[];
+
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  minYearsOfExperience?: number;
+
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  maxYearsOfExperience?: number;
+
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  minYearsInCurrentRole?: number;
+
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  maxJobChanges?: number;
+
+  @IsIn(SORT_OPTIONS)
+  @IsOptional()
+  sortBy?: 'name' | 'experience' | 'current_role';
+
+  @ValidateNested()
+  @Type(() => CompanyFilterDto)
+  @IsOptional()
+  companyFilter?: CompanyFilterDto;
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => CompanyVariantsDto)
+  @IsOptional()
+  companyVariants?: CompanyVariantsDto[];
+
+  @ValidateNested()
+  @Type(() => SearchExclusionsDto)
+  @IsOptional()
+  exclusions?: SearchExclusionsDto;
+}
@@ -0,0 +1,49 @@
+import {
+  IsArray,
+  IsInt,
+  IsNotEmpty,
+  Max,
+  Min,
+  IsOptional,
+  IsString,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ProfileFeedbackDto } from './query.dto';
+
+export class CreateSearchSessionDto {
+  @IsString()
+  @IsOptional()
+  title?: string;
+
+  @IsString()
+  @IsOptional()
+  message?: string;
+}
+
+export class SearchSessionMessageDto {
+  @IsString()
+  @IsNotEmpty()
+  message: string;
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ProfileFeedbackDto)
+  @IsOptional()
+  profileFeedback?: ProfileFeedbackDto[];
+}
+
+export class SearchSessionFeedbackDto {
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ProfileFeedbackDto)
+  profileFeedback: ProfileFeedbackDto[];
+}
+
+export class SearchSessionMoreDto {
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  @IsOptional()
+  limit?: number;
+}
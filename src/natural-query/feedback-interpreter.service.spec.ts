@@ -0,0 +1,201 @@
+import { FeedbackInterpreterService } from './feedback-interpreter.service';
+
+describe('FeedbackInterpreterService', () => {
+  const interpreter = new FeedbackInterpreterService();
+
+  describe('classify', () => {
+    it('should find every category mentioned in a reason', () => {
+      expect(
+        interpreter.classify(
+          'Muito sênior e mora em Manaus, sem experiência em Kubernetes',
+        ),
+      ).toEqual([
+        { category: 'seniority_too_high' },
+        { category: 'wrong_location' },
+        { category: 'missing_skill', value: 'Kubernetes' },
+      ]);
+      expect(interpreter.classify('perfil comercial, fora da área')).toEqual([
+        { category: 'wrong_area' },
+      ]);
+      expect(interpreter.classify('júnior demais')).toEqual([
+        { category: 'seniority_too_low' },
+      ]);
+    });
+
+    it('should tell company types to avoid from preferred ones', () => {
+      expect(
+        interpreter.classify(
+          'só trabalhou em consultoria, queria alguém de fintech',
+        ),
+      ).toEqual([
+        { category: 'wrong_company_type', value: 'consultoria', prefer: false },
+        { category: 'wrong_company_type', value: 'fintech', prefer: true },
+      ]);
+      expect(interpreter.classify('ótima passagem por banco', true)).toEqual([
+        { category: 'wrong_company_type', value: 'banco', prefer: true },
+      ]);
+    });
+
+    it('should keep the original spelling of missing skills', () => {
+      expect(
+        interpreter.classify(
+          'Ótimo, mas não tem experiência com Integração Contínua',
+        ),
+      ).toEqual([{ category: 'missing_skill', value: 'Integração Contínua' }]);
+    });
+
+    it('should only read years of experience as too senior with a qualifier', () => {
+      expect(
+        interpreter.classify('tem 5 anos de experiência em React'),
+      ).toEqual([]);
+      expect(
+        interpreter.classify('15 anos de experiência, demais para a vaga'),
+      ).toEqual([{ category: 'seniority_too_high' }]);
+    });
+
+    it('should ignore reasons without a known category', () => {
+      expect(interpreter.classify('não gostei')).toEqual([]);
+      expect(interpreter.classify('')).toEqual([]);
+    });
+  });
+
+  it('should weight repeated signals and apply the strong ones', () => {
+    const learning = interpreter.interpret(
+      [
+        {
+          profileId: 'a',
+          profileName: 'A',
+          interesting: false,
+          reason: 'vem de consultoria',
+        },
+        {
+          profileId: 'f',
+          profileName: 'F',
+          interesting: false,
+          reason: 'carreira toda em consultoria',
+        },
+        {
+          profileId: 'b',
+          profileName: 'B',
+          interesting: false,
+          reason: 'muito senior',
+        },
+        {
+          profileId: 'c',
+          profileName: 'C',
+          interesting: true,
+          reason: 'experiência em fintech',
+        },
+        {
+          profileId: 'd',
+          profileName: 'D',
+          interesting: false,
+          reason: 'mora longe',
+        },
+        {
+          profileId: 'e',
+          profileName: 'E',
+          interesting: false,
+          reason: 'mora em outra cidade',
+        },
+      ],
+      { d: { city: 'MANAUS' }, e: { city: 'BELEM' } },
+    );
+
+    const { criteria, learning: applied } = interpreter.apply(
+      { roleTitles: ['backend'], cities: ['SAO PAULO'] },
+      learning,
+    );
+
+    expect(criteria).toEqual({
+      roleTitles: ['backend'],
+      cities: ['SAO PAULO'],
+      exclusions: {
+        cities: ['MANAUS', 'BELEM'],
+        companies: expect.arrayContaining([
+          'consultoria',
+          'accenture',
+          'tata consultancy',
+        ]) as string[],
+      },
+    });
+    expect(
+      applied.adjustments.map((a) => [a.description, a.weight, a.applied]),
+    ).toEqual([
+      ['evitar consultorias', 2, true],
+      ['evitar candidatos de MANAUS, BELEM', 2, true],
+      ['evitar perfis mais seniores (ESPECIALISTA ou acima)', 1, false],
+      ['preferir fintechs', 1, false],
+    ]);
+    // A sigla sozinha excluiria qualquer empresa que contenha "tcs"
+    expect(criteria.exclusions?.companies).not.toContain('tcs');
+    expect(interpreter.toPromptContext(applied)).toContain(
+      '- CONSIDERE: preferir fintechs (1 feedback)',
+    );
+  });
+
+  it('should exclude company names with and without accents', () => {
+    const learning = interpreter.interpret(
+      ['a', 'b'].map((profileId) => ({
+        profileId,
+        profileName: profileId,
+        interesting: false,
+        reason: 'só trabalhou em banco',
+      })),
+    );
+
+    expect(
+      interpreter.apply({ roleTitles: ['backend'] }, learning).criteria
+        .exclusions?.companies,
+    ).toEqual(expect.arrayContaining(['banco', 'itaú', 'itau']));
+  });
+
+  it('should report preferred company types without filtering companies', () => {
+    const learning = interpreter.interpret(
+      ['a', 'b'].map((profileId) => ({
+        profileId,
+        profileName: profileId,
+        interesting: true,
+        reason: 'ótima experiência em fintech',
+      })),
+    );
+
+    const { criteria, learning: applied } = interpreter.apply(
+      { roleTitles: ['backend'] },
+      learning,
+    );
+
+    expect(criteria).toEqual({ roleTitles: ['backend'] });
+    expect(applied.adjustments[0]).toMatchObject({
+      action: 'prefer',
+      weight: 2,
+      applied: false,
+    });
+    expect(interpreter.toPromptContext(applied)).toContain(
+      '- CONSIDERE: preferir fintechs (2 feedbacks)',
+    );
+  });
+
+  it('should only require a missing skill when it does not change an "any" search', () => {
+    const learning = interpreter.interpret([
+      {
+        profileId: 'a',
+        profileName: 'A',
+        interesting: false,
+        reason: 'não conhece react',
+      },
+    ]);
+
+    expect(
+      interpreter.apply({ skills: ['node'], skillsMatch: 'all' }, learning)
+        .criteria,
+    ).toEqual({
+      skills: ['node', 'react'],
+      skillsMatch: 'all',
+    });
+    expect(
+      interpreter.apply({ skills: ['node', 'go'] }, learning).learning
+        .adjustments[0].applied,
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,481 @@
+import { Injectable } from '@nestjs/common';
+import { ProfileFeedbackDto } from './dto/query.dto';
+import { SENIORITY_RANKS, SearchCriteria } from './criteria-compiler.service';
+
+export const FEEDBACK_CATEGORIES = [
+  'seniority_too_high',
+  'seniority_too_low',
+  'wrong_location',
+  'wrong_company_type',
+  'missing_skill',
+  'wrong_area',
+] as const;
+
+export type FeedbackCategory = (typeof FEEDBACK_CATEGORIES)[number];
+
+/**
+ * Categoria identificada no motivo de um feedback
+ */
+export interface FeedbackSignal {
+  profileId: string;
+  category: FeedbackCategory;
+  /** Tipo de empresa ou habilidade citada no motivo */
+  value?: string;
+  /** Pedido de preferência ("queria alguém de fintech") em vez de rejeição */
+  prefer?: boolean;
+}
+
+/**
+ * Dados do perfil avaliado, usados para concretizar os ajustes
+ * (ex: a senioridade de quem foi rejeitado por ser "muito senior")
+ */
+export interface FeedbackProfile {
+  seniority?: string;
+  area?: string;
+  city?: string;
+}
+
+/**
+ * Ajuste de preferência agregado a partir dos sinais. O peso é a quantidade
+ * de feedbacks que apontam na mesma direção.
+ */
+export interface PreferenceAdjustment {
+  category: FeedbackCategory;
+  action: 'avoid' | 'prefer' | 'require';
+  /** Valores aplicados aos critérios (senioridades, cidades, empresas...) */
+  values: string[];
+  weight: number;
+  profileIds: string[];
+  /** Frase exibida ao recrutador ("evitar consultorias") */
+  description: string;
+  applied: boolean;
+}
+
+export interface FeedbackLearning {
+  signals: FeedbackSignal[];
+  adjustments: PreferenceAdjustment[];
+}
+
+// Feedbacks necessários para aplicar o ajuste automaticamente. Habilidade
+// faltando é explícita e vale a partir do primeiro; tipo de empresa vira
+// exclusão de várias empresas, então precisa se repetir.
+const APPLY_THRESHOLDS: Record<FeedbackCategory, number> = {
+  seniority_too_high: 2,
+  seniority_too_low: 2,
+  wrong_location: 2,
+  wrong_company_type: 2,
+  missing_skill: 1,
+  wrong_area: 2,
+};
+
+interface CompanyType {
+  plural: string;
+  pattern: RegExp;
+  /** Empresas usadas como exemplo do tipo nos filtros de empresa */
+  companies: string[];
+}
+
+const COMPANY_TYPES: Record<string, CompanyType> = {
+  consultoria: {
+    plural: 'consultorias',
+    pattern:
+      /consultori|consulting|consultancy|outsourc|body ?shop|fabrica de software/,
+    // Os nomes viram ILIKE %nome%: a sigla "tcs" casaria com qualquer nome
+    // que a contenha, então usa o nome completo
+    companies: [
+      'accenture',
+      'capgemini',
+      'deloitte',
+      'stefanini',
+      'cognizant',
+      'ntt data',
+      'tata consultancy',
+    ],
+  },
+  fintech: {
+    plural: 'fintechs',
+    pattern: /fintech/,
+    // "stone" sozinho casaria com Milestone, Keystone...
+    companies: [
+      'nubank',
+      'stone pagamentos',
+      'stone co',
+      'pagar.me',
+      'creditas',
+      'picpay',
+      'ebanx',
+      'c6 bank',
+    ],
+  },
+  banco: {
+    plural: 'bancos',
+    pattern: /\bbancos?\b|bancari|instituic\w* financeir/,
+    companies: ['itaú', 'bradesco', 'santander', 'banco do brasil', 'btg'],
+  },
+  startup: { plural: 'startups', pattern: /startup/, companies: [] },
+  varejo: {
+    plural: 'varejo',
+    pattern: /varejo|retail|e-?commerce/,
+    companies: ['magazine luiza', 'mercado livre', 'americanas', 'renner'],
+  },
+  multinacional: {
+    plural: 'multinacionais',
+    pattern: /multinaciona/,
+    companies: [],
+  },
+  'setor público': {
+    plural: 'setor público',
+    pattern: /setor publico|governo|orgao publico|estatal/,
+    companies: [],
+  },
+};
+
+const PREFER_PATTERN =
+  /(?:queria|quero|prefiro|preferimos|precisa(?:mos|va)?|buscamos|ideal(?:mente)?|melhor)\b/;
+
+const LACKS_PATTERN = /\b(?:sem|falta\w*|nenhuma|nunca trabalhou)\b/;
+
+// Anos de experiência só contam com um qualificador ("15 anos de experiência,
+// demais para a vaga"); sozinhos costumam ser elogio ou simples descrição
+const SENIORITY_TOO_HIGH_PATTERN =
+  /\b(?:muito|bem|super|mto)\s+(?:senior|experiente|caro)|senior demais|overqualified|sobrequalificad|acima do (?:nivel|perfil)|(?:nivel|cargo) (?:muito )?alto|muita senioridade|(?:\d+\s*|muitos )anos de experiencia,? (?:a mais|demais|alem do (?:necessario|pedido))|experiencia demais/;
+
+const SENIORITY_TOO_LOW_PATTERN =
+  /\b(?:muito|bem|super|mto)\s+(?:junior|jr|jovem|inexperiente|novo)|junior demais|inexperiente|abaixo do (?:nivel|perfil)|(?:nivel|cargo) (?:muito )?baixo|(?:pouca|falta de|sem) experiencia(?!\s+(?:em|com|de)\b)/;
+
+const WRONG_LOCATION_PATTERN =
+  /\blonge\b|\bfora d[aeo] (?!area\b)|outr[ao] (?:cidade|estado|regiao|pais)|localiza|\bmora (?:em|no|na)\b|\breside\b|distante|nao (?:aceita|quer) (?:mudanca|presencial|se mudar)|cidade errada/;
+
+const WRONG_AREA_PATTERN =
+  /(?:outra|de outra) area|area (?:errada|diferente)|fora da area|nao e da area|perfil (?:comercial|de vendas|de marketing|administrativo|financeiro|de rh)|\be (?:de|da area de) (?:vendas|marketing|rh|financeiro|suporte|design|juridico)|nao e (?:dev|desenvolvedor|tecnico)/;
+
+// "sem experiência em kubernetes", "não conhece react", "faltou AWS"
+const MISSING_SKILL_PATTERNS = [
+  /(?:nao tem|sem|falta(?:m|ou)?|faltando|pouca|nenhuma|nao possui)\s+(?:experiencia|conhecimento|vivencia)\s+(?:em|com|de)\s+([a-z0-9.+#/ -]+?)(?=$|[,.;!)]|\s(?:e|ou|mas|nem|para)\s)/,
+  /(?:nao (?:conhece|sabe|domina|usa|trabalhou com)|precisa(?:va)? (?:saber|conhecer|ter)|faltou)\s+([a-z0-9.+#/ -]+?)(?=$|[,.;!)]|\s(?:e|ou|mas|nem|para)\s)/,
+];
+
+/**
+ * Interpreta os motivos dos feedbacks em categorias tipadas e transforma
+ * os sinais repetidos em ajustes de preferência aplicados aos critérios
+ */
+@Injectable()
+export class FeedbackInterpreterService {
+  /**
+   * Categorias identificadas em um motivo. Um mesmo motivo pode ter
+   * várias categorias ("muito senior e mora longe").
+   */
+  classify(
+    reason: string,
+    interesting = false,
+  ): Array<Omit<FeedbackSignal, 'profileId'>> {
+    const text = normalize(reason);
+    if (!text.trim()) return [];
+
+    const signals: Array<Omit<FeedbackSignal, 'profileId'>> = [];
+
+    // "muito tempo em banco, queria startup": cada trecho tem sua intenção
+    for (const clause of text.split(/[,.;]|\s(?:mas|porem)\s/)) {
+      const prefers =
+        interesting ||
+        PREFER_PATTERN.test(clause) ||
+        LACKS_PATTERN.test(clause);
+      for (const [type, { pattern }] of Object.entries(COMPANY_TYPES)) {
+        const seen = signals.some((signal) => signal.value === type);
+        if (!seen && pattern.test(clause)) {
+          signals.push({
+            category: 'wrong_company_type',
+            value: type,
+            prefer: prefers,
+          });
+        }
+      }
+    }
+
+    // Feedback positivo só informa preferências de tipo de empresa
+    if (interesting) return signals;
+
+    if (SENIORITY_TOO_HIGH_PATTERN.test(text)) {
+      signals.push({ category: 'seniority_too_high' });
+    }
+    if (SENIORITY_TOO_LOW_PATTERN.test(text)) {
+      signals.push({ category: 'seniority_too_low' });
+    }
+    if (WRONG_LOCATION_PATTERN.test(text)) {
+      signals.push({ category: 'wrong_location' });
+    }
+    if (WRONG_AREA_PATTERN.test(text)) {
+      signals.push({ category: 'wrong_area' });
+    }
+
+    for (const pattern of MISSING_SKILL_PATTERNS) {
+      const match = text.match(pattern);
+      const skill = match?.[1]?.trim();
+      const isCompanyType = Object.values(COMPANY_TYPES).some((type) =>
+        type.pattern.test(skill || ''),
+      );
+      if (match && skill && !isCompanyType && skill.split(/\s+/).length <= 3) {
+        // A habilidade vai para um ILIKE: usa a grafia original, com acentos
+        // (a habilidade é o fim do trecho encontrado)
+        const end = (match.index ?? 0) + match[0].length;
+        const value = reason.slice(end - match[1].length, end).trim();
+        signals.push({ category: 'missing_skill', value });
+        break;
+      }
+    }
+
+    return signals;
+  }
+
+  /**
+   * Classifica todos os feedbacks e agrega os sinais em ajustes
+   */
+  interpret(
+    profileFeedback: ProfileFeedbackDto[],
+    profiles: Record<string, FeedbackProfile> = {},
+  ): FeedbackLearning {
+    const signals = profileFeedback.flatMap((feedback) =>
+      this.classify(feedback.reason || '', feedback.interesting).map(
+        (signal) => ({ ...signal, profileId: feedback.profileId }),
+      ),
+    );
+
+    const groups = new Map<string, FeedbackSignal[]>();
+    for (const signal of signals) {
+      const key = `${signal.category}:${signal.prefer ? 'prefer' : 'avoid'}:${signal.value || ''}`;
+      groups.set(key, [...(groups.get(key) || []), signal]);
+    }
+
+    const adjustments = Array.from(groups.values())
+      .map((group) => this.toAdjustment(group, profiles))
+      .sort((a, b) => b.weight - a.weight);
+
+    return { signals, adjustments };
+  }
+
+  /**
+   * Aplica aos critérios os ajustes com peso suficiente. Retorna os critérios
+   * ajustados e o aprendizado com a marcação do que foi aplicado.
+   */
+  apply(
+    criteria: SearchCriteria,
+    learning: FeedbackLearning,
+  ): { criteria: SearchCriteria; learning: FeedbackLearning } {
+    let result: SearchCriteria = { ...criteria };
+    const adjustments = learning.adjustments.map((adjustment) => {
+      if (
+        adjustment.weight < APPLY_THRESHOLDS[adjustment.category] ||
+        adjustment.values.length === 0
+      ) {
+        return { ...adjustment, applied: false };
+      }
+      const next = this.applyAdjustment(result, adjustment);
+      if (next) result = next;
+      return { ...adjustment, applied: next !== null };
+    });
+
+    return { criteria: result, learning: { ...learning, adjustments } };
+  }
+
+  /**
+   * Ajustes para o prompt do modelo, com o peso de cada um. Preferências
+   * nunca são obrigatórias: servem para priorizar, não para filtrar.
+   */
+  toPromptContext(learning: FeedbackLearning): string {
+    if (learning.adjustments.length === 0) return '';
+
+    const lines = learning.adjustments.map((adjustment) => {
+      const strong =
+        adjustment.action !== 'prefer' &&
+        adjustment.weight >= APPLY_THRESHOLDS[adjustment.category];
+      return `- ${strong ? 'OBRIGATÓRIO' : 'CONSIDERE'}: ${adjustment.description} (${adjustment.weight} feedback${adjustment.weight > 1 ? 's' : ''})`;
+    });
+
+    return `\n\n🚨 PREFERÊNCIAS APRENDIDAS COM O FEEDBACK:\n${lines.join('\n')}\n`;
+  }
+
+  private toAdjustment(
+    group: FeedbackSignal[],
+    profiles: Record<string, FeedbackProfile>,
+  ): PreferenceAdjustment {
+    const [{ category, value, prefer }] = group;
+    const profileIds = group.map((signal) => signal.profileId);
+    const rated = profileIds.map((id) => profiles[id]).filter(Boolean);
+    const base = { category, weight: group.length, profileIds, applied: false };
+
+    switch (category) {
+      case 'seniority_too_high':
+      case 'seniority_too_low': {
+        const values = this.senioritiesToAvoid(
+          category,
+          rated.map((profile) => SENIORITY_RANKS[profile.seniority || '']),
+        );
+        const direction =
+          category === 'seniority_too_high' ? 'ou acima' : 'ou abaixo';
+        return {
+          ...base,
+          action: 'avoid',
+          values,
+          description: `evitar perfis ${category === 'seniority_too_high' ? 'mais seniores' : 'mais juniores'} (${values[0]} ${direction})`,
+        };
+      }
+      case 'wrong_location': {
+        const values = unique(rated.map((profile) => profile.city));
+        return {
+          ...base,
+          action: 'avoid',
+          values,
+          description:
+            values.length > 0
+              ? `evitar candidatos de ${values.join(', ')}`
+              : 'confirmar a localização desejada',
+        };
+      }
+      case 'wrong_area': {
+        const values = unique(rated.map((profile) => profile.area)).filter(
+          (area) => area !== 'N/A',
+        );
+        return {
+          ...base,
+          action: 'avoid',
+          values,
+          description:
+            values.length > 0
+              ? `evitar a área ${values.join(', ')}`
+              : 'confirmar a área desejada',
+        };
+      }
+      case 'wrong_company_type': {
+        const type = COMPANY_TYPES[value || ''];
+        return {
+          ...base,
+          action: prefer ? 'prefer' : 'avoid',
+          values: withUnaccented(
+            prefer ? type.companies : [value || '', ...type.companies],
+          ),
+          description: `${prefer ? 'preferir' : 'evitar'} ${type.plural}`,
+        };
+      }
+      case 'missing_skill':
+        return {
+          ...base,
+          action: 'require',
+          values: value ? [value] : [],
+          description: `exigir ${value}`,
+        };
+    }
+  }
+
+  /**
+   * Senioridades a evitar: a partir da mais baixa rejeitada por ser "muito
+   * senior" (ou até a mais alta rejeitada por ser "muito junior"). Sem dados
+   * dos perfis, separa juniores (estágio e analista) dos demais.
+   */
+  private senioritiesToAvoid(
+    category: 'seniority_too_high' | 'seniority_too_low',
+    ranks: Array<number | undefined>,
+  ): string[] {
+    const known = ranks.filter((rank): rank is number => rank !== undefined);
+    const tooHigh = category === 'seniority_too_high';
+    const limit =
+      known.length > 0
+        ? tooHigh
+          ? Math.min(...known)
+          : Math.max(...known)
+        : tooHigh
+          ? 2
+          : 1;
+
+    return Object.entries(SENIORITY_RANKS)
+      .filter(([, rank]) => (tooHigh ? rank >= limit : rank <= limit))
+      .sort(([, a], [, b]) => (tooHigh ? a - b : b - a))
+      .map(([seniority]) => seniority);
+  }
+
+  /**
+   * Retorna os critérios com o ajuste, ou null quando ele não se aplica
+   * (ex: preferência por um tipo de empresa, que só é informada ao recrutador
+   * e ao modelo em vez de virar filtro de empresas)
+   */
+  private applyAdjustment(
+    criteria: SearchCriteria,
+    adjustment: PreferenceAdjustment,
+  ): SearchCriteria | null {
+    const exclusions = { ...(criteria.exclusions || {}) };
+    const { values } = adjustment;
+
+    switch (adjustment.category) {
+      case 'seniority_too_high':
+      case 'seniority_too_low': {
+        const seniorities = criteria.seniorities?.filter(
+          (s) => !values.includes(s),
+        );
+        exclusions.seniorities = unique([
+          ...(exclusions.seniorities || []),
+          ...values,
+        ]);
+        return {
+          ...criteria,
+          seniorities: seniorities?.length ? seniorities : undefined,
+          exclusions,
+        };
+      }
+      case 'wrong_location': {
+        const cities = values.filter((c) => !criteria.cities?.includes(c));
+        if (cities.length === 0) return null;
+        exclusions.cities = unique([...(exclusions.cities || []), ...cities]);
+        return { ...criteria, exclusions };
+      }
+      case 'wrong_area': {
+        const areas = values.filter((a) => !criteria.areas?.includes(a));
+        if (areas.length === 0) return null;
+        exclusions.areas = unique([...(exclusions.areas || []), ...areas]);
+        return { ...criteria, exclusions };
+      }
+      case 'wrong_company_type':
+        if (adjustment.action === 'prefer') return null;
+        exclusions.companies = unique([
+          ...(exclusions.companies || []),
+          ...values,
+        ]);
+        return { ...criteria, exclusions };
+      case 'missing_skill':
+        // Com "qualquer uma" das habilidades, exigir mais uma mudaria a busca
+        if (criteria.skills?.length && criteria.skillsMatch !== 'all') {
+          return null;
+        }
+        return {
+          ...criteria,
+          skills: unique([...(criteria.skills || []), ...values]),
+          skillsMatch: criteria.skills?.length ? 'all' : criteria.skillsMatch,
+        };
+    }
+  }
+}
+
+/**
+ * Minúsculas e sem acento, letra por letra: o texto mantém o tamanho, então
+ * uma posição no texto normalizado vale também no original
+ */
+function normalize(value: string): string {
+  return value
+    .split('')
+    .map((char) => {
+      const base = stripAccents(char).toLowerCase();
+      return base.length === 1 ? base : char;
+    })
+    .join('');
+}
+
+function stripAccents(value: string): string {
+  return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}
+
+// ILIKE diferencia "itaú" de "itau": filtra pelas duas grafias
+function withUnaccented(values: string[]): string[] {
+  return unique(values.flatMap((value) => [value, stripAccents(value)]));
+}
+
+function unique(values: Array<string | undefined>): string[] {
+  return Array.from(new Set(values.filter((v): v is string => !!v)));
+}
@@ -1,3 +1,9 @@
 export * from './natural-query.module';
 export * from './natural-query.service';
 export * from './natural-query.controller';
+export * from './sql-guard.service';
+export * from './criteria-compiler.service';
+export * from './query-planner.service';
+export * from './feedback-interpreter.service';
+export * from './search-sessions.service';
+export * from './search-sessions.controller';
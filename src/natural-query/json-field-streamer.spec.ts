@@ -0,0 +1,33 @@
+import { JsonFieldStreamer } from './json-field-streamer';
+
+describe('JsonFieldStreamer', () => {
+  it('should emit the field value incrementally across chunks', () => {
+    const streamer = new JsonFieldStreamer('assistantMessage');
+    const chunks = [
+      '{"assistant',
+      'Message": "Encon',
+      'trei 7 \\"tech',
+      ' leads\\"\\nem Curitiba',
+      '", "criteria": {"cities": ["CURITIBA"]}}',
+    ];
+
+    const output = chunks.map((c) => streamer.push(c));
+
+    expect(output).toEqual([
+      '',
+      'Encon',
+      'trei 7 "tech',
+      ' leads"\nem Curitiba',
+      '',
+    ]);
+    expect(streamer.isComplete).toBe(true);
+  });
+
+  it('should wait for incomplete escape sequences', () => {
+    const streamer = new JsonFieldStreamer('assistantMessage');
+
+    expect(streamer.push('{"assistantMessage":"S\\')).toBe('S');
+    expect(streamer.push('u00')).toBe('');
+    expect(streamer.push('e3o Paulo"}')).toBe('ão Paulo');
+  });
+});
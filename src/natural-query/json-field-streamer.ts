@@ -0,0 +1,73 @@
+/**
+ * Extrai incrementalmente o valor de um campo string de um JSON que ainda
+ * está sendo gerado pelo modelo (stream de tokens), devolvendo apenas o
+ * texto novo decodificado a cada chunk.
+ */
+export class JsonFieldStreamer {
+  private buffer = '';
+  private valueStart = -1;
+  private position = 0;
+  private done = false;
+
+  constructor(private readonly field: string) {}
+
+  /**
+   * Adiciona um chunk do JSON e retorna o trecho novo do campo (ou '')
+   */
+  push(chunk: string): string {
+    this.buffer += chunk;
+    if (this.done) return '';
+
+    if (this.valueStart === -1) {
+      const match = new RegExp(`"${this.field}"\\s*:\\s*"`).exec(this.buffer);
+      if (!match) return '';
+      this.valueStart = match.index + match[0].length;
+      this.position = this.valueStart;
+    }
+
+    let output = '';
+    while (this.position < this.buffer.length) {
+      const char = this.buffer[this.position];
+
+      if (char === '"') {
+        this.done = true;
+        break;
+      }
+
+      if (char !== '\\') {
+        output += char;
+        this.position++;
+        continue;
+      }
+
+      // Escape incompleto: espera o próximo chunk
+      const escape = this.buffer[this.position + 1];
+      if (escape === undefined) break;
+
+      if (escape === 'u') {
+        const hex = this.buffer.slice(this.position + 2, this.position + 6);
+        if (hex.length < 4) break;
+        output += String.fromCharCode(parseInt(hex, 16));
+        this.position += 6;
+        continue;
+      }
+
+      output += ESCAPES[escape] ?? escape;
+      this.position += 2;
+    }
+
+    return output;
+  }
+
+  get isComplete(): boolean {
+    return this.done;
+  }
+}
+
+const ESCAPES: Record<string, string> = {
+  n: '\n',
+  t: '\t',
+  r: '\r',
+  b: '\b',
+  f: '\f',
+};
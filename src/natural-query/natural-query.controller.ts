@@ -6,7 +6,6 @@ import {
   Query,
   HttpCode,
   Res,
-  Header,
 } from '@nestjs/common';
 import type { Response } from 'express';
 import {
@@ -17,16 +16,20 @@ import {
 import {
   NaturalQueryDto,
   ConversationQueryDto,
+  RunCriteriaDto,
   ExportCsvDto,
   ExportToClickUpDto,
 } from './dto/query.dto';
 import { ClickUpService } from '../jobs/clickup.service';
+import { SearchSessionsService } from './search-sessions.service';
+import { EXPORT_FILE_TYPES, selectColumns } from '../exports/formatters';
 
 @Controller('query')
 export class NaturalQueryController {
   constructor(
     private readonly naturalQueryService: NaturalQueryService,
     private readonly clickUpService: ClickUpService,
+    private readonly searchSessionsService: SearchSessionsService,
   ) {}
 
   /**
@@ -43,7 +46,9 @@ export class NaturalQueryController {
    *   "profileFeedback": [
    *     { "profileId": "abc123", "profileName": "João Silva", "interesting": true, "reason": "boa experiência" },
    *     { "profileId": "def456", "profileName": "Maria Santos", "interesting": false, "reason": "muito junior" }
-   *   ]
+   *   ],
+   *   "currentCriteria": { "roleTitles": ["python"], "seniorities": ["ESPECIALISTA"] },
+   *   "jobId": "3f2c..." // opcional: ordena pela aderência à vaga em vez do nome
    * }
    */
   @Post('chat')
@@ -55,31 +60,130 @@ export class NaturalQueryController {
       dto.message,
       dto.conversationHistory || [],
       dto.profileFeedback || [],
+      dto.currentCriteria,
+      { jobId: dto.jobId },
+    );
+  }
+
+  /**
+   * Mesma busca do /query/chat, com o progresso enviado via Server-Sent Events:
+   * tokens da mensagem do assistente, etapas, SQL, linhas conforme chegam,
+   * total e aviso de nova tentativa. O último evento é "result" (ou "error").
+   * POST /query/chat/stream
+   *
+   * Body: igual ao /query/chat
+   */
+  @Post('chat/stream')
+  async conversationalSearchStream(
+    @Body() dto: ConversationQueryDto,
+    @Res() res: Response,
+  ): Promise<void> {
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.flushHeaders();
+
+    const send = (event: string, data: unknown) => {
+      if (!res.writableEnded) {
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      }
+    };
+
+    // Cancela a chamada à OpenAI e a query se o cliente desconectar
+    const abort = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) abort.abort();
+    });
+
+    try {
+      const result = await this.naturalQueryService.conversationalSearch(
+        dto.message,
+        dto.conversationHistory || [],
+        dto.profileFeedback || [],
+        dto.currentCriteria,
+        {
+          onEvent: ({ type, ...data }) => send(type, data),
+          signal: abort.signal,
+          jobId: dto.jobId,
+        },
+      );
+      send('result', result);
+    } catch (error) {
+      if (!abort.signal.aborted) {
+        send('error', {
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+    } finally {
+      res.end();
+    }
+  }
+
+  /**
+   * Re-executa a busca a partir de critérios editados no frontend (chips),
+   * sem chamar a OpenAI
+   * POST /query/run-criteria
+   *
+   * Body:
+   * {
+   *   "criteria": { "roleTitles": ["tech lead"], "cities": ["CURITIBA"], "seniorities": ["ESPECIALISTA"] },
+   *   "profileFeedback": [...]
+   * }
+   */
+  @Post('run-criteria')
+  @HttpCode(200)
+  async runCriteria(@Body() dto: RunCriteriaDto): Promise<ConversationResult> {
+    return this.naturalQueryService.runCriteria(
+      dto.criteria,
+      dto.profileFeedback || [],
     );
   }
 
   /**
-   * Endpoint para exportar resultados em CSV (até 2000 perfis)
+   * Endpoint para exportar resultados (até 2000 perfis) em CSV, XLSX ou JSON Lines.
+   * Para exportações maiores, use POST /exports (background) ou /exports/stream
    * POST /query/export
    *
    * Body:
    * {
+   *   "sessionId": "uuid da sessão (usa exatamente os critérios exibidos)",
+   *   "format": "xlsx",
+   *   "columns": ["full_name", "current_company", "profile_url", "feedback", "reason"]
+   * }
+   * ou, sem sessão:
+   * {
    *   "conversationHistory": [...],
-   *   "profileFeedback": [...]
+   *   "profileFeedback": [...],
+   *   "format": "csv",
+   *   "delimiter": ","
    * }
    */
   @Post('export')
-  @Header('Content-Type', 'text/csv; charset=utf-8')
-  @Header('Content-Disposition', 'attachment; filename="candidatos.csv"')
-  async exportToCsv(
+  async exportResults(
     @Body() dto: ExportCsvDto,
     @Res() res: Response,
   ): Promise<void> {
-    const csv = await this.naturalQueryService.exportToCsv(
-      dto.conversationHistory || [],
-      dto.profileFeedback || [],
+    const session = dto.sessionId
+      ? await this.searchSessionsService.get(dto.sessionId)
+      : undefined;
+    const format = dto.format || 'csv';
+    const fileType = EXPORT_FILE_TYPES[format];
+
+    const content = await this.naturalQueryService.exportResults(
+      session?.messages || dto.conversationHistory || [],
+      session?.feedback || dto.profileFeedback || [],
+      session?.criteria,
+      format,
+      { columns: selectColumns(dto.columns), delimiter: dto.delimiter },
     );
-    res.send(csv);
+
+    res.setHeader('Content-Type', fileType.contentType);
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="candidatos.${fileType.extension}"`,
+    );
+    res.send(content);
   }
 
   /**
@@ -146,6 +250,7 @@ export class NaturalQueryController {
    * {
    *   "clickUpListId": "12345678",
    *   "jobTitle": "Tech Lead",
+   *   "sessionId": "uuid da sessão (opcional, substitui histórico e feedback)",
    *   "conversationHistory": [...],
    *   "profileFeedback": [...]
    * }
@@ -159,12 +264,17 @@ export class NaturalQueryController {
     candidatesCount: number;
     error?: string;
   }> {
+    const session = dto.sessionId
+      ? await this.searchSessionsService.get(dto.sessionId)
+      : undefined;
+
     return this.naturalQueryService.exportToClickUp(
       dto.clickUpListId,
       dto.jobTitle,
-      dto.conversationHistory || [],
-      dto.profileFeedback || [],
+      session?.messages || dto.conversationHistory || [],
+      session?.feedback || dto.profileFeedback || [],
       this.clickUpService,
+      session?.criteria,
     );
   }
 }
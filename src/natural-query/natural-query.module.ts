@@ -1,12 +1,44 @@
 import { Module } from '@nestjs/common';
 import { NaturalQueryService } from './natural-query.service';
 import { NaturalQueryController } from './natural-query.controller';
+import { SqlGuardService } from './sql-guard.service';
+import { CriteriaCompilerService } from './criteria-compiler.service';
+import { QueryPlannerService } from './query-planner.service';
+import { FeedbackInterpreterService } from './feedback-interpreter.service';
+import { SearchSessionsService } from './search-sessions.service';
+import { SearchSessionsController } from './search-sessions.controller';
 import { JobsModule } from '../jobs/jobs.module';
+import { OntologyModule } from '../ontology/ontology.module';
+import { LocationsModule } from '../locations/locations.module';
+import { CompaniesModule } from '../companies/companies.module';
+import { CacheModule } from '../cache/cache.module';
+import { AuditModule } from '../audit/audit.module';
 
 @Module({
-  imports: [JobsModule],
-  controllers: [NaturalQueryController],
-  providers: [NaturalQueryService],
-  exports: [NaturalQueryService],
+  imports: [
+    JobsModule,
+    OntologyModule,
+    LocationsModule,
+    CompaniesModule,
+    CacheModule,
+    AuditModule,
+  ],
+  controllers: [NaturalQueryController, SearchSessionsController],
+  providers: [
+    NaturalQueryService,
+    SqlGuardService,
+    CriteriaCompilerService,
+    QueryPlannerService,
+    FeedbackInterpreterService,
+    SearchSessionsService,
+  ],
+  exports: [
+    NaturalQueryService,
+    SqlGuardService,
+    CriteriaCompilerService,
+    QueryPlannerService,
+    FeedbackInterpreterService,
+    SearchSessionsService,
+  ],
 })
 export class NaturalQueryModule {}
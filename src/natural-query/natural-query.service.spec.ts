@@ -0,0 +1,286 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NaturalQueryService } from './natural-query.service';
+import { QueryPlannerService } from './query-planner.service';
+import { CriteriaCompilerService } from './criteria-compiler.service';
+import { JobsService } from '../jobs/jobs.service';
+import { CompanyNameResolverService } from '../companies/company-name-resolver.service';
+import { AuditService } from '../audit/audit.service';
+
+describe('NaturalQueryService', () => {
+  let service: NaturalQueryService;
+  const planner = {
+    planSql: jest.fn(),
+    planCriteria: jest.fn(),
+    planExportSql: jest.fn(),
+    execute: jest.fn(),
+    count: jest.fn(),
+  };
+  const jobsService = { getJob: jest.fn() };
+  const companyNameResolver = { resolveForSearch: jest.fn() };
+  const auditService = { record: jest.fn() };
+
+  beforeEach(async () => {
+    Object.values(planner).forEach((mock) => mock.mockReset());
+    auditService.record.mockReset();
+    jobsService.getJob.mockReset();
+    companyNameResolver.resolveForSearch.mockReset();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NaturalQueryService,
+        CriteriaCompilerService,
+        { provide: QueryPlannerService, useValue: planner },
+        { provide: JobsService, useValue: jobsService },
+        {
+          provide: CompanyNameResolverService,
+          useValue: companyNameResolver,
+        },
+        { provide: AuditService, useValue: auditService },
+      ],
+    }).compile();
+
+    service = module.get<NaturalQueryService>(NaturalQueryService);
+  });
+
+  it('should relax the criteria when the planned search returns nothing', async () => {
+    planner.planCriteria.mockResolvedValue({
+      criteria: { roleTitles: ['tech lead'], cities: ['CURITIBA'] },
+      explanation: 'Tech leads em Curitiba',
+      assistantMessage: 'Buscando tech leads.',
+      learnedPreferences: ['evitar consultorias'],
+    });
+    planner.execute
+      .mockResolvedValueOnce({ sql: 'SELECT 1', data: [] })
+      .mockResolvedValueOnce({
+        sql: 'SELECT 2',
+        data: [{ profile_id: 'a', full_name: 'Ana' }],
+      });
+    planner.count.mockResolvedValue(12);
+    const events: string[] = [];
+
+    const result = await service.conversationalSearch(
+      'tech leads em Curitiba',
+      [],
+      [{ profileId: 'x', profileName: 'X', interesting: false }],
+      undefined,
+      { onEvent: (event) => events.push(event.type) },
+    );
+
+    expect(result.criteria).toEqual({ roleTitles: ['tech lead'] });
+    expect(result.totalRows).toBe(12);
+    expect(result.assistantMessage).toMatch(/^⚠️ A busca original/);
+    expect(result.assistantMessage).toMatch(/🧠 Aprendi: evitar consultorias$/);
+    expect(result.learnedPreferences).toEqual(['evitar consultorias']);
+    expect(result.queryParams).toMatchObject({ p1: ['x'] });
+    expect(events).toEqual([
+      'stage',
+      'stage',
+      'sql',
+      'retry',
+      'sql',
+      'stage',
+      'count',
+    ]);
+    expect(auditService.record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        operation: 'chat',
+        input: 'tech leads em Curitiba',
+        criteria: { roleTitles: ['tech lead'] },
+        rowCount: 1,
+        totalRows: 12,
+        profileIds: ['a'],
+        destination: 'response',
+      }),
+    );
+  });
+
+  it('should audit a failed query with the planned SQL', async () => {
+    planner.planSql.mockResolvedValue({
+      sql: 'SELECT * FROM system.users',
+      explanation: 'Usuários',
+    });
+    planner.execute.mockRejectedValue(
+      new Error('Tabela não permitida: system.users'),
+    );
+
+    await expect(
+      service.generateAndExecuteQuery('liste os usuários'),
+    ).rejects.toThrow('Tabela não permitida: system.users');
+    expect(auditService.record).toHaveBeenCalledWith({
+      operation: 'query',
+      input: 'liste os usuários',
+      sql: 'SELECT * FROM system.users',
+      rowCount: 0,
+      profileIds: [],
+      destination: 'response',
+      error: 'Tabela não permitida: system.users',
+    });
+  });
+
+  it('should audit failed chat and explain requests', async () => {
+    planner.planCriteria.mockRejectedValue(new Error('Modelo indisponível'));
+    planner.planSql.mockRejectedValue(new Error('Modelo indisponível'));
+
+    await expect(service.conversationalSearch('devs go')).rejects.toThrow(
+      'Modelo indisponível',
+    );
+    await expect(service.explainQuery('devs go')).rejects.toThrow(
+      'Modelo indisponível',
+    );
+    expect(auditService.record.mock.calls).toEqual([
+      [
+        expect.objectContaining({
+          operation: 'chat',
+          input: 'devs go',
+          error: 'Modelo indisponível',
+        }),
+      ],
+      [
+        expect.objectContaining({
+          operation: 'explain',
+          input: 'devs go',
+          error: 'Modelo indisponível',
+        }),
+      ],
+    ]);
+  });
+
+  it('should order the shortlist by job fit when a job is given', async () => {
+    jobsService.getJob.mockResolvedValue({
+      id: 'job-1',
+      job: { title: 'Backend', technicalSkills: ['Go', 'Kafka'] },
+    });
+    planner.planCriteria.mockResolvedValue({
+      criteria: { skills: ['go'] },
+      explanation: 'Backend Go',
+      assistantMessage: 'Buscando.',
+      learnedPreferences: [],
+    });
+    planner.execute.mockResolvedValue({
+      sql: 'SELECT 1',
+      data: [
+        { profile_id: 'a', full_name: 'Ana', headline: 'Go developer' },
+        {
+          profile_id: 'b',
+          full_name: 'Bruno',
+          headline: 'Go developer',
+          experience: 'Kafka streams',
+        },
+      ],
+    });
+    planner.count.mockResolvedValue(2);
+
+    const result = await service.conversationalSearch(
+      'backend go',
+      [],
+      [],
+      undefined,
+      { jobId: 'job-1' },
+    );
+
+    const [[sql]] = planner.execute.mock.calls as [[string]];
+    expect(sql).toContain('about_me');
+    expect(
+      result.data.map((row: { profile_id: string }) => row.profile_id),
+    ).toEqual(['b', 'a']);
+    expect(result.data[0]).not.toHaveProperty('experience');
+    expect(result.nextCursor).toBeNull();
+  });
+
+  it('should run edited criteria without calling the model', async () => {
+    planner.execute.mockResolvedValue({ sql: 'SELECT 1', data: [] });
+    planner.count.mockResolvedValue(0);
+
+    const result = await service.runCriteria({ roleTitles: ['backend'] });
+
+    expect(planner.planCriteria).not.toHaveBeenCalled();
+    expect(planner.execute).toHaveBeenCalledTimes(1);
+    expect(result.assistantMessage).toMatch(/^Nenhum candidato/);
+  });
+
+  it('should search every resolved variant of a named company', async () => {
+    companyNameResolver.resolveForSearch.mockResolvedValue([
+      {
+        name: 'Itaú',
+        variants: ['Itaú Unibanco', 'Itau'],
+        companyIds: ['1353'],
+        publicIds: [],
+      },
+    ]);
+    planner.execute.mockResolvedValue({ sql: 'SELECT 1', data: [] });
+    planner.count.mockResolvedValue(0);
+
+    const result = await service.runCriteria({
+      companies: ['Itaú', 'Nubank'],
+      companyVariants: [
+        {
+          name: 'Nubank',
+          variants: ['Nu Pagamentos'],
+          companyIds: [],
+          publicIds: [],
+        },
+      ],
+    });
+
+    expect(companyNameResolver.resolveForSearch).toHaveBeenCalledWith(['Itaú']);
+    expect(result.criteria.companyVariants?.map((v) => v.name)).toEqual([
+      'Nubank',
+      'Itaú',
+    ]);
+    const [[sql]] = planner.execute.mock.calls as [[string]];
+    expect(sql).toContain('toString(current_company_id) IN');
+  });
+
+  it('should export session criteria without the rejected profiles', async () => {
+    planner.execute.mockResolvedValue({
+      sql: 'SELECT 1',
+      data: [{ profile_id: 'a', full_name: 'Ana' }],
+    });
+
+    const file = await service.exportResults(
+      [],
+      [{ profileId: 'x', profileName: 'X', interesting: false }],
+      { roleTitles: ['backend'] },
+      'jsonl',
+    );
+
+    expect(planner.planExportSql).not.toHaveBeenCalled();
+    const [sql, maxRows, options] = planner.execute.mock.calls[0] as [
+      string,
+      number,
+      { params: Record<string, unknown> },
+    ];
+    expect(sql).toContain('LIMIT 2000');
+    expect(maxRows).toBe(2000);
+    expect(Object.values(options.params)).toContainEqual(['x']);
+    expect(file.toString('utf8')).toContain('"full_name":"Ana"');
+    expect(auditService.record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        operation: 'export',
+        sql: 'SELECT 1',
+        criteria: { roleTitles: ['backend'] },
+        rowCount: 1,
+        profileIds: ['a'],
+        destination: 'download:jsonl',
+      }),
+    );
+  });
+
+  it('should plan the export SQL from the conversation without a session', async () => {
+    planner.planExportSql.mockResolvedValue(
+      'SELECT profile_id FROM linkedin.people LIMIT 2000',
+    );
+    planner.execute.mockResolvedValue({ sql: 'SELECT 1', data: [] });
+
+    await service.exportResults(
+      [{ role: 'user', content: 'backend em SP' }],
+      [],
+    );
+
+    expect(planner.planExportSql).toHaveBeenCalledWith(
+      [{ role: 'user', content: 'backend em SP' }],
+      [],
+      { maxRows: 2000, excludeNotInteresting: true },
+    );
+  });
+});
@@ -0,0 +1,142 @@
+import type {
+  JsonSchema,
+  ObjectSchema,
+  StructuredOutput,
+} from '../llm/structured-output';
+import {
+  COMPANY_PERIODS,
+  CompanyFilter,
+  SENIORITY_VALUES,
+  SORT_OPTIONS,
+  SearchCriteria,
+  SearchExclusions,
+} from './criteria-compiler.service';
+import { SearchPlanDto, SqlPlanDto } from './dto/planner-output.dto';
+
+const text = (description: string): JsonSchema => ({
+  type: 'string',
+  description,
+});
+
+const list = (
+  description: string,
+  items: JsonSchema = { type: 'string' },
+): JsonSchema => ({
+  type: 'array',
+  description,
+  items,
+});
+
+const count = (description: string): JsonSchema => ({
+  type: 'number',
+  minimum: 0,
+  description,
+});
+
+const seniorities = (description: string): JsonSchema =>
+  list(description, { type: 'string', enum: SENIORITY_VALUES });
+
+const EXCLUSIONS_SCHEMA: ObjectSchema<SearchExclusions> = {
+  type: 'object',
+  properties: {
+    keywords: list('Termos que NÃO devem aparecer no headline/cargo'),
+    companies: list('Empresas atuais a excluir'),
+    seniorities: seniorities('Senioridades a excluir'),
+    areas: list('Áreas a excluir'),
+    cities: list('Cidades a excluir'),
+    profileIds: list('Perfis a excluir'),
+  },
+  required: [],
+  additionalProperties: false,
+};
+
+const COMPANY_FILTER_SCHEMA: ObjectSchema<CompanyFilter> = {
+  type: 'object',
+  properties: {
+    names: list('Empresas exatas (ex: Nubank)'),
+    groups: list('Grupos: big four, mbb, big tech ou bancos tradicionais'),
+    industries: list('Setores de linkedin.companies.industry'),
+    minEmployees: count('Número mínimo de funcionários da empresa'),
+    maxEmployees: count('Número máximo de funcionários da empresa'),
+    period: {
+      type: 'string',
+      enum: COMPANY_PERIODS,
+      description: 'current (atual, padrão), past (ex-funcionários) ou any',
+    },
+  },
+  required: [],
+  additionalProperties: false,
+};
+
+// companyVariants é preenchido pela aplicação, não pelo modelo
+const CRITERIA_SCHEMA: ObjectSchema<Omit<SearchCriteria, 'companyVariants'>> = {
+  type: 'object',
+  properties: {
+    roleTitles: list('Cargos ATUAIS desejados'),
+    skills: list('Tecnologias/habilidades buscadas'),
+    skillsMatch: { type: 'string', enum: ['any', 'all'] },
+    seniorities: seniorities('Valores exatos da coluna seniority'),
+    areas: list('Valores exatos da coluna area'),
+    cities: list('Cidades exatas'),
+    states: list('Siglas de estado'),
+    locations: list('Locais como o recrutador escreveu'),
+    companies: list('Empresas atuais ou anteriores (texto livre)'),
+    education: list('Instituições ou cursos'),
+    certifications: list('Certificações'),
+    minYearsOfExperience: count('Mínimo de anos de experiência'),
+    maxYearsOfExperience: count('Máximo de anos de experiência'),
+    minYearsInCurrentRole: count('Mínimo de anos na posição atual'),
+    maxJobChanges: count('Máximo de trocas de empresa'),
+    sortBy: { type: 'string', enum: SORT_OPTIONS },
+    companyFilter: COMPANY_FILTER_SCHEMA,
+    exclusions: EXCLUSIONS_SCHEMA,
+  },
+  required: [],
+  additionalProperties: false,
+};
+
+export const SEARCH_PLAN_OUTPUT: StructuredOutput<SearchPlanDto> = {
+  name: 'search_plan',
+  description: 'Critérios de busca de candidatos e mensagem ao recrutador',
+  type: SearchPlanDto,
+  schema: {
+    type: 'object',
+    properties: {
+      assistantMessage: text('Mensagem conversacional para o recrutador'),
+      explanation: text('Explicação breve dos critérios aplicados'),
+      criteria: CRITERIA_SCHEMA,
+    },
+    required: ['assistantMessage', 'explanation', 'criteria'],
+    additionalProperties: false,
+  },
+};
+
+export const SQL_PLAN_OUTPUT: StructuredOutput<SqlPlanDto> = {
+  name: 'sql_plan',
+  description: 'Query SQL ClickHouse somente leitura',
+  type: SqlPlanDto,
+  schema: {
+    type: 'object',
+    properties: {
+      sql: text('SELECT ... FROM ... WHERE ... LIMIT ...'),
+      explanation: text('Explicação do que a query faz'),
+    },
+    required: ['sql', 'explanation'],
+    additionalProperties: false,
+  },
+};
+
+export const EXPORT_PLAN_OUTPUT: StructuredOutput<SqlPlanDto> = {
+  name: 'export_plan',
+  description: 'Query SQL ClickHouse para exportar os candidatos da busca',
+  type: SqlPlanDto,
+  schema: {
+    type: 'object',
+    properties: {
+      sql: text('SELECT ... FROM linkedin.people WHERE ... LIMIT ...'),
+      explanation: text('Explicação breve dos filtros'),
+    },
+    required: ['sql'],
+    additionalProperties: false,
+  },
+};
@@ -0,0 +1,233 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { QueryPlannerService } from './query-planner.service';
+import { SqlGuardService, UnsafeQueryError } from './sql-guard.service';
+import { CriteriaCompilerService } from './criteria-compiler.service';
+import { FeedbackInterpreterService } from './feedback-interpreter.service';
+import { ClickHouseService } from '../clickhouse/clickhouse.service';
+import { LLM_SERVICE } from '../llm/llm.service';
+import { FakeLlmService } from '../llm/fake-llm.service';
+import { StructuredOutputError } from '../llm/structured-output';
+import { CacheService } from '../cache/cache.service';
+import { CACHE_STORE } from '../cache/cache-store';
+import { MemoryCacheStore } from '../cache/memory-cache-store';
+
+describe('QueryPlannerService', () => {
+  let planner: QueryPlannerService;
+  const llm = new FakeLlmService();
+  const query = jest.fn();
+
+  beforeEach(async () => {
+    llm.reset();
+    query.mockReset();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        QueryPlannerService,
+        SqlGuardService,
+        CriteriaCompilerService,
+        FeedbackInterpreterService,
+        CacheService,
+        { provide: CACHE_STORE, useValue: new MemoryCacheStore(100) },
+        { provide: LLM_SERVICE, useValue: llm },
+        { provide: ClickHouseService, useValue: { query } },
+        { provide: ConfigService, useValue: new ConfigService({}) },
+      ],
+    }).compile();
+
+    planner = module.get<QueryPlannerService>(QueryPlannerService);
+  });
+
+  describe('planCriteria', () => {
+    it('should parse criteria wrapped in text and apply the learned feedback', async () => {
+      query.mockResolvedValue([
+        { profile_id: 'a', seniority: 'GERENTE' },
+        { profile_id: 'b', seniority: 'ESPECIALISTA' },
+      ]);
+      llm.reply(
+        'Aqui está:\n```json\n{"assistantMessage":"Ok!","criteria":{"roleTitles":["backend"]},"explanation":"Backend"}\n```',
+      );
+
+      const planned = await planner.planCriteria(
+        'backend',
+        [],
+        [
+          {
+            profileId: 'a',
+            profileName: 'A',
+            interesting: false,
+            reason: 'muito senior',
+          },
+          {
+            profileId: 'b',
+            profileName: 'B',
+            interesting: false,
+            reason: 'sênior demais',
+          },
+        ],
+      );
+
+      expect(planned.assistantMessage).toBe('Ok!');
+      expect(planned.criteria).toEqual({
+        roleTitles: ['backend'],
+        exclusions: {
+          seniorities: [
+            'ESPECIALISTA',
+            'SUPERVISOR',
+            'COORDENADOR',
+            'GERENTE',
+            'C-SUITE / DIRETOR',
+          ],
+        },
+      });
+      expect(planned.learnedPreferences).toEqual([
+        'evitar perfis mais seniores (ESPECIALISTA ou acima)',
+      ]);
+
+      const [{ messages }] = llm.requests;
+      expect(messages[0].content).toContain(
+        'OBRIGATÓRIO: evitar perfis mais seniores',
+      );
+      expect(messages[0].content).toContain(
+        'Os perfis já avaliados são excluídos automaticamente',
+      );
+    });
+
+    it('should stream the assistant message while the JSON is generated', async () => {
+      llm.reply({
+        chunks: [
+          '{"assistantMessage":"Encontrei ',
+          'tech leads","criteria":{"roleTitles":["tech lead"]},',
+          '"explanation":"x"}',
+        ],
+      });
+      const tokens: string[] = [];
+
+      const planned = await planner.planCriteria(
+        'tech leads',
+        [],
+        [],
+        undefined,
+        {
+          onToken: (delta) => tokens.push(delta),
+        },
+      );
+
+      expect(tokens.join('')).toBe('Encontrei tech leads');
+      expect(planned.criteria).toEqual({ roleTitles: ['tech lead'] });
+      expect(llm.requests[0]).toMatchObject({
+        task: 'sql_planning',
+        responseFormat: 'json',
+        responseSchema: { name: 'search_plan' },
+      });
+    });
+
+    it('should reuse the plan for the same normalized prompt and criteria', async () => {
+      const plan =
+        '{"assistantMessage":"Ok!","criteria":{"roleTitles":["sre"]},"explanation":"SRE"}';
+      llm.reply(plan, plan);
+      const tokens: string[] = [];
+
+      const first = await planner.planCriteria('SRE  em Recife ');
+      const second = await planner.planCriteria(
+        'sre em recife',
+        [],
+        [],
+        undefined,
+        {
+          onToken: (delta) => tokens.push(delta),
+        },
+      );
+      const other = await planner.planCriteria('sre em recife', [], [], {
+        roleTitles: ['backend'],
+      });
+
+      expect(llm.requests).toHaveLength(2);
+      expect([first.cache, second.cache, other.cache]).toEqual([
+        'miss',
+        'hit',
+        'miss',
+      ]);
+      expect(second.criteria).toEqual({ roleTitles: ['sre'] });
+      expect(tokens.join('')).toBe('Ok!');
+    });
+
+    it('should send the validation errors back to the model and use the repaired plan', async () => {
+      llm.reply(
+        '{"assistantMessage":"Ok!","criteria":{"seniorities":["SENIOR"]},"explanation":"x"}',
+        '{"assistantMessage":"Ok!","criteria":{"seniorities":["ESPECIALISTA"]},"explanation":"x"}',
+      );
+
+      const planned = await planner.planCriteria('seniores');
+
+      expect(planned.criteria).toEqual({ seniorities: ['ESPECIALISTA'] });
+      expect(llm.requests).toHaveLength(2);
+      const { messages } = llm.requests[1];
+      expect(messages[messages.length - 1].content).toContain(
+        'criteria.seniorities: each value in seniorities must be one of the following values',
+      );
+    });
+
+    it('should fail when the model returns an empty response', async () => {
+      llm.reply('  ', '', ' ');
+
+      await expect(planner.planCriteria('backend')).rejects.toThrow(
+        StructuredOutputError,
+      );
+      expect(llm.requests).toHaveLength(3);
+    });
+  });
+
+  describe('execute', () => {
+    it('should run guarded SQL with readonly settings and count totals', async () => {
+      query.mockResolvedValueOnce([{ profile_id: 'a' }]);
+      query.mockResolvedValueOnce([{ total: '42' }]);
+
+      const executed = await planner.execute(
+        'SELECT profile_id FROM linkedin.people',
+        100,
+      );
+      const total = await planner.count(
+        'SELECT count() AS total FROM linkedin.people',
+      );
+
+      expect(executed.sql).toMatch(/LIMIT 100$/);
+      expect(executed.data).toEqual([{ profile_id: 'a' }]);
+      expect(total).toBe(42);
+      const [[call]] = query.mock.calls as [[{ settings: object }]];
+      expect(call.settings).toMatchObject({ readonly: '2' });
+    });
+
+    it('should serve repeated queries from the result cache', async () => {
+      query.mockResolvedValue([{ profile_id: 'a' }]);
+      const rows: unknown[] = [];
+
+      const first = await planner.execute(
+        'SELECT profile_id FROM linkedin.people WHERE city = {p0:String}',
+        100,
+        { params: { p0: 'RECIFE' } },
+      );
+      const second = await planner.execute(
+        'SELECT profile_id\nFROM linkedin.people\nWHERE city = {p0:String}',
+        100,
+        { params: { p0: 'RECIFE' }, onRow: (row) => rows.push(row) },
+      );
+      await planner.execute(
+        'SELECT profile_id FROM linkedin.people WHERE city = {p0:String}',
+        100,
+        { params: { p0: 'RECIFE ' } },
+      );
+
+      expect(query).toHaveBeenCalledTimes(2);
+      expect([first.cache, second.cache]).toEqual(['miss', 'hit']);
+      expect(rows).toEqual([{ profile_id: 'a' }]);
+    });
+
+    it('should reject SQL planned by the model that is not read-only', async () => {
+      await expect(
+        planner.execute('DROP TABLE linkedin.people', 100),
+      ).rejects.toThrow(UnsafeQueryError);
+      expect(query).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,816 @@
+import { Injectable, Inject, Logger } from '@nestjs/common';
+import { LLM_SERVICE } from '../llm/llm.service';
+import type { LlmMessage, LlmService, LlmTask } from '../llm/llm.service';
+import { StructuredOutput, completeStructured } from '../llm/structured-output';
+import { ClickHouseService } from '../clickhouse/clickhouse.service';
+import { MessageDto, ProfileFeedbackDto } from './dto/query.dto';
+import { SqlGuardService } from './sql-guard.service';
+import {
+  CriteriaCompilerService,
+  SearchCriteria,
+} from './criteria-compiler.service';
+import {
+  FeedbackInterpreterService,
+  FeedbackLearning,
+  FeedbackProfile,
+} from './feedback-interpreter.service';
+import { JsonFieldStreamer } from './json-field-streamer';
+import {
+  EXPORT_PLAN_OUTPUT,
+  SEARCH_PLAN_OUTPUT,
+  SQL_PLAN_OUTPUT,
+} from './planner-outputs';
+import { EXPERIENCE_METRICS_TABLE } from '../profiles/experience-metrics';
+import { COMPANIES_TABLE, COMPANY_HISTORY_TABLE } from '../companies/companies';
+import {
+  CacheLookup,
+  CacheService,
+  CacheStatus,
+  normalizePrompt,
+  normalizeSql,
+} from '../cache/cache.service';
+
+export interface PlannedCriteria {
+  criteria: SearchCriteria;
+  explanation: string;
+  assistantMessage: string;
+  /** Ajustes aprendidos com o feedback e aplicados aos critérios */
+  learnedPreferences: string[];
+  /** Se a resposta do modelo veio do cache de planos */
+  cache: CacheStatus;
+}
+
+export interface PlannedSql {
+  sql: string;
+  explanation: string;
+  cache: CacheStatus;
+}
+
+export interface PlanningOptions {
+  /** Recebe os trechos da mensagem do assistente conforme são gerados */
+  onToken?: (delta: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface ExecuteOptions<T> {
+  params?: Record<string, unknown>;
+  /** Recebe as linhas conforme chegam do ClickHouse */
+  onRow?: (row: T) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Perfil marcado como interessante, detalhado no prompt para extrair padrões
+ */
+interface InterestingProfileRow {
+  profile_id: string;
+  full_name: string;
+  headline: string;
+  current_job_title: string;
+  current_company: string;
+  seniority: string;
+  area: string;
+  macroarea: string;
+  city: string;
+  state: string;
+  experience: string;
+  education: string;
+  certifications: string;
+}
+
+/**
+ * Pipeline único de planejamento de buscas: monta o prompt (schema, feedback,
+ * histórico), chama o modelo, interpreta a resposta, valida a SQL e executa.
+ * Todos os fluxos (chat, exportações e queries avulsas) passam por aqui.
+ */
+@Injectable()
+export class QueryPlannerService {
+  private readonly logger = new Logger(QueryPlannerService.name);
+
+  constructor(
+    @Inject(LLM_SERVICE) private readonly llm: LlmService,
+    private readonly clickhouseService: ClickHouseService,
+    private readonly sqlGuard: SqlGuardService,
+    private readonly criteriaCompiler: CriteriaCompilerService,
+    private readonly feedbackInterpreter: FeedbackInterpreterService,
+    private readonly cache: CacheService,
+  ) {}
+
+  /**
+   * Interpreta a mensagem do recrutador como critérios estruturados,
+   * considerando histórico, critérios atuais e feedback
+   */
+  async planCriteria(
+    message: string,
+    conversationHistory: MessageDto[] = [],
+    profileFeedback: ProfileFeedbackDto[] = [],
+    currentCriteria?: SearchCriteria,
+    options: PlanningOptions = {},
+  ): Promise<PlannedCriteria> {
+    // Interpreta os motivos dos feedbacks em ajustes de preferência
+    const learning = await this.learnFromFeedback(profileFeedback);
+    const feedbackContext = await this.buildFeedbackContext(
+      profileFeedback,
+      learning,
+    );
+
+    // Gera resumo de contexto se histórico está ficando grande (>6 mensagens)
+    let contextSummary = '';
+    if (conversationHistory.length > 6) {
+      contextSummary = await this.summarizeSearchContext(
+        conversationHistory,
+        profileFeedback,
+      );
+    }
+
+    const systemPrompt = `${this.getSchemaContext()}
+${feedbackContext}${profileFeedback.length > 0 ? '\n⚠️ Os perfis já avaliados são excluídos automaticamente dos resultados.' : ''}
+${contextSummary ? `\n\n=== RESUMO DO CONTEXTO DA CONVERSA ===\n${contextSummary}\n` : ''}
+${currentCriteria ? `\n\n=== CRITÉRIOS ATUAIS DA BUSCA ===\n${JSON.stringify({ ...currentCriteria, companyVariants: undefined }, null, 2)}\n` : ''}
+
+Você é um assistente de RECRUTAMENTO especializado em ajudar recrutadores a encontrar candidatos ideais.
+
+Seu trabalho é:
+1. Entender o que o recrutador está buscando através da conversa
+2. Traduzir o pedido em critérios de busca estruturados
+3. Aprender com o feedback (perfis interessantes vs não interessantes) para refinar as buscas
+4. Sugerir refinamentos e fazer perguntas para entender melhor o perfil desejado
+5. MANTER CONTEXTO de critérios importantes mencionados anteriormente (cargo, senioridade, localização, tecnologias, etc)
+
+Responda SEMPRE em formato JSON válido com a seguinte estrutura:
+{
+  "assistantMessage": "Mensagem conversacional para o recrutador explicando os resultados e/ou fazendo perguntas para refinar",
+  "explanation": "Explicação breve dos critérios aplicados",
+  "criteria": {
+    "roleTitles": ["cargos ATUAIS desejados (ex: tech lead, product manager)"],
+    "skills": ["tecnologias/habilidades buscadas em headline, about_me, experience e cargo"],
+    "skillsMatch": "any" (qualquer habilidade) ou "all" (todas),
+    "seniorities": ["valores exatos da coluna seniority"],
+    "areas": ["valores exatos da coluna area"],
+    "locations": ["locais como o recrutador escreveu (ex: Curitiba, Grande SP, Floripa, SC, remoto)"],
+    "companies": ["empresas atuais ou anteriores (texto livre no histórico)"],
+    "companyFilter": {
+      "names": ["empresas exatas (ex: Nubank)"],
+      "groups": ["big four", "mbb", "big tech" ou "bancos tradicionais"],
+      "industries": ["setores de linkedin.companies.industry (ex: financial services, fintech)"],
+      "minEmployees": número mínimo de funcionários da empresa,
+      "maxEmployees": número máximo de funcionários da empresa,
+      "period": "current" (empresa atual, padrão), "past" (ex-funcionários) ou "any"
+    },
+    "education": ["instituições ou cursos"],
+    "certifications": ["certificações"],
+    "minYearsOfExperience": número mínimo de anos de experiência profissional,
+    "maxYearsOfExperience": número máximo de anos de experiência profissional,
+    "minYearsInCurrentRole": número mínimo de anos na posição atual,
+    "maxJobChanges": número máximo de trocas de empresa,
+    "sortBy": "experience" (mais experientes primeiro) ou "current_role" (mais tempo na posição atual),
+    "exclusions": {
+      "keywords": ["termos que NÃO devem aparecer no headline/cargo"],
+      "companies": ["empresas atuais a excluir"],
+      "seniorities": ["senioridades a excluir"],
+      "areas": ["áreas a excluir"],
+      "cities": ["cidades a excluir"]
+    }
+  }
+}
+
+A SQL é gerada automaticamente a partir de "criteria" - NÃO escreva SQL.
+Mantenha a ordem dos campos: assistantMessage primeiro (ele é exibido ao recrutador enquanto é gerado).
+
+Regras IMPORTANTES:
+- Omita os campos de criteria que não foram pedidos (não envie listas vazias)
+- Valores de uma mesma lista são combinados com OR; campos diferentes são combinados com AND
+- "criteria" deve ser COMPLETO e CUMULATIVO: MANTENHA os critérios das mensagens anteriores (cargo, senioridade, localização, etc) e ADICIONE ou REFINE com a nova solicitação
+- Se o recrutador pedir para remover um critério, remova-o de criteria
+- Localização vai em locations, do jeito que o recrutador escreveu: cidades, siglas de estado, apelidos ("Floripa", "BH") e regiões ("Grande SP", "ABC") são convertidos automaticamente. Se o recrutador aceitar qualquer local ou trabalho remoto, use ["remoto"]
+- Setor, porte ou grupo de empresa ("em fintechs de 200 a 1000 funcionários", "ex-Big Four") vai em companyFilter - ele é resolvido pelo ID da empresa. Use period "past" para "ex-" e "já trabalhou em"
+- Tempo de experiência ("5+ anos de experiência", "pelo menos 2 anos na empresa atual", "não troca muito de emprego") vai em minYearsOfExperience/maxYearsOfExperience/minYearsInCurrentRole/maxJobChanges - NÃO use skills ou seniorities para isso
+- Seja conversacional e proativo - sugira refinamentos baseado no feedback
+- Pergunte sobre critérios que podem ajudar: senioridade, localização, tecnologias específicas, tipo de empresa, etc.
+- **CRÍTICO**: Use os motivos (reason) dos feedbacks NEGATIVOS para EVITAR trazer perfis similares aos rejeitados
+
+🚨 ATENÇÃO MÁXIMA ÀS PREFERÊNCIAS APRENDIDAS:
+- Se houver PREFERÊNCIAS APRENDIDAS COM O FEEDBACK listadas acima, as marcadas como OBRIGATÓRIO DEVEM estar em criteria
+- Elas são baseadas em padrões repetidos nos feedbacks do recrutador
+- As marcadas como CONSIDERE são sinais mais fracos: use-as para sugerir refinamentos
+
+REGRA CRÍTICA PARA CARGOS ESPECÍFICOS:
+- Quando o usuário busca um cargo específico (ex: "Tech Lead", "Product Manager", "Data Scientist"), use roleTitles - ele é aplicado sobre o cargo ATUAL
+- Se o usuário pede "Tech Lead", ele quer pessoas que SÃO Tech Leads HOJE, não CTOs ou VPs - não adicione seniorities de liderança nesse caso
+- NÃO liste variações de escrita, traduções ou siglas (back-end, cientista de dados, PM, K8s): cargos e habilidades conhecidos são expandidos automaticamente. Use uma entrada por cargo/habilidade
+- Senioridade escrita no cargo ("Backend Sênior", "Sr. PM") pode ficar em roleTitles - ela é exigida no cargo atual
+
+EXEMPLOS DE CRITÉRIOS:
+- "Tech Leads em Curitiba" → {"roleTitles": ["tech lead"], "locations": ["Curitiba"]}
+- "Product Managers em SP" → {"roleTitles": ["product manager"], "locations": ["Grande SP"]}
+- "Backend com experiência em fintechs" → {"roleTitles": ["backend"], "companyFilter": {"industries": ["fintech", "financial services"], "period": "any"}}
+- "Pessoas em fintechs com 200 a 1000 funcionários" → {"companyFilter": {"industries": ["fintech", "financial services"], "minEmployees": 200, "maxEmployees": 1000}}
+- "Auditores ex-Big Four" → {"roleTitles": ["auditor"], "companyFilter": {"groups": ["big four"], "period": "past"}}
+
+ESTRATÉGIA PARA EVITAR RESULTADOS VAZIOS:
+- NUNCA combine muitos filtros restritivos de uma vez (área AND formação AND senioridade AND localização)
+- Use OR entre critérios alternativos em vez de AND quando possível
+- PRIORIZE critérios: cargo/headline > experiência > área classificada > formação > localização
+- Se o recrutador pedir muitos critérios, comece pelos mais importantes e avise que pode refinar depois
+- Prefira roleTitles/skills com termos amplos antes de usar campos classificados exatos
+- Campos classificados (area, macroarea, seniority) são úteis mas MUITO restritivos - use com cuidado
+- Só use education quando o recrutador exigir formação específica
+- Formação em education é texto livre - muitos perfis não têm essa informação preenchida
+
+Na assistantMessage, sempre informe:
+- Quantos critérios foram aplicados e quais
+- Se algum critério foi relaxado para encontrar resultados
+- Sugestões de como refinar a busca
+
+Não inclua texto antes ou depois do JSON. Não use markdown code blocks.`;
+
+    this.logger.debug(`Histórico: ${conversationHistory.length} mensagens`);
+    this.logger.debug(`Feedback: ${profileFeedback.length} perfis avaliados`);
+
+    // Se histórico é muito grande, usa apenas as últimas 8 mensagens + resumo no system prompt
+    const messages = this.buildMessages(
+      systemPrompt,
+      conversationHistory.slice(-8),
+      message,
+    );
+
+    // A assistantMessage é o primeiro campo do JSON e pode ser exibida enquanto é gerada
+    const assistantMessage = new JsonFieldStreamer('assistantMessage');
+    const onToken = options.onToken;
+    const completion = await this.complete(
+      'sql_planning',
+      messages,
+      SEARCH_PLAN_OUTPUT,
+      {
+        signal: options.signal,
+        onDelta: onToken
+          ? (delta) => {
+              const text = assistantMessage.push(delta);
+              if (text) onToken(text);
+            }
+          : undefined,
+      },
+    );
+    const parsed = completion.value;
+    if (completion.status === 'hit') onToken?.(parsed.assistantMessage);
+
+    // Garante os ajustes do feedback mesmo que o modelo os tenha ignorado
+    const adjusted = this.feedbackInterpreter.apply(
+      this.criteriaCompiler.normalize(parsed.criteria),
+      learning,
+    );
+
+    return {
+      criteria: adjusted.criteria,
+      explanation: parsed.explanation,
+      assistantMessage: parsed.assistantMessage,
+      learnedPreferences: adjusted.learning.adjustments
+        .filter((adjustment) => adjustment.applied)
+        .map((adjustment) => adjustment.description),
+      cache: completion.status,
+    };
+  }
+
+  /**
+   * Converte uma pergunta avulsa em SQL (sem histórico)
+   */
+  async planSql(
+    naturalLanguageQuery: string,
+    options: { detailedExplanation?: boolean } = {},
+  ): Promise<PlannedSql> {
+    const systemPrompt = `${this.getSchemaContext()}
+
+Você é um assistente especializado em converter perguntas em linguagem natural para queries SQL ClickHouse.
+
+Responda APENAS em formato JSON válido com a seguinte estrutura:
+{
+  "sql": "SELECT ... FROM ... WHERE ... LIMIT ...",
+  "explanation": "${options.detailedExplanation ? 'Explicação detalhada do que a query faz e por que foi construída dessa forma' : 'Explicação breve do que a query faz'}"
+}
+
+Não inclua nenhum texto antes ou depois do JSON.
+Não use markdown code blocks.
+A query deve ser segura e apenas de leitura (SELECT).`;
+
+    const completion = await this.complete(
+      'sql_planning',
+      this.buildMessages(systemPrompt, [], naturalLanguageQuery),
+      SQL_PLAN_OUTPUT,
+    );
+    const { sql, explanation } = completion.value;
+    return { sql, explanation: explanation || '', cache: completion.status };
+  }
+
+  /**
+   * Gera a SQL de exportação a partir do histórico da conversa (fluxo sem sessão)
+   */
+  async planExportSql(
+    conversationHistory: MessageDto[],
+    profileFeedback: ProfileFeedbackDto[],
+    options: { maxRows: number; excludeNotInteresting: boolean },
+  ): Promise<string> {
+    const feedbackContext = await this.buildFeedbackContext(
+      profileFeedback,
+      await this.learnFromFeedback(profileFeedback),
+    );
+
+    const systemPrompt = `${this.getSchemaContext()}${feedbackContext}
+
+Você é um assistente de RECRUTAMENTO. Com base no histórico da conversa, gere uma query SQL ClickHouse para exportar TODOS os candidatos que atendem aos critérios (LIMITADO A ${options.maxRows} resultados).
+
+Responda APENAS em formato JSON válido:
+{
+  "sql": "SELECT profile_id, full_name, headline, current_job_title, current_company, seniority, area, city, state, profile_url FROM linkedin.people WHERE ... LIMIT ${options.maxRows}"
+}
+
+Regras:
+- Inclua: profile_id, full_name, headline, current_job_title, current_company, seniority, area, city, state, profile_url
+- LIMITE A ${options.maxRows} RESULTADOS (LIMIT ${options.maxRows})
+${options.excludeNotInteresting ? '- Se houver perfis não interessantes, exclua-os ou perfis similares' : '- NÃO exclua perfis não interessantes do resultado - queremos todos que atendem ao filtro'}
+- Baseie-se nos critérios da conversa e no feedback
+
+Não inclua texto antes ou depois do JSON.`;
+
+    const completion = await this.complete(
+      'sql_planning',
+      this.buildMessages(
+        systemPrompt,
+        conversationHistory,
+        'Gere a query para exportar TODOS os candidatos que atendem aos critérios da busca.',
+      ),
+      EXPORT_PLAN_OUTPUT,
+    );
+    return completion.value.sql;
+  }
+
+  /**
+   * Valida a SQL (escrita pelo modelo ou compilada dos critérios) e executa
+   * em modo somente leitura, passando pelo cache de resultados (chave: SQL
+   * normalizada e parâmetros).
+   * Retorna a SQL efetivamente executada (com LIMIT aplicado).
+   */
+  async execute<T>(
+    sql: string,
+    maxRows: number,
+    options: ExecuteOptions<T> = {},
+  ): Promise<{ sql: string; data: T[]; cache: CacheStatus }> {
+    const guarded = this.sqlGuard.validate(sql, { maxLimit: maxRows });
+    const query = {
+      query: guarded.sql,
+      params: options.params,
+      settings: guarded.settings,
+      abortSignal: options.signal,
+    };
+    const { onRow } = options;
+
+    const { value: data, status } = await this.cache.wrap(
+      'results',
+      { sql: normalizeSql(guarded.sql), params: options.params },
+      async () => {
+        if (!onRow) return this.clickhouseService.query<T>(query);
+
+        // Entrega as linhas conforme chegam do ClickHouse
+        const rows: T[] = [];
+        for await (const row of this.clickhouseService.stream<T>(query)) {
+          rows.push(row);
+          onRow(row);
+        }
+        return rows;
+      },
+    );
+    if (status === 'hit' && onRow) data.forEach((row) => onRow(row));
+
+    return { sql: guarded.sql, data, cache: status };
+  }
+
+  /**
+   * Executa uma query de contagem (SELECT count() AS total ...)
+   */
+  async count(
+    countSql: string,
+    options: { params?: Record<string, unknown>; signal?: AbortSignal } = {},
+  ): Promise<number> {
+    const { data } = await this.execute<{ total: number }>(
+      countSql,
+      1,
+      options,
+    );
+    return Number(data[0]?.total ?? 0);
+  }
+
+  /**
+   * Chama o modelo da tarefa e retorna a resposta validada no formato de
+   * output (com reparo, ver completeStructured). Com onDelta, usa o modo
+   * stream e repassa cada trecho conforme é gerado. Respostas para o mesmo
+   * prompt normalizado vêm do cache de planos (sem passar por onDelta).
+   */
+  private async complete<T extends object>(
+    task: LlmTask,
+    messages: LlmMessage[],
+    output: StructuredOutput<T>,
+    options: { onDelta?: (delta: string) => void; signal?: AbortSignal } = {},
+  ): Promise<CacheLookup<T>> {
+    const model = this.llm.modelFor(task);
+    return this.cache.wrap(
+      'plans',
+      {
+        provider: this.llm.provider,
+        model,
+        output: output.name,
+        messages: this.promptKey(messages),
+      },
+      async () => {
+        const { value, attempts } = await completeStructured(
+          this.llm,
+          { task, messages, onDelta: options.onDelta, signal: options.signal },
+          output,
+        );
+        if (attempts > 1) {
+          this.logger.warn(
+            `Resposta do modelo (${model}) corrigida após ${attempts} tentativas (${output.name})`,
+          );
+        }
+        this.logger.debug(
+          `Resposta do modelo (${model}): ${JSON.stringify(value)}`,
+        );
+        return value;
+      },
+    );
+  }
+
+  /**
+   * Mensagens sem diferenças de caixa e espaços, para a chave do cache
+   */
+  private promptKey(messages: LlmMessage[]): LlmMessage[] {
+    return messages.map((message) => ({
+      role: message.role,
+      content: normalizePrompt(message.content),
+    }));
+  }
+
+  private buildMessages(
+    systemPrompt: string,
+    conversationHistory: MessageDto[],
+    message: string,
+  ): LlmMessage[] {
+    return [
+      { role: 'system', content: systemPrompt },
+      ...conversationHistory.map((msg) => ({
+        role: msg.role,
+        content: msg.content,
+      })),
+      { role: 'user', content: message },
+    ];
+  }
+
+  /**
+   * Contexto de feedback do recrutador: perfis avaliados, padrões dos perfis
+   * interessantes e filtros obrigatórios
+   */
+  private async buildFeedbackContext(
+    profileFeedback: ProfileFeedbackDto[],
+    learning: FeedbackLearning,
+  ): Promise<string> {
+    let feedbackContext = '';
+    if (profileFeedback.length > 0) {
+      const interesting = profileFeedback.filter((f) => f.interesting);
+      const notInteresting = profileFeedback.filter((f) => !f.interesting);
+
+      if (interesting.length > 0) {
+        feedbackContext += `\n\n✅ PERFIS MARCADOS COMO INTERESSANTES pelo recrutador:\n`;
+        interesting.forEach((f) => {
+          feedbackContext += `- ${f.profileName} (ID: ${f.profileId})${f.reason ? ` - Motivo: ${f.reason}` : ''}\n`;
+        });
+
+        // Busca informações detalhadas dos perfis interessantes para extrair padrões
+        if (interesting.length >= 2) {
+          try {
+            const profileDetails =
+              await this.clickhouseService.query<InterestingProfileRow>({
+                query: `SELECT profile_id, full_name, headline, current_job_title, current_company,
+                      seniority, area, macroarea, city, state,
+                      experience, education, certifications
+               FROM linkedin.people
+               WHERE profile_id IN {profileIds:Array(String)}
+               LIMIT 10`,
+                params: { profileIds: interesting.map((f) => f.profileId) },
+                settings: this.sqlGuard.getReadonlySettings(10),
+              });
+
+            if (profileDetails.length > 0) {
+              feedbackContext += `\n\nDETALHES DOS PERFIS INTERESSANTES (use para encontrar padrões):\n`;
+              profileDetails.forEach((p) => {
+                feedbackContext += `\n${p.full_name}:\n`;
+                feedbackContext += `  - Cargo: ${p.current_job_title || 'N/A'}\n`;
+                feedbackContext += `  - Empresa: ${p.current_company || 'N/A'}\n`;
+                feedbackContext += `  - Senioridade: ${p.seniority || 'N/A'}\n`;
+                feedbackContext += `  - Área: ${p.area || 'N/A'}\n`;
+                feedbackContext += `  - Localização: ${p.city}, ${p.state}\n`;
+                if (p.experience) {
+                  const exp = String(p.experience).substring(0, 200);
+                  feedbackContext += `  - Experiência prévia: ${exp}...\n`;
+                }
+              });
+
+              feedbackContext += `\n📊 ANALISE ESTES PERFIS para identificar padrões comuns:\n`;
+              feedbackContext += `- Quais tecnologias/habilidades aparecem em comum?\n`;
+              feedbackContext += `- Quais tipos de empresa têm experiência?\n`;
+              feedbackContext += `- Qual é o perfil de senioridade mais comum?\n`;
+              feedbackContext += `- Use esses padrões para refinar a busca e encontrar candidatos similares\n`;
+            }
+          } catch (error) {
+            this.logger.warn(`Erro ao buscar detalhes dos perfis: ${error}`);
+          }
+        }
+      }
+
+      if (notInteresting.length > 0) {
+        feedbackContext += `\n\n❌ PERFIS MARCADOS COMO NÃO INTERESSANTES pelo recrutador:\n`;
+        notInteresting.forEach((f) => {
+          feedbackContext += `- ${f.profileName} (ID: ${f.profileId})${f.reason ? ` - Motivo: ${f.reason}` : ''}\n`;
+        });
+      }
+
+      feedbackContext += `\n💡 Use o feedback e os padrões identificados para refinar a query e encontrar candidatos mais alinhados.`;
+
+      // Adiciona as preferências aprendidas com os motivos
+      feedbackContext += this.feedbackInterpreter.toPromptContext(learning);
+    }
+
+    return feedbackContext;
+  }
+
+  /**
+   * Sumariza o contexto da conversa para manter critérios importantes
+   * quando o histórico fica muito grande
+   */
+  private async summarizeSearchContext(
+    conversationHistory: MessageDto[],
+    profileFeedback: ProfileFeedbackDto[],
+  ): Promise<string> {
+    // Pega apenas mensagens do usuário para entender critérios
+    const userMessages = conversationHistory
+      .filter((m) => m.role === 'user')
+      .map((m) => m.content)
+      .join('\n');
+
+    const summaryMessages: LlmMessage[] = [
+      {
+        role: 'system',
+        content: `Você é um assistente que extrai e sumariza critérios de busca de candidatos.
+        
+Analise o histórico de mensagens e extraia:
+1. Cargo/função desejada
+2. Senioridade (se mencionada)
+3. Localização (cidade/estado)
+4. Tecnologias/habilidades específicas
+5. Tipo de empresa ou experiência prévia
+6. Formação acadêmica
+7. Qualquer outro critério importante mencionado
+
+Retorne em formato estruturado e conciso, apenas os critérios que foram EFETIVAMENTE mencionados.
+Exemplo:
+- Cargo: Tech Lead / Engineering Manager
+- Senioridade: Senior ou acima
+- Localização: Curitiba, PR
+- Tecnologias: Python, React, AWS
+- Experiência: Fintech ou startups de tecnologia`,
+      },
+      {
+        role: 'user',
+        content: `Histórico de buscas do recrutador:\n${userMessages}\n\nExtraia e resuma os critérios de busca atuais.`,
+      },
+    ];
+
+    try {
+      const { value: summary } = await this.cache.wrap(
+        'plans',
+        {
+          provider: this.llm.provider,
+          model: this.llm.modelFor('summarization'),
+          messages: this.promptKey(summaryMessages),
+          maxTokens: 300,
+        },
+        async () => {
+          const response = await this.llm.chat({
+            task: 'summarization',
+            messages: summaryMessages,
+            maxTokens: 300,
+          });
+          return response.content;
+        },
+      );
+
+      // Adiciona informações dos feedbacks ao resumo
+      if (profileFeedback.length > 0) {
+        const interesting = profileFeedback.filter((f) => f.interesting);
+        const patterns: string[] = [];
+
+        if (interesting.length > 0) {
+          patterns.push(
+            `Perfis marcados como interessantes: ${interesting.length}`,
+          );
+          const withReasons = interesting.filter((f) => f.reason);
+          if (withReasons.length > 0) {
+            patterns.push(
+              `Padrões valorizados: ${withReasons.map((f) => f.reason).join(', ')}`,
+            );
+          }
+        }
+
+        if (patterns.length > 0) {
+          return `${summary}\n\nFeedback do recrutador:\n${patterns.join('\n')}`;
+        }
+      }
+
+      return summary;
+    } catch (error) {
+      this.logger.warn(`Erro ao sumarizar contexto: ${error}`);
+      return '';
+    }
+  }
+
+  /**
+   * Interpreta os motivos dos feedbacks, usando senioridade, área e cidade
+   * dos perfis avaliados para concretizar os ajustes
+   */
+  private async learnFromFeedback(
+    profileFeedback: ProfileFeedbackDto[],
+  ): Promise<FeedbackLearning> {
+    const withReason = profileFeedback.filter(
+      (f) => !f.interesting && f.reason?.trim(),
+    );
+    const profiles: Record<string, FeedbackProfile> = {};
+
+    if (withReason.length > 0) {
+      try {
+        const rows = await this.clickhouseService.query<
+          FeedbackProfile & { profile_id: string }
+        >({
+          query: `SELECT profile_id, seniority, area, city
+                  FROM linkedin.people
+                  WHERE profile_id IN {profileIds:Array(String)}`,
+          params: { profileIds: withReason.map((f) => f.profileId) },
+          settings: this.sqlGuard.getReadonlySettings(withReason.length),
+        });
+        rows.forEach(({ profile_id, ...profile }) => {
+          profiles[profile_id] = profile;
+        });
+      } catch (error) {
+        this.logger.warn(`Erro ao buscar perfis avaliados: ${error}`);
+      }
+    }
+
+    const learning = this.feedbackInterpreter.interpret(
+      profileFeedback,
+      profiles,
+    );
+    if (learning.adjustments.length > 0) {
+      this.logger.log(
+        `Feedback interpretado: ${learning.adjustments.map((a) => `${a.description} (${a.weight})`).join(', ')}`,
+      );
+    }
+    return learning;
+  }
+
+  private getSchemaContext(): string {
+    // Definição das tabelas de pessoas e empresas do LinkedIn
+    return `
+Você tem acesso a um banco de dados ClickHouse com dados do LinkedIn.
+Este é um agente de RECRUTAMENTO - foque em encontrar candidatos ideais baseado em habilidades, experiência, formação e perfil profissional.
+
+=== TABELA PRINCIPAL: linkedin.people ===
+
+Descrição: Tabela de perfis de usuários do LinkedIn para análise e segmentação de profissionais para fins de recrutamento, prospecção e inteligência de mercado.
+
+COLUNAS:
+- profile_id (String) - Identificador interno único do perfil (CHAVE PRIMÁRIA LÓGICA - use sempre como identificador estável)
+- profile_public_id (String) - Identificador público único do perfil no LinkedIn (pode mudar com renomeações)
+- first_name (String) - Primeiro nome do profissional
+- last_name (String) - Sobrenome do profissional
+- full_name (String) - Nome completo exibido no perfil
+- headline (String) - Título profissional exibido abaixo do nome (IMPORTANTE para buscar cargos e especialidades)
+- about_me (String) - Resumo textual sobre o profissional (pode ser nulo/vazio - normalize e use ILIKE)
+- profile_url (String) - URL pública do perfil no LinkedIn
+- profile_image_url (String) - URL da foto principal do perfil (pode estar vazia - use apenas para enriquecimento visual)
+- current_job_title (String) - Cargo atual principal informado no perfil
+- current_company (String) - Nome da empresa atual principal (pode ser inconsistente - escrito à mão sem ID)
+- current_company_url (String) - URL pública da página da empresa atual
+- current_company_public_id (String) - Identificador público da empresa no LinkedIn
+- current_company_id (Int64) - Identificador interno da empresa (PREFIRA para joins determinísticos)
+- current_company_logo_url (String) - URL do logo da empresa atual
+
+CLASSIFICAÇÕES DE ÁREA:
+- macroarea (String) - Macroárea funcional classificada
+  Valores: ADMINISTRACAO, ENGENHARIA E CONSTRUCAO, MARKETING E VENDAS, N/A, OPERACOES E INDUSTRIA, TECNOLOGIA, DADOS E PRODUTOS
+- area (String) - Área funcional específica classificada
+  Valores: ADMINISTRATIVO, ATENDIMENTO AO CLIENTE, AUDITORIA, COMPLIANCE, COMPRAS, CONSELHO, CONSTRUCAO, CONSULTORIA, CONTABILIDADE, CONTROLADORIA, CYBERSEGURANCA, DADOS, DESENVOLVIMENTO, DESIGN, ENGENHARIA, FINANCEIRO, INDUSTRIAL, INFRAESTRUTURA, INOVACAO, INTELIGENCIA DE MERCADO, JURIDICO, LOGISTICA, MANUTENCAO, MARKETING, N/A, NOVOS NEGOCIOS, OPERACOES, PLANEJAMENTO E PERFORMANCE, PLANEJAMENTO FINANCEIRO, PRESIDENCIA, PRODUTOS, QUALIDADE, RECURSOS HUMANOS, SAUDE, SEGURANCA E MEIO AMBIENTE, SOCIO, SUPORTE, TECNOLOGIA, TRANSPORTES, VENDAS
+- area_probability (Float64) - Probabilidade associada à classificação da área
+
+SENIORIDADE:
+- seniority (String) - Nível de senioridade classificado
+  Valores: ANALISTA, C-SUITE / DIRETOR, COORDENADOR, ESPECIALISTA, ESTAGIARIO / TRAINEE, GERENTE, OUTROS, SUPERVISOR
+- seniority_order (Int32) - Ordem hierárquica numérica da senioridade (maior = mais senior)
+- seniority_probability (Float64) - Probabilidade associada à classificação
+
+LOCALIZAÇÃO:
+- city (String) - Cidade em MAIÚSCULAS (ex: SAO PAULO, CAMPINAS, RIO DE JANEIRO)
+- state (String) - Estado em MAIÚSCULAS (ex: SAO PAULO, RIO DE JANEIRO, MINAS GERAIS, PARANA, SANTA CATARINA)
+- country (String) - País (valor: BRASIL)
+
+HISTÓRICO PROFISSIONAL:
+- experience (String) - Histórico de experiências profissionais (JSON/texto estruturado) - MUITO IMPORTANTE para buscar experiência em empresas/tecnologias
+- education (String) - Histórico de formação acadêmica (JSON/texto estruturado) - para filtrar universidade/curso
+- certifications (String) - Lista de certificações profissionais (AWS, Google, Microsoft, etc)
+- updated_at (String) - Data da última atualização (formato: YYYY-MM-DD)
+
+=== TABELA DE MÉTRICAS: ${EXPERIENCE_METRICS_TABLE} ===
+
+Métricas calculadas a partir de experience (uma linha por profile_id; use FINAL e JOIN ... USING (profile_id)):
+- total_experience_months (UInt32) - Meses de experiência profissional, sem contar períodos sobrepostos
+- current_role_months (UInt32) - Meses na posição atual
+- job_changes (UInt32) - Quantidade de trocas de empresa
+
+=== TABELA DE EMPRESAS: ${COMPANIES_TABLE} ===
+
+Uma linha por empresa; linkedin.people.current_company_id = company_id:
+- company_id (Int64) - Identificador interno da empresa
+- company_public_id (String) - Identificador público no LinkedIn
+- name (String) - Nome da empresa
+- industry (String) - Setor (ex: Financial Services, Software Development)
+- employee_count (UInt32) - Quantidade de funcionários
+- hq_city, hq_state, hq_country (String) - Sede
+
+=== TABELA DE HISTÓRICO: ${COMPANY_HISTORY_TABLE} ===
+
+Empresas anteriores de cada perfil (uma linha por profile_id; use FINAL):
+- past_company_ids (Array(Int64)) - company_id das empresas anteriores
+
+=== REGRAS IMPORTANTES PARA QUERIES ===
+
+BOAS PRÁTICAS:
+1. Use profile_id como identificador estável (profile_public_id e profile_url podem mudar)
+2. Para joins com empresas, prefira current_company_id (use current_company_public_id como fallback se ID nulo)
+3. Campos de texto (headline, about_me, full_name, current_job_title) podem ser nulos/vazios
+4. Para buscas em texto, normalize: LOWER() + TRIM() + ILIKE '%termo%' (evite igualdade exata)
+5. Cidades e estados estão em MAIÚSCULAS (use UPPER() ou busque já em maiúsculas)
+
+SINTAXE CLICKHOUSE:
+- Use ILIKE para busca case-insensitive (não precisa LOWER com ILIKE)
+- Use OR para combinar múltiplos campos de busca
+- Sempre limite com LIMIT (máximo 100 por padrão)
+- Para ordenar por senioridade: ORDER BY seniority_order DESC
+
+PADRÕES DE BUSCA:
+- Habilidades/tecnologias: (headline ILIKE '%python%' OR about_me ILIKE '%python%' OR experience ILIKE '%python%' OR current_job_title ILIKE '%python%')
+- Formação específica: education ILIKE '%usp%' OR education ILIKE '%unicamp%'
+- Experiência em empresa: experience ILIKE '%nubank%' OR experience ILIKE '%itau%'
+- Certificações: certifications ILIKE '%aws%' OR certifications ILIKE '%azure%'
+- Cargo específico: current_job_title ILIKE '%data scientist%' OR headline ILIKE '%data scientist%'
+- Localização: city = 'SAO PAULO' AND state = 'SAO PAULO'
+- Senioridade: seniority IN ('GERENTE', 'C-SUITE / DIRETOR') ou seniority_order >= 5
+- Área de atuação: area = 'DADOS' AND macroarea = 'TECNOLOGIA, DADOS E PRODUTOS'
+- Anos de experiência: INNER JOIN (SELECT * FROM ${EXPERIENCE_METRICS_TABLE} FINAL) AS metrics USING (profile_id) WHERE total_experience_months >= 60 (com LEFT JOIN, perfis sem métricas viram 0 e passariam em filtros de máximo)
+
+=== EXEMPLOS DE QUERIES ===
+
+1. Tech Leads em Curitiba (busca por CARGO ESPECÍFICO - SEM ordenar por seniority):
+SELECT profile_id, full_name, headline, current_job_title, current_company, seniority, area, macroarea, city, state, profile_url, profile_image_url
+FROM linkedin.people
+WHERE current_job_title ILIKE '%tech lead%'
+  AND city = 'CURITIBA'
+  AND state = 'PARANA'
+ORDER BY full_name ASC
+LIMIT 7;
+
+2. Data Scientists Senior em São Paulo (busca por PERFIL com filtro de senioridade):
+SELECT profile_id, full_name, headline, current_job_title, current_company, seniority, city, state, profile_url, profile_image_url
+FROM linkedin.people
+WHERE (current_job_title ILIKE '%data scientist%' OR current_job_title ILIKE '%cientista de dados%')
+  AND seniority IN ('ESPECIALISTA', 'GERENTE', 'COORDENADOR')
+  AND state = 'SAO PAULO'
+ORDER BY full_name ASC
+LIMIT 7;
+
+3. Desenvolvedores Backend com experiência em fintechs:
+SELECT profile_id, full_name, headline, current_job_title, current_company, seniority, city, state, profile_url, profile_image_url
+FROM linkedin.people
+WHERE (current_job_title ILIKE '%backend%' OR current_job_title ILIKE '%back-end%' OR current_job_title ILIKE '%back end%')
+  AND (experience ILIKE '%fintech%' OR experience ILIKE '%nubank%' OR experience ILIKE '%pagar.me%' OR experience ILIKE '%stone%')
+ORDER BY full_name ASC
+LIMIT 7;
+
+4. Product Managers (busca por cargo específico):
+SELECT profile_id, full_name, headline, current_job_title, current_company, seniority, area, macroarea, city, state, profile_url, profile_image_url
+FROM linkedin.people
+WHERE current_job_title ILIKE '%product manager%'
+  AND state = 'SAO PAULO'
+ORDER BY full_name ASC
+LIMIT 7;
+
+=== CAMPOS PARA RETORNAR ===
+Sempre inclua estes campos úteis para recrutamento:
+profile_id, full_name, headline, current_job_title, current_company, seniority, area, macroarea, city, state, profile_url, profile_image_url
+`;
+  }
+}
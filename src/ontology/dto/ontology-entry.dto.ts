@@ -0,0 +1,40 @@
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import type { OntologyKind } from '../ontology-defaults';
+
+export class OntologyEntryDto {
+  @IsIn(['title', 'skill'])
+  kind: OntologyKind;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  canonical: string;
+
+  @IsArray()
+  @IsString({ each: true })
+  @MaxLength(100, { each: true })
+  @ArrayMaxSize(50)
+  variants: string[];
+
+  @IsArray()
+  @IsString({ each: true })
+  @MaxLength(20, { each: true })
+  @ArrayMaxSize(20)
+  @IsOptional()
+  abbreviations?: string[];
+
+  @IsArray()
+  @IsString({ each: true })
+  @MaxLength(100, { each: true })
+  @ArrayMaxSize(50)
+  @IsOptional()
+  related?: string[];
+}
@@ -0,0 +1,4 @@
+export * from './ontology.module';
+export * from './ontology.service';
+export * from './ontology.controller';
+export * from './ontology-defaults';
@@ -0,0 +1,315 @@
+/**
+ * Ontologia padrão de cargos e habilidades. Entradas cadastradas pelo
+ * endpoint de administração são somadas a estas (mesmo kind e canonical
+ * acrescenta variações).
+ */
+
+export type OntologyKind = 'title' | 'skill';
+
+export interface OntologyEntry {
+  kind: OntologyKind;
+  /** Termo principal ("product manager") */
+  canonical: string;
+  /** Variações em português/inglês e grafias ("gerente de produto", "back-end") */
+  variants: string[];
+  /** Siglas, buscadas como palavra inteira ("PM", "SRE", "K8s") */
+  abbreviations?: string[];
+  /** Habilidades relacionadas, sugeridas ao recrutador (não entram na busca) */
+  related?: string[];
+}
+
+/**
+ * Prefixos de senioridade reconhecidos nos cargos ("senior backend",
+ * "analista de dados pleno"), com as grafias buscadas
+ */
+export const SENIORITY_PREFIXES: Record<string, string[]> = {
+  senior: ['senior', 'sênior', 'sr'],
+  pleno: ['pleno', 'pl', 'mid-level'],
+  junior: ['junior', 'júnior', 'jr'],
+  estagiario: ['estagiário', 'estagiario', 'estágio', 'intern', 'trainee'],
+  staff: ['staff'],
+  principal: ['principal'],
+};
+
+export const DEFAULT_ONTOLOGY: OntologyEntry[] = [
+  // Cargos
+  {
+    kind: 'title',
+    canonical: 'backend developer',
+    variants: [
+      'backend',
+      'back-end',
+      'back end',
+      'desenvolvedor backend',
+      'desenvolvedora backend',
+    ],
+  },
+  {
+    kind: 'title',
+    canonical: 'frontend developer',
+    variants: [
+      'frontend',
+      'front-end',
+      'front end',
+      'desenvolvedor frontend',
+      'desenvolvedora frontend',
+    ],
+  },
+  {
+    kind: 'title',
+    canonical: 'fullstack developer',
+    variants: ['fullstack', 'full-stack', 'full stack'],
+  },
+  {
+    kind: 'title',
+    canonical: 'software engineer',
+    variants: [
+      'software engineer',
+      'software developer',
+      'engenheiro de software',
+      'engenheira de software',
+      'desenvolvedor de software',
+    ],
+  },
+  {
+    kind: 'title',
+    canonical: 'data scientist',
+    variants: ['data scientist', 'cientista de dados'],
+  },
+  {
+    kind: 'title',
+    canonical: 'data engineer',
+    variants: ['data engineer', 'engenheiro de dados', 'engenheira de dados'],
+  },
+  {
+    kind: 'title',
+    canonical: 'data analyst',
+    variants: ['data analyst', 'analista de dados'],
+  },
+  {
+    kind: 'title',
+    canonical: 'machine learning engineer',
+    variants: [
+      'machine learning engineer',
+      'ml engineer',
+      'engenheiro de machine learning',
+    ],
+    abbreviations: ['MLE'],
+  },
+  {
+    kind: 'title',
+    canonical: 'product manager',
+    variants: ['product manager', 'gerente de produto', 'gerente de produtos'],
+    abbreviations: ['PM'],
+  },
+  {
+    kind: 'title',
+    canonical: 'product owner',
+    variants: ['product owner'],
+    abbreviations: ['PO'],
+  },
+  {
+    kind: 'title',
+    canonical: 'tech lead',
+    variants: [
+      'tech lead',
+      'technical lead',
+      'tech leader',
+      'líder técnico',
+      'lider tecnico',
+    ],
+    abbreviations: ['TL'],
+  },
+  {
+    kind: 'title',
+    canonical: 'engineering manager',
+    variants: ['engineering manager', 'gerente de engenharia'],
+  },
+  {
+    kind: 'title',
+    canonical: 'site reliability engineer',
+    variants: ['site reliability', 'engenheiro de confiabilidade'],
+    abbreviations: ['SRE'],
+  },
+  {
+    kind: 'title',
+    canonical: 'devops engineer',
+    variants: ['devops', 'dev ops', 'engenheiro devops'],
+  },
+  {
+    kind: 'title',
+    canonical: 'qa engineer',
+    variants: [
+      'quality assurance',
+      'analista de qualidade',
+      'analista de testes',
+      'engenheiro de qualidade',
+    ],
+    abbreviations: ['QA'],
+  },
+  {
+    kind: 'title',
+    canonical: 'ux designer',
+    variants: ['ux designer', 'ui/ux', 'ux/ui', 'product designer'],
+  },
+  {
+    kind: 'title',
+    canonical: 'scrum master',
+    variants: ['scrum master', 'agile master', 'agilista'],
+  },
+  {
+    kind: 'title',
+    canonical: 'chief technology officer',
+    variants: ['chief technology officer', 'diretor de tecnologia'],
+    abbreviations: ['CTO'],
+  },
+  {
+    kind: 'title',
+    canonical: 'hr business partner',
+    variants: ['hr business partner', 'business partner de rh'],
+    abbreviations: ['HRBP'],
+  },
+  {
+    kind: 'title',
+    canonical: 'recruiter',
+    variants: [
+      'recruiter',
+      'recrutador',
+      'recrutadora',
+      'talent acquisition',
+      'tech recruiter',
+    ],
+  },
+  {
+    kind: 'title',
+    canonical: 'sales development representative',
+    variants: ['sales development', 'pré-vendas', 'pre-vendas'],
+    abbreviations: ['SDR'],
+  },
+  {
+    kind: 'title',
+    canonical: 'account executive',
+    variants: [
+      'account executive',
+      'executivo de contas',
+      'executiva de contas',
+    ],
+  },
+  {
+    kind: 'title',
+    canonical: 'customer success manager',
+    variants: ['customer success', 'sucesso do cliente'],
+    abbreviations: ['CSM'],
+  },
+
+  // Habilidades
+  {
+    kind: 'skill',
+    canonical: 'javascript',
+    variants: ['javascript'],
+    abbreviations: ['JS'],
+    related: ['typescript', 'node.js', 'react'],
+  },
+  {
+    kind: 'skill',
+    canonical: 'typescript',
+    variants: ['typescript'],
+    related: ['javascript', 'node.js'],
+  },
+  {
+    kind: 'skill',
+    canonical: 'node.js',
+    variants: ['node.js', 'nodejs', 'node js'],
+    related: ['javascript', 'typescript', 'nestjs', 'express'],
+  },
+  {
+    kind: 'skill',
+    canonical: 'react',
+    variants: ['react', 'react.js', 'reactjs'],
+    related: ['next.js', 'redux', 'typescript'],
+  },
+  {
+    kind: 'skill',
+    canonical: 'python',
+    variants: ['python'],
+    related: ['django', 'fastapi', 'pandas'],
+  },
+  {
+    kind: 'skill',
+    canonical: 'golang',
+    variants: ['golang', 'go lang'],
+    related: ['grpc', 'kubernetes'],
+  },
+  {
+    kind: 'skill',
+    canonical: 'c#',
+    variants: ['c#', 'csharp'],
+    related: ['.net', 'asp.net'],
+  },
+  {
+    kind: 'skill',
+    canonical: 'kubernetes',
+    variants: ['kubernetes'],
+    abbreviations: ['K8s'],
+    related: ['docker', 'helm', 'terraform'],
+  },
+  {
+    kind: 'skill',
+    canonical: 'amazon web services',
+    variants: ['amazon web services'],
+    abbreviations: ['AWS'],
+    related: ['terraform', 'kubernetes'],
+  },
+  {
+    kind: 'skill',
+    canonical: 'google cloud platform',
+    variants: ['google cloud'],
+    abbreviations: ['GCP'],
+    related: ['bigquery', 'kubernetes'],
+  },
+  {
+    kind: 'skill',
+    canonical: 'azure',
+    variants: ['azure', 'microsoft azure'],
+    related: ['.net', 'terraform'],
+  },
+  {
+    kind: 'skill',
+    canonical: 'machine learning',
+    variants: [
+      'machine learning',
+      'aprendizado de máquina',
+      'aprendizado de maquina',
+    ],
+    abbreviations: ['ML'],
+    related: ['python', 'deep learning', 'scikit-learn'],
+  },
+  {
+    kind: 'skill',
+    canonical: 'natural language processing',
+    variants: [
+      'natural language processing',
+      'processamento de linguagem natural',
+    ],
+    abbreviations: ['NLP', 'PLN'],
+    related: ['machine learning', 'llm'],
+  },
+  {
+    kind: 'skill',
+    canonical: 'postgresql',
+    variants: ['postgresql', 'postgres'],
+    related: ['sql'],
+  },
+  {
+    kind: 'skill',
+    canonical: 'ci/cd',
+    variants: ['ci/cd', 'continuous integration', 'integração contínua'],
+    related: ['github actions', 'jenkins'],
+  },
+  {
+    kind: 'skill',
+    canonical: 'power bi',
+    variants: ['power bi', 'powerbi'],
+    related: ['sql', 'dax', 'excel'],
+  },
+];
@@ -0,0 +1,48 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { OntologyController } from './ontology.controller';
+import { OntologyService } from './ontology.service';
+
+describe('OntologyController', () => {
+  const upsert = jest.fn();
+  const entry = {
+    kind: 'title' as const,
+    canonical: 'analytics engineer',
+    variants: ['engenheiro de analytics'],
+  };
+
+  const createController = async (config: Record<string, string>) => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [OntologyController],
+      providers: [
+        { provide: OntologyService, useValue: { upsert } },
+        { provide: ConfigService, useValue: new ConfigService(config) },
+      ],
+    }).compile();
+    return module.get<OntologyController>(OntologyController);
+  };
+
+  beforeEach(() => {
+    upsert.mockReset().mockResolvedValue(entry);
+  });
+
+  it('should refuse edits when no admin token is configured', async () => {
+    const controller = await createController({});
+
+    await expect(controller.upsertEntry(entry, undefined)).rejects.toThrow(
+      'Edição da ontologia desabilitada: defina ONTOLOGY_ADMIN_TOKEN',
+    );
+    expect(upsert).not.toHaveBeenCalled();
+  });
+
+  it('should require the configured admin token', async () => {
+    const controller = await createController({
+      ONTOLOGY_ADMIN_TOKEN: 'segredo',
+    });
+
+    await expect(controller.upsertEntry(entry, 'errado')).rejects.toThrow(
+      'Token de administração inválido',
+    );
+    await expect(controller.upsertEntry(entry, 'segredo')).resolves.toBe(entry);
+  });
+});
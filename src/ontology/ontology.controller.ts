@@ -0,0 +1,66 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Query,
+  Headers,
+  HttpCode,
+  ForbiddenException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { OntologyService } from './ontology.service';
+import type { OntologyEntry, OntologyKind } from './ontology-defaults';
+import { OntologyEntryDto } from './dto';
+
+@Controller('ontology')
+export class OntologyController {
+  constructor(
+    private readonly ontologyService: OntologyService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Cargos e habilidades usados para expandir os critérios de busca
+   * GET /ontology?kind=title
+   */
+  @Get()
+  list(@Query('kind') kind?: OntologyKind): OntologyEntry[] {
+    return this.ontologyService.list(
+      kind === 'title' || kind === 'skill' ? kind : undefined,
+    );
+  }
+
+  /**
+   * Cadastra ou amplia uma entrada da ontologia. Exige o header
+   * X-Admin-Token igual a ONTOLOGY_ADMIN_TOKEN; sem o token configurado a
+   * rota fica fechada.
+   * POST /ontology/entries
+   *
+   * Body:
+   * {
+   *   "kind": "title",
+   *   "canonical": "analytics engineer",
+   *   "variants": ["engenheiro de analytics", "analytics eng"],
+   *   "abbreviations": ["AE"],
+   *   "related": ["dbt", "sql"]
+   * }
+   */
+  @Post('entries')
+  @HttpCode(200)
+  async upsertEntry(
+    @Body() dto: OntologyEntryDto,
+    @Headers('x-admin-token') adminToken: string | undefined,
+  ): Promise<OntologyEntry> {
+    const expected = this.configService.get<string>('ONTOLOGY_ADMIN_TOKEN');
+    if (!expected) {
+      throw new ForbiddenException(
+        'Edição da ontologia desabilitada: defina ONTOLOGY_ADMIN_TOKEN',
+      );
+    }
+    if (adminToken !== expected) {
+      throw new ForbiddenException('Token de administração inválido');
+    }
+    return this.ontologyService.upsert(dto);
+  }
+}
@@ -0,0 +1,122 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { OntologyService, describeExpansion } from './ontology.service';
+import { ClickHouseService } from '../clickhouse/clickhouse.service';
+
+describe('OntologyService', () => {
+  let service: OntologyService;
+  const query = jest.fn();
+  const command = jest.fn();
+  const insert = jest.fn();
+
+  beforeEach(async () => {
+    query.mockReset().mockResolvedValue([]);
+    command.mockReset();
+    insert.mockReset();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OntologyService,
+        { provide: ClickHouseService, useValue: { query, command, insert } },
+      ],
+    }).compile();
+
+    service = module.get<OntologyService>(OntologyService);
+  });
+
+  it('should expand spelling and language variants', () => {
+    expect(service.expand('title', 'Back-End')).toMatchObject({
+      canonical: 'backend developer',
+      variants: [
+        'Back-End',
+        'backend developer',
+        'backend',
+        'back end',
+        'desenvolvedor backend',
+        'desenvolvedora backend',
+      ],
+      abbreviations: [],
+      seniority: null,
+    });
+    expect(service.expand('title', 'cientista de dados')?.variants).toEqual([
+      'cientista de dados',
+      'data scientist',
+    ]);
+  });
+
+  it('should search abbreviations only as whole words', () => {
+    const expansion = service.expand('title', 'PM');
+
+    expect(expansion?.variants).toEqual([
+      'product manager',
+      'gerente de produto',
+      'gerente de produtos',
+    ]);
+    expect(expansion?.abbreviations).toEqual(['PM']);
+  });
+
+  it('should split seniority prefixes and suffixes', () => {
+    expect(service.expand('title', 'Sr. SRE')).toMatchObject({
+      canonical: 'site reliability engineer',
+      seniority: 'senior',
+    });
+    expect(service.expand('title', 'Analista de Dados Pleno')).toMatchObject({
+      canonical: 'data analyst',
+      seniority: 'pleno',
+    });
+    expect(service.expand('title', 'Senior Head de Vendas')).toMatchObject({
+      canonical: null,
+      variants: ['Head de Vendas'],
+      seniority: 'senior',
+    });
+  });
+
+  it('should not expand unknown terms', () => {
+    expect(service.expand('title', 'Head de Vendas')).toBeNull();
+    expect(service.expand('skill', 'senior')).toBeNull();
+  });
+
+  it('should merge registered entries with the defaults', async () => {
+    query.mockResolvedValueOnce([
+      {
+        data: JSON.stringify({
+          kind: 'skill',
+          canonical: 'kubernetes',
+          variants: ['kube'],
+          related: ['argo cd'],
+        }),
+      },
+    ]);
+    await service.onModuleInit();
+
+    expect(service.expand('skill', 'kube')).toMatchObject({
+      canonical: 'kubernetes',
+      abbreviations: ['K8s'],
+      related: ['docker', 'helm', 'terraform', 'argo cd'],
+    });
+
+    const saved = await service.upsert({
+      kind: 'title',
+      canonical: ' analytics engineer ',
+      variants: ['engenheiro de analytics', 'Engenheiro de Analytics'],
+      abbreviations: ['AE'],
+    });
+
+    expect(saved.variants).toEqual(['engenheiro de analytics']);
+    expect(insert).toHaveBeenCalledWith('search_ontology', [
+      expect.objectContaining({
+        kind: 'title',
+        canonical: 'analytics engineer',
+      }),
+    ]);
+    expect(service.expand('title', 'AE')?.canonical).toBe('analytics engineer');
+  });
+
+  it('should describe what was added to the search', () => {
+    const expansion = service.expand('skill', 'k8s');
+
+    expect(describeExpansion(expansion!)).toBe('k8s → kubernetes');
+    expect(describeExpansion(service.expand('title', 'Tech Lead Sr')!)).toBe(
+      'Tech Lead Sr → technical lead, tech leader, líder técnico, lider tecnico, TL (senior)',
+    );
+  });
+});
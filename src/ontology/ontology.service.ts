@@ -0,0 +1,258 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ClickHouseService } from '../clickhouse/clickhouse.service';
+import {
+  DEFAULT_ONTOLOGY,
+  OntologyEntry,
+  OntologyKind,
+  SENIORITY_PREFIXES,
+} from './ontology-defaults';
+
+export const ONTOLOGY_TABLE = 'search_ontology';
+
+/**
+ * Como um termo dos critérios foi expandido na busca
+ */
+export interface TermExpansion {
+  kind: OntologyKind;
+  /** Termo como veio nos critérios ("Sr. PM") */
+  term: string;
+  /** Entrada da ontologia reconhecida (null quando só a senioridade foi reconhecida) */
+  canonical: string | null;
+  /** Textos buscados por substring (ILIKE) */
+  variants: string[];
+  /** Siglas buscadas como palavra inteira */
+  abbreviations: string[];
+  /** Senioridade exigida no cargo (chave de SENIORITY_PREFIXES) */
+  seniority: string | null;
+  related: string[];
+}
+
+/**
+ * Ontologia de cargos e habilidades usada para expandir os critérios de
+ * busca: variações em português/inglês, siglas, prefixos de senioridade e
+ * habilidades relacionadas. Entradas padrão + entradas cadastradas em
+ * ClickHouse (carregadas ao iniciar e a cada cadastro).
+ */
+@Injectable()
+export class OntologyService implements OnModuleInit {
+  private readonly logger = new Logger(OntologyService.name);
+  private custom: OntologyEntry[] = [];
+  private entries: OntologyEntry[] = [];
+  private index = new Map<string, OntologyEntry>();
+
+  constructor(private readonly clickhouseService: ClickHouseService) {
+    this.rebuild();
+  }
+
+  async onModuleInit() {
+    try {
+      await this.clickhouseService.command(`
+        CREATE TABLE IF NOT EXISTS ${ONTOLOGY_TABLE} (
+          kind LowCardinality(String),
+          canonical String,
+          version UInt64,
+          data String,
+          updated_at DateTime DEFAULT now()
+        )
+        ENGINE = ReplacingMergeTree(version)
+        ORDER BY (kind, canonical)
+      `);
+
+      const rows = await this.clickhouseService.query<{ data: string }>({
+        query: `SELECT data FROM ${ONTOLOGY_TABLE} FINAL ORDER BY kind, canonical`,
+      });
+      this.custom = rows.map((row) => JSON.parse(row.data) as OntologyEntry);
+      this.rebuild();
+      this.logger.log(
+        `Ontologia carregada: ${this.entries.length} entradas (${this.custom.length} cadastradas)`,
+      );
+    } catch (error) {
+      this.logger.error(`Erro ao carregar ontologia: ${error}`);
+    }
+  }
+
+  /**
+   * Entradas em uso (padrão somadas às cadastradas)
+   */
+  list(kind?: OntologyKind): OntologyEntry[] {
+    return kind ? this.entries.filter((e) => e.kind === kind) : this.entries;
+  }
+
+  /**
+   * Cadastra (ou substitui) uma entrada. As variações padrão de um termo
+   * já existente são mantidas.
+   */
+  async upsert(entry: OntologyEntry): Promise<OntologyEntry> {
+    const cleaned = cleanEntry(entry);
+    await this.clickhouseService.insert(ONTOLOGY_TABLE, [
+      {
+        kind: cleaned.kind,
+        canonical: normalizeTerm(cleaned.canonical),
+        version: Date.now(),
+        data: JSON.stringify(cleaned),
+      },
+    ]);
+
+    this.custom = [
+      ...this.custom.filter((e) => entryKey(e) !== entryKey(cleaned)),
+      cleaned,
+    ];
+    this.rebuild();
+    this.logger.log(`Ontologia: ${cleaned.kind} "${cleaned.canonical}" salvo`);
+
+    return (
+      this.entries.find((e) => entryKey(e) === entryKey(cleaned)) ?? cleaned
+    );
+  }
+
+  /**
+   * Expansão de um cargo ou habilidade. Retorna null quando a ontologia
+   * não reconhece o termo.
+   */
+  expand(kind: OntologyKind, term: string): TermExpansion | null {
+    const { base, seniority } =
+      kind === 'title'
+        ? splitSeniority(term)
+        : { base: term.trim(), seniority: null };
+    const entry = this.index.get(`${kind}:${normalizeTerm(base)}`);
+    if (!entry && !seniority) return null;
+
+    const abbreviations = entry?.abbreviations || [];
+    const isAbbreviation = abbreviations.some(
+      (a) => normalizeTerm(a) === normalizeTerm(base),
+    );
+    // Siglas não entram como substring ("PM" casaria com "NPM")
+    const variants = uniqueTerms([
+      ...(isAbbreviation ? [] : [base]),
+      ...(entry ? [entry.canonical, ...entry.variants] : []),
+    ]);
+
+    return {
+      kind,
+      term,
+      canonical: entry?.canonical ?? null,
+      variants,
+      abbreviations,
+      seniority,
+      related: entry?.related || [],
+    };
+  }
+
+  private rebuild() {
+    const merged = new Map<string, OntologyEntry>();
+    for (const entry of [...DEFAULT_ONTOLOGY, ...this.custom]) {
+      const existing = merged.get(entryKey(entry));
+      merged.set(
+        entryKey(entry),
+        existing
+          ? {
+              ...existing,
+              variants: uniqueTerms([...existing.variants, ...entry.variants]),
+              abbreviations: uniqueTerms([
+                ...(existing.abbreviations || []),
+                ...(entry.abbreviations || []),
+              ]),
+              related: uniqueTerms([
+                ...(existing.related || []),
+                ...(entry.related || []),
+              ]),
+            }
+          : entry,
+      );
+    }
+
+    this.entries = Array.from(merged.values());
+    this.index = new Map();
+    for (const entry of this.entries) {
+      const phrases = [
+        entry.canonical,
+        ...entry.variants,
+        ...(entry.abbreviations || []),
+      ];
+      for (const phrase of phrases) {
+        this.index.set(`${entry.kind}:${normalizeTerm(phrase)}`, entry);
+      }
+    }
+  }
+}
+
+/**
+ * Chave de comparação: minúsculas, sem acento, hífen e underscore como espaço
+ */
+export function normalizeTerm(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[-_]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Resumo de uma expansão para o recrutador
+ * ("Sr. PM → product manager, gerente de produto, PM (senior)")
+ */
+export function describeExpansion(expansion: TermExpansion): string {
+  const written = splitSeniority(expansion.term).base.toLowerCase();
+  const searched = [...expansion.variants, ...expansion.abbreviations].filter(
+    (v) => v.toLowerCase() !== written,
+  );
+  const seniority = expansion.seniority ? ` (${expansion.seniority})` : '';
+  return `${expansion.term} → ${searched.join(', ')}${seniority}`;
+}
+
+const SENIORITY_BY_PREFIX = new Map(
+  Object.entries(SENIORITY_PREFIXES).flatMap(([seniority, prefixes]) =>
+    prefixes.map((prefix) => [normalizeTerm(prefix), seniority] as const),
+  ),
+);
+
+/**
+ * Separa a senioridade no início ou no fim do cargo
+ * ("Sr. Backend" → backend + senior, "Analista de Dados Pleno" → pleno)
+ */
+function splitSeniority(term: string): {
+  base: string;
+  seniority: string | null;
+} {
+  const words = term.trim().split(/\s+/);
+  if (words.length < 2) return { base: term.trim(), seniority: null };
+
+  const seniorityOf = (word: string) =>
+    SENIORITY_BY_PREFIX.get(normalizeTerm(word.replace(/\.$/, ''))) ?? null;
+
+  const first = seniorityOf(words[0]);
+  if (first) return { base: words.slice(1).join(' '), seniority: first };
+  const last = seniorityOf(words[words.length - 1]);
+  if (last) return { base: words.slice(0, -1).join(' '), seniority: last };
+  return { base: term.trim(), seniority: null };
+}
+
+function entryKey(entry: OntologyEntry): string {
+  return `${entry.kind}:${normalizeTerm(entry.canonical)}`;
+}
+
+function cleanEntry(entry: OntologyEntry): OntologyEntry {
+  return {
+    kind: entry.kind,
+    canonical: entry.canonical.trim(),
+    variants: uniqueTerms(entry.variants),
+    abbreviations: uniqueTerms(entry.abbreviations || []),
+    related: uniqueTerms(entry.related || []),
+  };
+}
+
+// ILIKE ignora só maiúsculas: "back-end" e "back end", "líder" e "lider"
+// são buscas diferentes
+function uniqueTerms(values: string[]): string[] {
+  const seen = new Set<string>();
+  return values
+    .map((v) => v.trim())
+    .filter((v) => {
+      const key = v.toLowerCase();
+      if (!key || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
@@ -0,0 +1,3 @@
+export * from './refresh-metrics.dto';
+export * from './refresh-embeddings.dto';
+export * from './similar-profiles.dto';
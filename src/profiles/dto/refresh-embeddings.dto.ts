@@ -0,0 +1,16 @@
+import { IsInt, IsOptional, Matches, Max, Min } from 'class-validator';
+
+export class RefreshEmbeddingsDto {
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, {
+    message: 'updatedSince deve estar no formato YYYY-MM-DD',
+  })
+  @IsOptional()
+  updatedSince?: string;
+
+  // Lotes menores que os das métricas: cada lote é uma chamada ao embedder
+  @IsInt()
+  @Min(10)
+  @Max(1000)
+  @IsOptional()
+  batchSize?: number;
+}
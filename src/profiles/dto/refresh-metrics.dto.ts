@@ -0,0 +1,26 @@
+import {
+  IsBoolean,
+  IsInt,
+  IsOptional,
+  Matches,
+  Max,
+  Min,
+} from 'class-validator';
+
+export class RefreshExperienceMetricsDto {
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, {
+    message: 'updatedSince deve estar no formato YYYY-MM-DD',
+  })
+  @IsOptional()
+  updatedSince?: string;
+
+  @IsBoolean()
+  @IsOptional()
+  full?: boolean;
+
+  @IsInt()
+  @Min(100)
+  @Max(10000)
+  @IsOptional()
+  batchSize?: number;
+}
@@ -0,0 +1,34 @@
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export class SimilarProfilesDto {
+  @IsString()
+  @MaxLength(4000)
+  @IsOptional()
+  text?: string;
+
+  @IsArray()
+  @IsString({ each: true })
+  @ArrayMaxSize(50)
+  @IsOptional()
+  profileIds?: string[];
+
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  excludeProfileIds?: string[];
+
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  limit?: number;
+}
@@ -0,0 +1,110 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ExperienceMetricsService } from './experience-metrics.service';
+import { SqlGuardService } from '../natural-query/sql-guard.service';
+import { ClickHouseService } from '../clickhouse/clickhouse.service';
+
+describe('ExperienceMetricsService', () => {
+  let service: ExperienceMetricsService;
+  const query = jest.fn();
+  const insert = jest.fn();
+
+  beforeEach(async () => {
+    query.mockReset();
+    insert.mockReset();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ExperienceMetricsService,
+        SqlGuardService,
+        { provide: ClickHouseService, useValue: { query, insert } },
+        { provide: ConfigService, useValue: new ConfigService({}) },
+      ],
+    }).compile();
+
+    service = module.get<ExperienceMetricsService>(ExperienceMetricsService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should refresh in background only the profiles changed today', async () => {
+    let release: (rows: unknown[]) => void = () => undefined;
+    query
+      .mockResolvedValueOnce([{ day: '2024-06-01', fresh: 1, total: '120' }])
+      .mockReturnValueOnce(new Promise((resolve) => (release = resolve)));
+
+    const run = await service.startRefresh();
+    expect(run).toMatchObject({
+      status: 'running',
+      updatedSince: '2024-06-01',
+      processed: 0,
+    });
+    // Um segundo pedido não inicia outro recálculo
+    expect((await service.startRefresh({ full: true })).id).toBe(run.id);
+
+    release([{ profile_id: 'abc', experience: '' }]);
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(service.getLastRefresh()).toMatchObject({
+      id: run.id,
+      status: 'completed',
+      processed: 1,
+    });
+    const [batchQuery] = query.mock.lastCall as [
+      { params: Record<string, unknown> },
+    ];
+    expect(batchQuery.params.updatedSince).toBe('2024-06-01');
+    expect(insert).toHaveBeenCalledTimes(1);
+  });
+
+  it('should recalculate every profile when full or never computed', async () => {
+    query.mockResolvedValueOnce([{ day: '1970-01-01', total: '0' }]);
+    query.mockResolvedValue([]);
+
+    expect((await service.startRefresh()).updatedSince).toBeUndefined();
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(
+      (await service.startRefresh({ full: true })).updatedSince,
+    ).toBeUndefined();
+    // full não consulta o último recálculo
+    expect(query).toHaveBeenCalledTimes(3);
+  });
+
+  it('should advance the months of unchanged profiles in later refreshes', async () => {
+    const experience = JSON.stringify([
+      { company: 'Nubank', title: 'Tech Lead', start_date: '2024-01' },
+    ]);
+    query.mockImplementation(({ query: sql }: { query: string }) =>
+      Promise.resolve(
+        sql.includes('FINAL')
+          ? [{ day: '2024-06-15', fresh: 0, total: '1' }]
+          : [{ profile_id: 'abc', experience }],
+      ),
+    );
+    const currentRoleMonths = async (day: Date) => {
+      jest.setSystemTime(day);
+      insert.mockClear();
+      // Métricas de ontem: recalcula todos, mesmo sem mudança no perfil
+      expect((await service.startRefresh()).updatedSince).toBeUndefined();
+      await new Promise((resolve) => setImmediate(resolve));
+      const [, [metrics]] = insert.mock.lastCall as [
+        string,
+        Array<{ current_role_months: number }>,
+      ];
+      return metrics.current_role_months;
+    };
+    jest.useFakeTimers({ doNotFake: ['setImmediate', 'nextTick'] });
+
+    const before = await currentRoleMonths(new Date(2024, 5, 15));
+    const after = await currentRoleMonths(new Date(2024, 7, 15));
+
+    expect(after).toBe(before + 2);
+  });
+
+  it('should report when no refresh was started', () => {
+    expect(() => service.getLastRefresh()).toThrow(NotFoundException);
+  });
+});
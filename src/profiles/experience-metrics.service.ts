@@ -0,0 +1,217 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { ClickHouseService } from '../clickhouse/clickhouse.service';
+import { SqlGuardService } from '../natural-query/sql-guard.service';
+import { parseExperience } from './profile-parser';
+import {
+  EXPERIENCE_METRICS_TABLE,
+  computeExperienceMetrics,
+} from './experience-metrics';
+
+const DEFAULT_BATCH_SIZE = 1000;
+
+export interface RefreshMetricsOptions {
+  /** Recalcula apenas perfis atualizados a partir desta data (YYYY-MM-DD) */
+  updatedSince?: string;
+  /**
+   * Recalcula todos os perfis. Sem updatedSince e sem full, o recálculo em
+   * background é incremental apenas se todas as métricas são de hoje
+   */
+  full?: boolean;
+  batchSize?: number;
+}
+
+export type MetricsRefreshStatus = 'running' | 'completed' | 'failed';
+
+/**
+ * Recálculo das métricas em background
+ */
+export interface MetricsRefreshRun {
+  id: string;
+  status: MetricsRefreshStatus;
+  /** Data de corte do recálculo incremental (ausente = todos os perfis) */
+  updatedSince?: string;
+  processed: number;
+  startedAt: string;
+  finishedAt?: string;
+  error?: string;
+}
+
+/**
+ * Mantém a tabela de métricas de experiência usada nos filtros e
+ * ordenações da busca (anos de experiência, tempo na posição atual,
+ * trocas de empresa)
+ */
+@Injectable()
+export class ExperienceMetricsService implements OnModuleInit {
+  private readonly logger = new Logger(ExperienceMetricsService.name);
+  private lastRun: MetricsRefreshRun | null = null;
+
+  constructor(
+    private readonly clickhouseService: ClickHouseService,
+    private readonly sqlGuard: SqlGuardService,
+  ) {}
+
+  async onModuleInit() {
+    // Cada recálculo insere uma nova versão; ReplacingMergeTree mantém a mais recente
+    try {
+      await this.clickhouseService.command(`
+        CREATE TABLE IF NOT EXISTS ${EXPERIENCE_METRICS_TABLE} (
+          profile_id String,
+          total_experience_months UInt32,
+          current_role_months UInt32,
+          job_changes UInt32,
+          computed_at DateTime DEFAULT now()
+        )
+        ENGINE = ReplacingMergeTree(computed_at)
+        ORDER BY profile_id
+      `);
+    } catch (error) {
+      this.logger.error(
+        `Erro ao criar tabela de métricas de experiência: ${error}`,
+      );
+    }
+  }
+
+  /**
+   * Inicia o recálculo em background e retorna na hora. Enquanto um
+   * recálculo está em andamento, retorna o mesmo em vez de iniciar outro.
+   */
+  async startRefresh(
+    options: RefreshMetricsOptions = {},
+  ): Promise<MetricsRefreshRun> {
+    if (this.lastRun?.status === 'running') return { ...this.lastRun };
+
+    const updatedSince =
+      options.updatedSince ??
+      (options.full ? undefined : await this.incrementalSince());
+    const run: MetricsRefreshRun = {
+      id: randomUUID(),
+      status: 'running',
+      updatedSince,
+      processed: 0,
+      startedAt: new Date().toISOString(),
+    };
+    this.lastRun = run;
+
+    void this.runRefresh(run, { ...options, updatedSince });
+    return { ...run };
+  }
+
+  /**
+   * Situação do último recálculo iniciado nesta instância
+   */
+  getLastRefresh(): MetricsRefreshRun {
+    if (!this.lastRun) {
+      throw new NotFoundException('Nenhum recálculo de métricas iniciado');
+    }
+    return { ...this.lastRun };
+  }
+
+  /**
+   * Recalcula as métricas a partir de linkedin.people.experience, em lotes
+   * ordenados por profile_id. Retorna a quantidade de perfis processados.
+   */
+  async refresh(
+    options: RefreshMetricsOptions = {},
+    onBatch?: (processed: number) => void,
+  ): Promise<number> {
+    const batchSize = options.batchSize || DEFAULT_BATCH_SIZE;
+    const now = new Date();
+    let after = '';
+    let processed = 0;
+
+    this.logger.log(
+      `Recalculando métricas de experiência${options.updatedSince ? ` (desde ${options.updatedSince})` : ''}`,
+    );
+
+    for (;;) {
+      const rows = await this.clickhouseService.query<{
+        profile_id: string;
+        experience: string;
+      }>({
+        query: `SELECT profile_id, experience
+                FROM linkedin.people
+                WHERE profile_id > {after:String}
+                  ${options.updatedSince ? 'AND updated_at >= {updatedSince:String}' : ''}
+                ORDER BY profile_id ASC
+                LIMIT {batchSize:UInt32}`,
+        params: { after, batchSize, updatedSince: options.updatedSince },
+        settings: this.sqlGuard.getReadonlySettings(batchSize),
+      });
+      if (rows.length === 0) break;
+
+      await this.clickhouseService.insert(
+        EXPERIENCE_METRICS_TABLE,
+        rows.map((row) => {
+          const metrics = computeExperienceMetrics(
+            parseExperience(row.experience, now),
+            now,
+          );
+          return {
+            profile_id: row.profile_id,
+            total_experience_months: metrics.totalExperienceMonths,
+            current_role_months: metrics.currentRoleMonths,
+            job_changes: metrics.jobChanges,
+          };
+        }),
+      );
+
+      processed += rows.length;
+      after = rows[rows.length - 1].profile_id;
+      onBatch?.(processed);
+      this.logger.debug(`Métricas recalculadas: ${processed} perfis`);
+
+      if (rows.length < batchSize) break;
+    }
+
+    this.logger.log(
+      `Métricas de experiência recalculadas: ${processed} perfis`,
+    );
+    return processed;
+  }
+
+  private async runRefresh(
+    run: MetricsRefreshRun,
+    options: RefreshMetricsOptions,
+  ): Promise<void> {
+    try {
+      await this.refresh(options, (processed) => (run.processed = processed));
+      run.status = 'completed';
+    } catch (error) {
+      run.status = 'failed';
+      run.error = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Erro ao recalcular métricas: ${run.error}`);
+    } finally {
+      run.finishedAt = new Date().toISOString();
+    }
+  }
+
+  /**
+   * Corte do recálculo incremental (YYYY-MM-DD), ou undefined quando é
+   * preciso recalcular todos os perfis. O tempo na posição atual e a
+   * experiência em andamento crescem todo dia sem mudança no perfil, então
+   * só dá para recalcular apenas os perfis alterados se nenhuma métrica é
+   * de um dia anterior (tabela vazia também exige o recálculo completo).
+   */
+  private async incrementalSince(): Promise<string | undefined> {
+    const [row] = await this.clickhouseService.query<{
+      day: string;
+      fresh: string | number;
+      total: string | number;
+    }>({
+      query: `SELECT toString(toDate(min(computed_at))) AS day,
+                     toDate(min(computed_at)) >= today() AS fresh,
+                     count() AS total
+              FROM ${EXPERIENCE_METRICS_TABLE} FINAL`,
+    });
+    return row && Number(row.total) > 0 && Number(row.fresh) === 1
+      ? row.day
+      : undefined;
+  }
+}
@@ -0,0 +1,46 @@
+import { computeExperienceMetrics } from './experience-metrics';
+import { parseExperience } from './profile-parser';
+
+const NOW = new Date(2024, 5, 15);
+
+describe('computeExperienceMetrics', () => {
+  it('should merge overlapping periods and count company changes', () => {
+    const timeline = parseExperience(
+      JSON.stringify([
+        {
+          company: 'Stone',
+          title: 'Dev',
+          starts_at: '2016-01',
+          ends_at: '2018-12',
+        },
+        {
+          company: 'Stone',
+          title: 'Dev Sr',
+          starts_at: '2019-01',
+          ends_at: '2019-06',
+        },
+        {
+          company: 'Freela',
+          title: 'Consultor',
+          starts_at: '2018-06',
+          ends_at: '2019-12',
+        },
+        { company: 'Nubank', title: 'Tech Lead', starts_at: '2022-07' },
+      ]),
+      NOW,
+    );
+
+    expect(computeExperienceMetrics(timeline, NOW)).toEqual({
+      // 2016-01..2019-12 (48) + 2022-07..2024-06 (24)
+      totalExperienceMonths: 72,
+      currentRoleMonths: 24,
+      jobChanges: 3,
+    });
+  });
+
+  it('should return zeros without a usable history', () => {
+    expect(computeExperienceMetrics(parseExperience('Tech Lead'), NOW)).toEqual(
+      { totalExperienceMonths: 0, currentRoleMonths: 0, jobChanges: 0 },
+    );
+  });
+});
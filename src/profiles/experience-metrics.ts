@@ -0,0 +1,80 @@
+import { ExperienceEntry } from './profile-parser';
+
+// Tabela da aplicação com as métricas calculadas a partir de linkedin.people.experience
+export const EXPERIENCE_METRICS_TABLE = 'people_experience_metrics';
+
+export interface ExperienceMetrics {
+  /** Meses de experiência, sem contar duas vezes períodos sobrepostos */
+  totalExperienceMonths: number;
+  /** Meses na posição atual (0 quando não há experiência atual) */
+  currentRoleMonths: number;
+  /** Quantas vezes o profissional mudou de empresa */
+  jobChanges: number;
+}
+
+/**
+ * Calcula as métricas a partir da linha do tempo gerada por parseExperience
+ */
+export function computeExperienceMetrics(
+  timeline: ExperienceEntry[],
+  now: Date = new Date(),
+): ExperienceMetrics {
+  const nowIndex = now.getFullYear() * 12 + now.getMonth();
+
+  const intervals = timeline
+    .map((entry) => {
+      const start = toMonthIndex(entry.startDate, 'start');
+      const end = entry.current ? nowIndex : toMonthIndex(entry.endDate, 'end');
+      return start !== null && end !== null && end >= start
+        ? { start, end, company: entry.company }
+        : null;
+    })
+    .filter((interval) => interval !== null)
+    .sort((a, b) => a.start - b.start);
+
+  // Une os períodos sobrepostos (ex: dois empregos ao mesmo tempo)
+  let totalExperienceMonths = 0;
+  let open: { start: number; end: number } | null = null;
+  for (const { start, end } of intervals) {
+    if (open && start <= open.end + 1) {
+      open.end = Math.max(open.end, end);
+      continue;
+    }
+    if (open) totalExperienceMonths += open.end - open.start + 1;
+    open = { start, end };
+  }
+  if (open) totalExperienceMonths += open.end - open.start + 1;
+
+  let jobChanges = 0;
+  let previousCompany: string | null = null;
+  for (const { company } of intervals) {
+    const normalized = company?.trim().toLowerCase();
+    if (!normalized) continue;
+    if (previousCompany !== null && normalized !== previousCompany) {
+      jobChanges++;
+    }
+    previousCompany = normalized;
+  }
+
+  const current = timeline.find((entry) => entry.current);
+
+  return {
+    totalExperienceMonths,
+    currentRoleMonths: current?.durationMonths ?? 0,
+    jobChanges,
+  };
+}
+
+/**
+ * YYYY-MM ou YYYY em meses absolutos. Sem mês, usa janeiro no início e
+ * dezembro no fim.
+ */
+function toMonthIndex(
+  date: string | null,
+  edge: 'start' | 'end',
+): number | null {
+  const match = date?.match(/^(\d{4})(?:-(\d{2}))?$/);
+  if (!match) return null;
+  const month = match[2] ? Number(match[2]) : edge === 'start' ? 1 : 12;
+  return Number(match[1]) * 12 + month - 1;
+}
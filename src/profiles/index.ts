@@ -0,0 +1,8 @@
+export * from './profiles.module';
+export * from './profiles.service';
+export * from './experience-metrics.service';
+export * from './profile-embeddings.service';
+export * from './profiles.controller';
+export * from './profile-parser';
+export * from './experience-metrics';
+export * from './profile-embeddings';
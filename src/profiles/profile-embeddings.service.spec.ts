@@ -0,0 +1,105 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ProfileEmbeddingsService } from './profile-embeddings.service';
+import { SqlGuardService } from '../natural-query/sql-guard.service';
+import { ClickHouseService } from '../clickhouse/clickhouse.service';
+import { EMBEDDER } from '../embeddings/embedder';
+import { HashingEmbedder } from '../embeddings/hashing-embedder';
+import { profileToText } from './profile-embeddings';
+
+describe('ProfileEmbeddingsService', () => {
+  let service: ProfileEmbeddingsService;
+  const query = jest.fn();
+  const insert = jest.fn();
+
+  beforeEach(async () => {
+    query.mockReset();
+    insert.mockReset();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProfileEmbeddingsService,
+        SqlGuardService,
+        { provide: ClickHouseService, useValue: { query, insert } },
+        { provide: EMBEDDER, useValue: new HashingEmbedder(64) },
+        { provide: ConfigService, useValue: new ConfigService({}) },
+      ],
+    }).compile();
+
+    service = module.get<ProfileEmbeddingsService>(ProfileEmbeddingsService);
+  });
+
+  it('should require a text or reference profiles', async () => {
+    await expect(service.findSimilar({ text: '  ' })).rejects.toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('should embed reference profiles on demand and exclude them', async () => {
+    query
+      .mockResolvedValueOnce([]) // nenhum vetor guardado
+      .mockResolvedValueOnce([
+        { profile_id: 'a', headline: 'Engenheira de Dados', about_me: 'Spark' },
+      ])
+      .mockResolvedValueOnce([
+        { profile_id: 'b', full_name: 'Bruno', distance: 0.25 },
+      ]);
+
+    const result = await service.findSimilar({
+      profileIds: ['a', 'x'],
+      text: 'dados',
+      limit: 5,
+    });
+
+    expect(insert).toHaveBeenCalledWith('people_embeddings', [
+      expect.objectContaining({ model: 'hashing-64', profile_id: 'a' }),
+    ]);
+    const [, , [neighbours]] = query.mock.calls as [
+      unknown,
+      unknown,
+      [{ query: string; params: { seed: number[]; exclude: string[] } }],
+    ];
+    expect(neighbours.query).toContain('cosineDistance(embedding');
+    expect(neighbours.params.seed).toHaveLength(64);
+    expect(neighbours.params.exclude).toEqual(['a', 'x']);
+    expect(result).toEqual({
+      model: 'hashing-64',
+      data: [{ profile_id: 'b', full_name: 'Bruno', similarity: 0.75 }],
+      missingProfileIds: ['x'],
+    });
+  });
+
+  it('should generate embeddings in background and report progress', async () => {
+    let release: (rows: unknown[]) => void = () => undefined;
+    query.mockReturnValueOnce(new Promise((resolve) => (release = resolve)));
+
+    const run = service.startRefresh({ updatedSince: '2024-06-01' });
+    expect(run).toMatchObject({ status: 'running', processed: 0 });
+    // Um segundo pedido não inicia outra geração
+    expect(service.startRefresh().id).toBe(run.id);
+
+    release([{ profile_id: 'abc', headline: 'Engenheira de dados' }]);
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(service.getLastRefresh()).toMatchObject({
+      id: run.id,
+      status: 'completed',
+      processed: 1,
+    });
+    expect(insert).toHaveBeenCalledTimes(1);
+  });
+
+  it('should describe the profile with its timeline', () => {
+    expect(
+      profileToText({
+        headline: 'Tech Lead',
+        current_job_title: 'Tech Lead',
+        current_company: 'Nubank',
+        experience: JSON.stringify([
+          { company: 'Stone', title: 'Backend', description: 'Pagamentos' },
+        ]),
+      }),
+    ).toBe('Tech Lead\nTech Lead em Nubank\nBackend em Stone: Pagamentos');
+  });
+});
@@ -0,0 +1,330 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { ClickHouseService } from '../clickhouse/clickhouse.service';
+import { SqlGuardService } from '../natural-query/sql-guard.service';
+import { RESULT_COLUMNS } from '../natural-query/criteria-compiler.service';
+import { EMBEDDER } from '../embeddings/embedder';
+import type { Embedder } from '../embeddings/embedder';
+import {
+  EmbeddableProfile,
+  PROFILE_EMBEDDINGS_TABLE,
+  averageVectors,
+  profileToText,
+} from './profile-embeddings';
+
+const DEFAULT_BATCH_SIZE = 200;
+const DEFAULT_SIMILAR_LIMIT = 20;
+
+const EMBEDDABLE_COLUMNS = [
+  'profile_id',
+  'headline',
+  'current_job_title',
+  'current_company',
+  'area',
+  'about_me',
+  'experience',
+];
+
+export interface RefreshEmbeddingsOptions {
+  /** Vetoriza apenas perfis atualizados a partir desta data (YYYY-MM-DD) */
+  updatedSince?: string;
+  batchSize?: number;
+}
+
+export type EmbeddingsRefreshStatus = 'running' | 'completed' | 'failed';
+
+/**
+ * Geração dos embeddings em background
+ */
+export interface EmbeddingsRefreshRun {
+  id: string;
+  status: EmbeddingsRefreshStatus;
+  model: string;
+  updatedSince?: string;
+  processed: number;
+  startedAt: string;
+  finishedAt?: string;
+  error?: string;
+}
+
+export interface SimilarProfilesOptions {
+  /** Descrição livre do perfil procurado */
+  text?: string;
+  /** Perfis usados como referência (ex: marcados como interessantes) */
+  profileIds?: string[];
+  excludeProfileIds?: string[];
+  limit?: number;
+}
+
+export interface SimilarProfilesResult {
+  model: string;
+  data: Array<Record<string, unknown> & { similarity: number }>;
+  /** Perfis de referência que ainda não têm vetor nem existem na base */
+  missingProfileIds: string[];
+}
+
+type EmbeddableRow = EmbeddableProfile & { profile_id: string };
+
+/**
+ * Vetoriza os perfis de linkedin.people e busca os vizinhos mais próximos
+ * (cosineDistance) de um texto ou de perfis de referência
+ */
+@Injectable()
+export class ProfileEmbeddingsService implements OnModuleInit {
+  private readonly logger = new Logger(ProfileEmbeddingsService.name);
+  private lastRun: EmbeddingsRefreshRun | null = null;
+
+  constructor(
+    private readonly clickhouseService: ClickHouseService,
+    private readonly sqlGuard: SqlGuardService,
+    @Inject(EMBEDDER) private readonly embedder: Embedder,
+  ) {}
+
+  async onModuleInit() {
+    try {
+      await this.clickhouseService.command(`
+        CREATE TABLE IF NOT EXISTS ${PROFILE_EMBEDDINGS_TABLE} (
+          model LowCardinality(String),
+          profile_id String,
+          embedding Array(Float32),
+          computed_at DateTime DEFAULT now()
+        )
+        ENGINE = ReplacingMergeTree(computed_at)
+        ORDER BY (model, profile_id)
+      `);
+    } catch (error) {
+      this.logger.error(`Erro ao criar tabela de embeddings: ${error}`);
+    }
+  }
+
+  /**
+   * Inicia a geração dos embeddings em background e retorna na hora.
+   * Enquanto uma geração está em andamento, retorna a mesma em vez de
+   * iniciar outra.
+   */
+  startRefresh(options: RefreshEmbeddingsOptions = {}): EmbeddingsRefreshRun {
+    if (this.lastRun?.status === 'running') return { ...this.lastRun };
+
+    const run: EmbeddingsRefreshRun = {
+      id: randomUUID(),
+      status: 'running',
+      model: this.embedder.model,
+      updatedSince: options.updatedSince,
+      processed: 0,
+      startedAt: new Date().toISOString(),
+    };
+    this.lastRun = run;
+
+    void this.runRefresh(run, options);
+    return { ...run };
+  }
+
+  /**
+   * Situação da última geração iniciada nesta instância
+   */
+  getLastRefresh(): EmbeddingsRefreshRun {
+    if (!this.lastRun) {
+      throw new NotFoundException('Nenhuma geração de embeddings iniciada');
+    }
+    return { ...this.lastRun };
+  }
+
+  /**
+   * Vetoriza os perfis em lotes ordenados por profile_id. Retorna a
+   * quantidade de perfis processados.
+   */
+  async refresh(
+    options: RefreshEmbeddingsOptions = {},
+    onBatch?: (processed: number) => void,
+  ): Promise<number> {
+    const batchSize = options.batchSize || DEFAULT_BATCH_SIZE;
+    let after = '';
+    let processed = 0;
+
+    this.logger.log(
+      `Gerando embeddings (${this.embedder.model})${options.updatedSince ? ` desde ${options.updatedSince}` : ''}`,
+    );
+
+    for (;;) {
+      const rows = await this.clickhouseService.query<EmbeddableRow>({
+        query: `SELECT ${EMBEDDABLE_COLUMNS.join(', ')}
+                FROM linkedin.people
+                WHERE profile_id > {after:String}
+                  ${options.updatedSince ? 'AND updated_at >= {updatedSince:String}' : ''}
+                ORDER BY profile_id ASC
+                LIMIT {batchSize:UInt32}`,
+        params: { after, batchSize, updatedSince: options.updatedSince },
+        settings: this.sqlGuard.getReadonlySettings(batchSize),
+      });
+      if (rows.length === 0) break;
+
+      await this.store(rows);
+
+      processed += rows.length;
+      after = rows[rows.length - 1].profile_id;
+      onBatch?.(processed);
+      this.logger.debug(`Embeddings gerados: ${processed} perfis`);
+
+      if (rows.length < batchSize) break;
+    }
+
+    this.logger.log(`Embeddings gerados: ${processed} perfis`);
+    return processed;
+  }
+
+  private async runRefresh(
+    run: EmbeddingsRefreshRun,
+    options: RefreshEmbeddingsOptions,
+  ): Promise<void> {
+    try {
+      await this.refresh(options, (processed) => (run.processed = processed));
+      run.status = 'completed';
+    } catch (error) {
+      run.status = 'failed';
+      run.error = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Erro ao gerar embeddings: ${run.error}`);
+    } finally {
+      run.finishedAt = new Date().toISOString();
+    }
+  }
+
+  /**
+   * Perfis mais próximos da semente (texto e/ou perfis de referência),
+   * do mais para o menos similar. Os perfis de referência não entram no resultado.
+   */
+  async findSimilar(
+    options: SimilarProfilesOptions,
+  ): Promise<SimilarProfilesResult> {
+    const text = options.text?.trim();
+    const profileIds = options.profileIds || [];
+    if (!text && profileIds.length === 0) {
+      throw new BadRequestException(
+        'Informe uma descrição (text) ou perfis de referência (profileIds)',
+      );
+    }
+
+    const { vectors, missingProfileIds } =
+      await this.getProfileVectors(profileIds);
+    if (text) {
+      const [textVector] = await this.embedder.embed([text]);
+      vectors.push(textVector);
+    }
+    if (vectors.length === 0) {
+      throw new BadRequestException(
+        `Perfis de referência não encontrados: ${missingProfileIds.join(', ')}`,
+      );
+    }
+
+    const limit = options.limit || DEFAULT_SIMILAR_LIMIT;
+    const exclude = [...profileIds, ...(options.excludeProfileIds || [])];
+    const rows = await this.clickhouseService.query<
+      Record<string, unknown> & { distance: number }
+    >({
+      query: `SELECT ${RESULT_COLUMNS.join(', ')}, distance
+              FROM linkedin.people
+              INNER JOIN (
+                SELECT profile_id, cosineDistance(embedding, {seed:Array(Float32)}) AS distance
+                FROM ${PROFILE_EMBEDDINGS_TABLE} FINAL
+                WHERE model = {model:String}
+                  AND profile_id NOT IN {exclude:Array(String)}
+                ORDER BY distance ASC
+                LIMIT {limit:UInt32}
+              ) AS neighbours USING (profile_id)
+              ORDER BY distance ASC`,
+      params: {
+        seed: averageVectors(vectors),
+        model: this.embedder.model,
+        exclude,
+        limit,
+      },
+      settings: this.sqlGuard.getReadonlySettings(limit),
+    });
+
+    this.logger.log(
+      `Busca por similaridade: ${rows.length} perfis (${profileIds.length} referências${text ? ' + texto' : ''})`,
+    );
+
+    return {
+      model: this.embedder.model,
+      data: rows.map(({ distance, ...row }) => ({
+        ...row,
+        similarity: Math.round((1 - Number(distance)) * 1000) / 1000,
+      })),
+      missingProfileIds,
+    };
+  }
+
+  /**
+   * Vetores dos perfis de referência. Perfis ainda não vetorizados são
+   * vetorizados (e guardados) na hora.
+   */
+  private async getProfileVectors(
+    profileIds: string[],
+  ): Promise<{ vectors: number[][]; missingProfileIds: string[] }> {
+    if (profileIds.length === 0) return { vectors: [], missingProfileIds: [] };
+
+    const stored = await this.clickhouseService.query<{
+      profile_id: string;
+      embedding: number[];
+    }>({
+      query: `SELECT profile_id, embedding
+              FROM ${PROFILE_EMBEDDINGS_TABLE} FINAL
+              WHERE model = {model:String} AND profile_id IN {ids:Array(String)}`,
+      params: { model: this.embedder.model, ids: profileIds },
+    });
+    const vectors = stored.map((row) => row.embedding);
+
+    const found = new Set(stored.map((row) => row.profile_id));
+    const pending = profileIds.filter((id) => !found.has(id));
+    if (pending.length === 0) return { vectors, missingProfileIds: [] };
+
+    const rows = await this.clickhouseService.query<EmbeddableRow>({
+      query: `SELECT ${EMBEDDABLE_COLUMNS.join(', ')}
+              FROM linkedin.people
+              WHERE profile_id IN {ids:Array(String)}`,
+      params: { ids: pending },
+      settings: this.sqlGuard.getReadonlySettings(pending.length),
+    });
+    const embedded = await this.store(rows);
+    vectors.push(...embedded.map(({ vector }) => vector));
+
+    const embeddedIds = new Set(embedded.map(({ profileId }) => profileId));
+    return {
+      vectors,
+      missingProfileIds: pending.filter((id) => !embeddedIds.has(id)),
+    };
+  }
+
+  /**
+   * Vetoriza e guarda os perfis (perfis sem nenhum texto são ignorados)
+   */
+  private async store(
+    rows: EmbeddableRow[],
+  ): Promise<Array<{ profileId: string; vector: number[] }>> {
+    const profiles = rows
+      .map((row) => ({ profileId: row.profile_id, text: profileToText(row) }))
+      .filter((profile) => profile.text);
+    if (profiles.length === 0) return [];
+
+    const vectors = await this.embedder.embed(profiles.map((p) => p.text));
+    await this.clickhouseService.insert(
+      PROFILE_EMBEDDINGS_TABLE,
+      profiles.map((profile, i) => ({
+        model: this.embedder.model,
+        profile_id: profile.profileId,
+        embedding: vectors[i],
+      })),
+    );
+    return profiles.map((profile, i) => ({
+      profileId: profile.profileId,
+      vector: vectors[i],
+    }));
+  }
+}
@@ -0,0 +1,60 @@
+import { parseExperience } from './profile-parser';
+
+// Tabela da aplicação com os vetores dos perfis (um por modelo de embedding)
+export const PROFILE_EMBEDDINGS_TABLE = 'people_embeddings';
+
+// Limite de caracteres do texto enviado ao embedder
+const MAX_PROFILE_TEXT_LENGTH = 4000;
+
+export interface EmbeddableProfile {
+  headline?: string;
+  current_job_title?: string;
+  current_company?: string;
+  area?: string;
+  about_me?: string;
+  experience?: string;
+}
+
+/**
+ * Texto que representa o perfil no espaço vetorial: cargo atual, resumo
+ * e a linha do tempo profissional (cargo, empresa e descrição)
+ */
+export function profileToText(profile: EmbeddableProfile): string {
+  const current = [profile.current_job_title, profile.current_company]
+    .filter(Boolean)
+    .join(' em ');
+  const timeline = parseExperience(profile.experience).map((entry) =>
+    [
+      [entry.title, entry.company].filter(Boolean).join(' em '),
+      entry.description,
+    ]
+      .filter(Boolean)
+      .join(': '),
+  );
+
+  return [
+    profile.headline,
+    current,
+    profile.area,
+    profile.about_me,
+    ...timeline,
+  ]
+    .map((part) => part?.trim())
+    .filter(Boolean)
+    .join('\n')
+    .slice(0, MAX_PROFILE_TEXT_LENGTH);
+}
+
+/**
+ * Média normalizada dos vetores (semente com vários perfis e/ou texto)
+ */
+export function averageVectors(vectors: number[][]): number[] {
+  if (vectors.length === 0) return [];
+
+  const sum = new Array<number>(vectors[0].length).fill(0);
+  for (const vector of vectors) {
+    vector.forEach((value, i) => (sum[i] += value));
+  }
+  const norm = Math.sqrt(sum.reduce((total, v) => total + v * v, 0));
+  return norm > 0 ? sum.map((v) => v / norm) : sum;
+}
@@ -0,0 +1,151 @@
+import {
+  parseCertifications,
+  parseEducation,
+  parseExperience,
+} from './profile-parser';
+
+const NOW = new Date(2024, 5, 15);
+
+describe('profile parser', () => {
+  describe('parseExperience', () => {
+    it('should normalize JSON entries into a timeline, most recent first', () => {
+      const raw = JSON.stringify([
+        {
+          company: 'Stone',
+          title: 'Desenvolvedora Backend',
+          starts_at: { day: 1, month: 3, year: 2018 },
+          ends_at: { day: 1, month: 12, year: 2020 },
+        },
+        {
+          company_name: 'Nubank',
+          position: 'Tech Lead',
+          location: 'São Paulo',
+          start_date: '2021-01',
+          end_date: null,
+        },
+      ]);
+
+      expect(parseExperience(raw, NOW)).toEqual([
+        {
+          company: 'Nubank',
+          title: 'Tech Lead',
+          location: 'São Paulo',
+          description: null,
+          startDate: '2021-01',
+          endDate: null,
+          current: true,
+          durationMonths: 42,
+        },
+        {
+          company: 'Stone',
+          title: 'Desenvolvedora Backend',
+          location: null,
+          description: null,
+          startDate: '2018-03',
+          endDate: '2020-12',
+          current: false,
+          durationMonths: 34,
+        },
+      ]);
+    });
+
+    it('should read textual periods and free-text lines', () => {
+      const json = JSON.stringify([
+        {
+          company: 'Itaú',
+          title: 'Analista',
+          date_range: 'jan de 2019 - o momento',
+        },
+      ]);
+      const text =
+        'Tech Lead at Nubank (mar 2020 - atual)\nDesenvolvedor - Stone - 2017 a 2019';
+
+      expect(parseExperience(json, NOW)[0]).toMatchObject({
+        company: 'Itaú',
+        startDate: '2019-01',
+        current: true,
+        durationMonths: 66,
+      });
+      expect(parseExperience(text, NOW)).toEqual([
+        expect.objectContaining({
+          title: 'Tech Lead',
+          company: 'Nubank',
+          startDate: '2020-03',
+          current: true,
+        }),
+        expect.objectContaining({
+          title: 'Desenvolvedor',
+          company: 'Stone',
+          startDate: '2017',
+          endDate: '2019',
+          durationMonths: 36,
+        }),
+      ]);
+    });
+
+    it('should return an empty timeline for empty values', () => {
+      expect(parseExperience('', NOW)).toEqual([]);
+      expect(parseExperience(null, NOW)).toEqual([]);
+      expect(parseExperience('[]', NOW)).toEqual([]);
+    });
+  });
+
+  describe('parseEducation', () => {
+    it('should parse JSON and text entries', () => {
+      const json = JSON.stringify([
+        {
+          school: 'Universidade de São Paulo',
+          degree_name: 'Bacharelado',
+          field_of_study: 'Ciência da Computação',
+          starts_at: { year: 2012 },
+          ends_at: { year: 2016 },
+        },
+      ]);
+
+      expect(parseEducation(json)).toEqual([
+        {
+          institution: 'Universidade de São Paulo',
+          degree: 'Bacharelado',
+          field: 'Ciência da Computação',
+          startYear: 2012,
+          endYear: 2016,
+        },
+      ]);
+      expect(
+        parseEducation('UFPR - MBA, Gestão de Projetos (2019 - 2020)'),
+      ).toEqual([
+        {
+          institution: 'UFPR',
+          degree: 'MBA',
+          field: 'Gestão de Projetos',
+          startYear: 2019,
+          endYear: 2020,
+        },
+      ]);
+    });
+  });
+
+  describe('parseCertifications', () => {
+    it('should accept objects, string arrays and comma-separated text', () => {
+      expect(
+        parseCertifications(
+          '[{"name":"AWS Solutions Architect","authority":"Amazon","issued_at":"2022-05"}]',
+        ),
+      ).toEqual([
+        {
+          name: 'AWS Solutions Architect',
+          issuer: 'Amazon',
+          issuedAt: '2022-05',
+        },
+      ]);
+      expect(parseCertifications('["CSM"]')).toEqual([
+        { name: 'CSM', issuer: null, issuedAt: null },
+      ]);
+      expect(
+        parseCertifications('AWS Cloud Practitioner, Azure Fundamentals').map(
+          (c) => c.name,
+        ),
+      ).toEqual(['AWS Cloud Practitioner', 'Azure Fundamentals']);
+    });
+  });
+});
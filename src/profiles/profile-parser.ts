@@ -0,0 +1,444 @@
+/**
+ * Normalização dos campos experience, education e certifications de
+ * linkedin.people. Os valores chegam como JSON (formatos variados de
+ * scraping) ou texto livre, então cada parser aceita os dois.
+ */
+
+export interface ExperienceEntry {
+  company: string | null;
+  title: string | null;
+  location: string | null;
+  description: string | null;
+  /** YYYY-MM (ou YYYY quando o mês não foi informado) */
+  startDate: string | null;
+  endDate: string | null;
+  current: boolean;
+  durationMonths: number | null;
+}
+
+export interface EducationEntry {
+  institution: string | null;
+  degree: string | null;
+  field: string | null;
+  startYear: number | null;
+  endYear: number | null;
+}
+
+export interface CertificationEntry {
+  name: string;
+  issuer: string | null;
+  issuedAt: string | null;
+}
+
+interface PartialDate {
+  year: number;
+  month?: number;
+}
+
+type RawEntry = Record<string, unknown> | string;
+
+const MONTHS: Record<string, number> = {
+  jan: 1,
+  fev: 2,
+  feb: 2,
+  mar: 3,
+  abr: 4,
+  apr: 4,
+  mai: 5,
+  may: 5,
+  jun: 6,
+  jul: 7,
+  ago: 8,
+  aug: 8,
+  set: 9,
+  sep: 9,
+  out: 10,
+  oct: 10,
+  nov: 11,
+  dez: 12,
+  dec: 12,
+};
+
+const PRESENT_PATTERN =
+  /\b(o momento|atual(mente)?|presente|present|current|hoje)\b/i;
+const MONTH_YEAR_PATTERN =
+  /\b(\d{4})-(\d{1,2})(?:-\d{1,2})?\b|\b(\d{1,2})\/(\d{4})\b|\b(jan|fev|feb|mar|abr|apr|mai|may|jun|jul|ago|aug|set|sep|out|oct|nov|dez|dec)[a-zç]*\.?\s+(?:de\s+)?(\d{4})\b|\b((?:19|20)\d{2})\b/gi;
+
+/**
+ * Linha do tempo profissional, da experiência mais recente para a mais antiga
+ */
+export function parseExperience(
+  raw: unknown,
+  now: Date = new Date(),
+): ExperienceEntry[] {
+  const entries = toEntries(raw, /\r?\n|;/).map((entry) => {
+    if (typeof entry === 'string') return parseExperienceLine(entry, now);
+
+    let start = parseDate(
+      pick(entry, ['starts_at', 'start_date', 'startDate', 'start', 'from']),
+    );
+    const endValue = pick(entry, [
+      'ends_at',
+      'end_date',
+      'endDate',
+      'end',
+      'to',
+    ]);
+    let end = parseDate(endValue);
+    // Sem data de término, a experiência é a atual
+    let current =
+      entry.current === true ||
+      entry.is_current === true ||
+      (!!start && endValue === undefined) ||
+      (typeof endValue === 'string' && PRESENT_PATTERN.test(endValue));
+
+    // Alguns formatos trazem apenas o período em texto ("jan 2020 - o momento")
+    const range = pickText(entry, ['date_range', 'dateRange', 'period']);
+    if (!start && range) {
+      ({ start, end, current } = parseRange(range));
+    }
+
+    return buildExperience(
+      {
+        company: pickText(entry, [
+          'company',
+          'company_name',
+          'companyName',
+          'empresa',
+        ]),
+        title: pickText(entry, [
+          'title',
+          'position',
+          'role',
+          'job_title',
+          'cargo',
+        ]),
+        location: pickText(entry, ['location', 'local']),
+        description: pickText(entry, ['description', 'summary', 'descricao']),
+      },
+      start,
+      end,
+      current,
+      now,
+    );
+  });
+
+  return entries
+    .filter((e) => e.company || e.title)
+    .sort((a, b) => {
+      if (a.current !== b.current) return a.current ? -1 : 1;
+      return (b.startDate || '').localeCompare(a.startDate || '');
+    });
+}
+
+/**
+ * Formação acadêmica, da mais recente para a mais antiga
+ */
+export function parseEducation(raw: unknown): EducationEntry[] {
+  const entries = toEntries(raw, /\r?\n|;/).map((entry): EducationEntry => {
+    if (typeof entry === 'string') return parseEducationLine(entry);
+
+    return {
+      institution: pickText(entry, [
+        'institution',
+        'school',
+        'school_name',
+        'schoolName',
+        'university',
+        'instituicao',
+      ]),
+      degree: pickText(entry, ['degree', 'degree_name', 'degreeName', 'grau']),
+      field: pickText(entry, [
+        'field',
+        'field_of_study',
+        'fieldOfStudy',
+        'major',
+        'curso',
+      ]),
+      startYear:
+        parseDate(
+          pick(entry, ['starts_at', 'start_date', 'startDate', 'start']),
+        )?.year ?? null,
+      endYear:
+        parseDate(pick(entry, ['ends_at', 'end_date', 'endDate', 'end']))
+          ?.year ?? null,
+    };
+  });
+
+  return entries
+    .filter((e) => e.institution || e.degree || e.field)
+    .sort(
+      (a, b) =>
+        (b.endYear ?? b.startYear ?? 0) - (a.endYear ?? a.startYear ?? 0),
+    );
+}
+
+export function parseCertifications(raw: unknown): CertificationEntry[] {
+  return toEntries(raw, /\r?\n|;|,/)
+    .map((entry): CertificationEntry | null => {
+      if (typeof entry === 'string') {
+        return { name: entry, issuer: null, issuedAt: null };
+      }
+
+      const name = pickText(entry, ['name', 'title', 'certification']);
+      if (!name) return null;
+      return {
+        name,
+        issuer: pickText(entry, [
+          'authority',
+          'issuer',
+          'organization',
+          'company',
+        ]),
+        issuedAt: formatDate(
+          parseDate(
+            pick(entry, [
+              'issued_at',
+              'issuedAt',
+              'issued',
+              'starts_at',
+              'date',
+            ]),
+          ),
+        ),
+      };
+    })
+    .filter((entry): entry is CertificationEntry => entry !== null);
+}
+
+/**
+ * Meses entre o início e o fim (inclusive, como no LinkedIn).
+ * Sem mês informado, considera janeiro no início e dezembro no fim.
+ */
+export function monthsBetween(
+  start: PartialDate,
+  end: PartialDate,
+): number | null {
+  const months =
+    (end.year - start.year) * 12 + ((end.month ?? 12) - (start.month ?? 1)) + 1;
+  return months > 0 ? months : null;
+}
+
+function buildExperience(
+  fields: Pick<
+    ExperienceEntry,
+    'company' | 'title' | 'location' | 'description'
+  >,
+  start: PartialDate | null,
+  end: PartialDate | null,
+  current: boolean,
+  now: Date,
+): ExperienceEntry {
+  const isCurrent = current && !end;
+  const until =
+    end ??
+    (isCurrent ? { year: now.getFullYear(), month: now.getMonth() + 1 } : null);
+
+  return {
+    ...fields,
+    startDate: formatDate(start),
+    endDate: formatDate(end),
+    current: isCurrent,
+    durationMonths: start && until ? monthsBetween(start, until) : null,
+  };
+}
+
+/**
+ * "Tech Lead at Nubank (jan 2020 - o momento)" ou "Tech Lead - Nubank - 2019 a 2021"
+ */
+function parseExperienceLine(line: string, now: Date): ExperienceEntry {
+  const { start, end, current, rest } = extractRange(line);
+  const [title, company] = rest
+    .split(/\s+(?:at|na|no|em|@)\s+|\s+[-–|]\s+/i)
+    .map((part) => part.trim())
+    .filter(Boolean);
+
+  return buildExperience(
+    {
+      company: company || null,
+      title: title || null,
+      location: null,
+      description: null,
+    },
+    start,
+    end,
+    current,
+    now,
+  );
+}
+
+/**
+ * "USP - Bacharelado, Ciência da Computação (2015 - 2019)"
+ */
+function parseEducationLine(line: string): EducationEntry {
+  const years = Array.from(line.matchAll(/\b((?:19|20)\d{2})\b/g)).map(
+    (match) => Number(match[1]),
+  );
+  const rest = line
+    .replace(/\([^)]*\)/g, ' ')
+    .replace(/\b(?:19|20)\d{2}\b/g, ' ')
+    .replace(/\s+[-–]\s*$/, '')
+    .trim();
+  const [institution, course = ''] = rest
+    .split(/\s+[-–|]\s+/)
+    .map((part) => part.trim());
+  const [degree, field] = course.split(',').map((part) => part.trim());
+
+  return {
+    institution: institution || null,
+    degree: degree || null,
+    field: field || null,
+    startYear: years.length > 1 ? years[0] : null,
+    endYear: years.length > 0 ? years[years.length - 1] : null,
+  };
+}
+
+function parseRange(text: string): {
+  start: PartialDate | null;
+  end: PartialDate | null;
+  current: boolean;
+} {
+  const dates = Array.from(text.matchAll(MONTH_YEAR_PATTERN))
+    .map((match) => matchToDate(match))
+    .filter((date): date is PartialDate => date !== null);
+
+  return {
+    start: dates[0] ?? null,
+    end: dates[1] ?? null,
+    current: PRESENT_PATTERN.test(text),
+  };
+}
+
+/**
+ * Separa o período (datas e "o momento") do restante do texto
+ */
+function extractRange(line: string): ReturnType<typeof parseRange> & {
+  rest: string;
+} {
+  const range = parseRange(line);
+  const rest = line
+    .replace(/\([^)]*\)/g, ' ')
+    .replace(MONTH_YEAR_PATTERN, ' ')
+    .replace(PRESENT_PATTERN, ' ')
+    .replace(/\s+(?:a|até|to)\s*$/i, '')
+    .replace(/[\s\-–|,]+$/, '')
+    .trim();
+
+  return { ...range, rest };
+}
+
+function parseDate(value: unknown): PartialDate | null {
+  if (value === null || value === undefined || value === '') return null;
+
+  if (typeof value === 'number') {
+    return value > 1900 ? { year: value } : null;
+  }
+
+  if (typeof value === 'object') {
+    const { year, month } = value as { year?: unknown; month?: unknown };
+    const y = Number(year);
+    if (!Number.isInteger(y) || y < 1900) return null;
+    const m = Number(month);
+    return Number.isInteger(m) && m >= 1 && m <= 12
+      ? { year: y, month: m }
+      : { year: y };
+  }
+
+  if (typeof value !== 'string' || PRESENT_PATTERN.test(value)) return null;
+
+  const [match] = Array.from(value.matchAll(MONTH_YEAR_PATTERN));
+  return match ? matchToDate(match) : null;
+}
+
+function matchToDate(match: RegExpMatchArray): PartialDate | null {
+  const [
+    ,
+    isoYear,
+    isoMonth,
+    slashMonth,
+    slashYear,
+    monthName,
+    nameYear,
+    year,
+  ] = match;
+
+  if (isoYear) return withMonth(Number(isoYear), Number(isoMonth));
+  if (slashYear) return withMonth(Number(slashYear), Number(slashMonth));
+  if (nameYear) {
+    return {
+      year: Number(nameYear),
+      month: MONTHS[monthName.slice(0, 3).toLowerCase()],
+    };
+  }
+  return year ? { year: Number(year) } : null;
+}
+
+function withMonth(year: number, month: number): PartialDate {
+  return month >= 1 && month <= 12 ? { year, month } : { year };
+}
+
+function formatDate(date: PartialDate | null): string | null {
+  if (!date) return null;
+  return date.month
+    ? `${date.year}-${String(date.month).padStart(2, '0')}`
+    : String(date.year);
+}
+
+/**
+ * Converte o valor bruto em uma lista de entradas (objetos JSON ou linhas de texto)
+ */
+function toEntries(raw: unknown, separator: RegExp): RawEntry[] {
+  if (raw === null || raw === undefined) return [];
+
+  let value: unknown = raw;
+  if (typeof value === 'string') {
+    const text = value.trim();
+    if (!text) return [];
+    if (text.startsWith('[') || text.startsWith('{')) {
+      try {
+        value = JSON.parse(text);
+      } catch {
+        // Texto que apenas começa com colchete: trata como texto livre
+      }
+    }
+  }
+
+  if (typeof value === 'string') {
+    return value
+      .split(separator)
+      .map((line) => line.trim())
+      .filter(Boolean);
+  }
+
+  const items = Array.isArray(value) ? (value as unknown[]) : [value];
+  return items.flatMap((item): RawEntry[] => {
+    if (typeof item === 'string') return item.trim() ? [item.trim()] : [];
+    if (item && typeof item === 'object') {
+      return [item as Record<string, unknown>];
+    }
+    return [];
+  });
+}
+
+function pick(entry: Record<string, unknown>, keys: string[]): unknown {
+  for (const key of keys) {
+    const value = entry[key];
+    if (value !== null && value !== undefined && value !== '') return value;
+  }
+  return undefined;
+}
+
+function pickText(
+  entry: Record<string, unknown>,
+  keys: string[],
+): string | null {
+  const value = pick(entry, keys);
+  if (typeof value === 'string') return value.trim() || null;
+  if (typeof value === 'number') return String(value);
+  // Ex: { "company": { "name": "Nubank" } }
+  if (value && typeof value === 'object' && 'name' in value) {
+    const name = (value as { name: unknown }).name;
+    return typeof name === 'string' ? name.trim() || null : null;
+  }
+  return null;
+}
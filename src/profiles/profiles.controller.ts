@@ -0,0 +1,110 @@
+import { Controller, Get, Post, Body, Param, HttpCode } from '@nestjs/common';
+import { ProfilesService } from './profiles.service';
+import type { CandidateProfile } from './profiles.service';
+import { ExperienceMetricsService } from './experience-metrics.service';
+import type { MetricsRefreshRun } from './experience-metrics.service';
+import { ProfileEmbeddingsService } from './profile-embeddings.service';
+import type {
+  EmbeddingsRefreshRun,
+  SimilarProfilesResult,
+} from './profile-embeddings.service';
+import {
+  RefreshEmbeddingsDto,
+  RefreshExperienceMetricsDto,
+  SimilarProfilesDto,
+} from './dto';
+
+@Controller('profiles')
+export class ProfilesController {
+  constructor(
+    private readonly profilesService: ProfilesService,
+    private readonly experienceMetricsService: ExperienceMetricsService,
+    private readonly profileEmbeddingsService: ProfileEmbeddingsService,
+  ) {}
+
+  /**
+   * Inicia em background o recálculo das métricas de experiência usadas nos
+   * filtros da busca. Sem updatedSince, recalcula só os perfis atualizados
+   * desde o último recálculo; "full": true recalcula todos.
+   * POST /profiles/experience-metrics/refresh
+   *
+   * Body:
+   * {
+   *   "updatedSince": "2024-06-01"
+   * }
+   */
+  @Post('experience-metrics/refresh')
+  @HttpCode(202)
+  async refreshExperienceMetrics(
+    @Body() dto: RefreshExperienceMetricsDto,
+  ): Promise<MetricsRefreshRun> {
+    return this.experienceMetricsService.startRefresh(dto);
+  }
+
+  /**
+   * Andamento do último recálculo de métricas
+   * GET /profiles/experience-metrics/refresh
+   */
+  @Get('experience-metrics/refresh')
+  getExperienceMetricsRefresh(): MetricsRefreshRun {
+    return this.experienceMetricsService.getLastRefresh();
+  }
+
+  /**
+   * Inicia em background a geração dos vetores dos perfis usados na busca
+   * por similaridade. Acompanhe em GET /profiles/embeddings/refresh.
+   * POST /profiles/embeddings/refresh
+   *
+   * Body:
+   * {
+   *   "updatedSince": "2024-06-01"
+   * }
+   */
+  @Post('embeddings/refresh')
+  @HttpCode(202)
+  refreshEmbeddings(@Body() dto: RefreshEmbeddingsDto): EmbeddingsRefreshRun {
+    return this.profileEmbeddingsService.startRefresh(dto);
+  }
+
+  /**
+   * Andamento da última geração de embeddings
+   * GET /profiles/embeddings/refresh
+   */
+  @Get('embeddings/refresh')
+  getEmbeddingsRefresh(): EmbeddingsRefreshRun {
+    return this.profileEmbeddingsService.getLastRefresh();
+  }
+
+  /**
+   * Perfis semelhantes a uma descrição livre e/ou a perfis de referência
+   * (ex: os marcados como interessantes), por similaridade de embeddings
+   * POST /profiles/similar
+   *
+   * Body:
+   * {
+   *   "text": "Engenheira de dados com Spark e experiência em varejo",
+   *   "profileIds": ["abc123"],
+   *   "excludeProfileIds": ["def456"],
+   *   "limit": 20
+   * }
+   */
+  @Post('similar')
+  @HttpCode(200)
+  async findSimilar(
+    @Body() dto: SimilarProfilesDto,
+  ): Promise<SimilarProfilesResult> {
+    return this.profileEmbeddingsService.findSimilar(dto);
+  }
+
+  /**
+   * Perfil completo do candidato: linha do tempo profissional (empresa, cargo,
+   * início/fim, duração), formação, certificações e métricas de experiência
+   * GET /profiles/:profileId
+   */
+  @Get(':profileId')
+  async getProfile(
+    @Param('profileId') profileId: string,
+  ): Promise<CandidateProfile> {
+    return this.profilesService.getProfile(profileId);
+  }
+}
@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { ProfilesController } from './profiles.controller';
+import { ProfilesService } from './profiles.service';
+import { ExperienceMetricsService } from './experience-metrics.service';
+import { ProfileEmbeddingsService } from './profile-embeddings.service';
+import { NaturalQueryModule } from '../natural-query/natural-query.module';
+import { EmbeddingsModule } from '../embeddings/embeddings.module';
+
+@Module({
+  imports: [NaturalQueryModule, EmbeddingsModule],
+  controllers: [ProfilesController],
+  providers: [
+    ProfilesService,
+    ExperienceMetricsService,
+    ProfileEmbeddingsService,
+  ],
+  exports: [
+    ProfilesService,
+    ExperienceMetricsService,
+    ProfileEmbeddingsService,
+  ],
+})
+export class ProfilesModule {}
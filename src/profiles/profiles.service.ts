@@ -0,0 +1,120 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ClickHouseService } from '../clickhouse/clickhouse.service';
+import { SqlGuardService } from '../natural-query/sql-guard.service';
+import {
+  CertificationEntry,
+  EducationEntry,
+  ExperienceEntry,
+  parseCertifications,
+  parseEducation,
+  parseExperience,
+} from './profile-parser';
+import {
+  ExperienceMetrics,
+  computeExperienceMetrics,
+} from './experience-metrics';
+
+/**
+ * Perfil completo do candidato, com histórico profissional e formação normalizados
+ */
+export interface CandidateProfile {
+  profileId: string;
+  fullName: string;
+  headline: string | null;
+  aboutMe: string | null;
+  currentJobTitle: string | null;
+  currentCompany: string | null;
+  currentCompanyUrl: string | null;
+  seniority: string | null;
+  area: string | null;
+  macroarea: string | null;
+  city: string | null;
+  state: string | null;
+  country: string | null;
+  profileUrl: string | null;
+  profileImageUrl: string | null;
+  updatedAt: string | null;
+  experience: ExperienceEntry[];
+  education: EducationEntry[];
+  certifications: CertificationEntry[];
+  experienceMetrics: ExperienceMetrics;
+}
+
+interface PeopleRow {
+  profile_id: string;
+  full_name: string;
+  headline?: string;
+  about_me?: string;
+  current_job_title?: string;
+  current_company?: string;
+  current_company_url?: string;
+  seniority?: string;
+  area?: string;
+  macroarea?: string;
+  city?: string;
+  state?: string;
+  country?: string;
+  profile_url?: string;
+  profile_image_url?: string;
+  updated_at?: string;
+  experience?: string;
+  education?: string;
+  certifications?: string;
+}
+
+@Injectable()
+export class ProfilesService {
+  private readonly logger = new Logger(ProfilesService.name);
+
+  constructor(
+    private readonly clickhouseService: ClickHouseService,
+    private readonly sqlGuard: SqlGuardService,
+  ) {}
+
+  async getProfile(profileId: string): Promise<CandidateProfile> {
+    const [row] = await this.clickhouseService.query<PeopleRow>({
+      query: `SELECT profile_id, full_name, headline, about_me, current_job_title,
+                     current_company, current_company_url, seniority, area, macroarea,
+                     city, state, country, profile_url, profile_image_url, updated_at,
+                     experience, education, certifications
+              FROM linkedin.people
+              WHERE profile_id = {profileId:String}
+              LIMIT 1`,
+      params: { profileId },
+      settings: this.sqlGuard.getReadonlySettings(1),
+    });
+
+    if (!row) {
+      throw new NotFoundException(`Perfil não encontrado: ${profileId}`);
+    }
+
+    this.logger.log(`Perfil carregado: ${profileId}`);
+    return this.toProfile(row);
+  }
+
+  private toProfile(row: PeopleRow): CandidateProfile {
+    const experience = parseExperience(row.experience);
+    return {
+      profileId: row.profile_id,
+      fullName: row.full_name,
+      headline: row.headline || null,
+      aboutMe: row.about_me || null,
+      currentJobTitle: row.current_job_title || null,
+      currentCompany: row.current_company || null,
+      currentCompanyUrl: row.current_company_url || null,
+      seniority: row.seniority || null,
+      area: row.area || null,
+      macroarea: row.macroarea || null,
+      city: row.city || null,
+      state: row.state || null,
+      country: row.country || null,
+      profileUrl: row.profile_url || null,
+      profileImageUrl: row.profile_image_url || null,
+      updatedAt: row.updated_at || null,
+      experience,
+      education: parseEducation(row.education),
+      certifications: parseCertifications(row.certifications),
+      experienceMetrics: computeExperienceMetrics(experience),
+    };
+  }
+}
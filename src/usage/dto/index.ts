@@ -0,0 +1 @@
+export * from './usage-report.dto';
@@ -0,0 +1,34 @@
+import { IsIn, IsOptional, IsString, Matches } from 'class-validator';
+import { USAGE_GROUPS } from '../usage.service';
+
+export class UsageReportDto {
+  @IsIn(USAGE_GROUPS)
+  @IsOptional()
+  groupBy?: 'day' | 'user' | 'job' | 'session' | 'endpoint' | 'model';
+
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, {
+    message: 'from deve estar no formato YYYY-MM-DD',
+  })
+  @IsOptional()
+  from?: string;
+
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, {
+    message: 'to deve estar no formato YYYY-MM-DD',
+  })
+  @IsOptional()
+  to?: string;
+
+  @IsString()
+  @IsOptional()
+  userId?: string;
+
+  @IsString()
+  @IsOptional()
+  jobId?: string;
+}
+
+export class UsageBudgetDto {
+  @IsString()
+  @IsOptional()
+  userId?: string;
+}
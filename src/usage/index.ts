@@ -0,0 +1,8 @@
+export * from './usage.module';
+export * from './usage.service';
+export * from './usage.controller';
+export * from './metered-llm.service';
+export * from './metered-embedder';
+export * from './llm-prices';
+export * from './request-context';
+export * from './request-context.interceptor';
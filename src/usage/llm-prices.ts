@@ -0,0 +1,51 @@
+import { LlmUsage } from '../llm/llm.service';
+
+/**
+ * Preço em USD por 1 milhão de tokens
+ */
+export interface LlmPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * Tabela pública da OpenAI; LLM_PRICES complementa ou substitui
+ * (deployments Azure, modelos novos). Modelos sem preço custam 0.
+ */
+export const DEFAULT_LLM_PRICES: Record<string, LlmPrice> = {
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'o4-mini': { input: 1.1, output: 4.4 },
+  'text-embedding-3-small': { input: 0.02, output: 0 },
+  'text-embedding-3-large': { input: 0.13, output: 0 },
+  'text-embedding-ada-002': { input: 0.1, output: 0 },
+};
+
+/**
+ * Preço do modelo: nome exato ou o prefixo mais longo
+ * ("gpt-4o-mini-2024-07-18" usa gpt-4o-mini, não gpt-4o)
+ */
+export function priceFor(
+  model: string,
+  prices: Record<string, LlmPrice>,
+): LlmPrice | undefined {
+  if (prices[model]) return prices[model];
+  const prefix = Object.keys(prices)
+    .filter((name) => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? prices[prefix] : undefined;
+}
+
+export function estimateCost(
+  price: LlmPrice | undefined,
+  usage: LlmUsage,
+): number {
+  if (!price) return 0;
+  return (
+    (usage.promptTokens * price.input + usage.completionTokens * price.output) /
+    1_000_000
+  );
+}
@@ -0,0 +1,65 @@
+import { MeteredEmbedder } from './metered-embedder';
+import { runWithRequestContext } from './request-context';
+import { BudgetExceededException, UsageService } from './usage.service';
+import type { OpenAIEmbedder } from '../embeddings/openai-embedder';
+
+describe('MeteredEmbedder', () => {
+  const embedBatch = jest.fn();
+  const record = jest.fn();
+  const checkBudget = jest.fn();
+  const usage = { record, checkBudget, budgetAction: 'reject' };
+  const embedder = new MeteredEmbedder(
+    {
+      model: 'text-embedding-3-small',
+      dimensions: 1536,
+      embedBatch,
+    } as unknown as OpenAIEmbedder,
+    usage as unknown as UsageService,
+  );
+
+  beforeEach(() => {
+    embedBatch.mockReset();
+    record.mockReset();
+    checkBudget.mockReset().mockResolvedValue(undefined);
+    usage.budgetAction = 'reject';
+  });
+
+  it('should record the tokens of each call with the request context', async () => {
+    embedBatch.mockResolvedValue({ vectors: [[1, 0]], promptTokens: 42 });
+    const context = { endpoint: 'POST /profiles/similar', userId: 'ana' };
+
+    const vectors = await runWithRequestContext(context, () =>
+      embedder.embed(['engenheira de dados']),
+    );
+
+    expect(vectors).toEqual([[1, 0]]);
+    expect(checkBudget).toHaveBeenCalledWith('ana');
+    expect(record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        model: 'text-embedding-3-small',
+        task: 'embeddings',
+        operation: 'embeddings',
+        usage: { promptTokens: 42, completionTokens: 0 },
+        status: 'ok',
+      }),
+      context,
+    );
+  });
+
+  it('should reject when the budget is exceeded and keep the model otherwise', async () => {
+    checkBudget.mockResolvedValue({ scope: 'total', spentUsd: 5, limitUsd: 5 });
+    embedBatch.mockResolvedValue({ vectors: [[1]] });
+
+    await expect(embedder.embed(['x'])).rejects.toThrow(
+      BudgetExceededException,
+    );
+    expect(embedBatch).not.toHaveBeenCalled();
+
+    usage.budgetAction = 'downgrade';
+    await expect(embedder.embed(['x'])).resolves.toEqual([[1]]);
+    expect(record).toHaveBeenCalledWith(
+      expect.objectContaining({ usage: undefined, downgraded: false }),
+      undefined,
+    );
+  });
+});
@@ -0,0 +1,70 @@
+import { Logger } from '@nestjs/common';
+import type { Embedder } from '../embeddings/embedder';
+import type { OpenAIEmbedder } from '../embeddings/openai-embedder';
+import { getRequestContext } from './request-context';
+import { BudgetExceededException, UsageService } from './usage.service';
+
+/**
+ * Embedder da OpenAI com a mesma contabilização e o mesmo orçamento das
+ * chamadas ao modelo. Não há rebaixamento: outro modelo mudaria o espaço
+ * vetorial, então com USAGE_BUDGET_ACTION=downgrade a chamada segue.
+ */
+export class MeteredEmbedder implements Embedder {
+  private readonly logger = new Logger(MeteredEmbedder.name);
+  readonly model: string;
+  readonly dimensions: number;
+
+  constructor(
+    private readonly embedder: OpenAIEmbedder,
+    private readonly usage: UsageService,
+  ) {
+    this.model = embedder.model;
+    this.dimensions = embedder.dimensions;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    const context = getRequestContext();
+    const budget = await this.usage.checkBudget(context?.userId);
+    if (budget && this.usage.budgetAction === 'reject') {
+      throw new BudgetExceededException(budget);
+    }
+    if (budget) {
+      this.logger.warn(
+        `Orçamento ${budget.scope === 'user' ? `do usuário ${context?.userId}` : 'total'} esgotado: embeddings seguem com ${this.model}`,
+      );
+    }
+
+    const base = {
+      provider: 'openai',
+      model: this.model,
+      task: 'embeddings' as const,
+      operation: 'embeddings' as const,
+      downgraded: false,
+    };
+    const startedAt = Date.now();
+    try {
+      const { vectors, promptTokens } = await this.embedder.embedBatch(texts);
+      void this.usage.record(
+        {
+          ...base,
+          usage:
+            promptTokens === undefined
+              ? undefined
+              : { promptTokens, completionTokens: 0 },
+          latencyMs: Date.now() - startedAt,
+          status: 'ok',
+        },
+        context,
+      );
+      return vectors;
+    } catch (error) {
+      void this.usage.record(
+        { ...base, latencyMs: Date.now() - startedAt, status: 'error' },
+        context,
+      );
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,75 @@
+import { FakeLlmService } from '../llm/fake-llm.service';
+import { MeteredLlmService } from './metered-llm.service';
+import { runWithRequestContext } from './request-context';
+import { BudgetExceededException, UsageService } from './usage.service';
+
+describe('MeteredLlmService', () => {
+  const fake = new FakeLlmService();
+  const record = jest.fn();
+  const checkBudget = jest.fn();
+  const usage = {
+    record,
+    checkBudget,
+    budgetAction: 'reject',
+    downgradeModel: 'gpt-4o-mini',
+  };
+  const llm = new MeteredLlmService(fake, usage as unknown as UsageService);
+  const request = {
+    task: 'sql_planning' as const,
+    messages: [{ role: 'user' as const, content: 'x' }],
+  };
+
+  beforeEach(() => {
+    fake.reset();
+    record.mockReset();
+    checkBudget.mockReset().mockResolvedValue(undefined);
+    usage.budgetAction = 'reject';
+  });
+
+  it('should record every call with the request context', async () => {
+    fake.reply(
+      { content: '{}', usage: { promptTokens: 120, completionTokens: 30 } },
+      new Error('timeout'),
+    );
+    const context = { endpoint: 'POST /query/chat', userId: 'ana' };
+
+    await runWithRequestContext(context, async () => {
+      await llm.chat(request);
+      await expect(llm.chat(request)).rejects.toThrow('timeout');
+    });
+
+    expect(checkBudget).toHaveBeenCalledWith('ana');
+    expect(record).toHaveBeenNthCalledWith(
+      1,
+      expect.objectContaining({
+        model: 'fake-sql_planning',
+        usage: { promptTokens: 120, completionTokens: 30 },
+        status: 'ok',
+        downgraded: false,
+      }),
+      context,
+    );
+    expect(record).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({ status: 'error' }),
+      context,
+    );
+  });
+
+  it('should reject or downgrade when the budget is exceeded', async () => {
+    checkBudget.mockResolvedValue({ scope: 'user', spentUsd: 5, limitUsd: 5 });
+    fake.reply('{}');
+
+    await expect(llm.chat(request)).rejects.toThrow(BudgetExceededException);
+    expect(fake.requests).toHaveLength(0);
+
+    usage.budgetAction = 'downgrade';
+    const response = await llm.chat(request);
+
+    expect(response.model).toBe('gpt-4o-mini');
+    expect(record).toHaveBeenCalledWith(
+      expect.objectContaining({ model: 'gpt-4o-mini', downgraded: true }),
+      undefined,
+    );
+  });
+});
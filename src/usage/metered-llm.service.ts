@@ -0,0 +1,97 @@
+import { Logger } from '@nestjs/common';
+import {
+  LlmRequest,
+  LlmResponse,
+  LlmService,
+  LlmTask,
+  LlmToolRequest,
+  parseJsonContent,
+} from '../llm/llm.service';
+import { getRequestContext } from './request-context';
+import {
+  BudgetExceededException,
+  UsageCall,
+  UsageService,
+} from './usage.service';
+
+/**
+ * LlmService que contabiliza cada chamada (tokens, latência, custo e quem a
+ * originou) e aplica o orçamento mensal antes de chamar o modelo
+ */
+export class MeteredLlmService implements LlmService {
+  private readonly logger = new Logger(MeteredLlmService.name);
+  readonly provider: string;
+
+  constructor(
+    private readonly llm: LlmService,
+    private readonly usage: UsageService,
+  ) {
+    this.provider = llm.provider;
+  }
+
+  modelFor(task: LlmTask): string {
+    return this.llm.modelFor(task);
+  }
+
+  chat(request: LlmRequest): Promise<LlmResponse> {
+    return this.metered('chat', request, (metered) => this.llm.chat(metered));
+  }
+
+  async json<T>(request: LlmRequest): Promise<T> {
+    const { content } = await this.chat({ ...request, responseFormat: 'json' });
+    return parseJsonContent<T>(content);
+  }
+
+  callTools(request: LlmToolRequest): Promise<LlmResponse> {
+    return this.metered('tools', request, (metered) =>
+      this.llm.callTools(metered),
+    );
+  }
+
+  private async metered<R extends LlmRequest | LlmToolRequest>(
+    operation: UsageCall['operation'],
+    request: R,
+    call: (request: R) => Promise<LlmResponse>,
+  ): Promise<LlmResponse> {
+    const context = getRequestContext();
+    const budget = await this.usage.checkBudget(context?.userId);
+    if (budget && this.usage.budgetAction === 'reject') {
+      throw new BudgetExceededException(budget);
+    }
+    if (budget) {
+      this.logger.warn(
+        `Orçamento ${budget.scope === 'user' ? `do usuário ${context?.userId}` : 'total'} esgotado: ${request.task} rebaixado para ${this.usage.downgradeModel}`,
+      );
+      request = { ...request, model: this.usage.downgradeModel };
+    }
+
+    const model = request.model || this.llm.modelFor(request.task);
+    const base = {
+      provider: this.provider,
+      task: request.task,
+      operation,
+      downgraded: !!budget,
+    };
+    const startedAt = Date.now();
+    try {
+      const response = await call(request);
+      void this.usage.record(
+        {
+          ...base,
+          model: response.model,
+          usage: response.usage,
+          latencyMs: Date.now() - startedAt,
+          status: 'ok',
+        },
+        context,
+      );
+      return response;
+    } catch (error) {
+      void this.usage.record(
+        { ...base, model, latencyMs: Date.now() - startedAt, status: 'error' },
+        context,
+      );
+      throw error;
+    }
+  }
+}
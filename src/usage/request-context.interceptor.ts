@@ -0,0 +1,63 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { Request } from 'express';
+import { Observable } from 'rxjs';
+import {
+  RequestContext,
+  USAGE_SCOPE,
+  UsageScopeKind,
+  runWithRequestContext,
+} from './request-context';
+
+/**
+ * Executa cada handler HTTP dentro do RequestContext da requisição.
+ * Usuário: header X-User-Id. Vaga e sessão: :id das rotas marcadas com
+ * @UsageScope, headers X-Job-Id/X-Session-Id ou jobId/sessionId do body.
+ */
+@Injectable()
+export class RequestContextInterceptor implements NestInterceptor {
+  constructor(private readonly reflector: Reflector) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    if (context.getType() !== 'http') return next.handle();
+
+    const request = context.switchToHttp().getRequest<Request>();
+    const scope = this.reflector.getAllAndOverride<UsageScopeKind | undefined>(
+      USAGE_SCOPE,
+      [context.getHandler(), context.getClass()],
+    );
+    const requestContext = buildRequestContext(request, scope);
+
+    // O handler só é chamado na inscrição: ela precisa acontecer no contexto
+    return new Observable((subscriber) =>
+      runWithRequestContext(requestContext, () =>
+        next.handle().subscribe(subscriber),
+      ),
+    );
+  }
+}
+
+export function buildRequestContext(
+  request: Request,
+  scope?: UsageScopeKind,
+): RequestContext {
+  const route = (request.route as { path?: string } | undefined)?.path;
+  const body = (request.body || {}) as Record<string, unknown>;
+  const param = (request.params as Record<string, string | undefined>).id;
+  const pick = (header: string, field: string, kind: UsageScopeKind) =>
+    (scope === kind ? param : undefined) ||
+    request.header(header) ||
+    (typeof body[field] === 'string' ? body[field] : undefined);
+
+  return {
+    endpoint: `${request.method} ${route || request.path}`,
+    userId: request.header('x-user-id') || undefined,
+    jobId: pick('x-job-id', 'jobId', 'job'),
+    sessionId: pick('x-session-id', 'sessionId', 'session'),
+  };
+}
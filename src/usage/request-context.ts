@@ -0,0 +1,39 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { SetMetadata } from '@nestjs/common';
+
+/**
+ * Quem originou o processamento atual: preenchido por requisição HTTP pelo
+ * RequestContextInterceptor e lido onde não há acesso à requisição
+ * (ex.: contabilização das chamadas ao modelo)
+ */
+export interface RequestContext {
+  /** Rota como declarada ("POST /query/sessions/:id/messages") */
+  endpoint: string;
+  userId?: string;
+  jobId?: string;
+  sessionId?: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+export function runWithRequestContext<T>(
+  context: RequestContext,
+  fn: () => T,
+): T {
+  return storage.run(context, fn);
+}
+
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
+
+export const USAGE_SCOPE = 'usage:scope';
+
+export type UsageScopeKind = 'job' | 'session';
+
+/**
+ * Indica que o parâmetro :id das rotas do controller (ou do handler)
+ * identifica a vaga ou a sessão de busca
+ */
+export const UsageScope = (kind: UsageScopeKind) =>
+  SetMetadata(USAGE_SCOPE, kind);
@@ -0,0 +1,44 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { UsageController } from './usage.controller';
+import { UsageService } from './usage.service';
+
+describe('UsageController', () => {
+  const budgetStatus = jest.fn();
+
+  const createController = async (config: Record<string, string>) => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [UsageController],
+      providers: [
+        { provide: UsageService, useValue: { budgetStatus } },
+        { provide: ConfigService, useValue: new ConfigService(config) },
+      ],
+    }).compile();
+    return module.get<UsageController>(UsageController);
+  };
+
+  beforeEach(() => {
+    budgetStatus.mockReset().mockResolvedValue({ month: '2026-10' });
+  });
+
+  it('should refuse every request when no admin token is configured', async () => {
+    const controller = await createController({});
+
+    await expect(controller.budget({}, undefined)).rejects.toThrow(
+      'Relatório de uso desabilitado: defina USAGE_ADMIN_TOKEN',
+    );
+    expect(budgetStatus).not.toHaveBeenCalled();
+  });
+
+  it('should require the configured admin token', async () => {
+    const controller = await createController({ USAGE_ADMIN_TOKEN: 'segredo' });
+
+    await expect(controller.budget({}, 'errado')).rejects.toThrow(
+      'Token de administração inválido',
+    );
+    await expect(
+      controller.budget({ userId: 'ana' }, 'segredo'),
+    ).resolves.toEqual({ month: '2026-10' });
+    expect(budgetStatus).toHaveBeenCalledWith('ana');
+  });
+});
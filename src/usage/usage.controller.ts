@@ -0,0 +1,61 @@
+import {
+  Controller,
+  ForbiddenException,
+  Get,
+  Headers,
+  Query,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { UsageService } from './usage.service';
+import type { BudgetStatus, UsageReport } from './usage.service';
+import { UsageBudgetDto, UsageReportDto } from './dto';
+
+@Controller('usage')
+export class UsageController {
+  constructor(
+    private readonly usageService: UsageService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Chamadas ao modelo, tokens, latência e custo estimado, agrupados por
+   * day (padrão), user, job, session, endpoint ou model.
+   * Exige o header X-Admin-Token igual a USAGE_ADMIN_TOKEN; sem o token
+   * configurado a rota fica fechada.
+   * GET /usage?groupBy=user&from=2026-10-01&to=2026-10-31
+   * GET /usage?groupBy=day&jobId=uuid-da-vaga
+   */
+  @Get()
+  async report(
+    @Query() dto: UsageReportDto,
+    @Headers('x-admin-token') adminToken: string | undefined,
+  ): Promise<UsageReport> {
+    this.assertAdmin(adminToken);
+    return this.usageService.report({ ...dto, groupBy: dto.groupBy || 'day' });
+  }
+
+  /**
+   * Gasto do mês frente aos orçamentos (total e, com userId, do usuário)
+   * GET /usage/budget?userId=ana
+   */
+  @Get('budget')
+  async budget(
+    @Query() dto: UsageBudgetDto,
+    @Headers('x-admin-token') adminToken: string | undefined,
+  ): Promise<BudgetStatus> {
+    this.assertAdmin(adminToken);
+    return this.usageService.budgetStatus(dto.userId);
+  }
+
+  private assertAdmin(adminToken: string | undefined): void {
+    const expected = this.configService.get<string>('USAGE_ADMIN_TOKEN');
+    if (!expected) {
+      throw new ForbiddenException(
+        'Relatório de uso desabilitado: defina USAGE_ADMIN_TOKEN',
+      );
+    }
+    if (adminToken !== expected) {
+      throw new ForbiddenException('Token de administração inválido');
+    }
+  }
+}
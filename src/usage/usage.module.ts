@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { APP_INTERCEPTOR } from '@nestjs/core';
+import { UsageService } from './usage.service';
+import { UsageController } from './usage.controller';
+import { RequestContextInterceptor } from './request-context.interceptor';
+
+@Module({
+  controllers: [UsageController],
+  providers: [
+    UsageService,
+    { provide: APP_INTERCEPTOR, useClass: RequestContextInterceptor },
+  ],
+  exports: [UsageService],
+})
+export class UsageModule {}
@@ -0,0 +1,166 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { UsageService } from './usage.service';
+import { ClickHouseService } from '../clickhouse/clickhouse.service';
+import { priceFor } from './llm-prices';
+
+describe('UsageService', () => {
+  let service: UsageService;
+  const query = jest.fn();
+  const insert = jest.fn();
+
+  const createService = async (config: Record<string, string> = {}) => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        UsageService,
+        { provide: ClickHouseService, useValue: { query, insert } },
+        { provide: ConfigService, useValue: new ConfigService(config) },
+      ],
+    }).compile();
+    return module.get<UsageService>(UsageService);
+  };
+
+  beforeEach(async () => {
+    query.mockReset();
+    insert.mockReset().mockResolvedValue(undefined);
+    service = await createService({
+      USAGE_MONTHLY_BUDGET_USD: '10',
+      USAGE_USER_MONTHLY_BUDGET_USD: '1',
+      LLM_PRICES: '{"meu-deployment":{"input":1,"output":2}}',
+    });
+  });
+
+  it('should record the call with the request context and estimated cost', async () => {
+    await service.record(
+      {
+        provider: 'openai',
+        model: 'gpt-4o-mini-2024-07-18',
+        task: 'summarization',
+        operation: 'chat',
+        usage: { promptTokens: 1_000_000, completionTokens: 500_000 },
+        latencyMs: 812.4,
+        status: 'ok',
+        downgraded: false,
+      },
+      { endpoint: 'POST /query/chat', userId: 'ana', sessionId: 's1' },
+    );
+
+    expect(insert).toHaveBeenCalledWith('llm_usage', [
+      expect.objectContaining({
+        model: 'gpt-4o-mini-2024-07-18',
+        endpoint: 'POST /query/chat',
+        user_id: 'ana',
+        job_id: '',
+        session_id: 's1',
+        latency_ms: 812,
+        cost_usd: 0.45,
+        downgraded: 0,
+      }),
+    ]);
+  });
+
+  it('should price models by exact name or longest prefix', () => {
+    const prices = {
+      'gpt-4o': { input: 2.5, output: 10 },
+      'gpt-4o-mini': { input: 0.15, output: 0.6 },
+    };
+
+    expect(priceFor('gpt-4o-mini-2024-07-18', prices)).toBe(
+      prices['gpt-4o-mini'],
+    );
+    expect(priceFor('gpt-4o-2024-08-06', prices)).toBe(prices['gpt-4o']);
+    expect(priceFor('llama3', prices)).toBeUndefined();
+  });
+
+  it('should check the monthly budgets with the cached spend', async () => {
+    query.mockImplementation(({ params }: { params: { userId?: string } }) =>
+      Promise.resolve([{ usd: params.userId ? 0.9 : 4 }]),
+    );
+
+    expect(await service.checkBudget('ana')).toBeUndefined();
+    await service.record(
+      {
+        provider: 'azure',
+        model: 'meu-deployment',
+        task: 'sql_planning',
+        operation: 'chat',
+        usage: { promptTokens: 100_000, completionTokens: 0 },
+        latencyMs: 100,
+        status: 'ok',
+        downgraded: false,
+      },
+      { endpoint: 'POST /query/chat', userId: 'ana' },
+    );
+
+    expect(await service.checkBudget('ana')).toEqual({
+      scope: 'user',
+      spentUsd: 1,
+      limitUsd: 1,
+    });
+    expect(await service.checkBudget('bia')).toBeUndefined();
+    // total e ana lidos uma vez; bia na segunda checagem
+    expect(query).toHaveBeenCalledTimes(3);
+  });
+
+  it('should aggregate the report and convert 64-bit counters', async () => {
+    query.mockResolvedValueOnce([
+      {
+        key: 'ana',
+        calls: '3',
+        promptTokens: '3000',
+        completionTokens: '600',
+        costUsd: 0.02,
+        avgLatencyMs: 1000,
+        errors: '1',
+      },
+      {
+        key: '',
+        calls: '1',
+        promptTokens: '100',
+        completionTokens: '50',
+        costUsd: 0.01,
+        avgLatencyMs: 200,
+        errors: '0',
+      },
+    ]);
+    // Total de todos os grupos, inclusive os que passam do LIMIT
+    query.mockResolvedValueOnce([
+      {
+        key: '',
+        calls: '5',
+        promptTokens: '3150',
+        completionTokens: '650',
+        costUsd: 0.035,
+        avgLatencyMs: 800,
+        errors: '1',
+      },
+    ]);
+
+    const report = await service.report({
+      groupBy: 'user',
+      from: '2026-10-01',
+      to: '2026-10-19',
+      jobId: 'vaga-1',
+    });
+
+    const [[{ query: sql, params }]] = query.mock.calls as [
+      [{ query: string; params: Record<string, unknown> }],
+    ];
+    expect(sql).toContain('user_id AS key');
+    expect(sql).toContain('AND job_id = {jobId:String}');
+    expect(params).toMatchObject({ from: '2026-10-01', to: '2026-10-19' });
+    expect(report.rows.map((row) => [row.key, row.calls])).toEqual([
+      ['ana', 3],
+      [null, 1],
+    ]);
+    expect(query.mock.calls[1]).toEqual([expect.objectContaining({ params })]);
+    expect(report.total).toEqual({
+      calls: 5,
+      promptTokens: 3150,
+      completionTokens: 650,
+      costUsd: 0.035,
+      avgLatencyMs: 800,
+      errors: 1,
+    });
+  });
+});
@@ -0,0 +1,395 @@
+import {
+  HttpException,
+  HttpStatus,
+  Injectable,
+  Logger,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ClickHouseService } from '../clickhouse/clickhouse.service';
+import type { LlmTask, LlmUsage } from '../llm/llm.service';
+import {
+  DEFAULT_LLM_PRICES,
+  LlmPrice,
+  estimateCost,
+  priceFor,
+} from './llm-prices';
+import { RequestContext, getRequestContext } from './request-context';
+
+export const USAGE_TABLE = 'llm_usage';
+
+export const USAGE_GROUPS = [
+  'day',
+  'user',
+  'job',
+  'session',
+  'endpoint',
+  'model',
+] as const;
+
+export type UsageGroup = (typeof USAGE_GROUPS)[number];
+
+const GROUP_COLUMNS: Record<UsageGroup, string> = {
+  day: 'toString(toDate(created_at))',
+  user: 'user_id',
+  job: 'job_id',
+  session: 'session_id',
+  endpoint: 'endpoint',
+  model: 'model',
+};
+
+/** reject: recusa a chamada; downgrade: usa USAGE_DOWNGRADE_MODEL */
+export const BUDGET_ACTIONS = ['reject', 'downgrade'] as const;
+
+export type BudgetAction = (typeof BUDGET_ACTIONS)[number];
+
+// Grupos devolvidos no relatório (o total considera todos)
+const REPORT_MAX_ROWS = 1000;
+
+const TOTALS_COLUMNS = `count() AS calls,
+          sum(prompt_tokens) AS promptTokens,
+          sum(completion_tokens) AS completionTokens,
+          sum(cost_usd) AS costUsd,
+          avg(latency_ms) AS avgLatencyMs,
+          countIf(status = 'error') AS errors`;
+
+// O gasto do mês é relido do ClickHouse a cada minuto; entre as leituras,
+// as chamadas deste processo são somadas ao valor lido
+const SPEND_REFRESH_MS = 60_000;
+
+/**
+ * Uma chamada ao modelo (cada tentativa de reparo é uma chamada)
+ */
+export interface UsageCall {
+  provider: string;
+  model: string;
+  task: LlmTask | 'embeddings';
+  operation: 'chat' | 'tools' | 'embeddings';
+  /** Ausente quando o provedor não informa os tokens */
+  usage?: LlmUsage;
+  latencyMs: number;
+  status: 'ok' | 'error';
+  /** O modelo da tarefa foi trocado pelo de rebaixamento (orçamento) */
+  downgraded: boolean;
+}
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+  avgLatencyMs: number;
+  errors: number;
+}
+
+export interface UsageRow extends UsageTotals {
+  /** Dia (YYYY-MM-DD), usuário, vaga...; null quando não identificado */
+  key: string | null;
+}
+
+export interface UsageReportOptions {
+  groupBy: UsageGroup;
+  /** YYYY-MM-DD (padrão: início do mês) */
+  from?: string;
+  /** YYYY-MM-DD, inclusive (padrão: hoje) */
+  to?: string;
+  userId?: string;
+  jobId?: string;
+}
+
+export interface UsageReport {
+  groupBy: UsageGroup;
+  from: string;
+  to: string;
+  rows: UsageRow[];
+  total: UsageTotals;
+}
+
+export interface BudgetCheck {
+  scope: 'total' | 'user';
+  spentUsd: number;
+  limitUsd: number;
+}
+
+export interface BudgetStatus {
+  month: string;
+  action: BudgetAction;
+  downgradeModel: string;
+  total: { spentUsd: number; limitUsd: number | null };
+  user?: { userId: string; spentUsd: number; limitUsd: number | null };
+}
+
+/**
+ * Orçamento mensal de LLM esgotado com USAGE_BUDGET_ACTION=reject
+ */
+export class BudgetExceededException extends HttpException {
+  constructor(readonly check: BudgetCheck) {
+    super(
+      `Orçamento mensal de LLM esgotado (${check.scope === 'user' ? 'usuário' : 'total'}): US$ ${check.spentUsd.toFixed(2)} de US$ ${check.limitUsd.toFixed(2)}`,
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+  }
+}
+
+/**
+ * Contabiliza as chamadas ao modelo (tokens, latência, custo estimado e quem
+ * as originou), gera relatórios de uso e controla os orçamentos mensais
+ */
+@Injectable()
+export class UsageService implements OnModuleInit {
+  private readonly logger = new Logger(UsageService.name);
+  private readonly prices: Record<string, LlmPrice>;
+  private readonly monthlyBudget: number;
+  private readonly userMonthlyBudget: number;
+  readonly budgetAction: BudgetAction;
+  readonly downgradeModel: string;
+  private readonly spend = new Map<
+    string,
+    { month: string; usd: number; loadedAt: number }
+  >();
+
+  constructor(
+    private readonly clickhouseService: ClickHouseService,
+    private readonly configService: ConfigService,
+  ) {
+    this.prices = {
+      ...DEFAULT_LLM_PRICES,
+      ...this.parsePrices(this.configService.get<string>('LLM_PRICES')),
+    };
+    // 0: sem limite
+    this.monthlyBudget = Number(
+      this.configService.get<string>('USAGE_MONTHLY_BUDGET_USD') || 0,
+    );
+    this.userMonthlyBudget = Number(
+      this.configService.get<string>('USAGE_USER_MONTHLY_BUDGET_USD') || 0,
+    );
+    this.budgetAction =
+      this.configService.get<string>('USAGE_BUDGET_ACTION') === 'downgrade'
+        ? 'downgrade'
+        : 'reject';
+    this.downgradeModel =
+      this.configService.get<string>('USAGE_DOWNGRADE_MODEL') || 'gpt-4o-mini';
+  }
+
+  async onModuleInit() {
+    try {
+      await this.clickhouseService.command(`
+        CREATE TABLE IF NOT EXISTS ${USAGE_TABLE} (
+          created_at DateTime64(3) DEFAULT now64(3),
+          provider LowCardinality(String),
+          model LowCardinality(String),
+          task LowCardinality(String),
+          operation LowCardinality(String),
+          endpoint String,
+          user_id String,
+          job_id String,
+          session_id String,
+          prompt_tokens UInt32,
+          completion_tokens UInt32,
+          latency_ms UInt32,
+          cost_usd Float64,
+          status LowCardinality(String),
+          downgraded UInt8
+        )
+        ENGINE = MergeTree
+        PARTITION BY toYYYYMM(created_at)
+        ORDER BY created_at
+      `);
+    } catch (error) {
+      this.logger.error(`Erro ao criar tabela de uso: ${error}`);
+    }
+  }
+
+  /**
+   * Registra uma chamada ao modelo com o contexto da requisição. Falhas ao
+   * gravar só são logadas: a contabilização nunca derruba a chamada.
+   */
+  async record(
+    call: UsageCall,
+    context: RequestContext | undefined = getRequestContext(),
+  ): Promise<void> {
+    const costUsd = call.usage
+      ? estimateCost(priceFor(call.model, this.prices), call.usage)
+      : 0;
+    this.addSpend(context?.userId, costUsd);
+
+    try {
+      await this.clickhouseService.insert(USAGE_TABLE, [
+        {
+          provider: call.provider,
+          model: call.model,
+          task: call.task,
+          operation: call.operation,
+          endpoint: context?.endpoint || '',
+          user_id: context?.userId || '',
+          job_id: context?.jobId || '',
+          session_id: context?.sessionId || '',
+          prompt_tokens: call.usage?.promptTokens || 0,
+          completion_tokens: call.usage?.completionTokens || 0,
+          latency_ms: Math.round(call.latencyMs),
+          cost_usd: costUsd,
+          status: call.status,
+          downgraded: call.downgraded ? 1 : 0,
+        },
+      ]);
+    } catch (error) {
+      this.logger.warn(`Erro ao registrar uso do modelo: ${error}`);
+    }
+  }
+
+  /**
+   * Orçamento esgotado no mês (total ou do usuário), se houver
+   */
+  async checkBudget(userId?: string): Promise<BudgetCheck | undefined> {
+    if (this.monthlyBudget > 0) {
+      const spentUsd = await this.monthlySpend();
+      if (spentUsd >= this.monthlyBudget) {
+        return { scope: 'total', spentUsd, limitUsd: this.monthlyBudget };
+      }
+    }
+    if (userId && this.userMonthlyBudget > 0) {
+      const spentUsd = await this.monthlySpend(userId);
+      if (spentUsd >= this.userMonthlyBudget) {
+        return { scope: 'user', spentUsd, limitUsd: this.userMonthlyBudget };
+      }
+    }
+    return undefined;
+  }
+
+  async budgetStatus(userId?: string): Promise<BudgetStatus> {
+    return {
+      month: currentMonth(),
+      action: this.budgetAction,
+      downgradeModel: this.downgradeModel,
+      total: {
+        spentUsd: await this.monthlySpend(),
+        limitUsd: this.monthlyBudget || null,
+      },
+      user: userId
+        ? {
+            userId,
+            spentUsd: await this.monthlySpend(userId),
+            limitUsd: this.userMonthlyBudget || null,
+          }
+        : undefined,
+    };
+  }
+
+  /**
+   * Chamadas, tokens, custo e latência agrupados por dia, usuário, vaga,
+   * sessão, endpoint ou modelo
+   */
+  async report(options: UsageReportOptions): Promise<UsageReport> {
+    const today = new Date().toISOString().slice(0, 10);
+    const from = options.from || `${currentMonth()}-01`;
+    const to = options.to || today;
+    const column = GROUP_COLUMNS[options.groupBy];
+    const params = { from, to, userId: options.userId, jobId: options.jobId };
+    const where = `
+        WHERE toDate(created_at) BETWEEN {from:Date} AND {to:Date}
+          ${options.userId ? 'AND user_id = {userId:String}' : ''}
+          ${options.jobId ? 'AND job_id = {jobId:String}' : ''}`;
+
+    const rows = await this.clickhouseService.query<UsageRowData>({
+      query: `
+        SELECT ${column} AS key, ${TOTALS_COLUMNS}
+        FROM ${USAGE_TABLE}${where}
+        GROUP BY key
+        ORDER BY ${options.groupBy === 'day' ? 'key' : 'costUsd DESC'}
+        LIMIT ${REPORT_MAX_ROWS}
+      `,
+      params,
+    });
+    // O total vem de uma query própria: as linhas param em REPORT_MAX_ROWS
+    const [total] = await this.clickhouseService.query<UsageRowData>({
+      query: `SELECT '' AS key, ${TOTALS_COLUMNS} FROM ${USAGE_TABLE}${where}`,
+      params,
+    });
+
+    return {
+      groupBy: options.groupBy,
+      from,
+      to,
+      rows: rows.map((row) => ({ key: row.key || null, ...toTotals(row) })),
+      total: toTotals(total),
+    };
+  }
+
+  /**
+   * Gasto do mês corrente (total ou de um usuário), com o cache de SPEND_REFRESH_MS
+   */
+  private async monthlySpend(userId?: string): Promise<number> {
+    const key = userId ? `user:${userId}` : 'total';
+    const month = currentMonth();
+    const cached = this.spend.get(key);
+    if (
+      cached &&
+      cached.month === month &&
+      Date.now() - cached.loadedAt < SPEND_REFRESH_MS
+    ) {
+      return cached.usd;
+    }
+
+    try {
+      const [row] = await this.clickhouseService.query<{ usd: number }>({
+        query: `
+          SELECT sum(cost_usd) AS usd
+          FROM ${USAGE_TABLE}
+          WHERE created_at >= toStartOfMonth(now())
+            ${userId ? 'AND user_id = {userId:String}' : ''}
+        `,
+        params: { userId },
+      });
+      const usd = Number(row?.usd || 0);
+      this.spend.set(key, { month, usd, loadedAt: Date.now() });
+      return usd;
+    } catch (error) {
+      // Sem o gasto não há como bloquear: melhor atender do que parar a busca
+      this.logger.warn(`Erro ao consultar gasto do mês: ${error}`);
+      return cached?.usd || 0;
+    }
+  }
+
+  private addSpend(userId: string | undefined, usd: number): void {
+    const month = currentMonth();
+    for (const key of ['total', ...(userId ? [`user:${userId}`] : [])]) {
+      const cached = this.spend.get(key);
+      if (cached?.month === month) cached.usd += usd;
+    }
+  }
+
+  /**
+   * LLM_PRICES={"meu-deployment":{"input":2.5,"output":10}} (USD por 1M tokens)
+   */
+  private parsePrices(raw?: string): Record<string, LlmPrice> {
+    if (!raw) return {};
+    try {
+      return JSON.parse(raw) as Record<string, LlmPrice>;
+    } catch (error) {
+      this.logger.warn(`LLM_PRICES inválido: ${error}`);
+      return {};
+    }
+  }
+}
+
+function currentMonth(): string {
+  return new Date().toISOString().slice(0, 7);
+}
+
+// Inteiros de 64 bits chegam do ClickHouse como string
+type UsageRowData = { key: string } & Record<
+  keyof UsageTotals,
+  string | number
+>;
+
+function toTotals(row: UsageRowData): UsageTotals {
+  return {
+    calls: Number(row.calls),
+    promptTokens: Number(row.promptTokens),
+    completionTokens: Number(row.completionTokens),
+    costUsd: Number(row.costUsd),
+    // avg() de nenhuma linha é nan
+    avgLatencyMs: Math.round(Number(row.avgLatencyMs)) || 0,
+    errors: Number(row.errors),
+  };
+}